@@ -14,7 +14,7 @@ export async function POST(request: NextRequest) {
     }
 
     const jobsManager = getJobsManager();
-    const aborted = jobsManager.abortJob(jobId);
+    const aborted = await jobsManager.abortJob(jobId);
 
     if (aborted) {
       return NextResponse.json({
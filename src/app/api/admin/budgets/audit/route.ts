@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin } from "@/lib/adminAuth";
+import { BUDGET_SCOPES, getBudgetManager } from "@/lib/budgetManager";
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Budget audit log, newest first: ?scopeType=&scopeId= narrow it to one scope, ?limit= (default 100)
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdmin(request);
+  if (auth.error) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const scopeType = searchParams.get("scopeType");
+    const scopeId = searchParams.get("scopeId");
+    const limit = Number(searchParams.get("limit") ?? 100);
+
+    if (scopeType !== null && !BUDGET_SCOPES.includes(scopeType)) {
+      return NextResponse.json(
+        { error: `scopeType must be one of: ${BUDGET_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ENTRIES) {
+      return NextResponse.json(
+        { error: `limit must be a whole number between 1 and ${MAX_ENTRIES}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getBudgetManager().getBudgetAudit({ scopeType, scopeId, limit });
+    return NextResponse.json({ success: true, entries });
+  } catch (error: any) {
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to read budget audit log",
+      },
+      { status: 500 }
+    );
+  }
+}
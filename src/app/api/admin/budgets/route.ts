@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin } from "@/lib/adminAuth";
+import { BUDGET_SCOPES, GLOBAL_SCOPE_ID, getBudgetManager } from "@/lib/budgetManager";
+
+const ACTIONS = ["reset", "top_up", "override", "clear_override"];
+
+// Errors of the budget manager that are not about the request itself
+const SERVER_ERROR = /^(Failed|Budget changed)/;
+
+/**
+ * Every scope of one type (?scopeType=user by default) with its caps, spend, override and last reset
+ */
+export async function GET(request: NextRequest) {
+  const auth = authenticateAdmin(request);
+  if (auth.error) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const scopeType = searchParams.get("scopeType") || "user";
+    if (!BUDGET_SCOPES.includes(scopeType)) {
+      return NextResponse.json(
+        { error: `scopeType must be one of: ${BUDGET_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const scopes = await getBudgetManager().listScopeReports(scopeType);
+    return NextResponse.json({ success: true, scopeType, scopes });
+  } catch (error: any) {
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to list budgets",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Change one scope's budget: { action: "reset" | "top_up" | "override" | "clear_override", scopeType, scopeId,
+ * amount? and period? (top_up), limits? and expiresAt? (override), reason? }. Audited under the admin's token name.
+ */
+export async function POST(request: NextRequest) {
+  const auth = authenticateAdmin(request);
+  if (auth.error) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { action, scopeType, amount, period, limits, expiresAt, reason = null } = body;
+    // The global scope has a single id
+    const scopeId = scopeType === "global" ? GLOBAL_SCOPE_ID : body.scopeId;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!BUDGET_SCOPES.includes(scopeType)) {
+      return NextResponse.json(
+        { error: `scopeType must be one of: ${BUDGET_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof scopeId !== "string" || !scopeId.trim() || scopeId.length > 100) {
+      return NextResponse.json(
+        { error: "scopeId must be a non-empty string of at most 100 characters" },
+        { status: 400 }
+      );
+    }
+
+    if (reason !== null && (typeof reason !== "string" || reason.length > 500)) {
+      return NextResponse.json(
+        { error: "reason must be a string of at most 500 characters" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "override" && (typeof limits !== "object" || limits === null || Array.isArray(limits))) {
+      return NextResponse.json(
+        { error: "limits must be an object of daily, monthly and/or lifetime caps" },
+        { status: 400 }
+      );
+    }
+
+    const budgetManager = getBudgetManager();
+    const change = { actor: auth.admin, reason: reason?.trim() || null };
+    const id = scopeId.trim();
+    let result;
+    try {
+      if (action === "reset") {
+        result = await budgetManager.resetScopeSpend(scopeType, id, change);
+      } else if (action === "top_up") {
+        result = await budgetManager.topUpScope(scopeType, id, { ...change, amount, period });
+      } else if (action === "override") {
+        result = await budgetManager.overrideScopeLimits(scopeType, id, { ...change, limits, expiresAt });
+      } else {
+        result = await budgetManager.clearScopeOverride(scopeType, id, change);
+      }
+    } catch (error: any) {
+      if (SERVER_ERROR.test(error.message)) throw error;
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, scope: result.report, audit: result.audit });
+  } catch (error: any) {
+    console.error("Error changing budget:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to change budget",
+      },
+      { status: 500 }
+    );
+  }
+}
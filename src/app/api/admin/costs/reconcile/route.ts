@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin } from "@/lib/adminAuth";
+import { reconcileProviderCosts } from "@/lib/videoEngine";
+
+const MAX_PREDICTIONS = 500;
+
+/**
+ * Settle renders still charged at our estimate at the cost their provider reports now.
+ * Optional body: { jobId, limit } (default 100 predictions, oldest first).
+ */
+export async function POST(request: NextRequest) {
+  const auth = authenticateAdmin(request);
+  if (auth.error) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const text = await request.text();
+    const { jobId = null, limit = 100 } = text ? JSON.parse(text) : {};
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (jobId !== null && (typeof jobId !== "string" || !uuidRegex.test(jobId))) {
+      return NextResponse.json(
+        { error: "Invalid job ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PREDICTIONS) {
+      return NextResponse.json(
+        { error: `limit must be a whole number between 1 and ${MAX_PREDICTIONS}` },
+        { status: 400 }
+      );
+    }
+
+    const summary = await reconcileProviderCosts({ jobId, limit });
+    console.log(`🧾 ${auth.admin}: reconciled ${summary.reconciled} of ${summary.checked} prediction charge(s)`);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: any) {
+    console.error("Error reconciling provider costs:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to reconcile provider costs",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { getBudgetManager, getOwnerScopes, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { RATE_LIMITS } from "@/lib/rateLimiter";
 
 export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const teamId = searchParams.get("teamId");
+    const projectId = searchParams.get("projectId");
+
+    for (const [field, value] of Object.entries({ userId, teamId, projectId })) {
+      if (value !== null && (!value.trim() || value.length > 100)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-empty string of at most 100 characters` },
+          { status: 400 }
+        );
+      }
+    }
+
     const budgetManager = getBudgetManager();
-    const status = budgetManager.getBudgetStatus();
+
+    // Caps and spend per scope; the user scope is only reported when a user is asked for
+    const scopes = await Promise.all(
+      getOwnerScopes({ userId, teamId, projectId })
+        .filter((scope: { scopeType: string }) => scope.scopeType !== "user" || userId)
+        .map((scope: { scopeType: string; scopeId: string }) => budgetManager.getScopeReport(scope.scopeType, scope.scopeId))
+    );
+    const remaining = scopes
+      .flatMap((scope: any) => Object.values(scope.remaining))
+      .filter((value: unknown): value is number => value !== null);
 
     return NextResponse.json({
       success: true,
-      budget: {
-        current: status.current,
-        max: MAX_BUDGET,
-        remaining: status.remaining,
-        percentage: status.percentage,
+      limits: {
+        // The most a single request may be estimated at; spend is only counted per scope
+        maxRequestCost: MAX_BUDGET,
+        scopes,
+        remaining: remaining.length > 0 ? Math.min(...remaining) : null,
       },
       rateLimits: {
         openai: {
-          perMinute: 60,
-          perHour: 5000,
+          perMinute: RATE_LIMITS.openai.requestsPerMinute,
+          perHour: RATE_LIMITS.openai.requestsPerHour,
         },
         replicate: {
-          perMinute: 10,
-          perHour: 500,
+          perMinute: RATE_LIMITS.replicate.requestsPerMinute,
+          perHour: RATE_LIMITS.replicate.requestsPerHour,
         },
       },
     });
@@ -34,4 +58,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
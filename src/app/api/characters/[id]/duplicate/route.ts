@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { duplicateCharacter } from "@/lib/characterStore";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Copy one of the user's characters or a system character into the user's own: { userId, name? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid character ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    const character = await duplicateCharacter(id, body.userId, { name: body.name });
+
+    return NextResponse.json({ success: true, character }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error duplicating character:", error);
+    const status = error.message?.startsWith("Character not found")
+      ? 404
+      : error.message?.startsWith("You already have")
+        ? 409
+        : error.message?.startsWith("Failed")
+          ? 500
+          : 400;
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to duplicate character",
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { uploadReferenceImage } from "@/lib/characterStore";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Upload a character's reference image: multipart form with `userId` and `image` (PNG, JPEG or WebP).
+ * Image-to-video models render the character's scenes from it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid character ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const image = form?.get("image");
+    if (!form || !image || typeof image === "string") {
+      return NextResponse.json(
+        { error: "Send the image as multipart form data in an `image` field" },
+        { status: 400 }
+      );
+    }
+
+    const character = await uploadReferenceImage(id, form.get("userId"), {
+      data: await image.arrayBuffer(),
+      contentType: image.type,
+    });
+
+    return NextResponse.json({ success: true, character });
+  } catch (error: any) {
+    console.error("Error uploading reference image:", error);
+    const status = error.message?.startsWith("Character not found")
+      ? 404
+      : error.message?.startsWith("System characters")
+        ? 403
+        : error.message?.startsWith("Failed")
+          ? 500
+          : 400;
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to upload reference image",
+      },
+      { status }
+    );
+  }
+}
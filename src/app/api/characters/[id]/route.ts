@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCharacter, updateCharacter } from "@/lib/characterStore";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Status for an error of the character store
+function errorStatus(message: string | undefined) {
+  if (message?.startsWith("Character not found")) return 404;
+  if (message?.startsWith("System characters")) return 403;
+  if (message?.startsWith("You already have")) return 409;
+  if (message?.startsWith("Failed")) return 500;
+  return 400;
+}
+
+/**
+ * Edit one of the user's characters: { userId, ...fields to change }. `null` clears an optional field.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid character ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    const { userId, ...fields } = body;
+    const character = await updateCharacter(id, userId, fields);
+
+    return NextResponse.json({
+      success: true,
+      character,
+    });
+  } catch (error: any) {
+    console.error("Error updating character:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to update character",
+      },
+      { status: errorStatus(error.message) }
+    );
+  }
+}
+
+/**
+ * Delete one of the user's characters (?userId=)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid character ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const userId = new URL(request.url).searchParams.get("userId");
+    await deleteCharacter(id, userId);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: any) {
+    console.error("Error deleting character:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to delete character",
+      },
+      { status: errorStatus(error.message) }
+    );
+  }
+}
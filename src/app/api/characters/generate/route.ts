@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateCharacter } from "@/lib/videoEngine";
+
+// Status for an error of the character builder
+function errorStatus(message: string | undefined) {
+  if (message?.startsWith("Rate limit")) return 429;
+  if (message?.startsWith("You already have")) return 409;
+  if (message?.startsWith("Generated profile")) return 502;
+  if (message?.startsWith("Failed") || message?.startsWith("No price")) return 500;
+  return 400;
+}
+
+/**
+ * Build a character from a short description: { description, userId?, name?, portrait?, save? }.
+ * `portrait` also draws a reference portrait; `save` creates the character under `userId`
+ * (201), otherwise the fields come back for the user to edit and create (200).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    const { description, userId = null, name = null, portrait = false, save = false } = body;
+    if (typeof portrait !== "boolean" || typeof save !== "boolean") {
+      return NextResponse.json({ error: "portrait and save must be true or false" }, { status: 400 });
+    }
+    if (name !== null && (typeof name !== "string" || !name.trim() || name.length > 100)) {
+      return NextResponse.json(
+        { error: "name must be a non-empty string of at most 100 characters" },
+        { status: 400 }
+      );
+    }
+    if (userId !== null && (typeof userId !== "string" || userId.trim().length < 2 || userId.length > 100)) {
+      return NextResponse.json({ error: "userId must be a name of 2 to 100 characters" }, { status: 400 });
+    }
+
+    const result = await generateCharacter({ description, userId, name: name?.trim() || null, portrait, save });
+
+    return NextResponse.json({ success: true, saved: save, ...result }, { status: save ? 201 : 200 });
+  } catch (error: any) {
+    console.error("Error generating character:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to generate character",
+      },
+      { status: errorStatus(error.message) }
+    );
+  }
+}
@@ -1,48 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+import { createCharacter, listCharacters } from "@/lib/characterStore";
 
+/**
+ * The shared system characters, plus the user's own with ?userId=
+ */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
-    const { data, error } = await supabase
-      .from("characters")
-      .select("*")
-      .order("name", { ascending: true });
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
-    // Transform data to match expected format (handle both old and new schema)
-    const transformedCharacters = (data || []).map((char: any) => {
-      // If profile is JSONB, extract fields
-      if (char.profile && typeof char.profile === 'object') {
-        return {
-          id: char.id,
-          name: char.name,
-          base_prompt: char.profile.base_prompt || "cinematic, realistic character",
-          personality: char.profile.personality || "realistic movie character",
-          reference_image: char.reference_image,
-          visual_details: char.profile.visual_details || null,
-        };
-      }
-      // Otherwise return as-is (backward compatibility)
-      return {
-        id: char.id,
-        name: char.name,
-        base_prompt: char.base_prompt || "cinematic, realistic character",
-        personality: char.personality || "realistic movie character",
-        reference_image: char.reference_image,
-        visual_details: char.visual_details || null,
-      };
-    });
+    const userId = new URL(request.url).searchParams.get("userId")?.trim() || null;
+    const characters = await listCharacters(userId);
 
     return NextResponse.json({
       success: true,
-      characters: transformedCharacters,
+      characters,
     });
   } catch (error: any) {
     console.error("Error fetching characters:", error);
@@ -55,3 +24,32 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Create a character: { userId, name, personality?, base_prompt?, visual_details?, reference_image?, seed? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    const { userId, ...fields } = body;
+    const character = await createCharacter(userId, fields);
+
+    return NextResponse.json({ success: true, character }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating character:", error);
+    const status = error.message?.startsWith("Failed")
+      ? 500
+      : error.message?.startsWith("You already have")
+        ? 409
+        : 400;
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to create character",
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBudgetManager } from "@/lib/budgetManager";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "YYYY-MM-DD" (a whole UTC day) or a full ISO timestamp
+function parseBound(value: string | null, field: string, { endOfDay = false } = {}) {
+  if (value === null) return null;
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${field} must be a date (YYYY-MM-DD) or an ISO timestamp`);
+  }
+  // A date-only "to" includes that whole day
+  return endOfDay && DATE_ONLY.test(value) ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const teamId = searchParams.get("teamId");
+    const projectId = searchParams.get("projectId");
+
+    let from = null;
+    let to = null;
+    try {
+      from = parseBound(searchParams.get("from"), "from");
+      to = parseBound(searchParams.get("to"), "to", { endOfDay: true });
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (from && to && from >= to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+    }
+
+    const budgetManager = getBudgetManager();
+    const [summary, drift] = await Promise.all([
+      budgetManager.getCostSummary({ from, to, userId, teamId, projectId }),
+      // Estimated vs provider-reported cost of video renders, per model
+      budgetManager.getCostDrift({ from, to, userId, teamId, projectId }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      filters: {
+        userId,
+        teamId,
+        projectId,
+        from: from?.toISOString() || null,
+        to: to?.toISOString() || null,
+      },
+      ...summary,
+      drift,
+    });
+  } catch (error: any) {
+    console.error("Error fetching costs:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to fetch costs",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createMovie } from "@/lib/videoEngine";
 import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { getEnv } from "@/lib/env";
 import { getJobsManager } from "@/lib/generationJobs";
-import { v4 as uuidv4 } from "uuid";
+import { startJobWorker } from "@/lib/jobWorker";
+import { normalizeTransition } from "@/lib/movieAssembler";
+import { getRateLimiter } from "@/lib/rateLimiter";
+import { estimateMovie, KEYFRAME_MODES } from "@/lib/videoEngine";
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,6 +18,11 @@ export async function POST(request: NextRequest) {
       sceneDuration,
       modelChain,
       projectName,
+      transition,
+      mode,
+      teamId,
+      projectId,
+      keyframes,
     } = body;
 
     // Validate required fields
@@ -39,14 +47,62 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // "storyboard" only writes the screenplay; it is rendered later from /api/storyboards/[id]/render
+    if (mode !== undefined && mode !== "movie" && mode !== "storyboard") {
+      return NextResponse.json(
+        { error: 'Mode must be "movie" or "storyboard"' },
+        { status: 400 }
+      );
+    }
+    const storyboardMode = mode === "storyboard";
+
+    // Optional: where scenes after the first take their starting image from
+    if (keyframes !== undefined && keyframes !== null && !KEYFRAME_MODES.includes(keyframes)) {
+      return NextResponse.json(
+        { error: `keyframes must be one of: ${KEYFRAME_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Optional team / project whose budgets this generation also counts against
+    for (const [field, value] of Object.entries({ teamId, projectId })) {
+      if (value !== undefined && value !== null && (typeof value !== "string" || !value.trim() || value.length > 100)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-empty string of at most 100 characters` },
+          { status: 400 }
+        );
+      }
+    }
+    const owner = {
+      userId: userName.trim(),
+      teamId: teamId?.trim() || null,
+      projectId: projectId?.trim() || null,
+    };
+
+    let movieTransition = null;
+    try {
+      movieTransition = normalizeTransition(transition);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     // Check budget and rate limits before starting
     const budgetManager = getBudgetManager();
     const modelName = modelChain?.[0] || "google/veo-3.1-fast";
-    const estimatedCost = budgetManager.calculateEstimatedCost(
-      totalDurationSeconds || 120,
-      sceneDuration || 6,
-      modelName
-    );
+    const openaiModel = getEnv().OPENAI_MODEL || "gpt-4o-mini";
+    // Priced the way the worker reserves it, so scene lengths are snapped to the model
+    let estimatedCost;
+    try {
+      estimatedCost = estimateMovie({
+        totalDurationSeconds: totalDurationSeconds || 120,
+        sceneDuration: sceneDuration || 6,
+        modelChain: modelChain || null,
+        mode: storyboardMode ? "storyboard" : "movie",
+        keyframes: keyframes || null,
+      }).cost;
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
 
     // Validate budget
     if (!budgetManager.isWithinBudget(estimatedCost)) {
@@ -60,20 +116,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const budgetStatus = budgetManager.getBudgetStatus();
-    if (budgetStatus.remaining < estimatedCost.total) {
+    const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost.total);
+    if (!budgetCheck.allowed) {
       return NextResponse.json(
         {
-          error: `Insufficient budget remaining. Remaining: $${budgetStatus.remaining.toFixed(4)}, Estimated: $${estimatedCost.total.toFixed(4)}`,
-          budgetStatus,
+          error: `Insufficient budget remaining. ${budgetCheck.reason}`,
+          budget: {
+            scopeType: budgetCheck.scopeType,
+            scopeId: budgetCheck.scopeId,
+            period: budgetCheck.period,
+            remaining: budgetCheck.remaining,
+          },
           estimatedCost,
         },
         { status: 400 }
       );
     }
 
-    // Check rate limits
-    const openaiRateLimit = budgetManager.checkRateLimit("openai", "api");
+    // Check rate limits (without using up a slot - the worker takes one per call it makes)
+    const rateLimiter = getRateLimiter();
+    const openaiRateLimit = await rateLimiter.check("openai", { model: openaiModel });
     if (!openaiRateLimit.allowed) {
       return NextResponse.json(
         {
@@ -84,87 +146,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const replicateRateLimit = budgetManager.checkRateLimit("replicate", "api");
-    if (!replicateRateLimit.allowed) {
-      return NextResponse.json(
-        {
-          error: `Replicate rate limit: ${replicateRateLimit.reason}`,
-          retryAfter: replicateRateLimit.retryAfter,
-        },
-        { status: 429 }
-      );
+    if (!storyboardMode) {
+      const replicateRateLimit = await rateLimiter.check("replicate", { model: modelName });
+      if (!replicateRateLimit.allowed) {
+        return NextResponse.json(
+          {
+            error: `Replicate rate limit: ${replicateRateLimit.reason}`,
+            retryAfter: replicateRateLimit.retryAfter,
+          },
+          { status: 429 }
+        );
+      }
     }
 
-    // Progress callback
-    const progressUpdates: any[] = [];
-    const onProgress = (progress: any) => {
-      progressUpdates.push(progress);
-    };
-
-    // Scene completion callback
-    const completedScenes: any[] = [];
-    const onSceneComplete = (scene: any) => {
-      completedScenes.push(scene);
-    };
-
-    // Create job for abort functionality
+    // Queue the job; the worker runs it scene by scene and persists each result
     const jobsManager = getJobsManager();
-    const jobId = uuidv4();
-    const abortController = jobsManager.createJob(jobId);
-
-    // Create the movie
-    let result;
-    try {
-      result = await createMovie({
+    const job = await jobsManager.enqueueJob({
+      userId: owner.userId, // Use user name as user_id
+      prompt: baseStoryPrompt,
+      request: {
         baseStoryPrompt,
         characterIds,
         totalDurationSeconds: totalDurationSeconds || 120,
         sceneDuration: sceneDuration || 6,
-        userId: userName.trim(), // Use user name as user_id
-        onProgress,
-        onSceneComplete,
         enableParallel: true,
         modelChain: modelChain || null,
         projectName: projectName || null,
-        abortSignal: abortController.signal,
-        jobId,
-      });
-      jobsManager.completeJob(jobId);
-    } catch (error: any) {
-      if (error.message?.includes("aborted") || error.message?.includes("Abort")) {
-        jobsManager.completeJob(jobId);
-        // Get final budget status even if aborted
-        const finalBudgetStatus = budgetManager.getBudgetStatus();
-        return NextResponse.json({
-          success: false,
-          aborted: true,
-          message: "Generation aborted by user. Partial progress saved.",
-          movie: result || null,
-          progress: progressUpdates,
-          budget: {
-            estimated: estimatedCost,
-            final: finalBudgetStatus,
-          },
-          jobId,
-        });
-      }
-      jobsManager.completeJob(jobId);
-      throw error;
-    }
-
-    // Get final budget status
-    const finalBudgetStatus = budgetManager.getBudgetStatus();
-
-    return NextResponse.json({
-      success: true,
-      movie: result,
-      progress: progressUpdates,
-      budget: {
-        estimated: estimatedCost,
-        final: finalBudgetStatus,
+        transition: movieTransition,
+        keyframes: keyframes || null,
+        teamId: owner.teamId,
+        projectId: owner.projectId,
+        ...(storyboardMode ? { mode: "storyboard" } : {}),
       },
-      jobId, // Return jobId so client can abort if needed
     });
+    startJobWorker();
+
+    return NextResponse.json(
+      {
+        success: true,
+        status: job.status,
+        budget: {
+          estimated: estimatedCost,
+        },
+        jobId: job.id, // Return jobId so client can track or abort the job
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
     console.error("Error creating video:", error);
     return NextResponse.json(
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { estimateMovie, KEYFRAME_MODES, VIDEO_CONSTRAINTS, VIDEO_MODELS } from "@/lib/videoEngine";
+
+/**
+ * Preflight for /api/create-video: what a request would cost, how long it would take and
+ * whether the owner's budgets allow it. Nothing is queued or charged.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      userName,
+      totalDurationSeconds = 120,
+      sceneDuration = VIDEO_CONSTRAINTS.DEFAULT_SCENE_DURATION,
+      modelChain = null,
+      enableParallel = true,
+      mode = "movie",
+      keyframes = null,
+      teamId,
+      projectId,
+    } = body;
+
+    if (typeof totalDurationSeconds !== "number" || totalDurationSeconds <= 0 || totalDurationSeconds > VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION) {
+      return NextResponse.json(
+        { error: `totalDurationSeconds must be a positive number of at most ${VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof sceneDuration !== "number" || sceneDuration < VIDEO_CONSTRAINTS.MIN_DURATION || sceneDuration > VIDEO_CONSTRAINTS.MAX_DURATION) {
+      return NextResponse.json(
+        { error: `sceneDuration must be a number between ${VIDEO_CONSTRAINTS.MIN_DURATION} and ${VIDEO_CONSTRAINTS.MAX_DURATION}` },
+        { status: 400 }
+      );
+    }
+
+    if (modelChain !== null) {
+      const unknown = Array.isArray(modelChain)
+        ? modelChain.filter((m: unknown) => typeof m !== "string" || !(m in VIDEO_MODELS))
+        : null;
+      if (!unknown || modelChain.length === 0 || unknown.length > 0) {
+        return NextResponse.json(
+          { error: `modelChain must be a non-empty list of known models${unknown?.length ? ` (unknown: ${unknown.join(", ")})` : ""}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (mode !== "movie" && mode !== "storyboard") {
+      return NextResponse.json(
+        { error: 'Mode must be "movie" or "storyboard"' },
+        { status: 400 }
+      );
+    }
+
+    if (keyframes !== null && !KEYFRAME_MODES.includes(keyframes)) {
+      return NextResponse.json(
+        { error: `keyframes must be one of: ${KEYFRAME_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of Object.entries({ userName, teamId, projectId })) {
+      if (value !== undefined && value !== null && (typeof value !== "string" || !value.trim() || value.length > 100)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-empty string of at most 100 characters` },
+          { status: 400 }
+        );
+      }
+    }
+    // Without a user name the caps of anonymous users apply
+    const owner = {
+      userId: userName?.trim() || null,
+      teamId: teamId?.trim() || null,
+      projectId: projectId?.trim() || null,
+    };
+
+    const estimate = estimateMovie({ totalDurationSeconds, sceneDuration, modelChain, enableParallel, mode, keyframes });
+
+    const budgetManager = getBudgetManager();
+    const withinRequestLimit = budgetManager.isWithinBudget(estimate.cost);
+    const [budgetCheck, worstCaseCheck] = await Promise.all([
+      budgetManager.checkBudget(owner, estimate.cost.total),
+      budgetManager.checkBudget(owner, estimate.cost.worstCase),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      estimate,
+      budget: {
+        allowed: withinRequestLimit && budgetCheck.allowed,
+        reason: !withinRequestLimit
+          ? `Estimated cost ($${estimate.cost.total.toFixed(4)}) exceeds maximum budget ($${MAX_BUDGET})`
+          : budgetCheck.allowed
+            ? null
+            : `Insufficient budget remaining. ${budgetCheck.reason}`,
+        worstCaseAllowed: budgetManager.isWithinBudget({ total: estimate.cost.worstCase }) && worstCaseCheck.allowed,
+        maxBudget: MAX_BUDGET,
+        remaining: budgetCheck.remaining,
+        ...(budgetCheck.allowed
+          ? {}
+          : { scopeType: budgetCheck.scopeType, scopeId: budgetCheck.scopeId, period: budgetCheck.period }),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error estimating video:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to estimate video",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobsManager } from "@/lib/generationJobs";
+
+export const dynamic = "force-dynamic";
+
+// A paused job ends its stream too; once resumed it can be followed again
+const TERMINAL_STATUSES = ["completed", "failed", "aborted", "paused"];
+const KEEPALIVE_MS = 15 * 1000; // 15 seconds
+
+/**
+ * Server-Sent Events stream of a job's live progress.
+ * Sends a `snapshot` of the persisted job first, then `progress`, `scene`, `fallback`,
+ * `cost`, `budget_alert` and `status` events as they happen, and closes after `done`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid job ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const jobsManager = getJobsManager();
+    const job = await jobsManager.getPersistedJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false;
+
+        const send = (type: string, data: any) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Stream was already cancelled by the client
+          }
+        };
+
+        send("snapshot", {
+          status: job.status,
+          progress: job.progress,
+          scenes: job.result?.scenes || [],
+          movieId: job.result?.movieId || null,
+          error: job.error,
+        });
+
+        if (TERMINAL_STATUSES.includes(job.status)) {
+          send("done", {
+            status: job.status,
+            movieId: job.result?.movieId || null,
+            storyboardId: job.result?.storyboardId || null,
+            error: job.error,
+          });
+          close();
+          return;
+        }
+
+        const unsubscribe = jobsManager.subscribe(id, (event: any) => {
+          send(event.type, event.data);
+          if (event.type === "done") close();
+        });
+
+        // Keepalive; also catches jobs finished by a worker on another server instance
+        const keepalive = setInterval(async () => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`: keepalive\n\n`));
+          try {
+            const current = await jobsManager.getPersistedJob(id);
+            if (current && TERMINAL_STATUSES.includes(current.status)) {
+              send("done", {
+                status: current.status,
+                movieId: current.result?.movieId || null,
+                storyboardId: current.result?.storyboardId || null,
+                error: current.error,
+              });
+              close();
+            }
+          } catch (error: any) {
+            console.error(`Error polling job ${id}:`, error);
+          }
+        }, KEEPALIVE_MS);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(keepalive);
+        };
+
+        request.signal.addEventListener("abort", close);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error streaming job events:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to stream job events",
+      },
+      { status: 500 }
+    );
+  }
+}
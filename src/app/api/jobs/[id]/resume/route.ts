@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobsManager } from "@/lib/generationJobs";
+import { startJobWorker } from "@/lib/jobWorker";
+
+/**
+ * Put a job paused by a budget soft stop back in the queue; it resumes from its last finished scene
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid job ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const jobsManager = getJobsManager();
+    const row = await jobsManager.getPersistedJob(id);
+    if (!row) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (!(await jobsManager.resumeJob(id))) {
+      return NextResponse.json(
+        { error: `Only paused jobs can be resumed (job is ${row.status})` },
+        { status: 409 }
+      );
+    }
+
+    startJobWorker();
+
+    return NextResponse.json({ success: true, jobId: id, status: "queued" });
+  } catch (error: any) {
+    console.error("Error resuming job:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to resume job",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobsManager } from "@/lib/generationJobs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid job ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const jobsManager = getJobsManager();
+    const row = await jobsManager.getPersistedJob(id);
+
+    if (!row) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: jobsManager.toJobSummary(row),
+    });
+  } catch (error: any) {
+    console.error("Error fetching job:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to fetch job",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobsManager } from "@/lib/generationJobs";
+
+const JOB_STATUSES = ["queued", "running", "paused", "completed", "failed", "aborted"];
+const MAX_JOBS = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get("limit") ?? "20";
+    const limit = /^\d+$/.test(limitParam) ? Math.min(parseInt(limitParam, 10), MAX_JOBS) : NaN;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: "limit must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+    const userId = searchParams.get("userId");
+    const status = (searchParams.get("status") || "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    const invalidStatus = status.find((s) => !JOB_STATUSES.includes(s));
+    if (invalidStatus) {
+      return NextResponse.json(
+        { error: `Invalid status "${invalidStatus}". Expected one of: ${JOB_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const jobsManager = getJobsManager();
+    const rows = await jobsManager.listJobs({ userId, status, limit });
+
+    return NextResponse.json({
+      success: true,
+      jobs: rows.map((row: any) => jobsManager.toJobSummary(row)),
+    });
+  } catch (error: any) {
+    console.error("Error fetching jobs:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to fetch jobs",
+      },
+      { status: 500 }
+    );
+  }
+}
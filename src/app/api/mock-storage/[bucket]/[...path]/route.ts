@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMockMode } from "@/lib/env";
+import { getMockStorageObject } from "@/lib/mockBackend";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Serve a file from the mock backend's in-memory storage (VIDEO_ENGINE_MODE=mock only).
+ * Supports single byte ranges so <video> can seek.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bucket: string; path: string[] }> }
+) {
+  if (!isMockMode()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { bucket, path } = await params;
+  const file = getMockStorageObject(bucket, path.join("/"));
+  if (!file) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const size = file.buffer.length;
+  const headers: Record<string, string> = {
+    "Content-Type": file.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "no-store",
+  };
+
+  const range = request.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? parseInt(range[1]) : Math.max(0, size - parseInt(range[2]));
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2]), size - 1) : size - 1;
+    if (start >= size || start > end) {
+      return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+    }
+    return new Response(new Uint8Array(file.buffer.subarray(start, end + 1)), {
+      status: 206,
+      headers: { ...headers, "Content-Range": `bytes ${start}-${end}/${size}`, "Content-Length": String(end - start + 1) },
+    });
+  }
+
+  return new Response(new Uint8Array(file.buffer), {
+    headers: { ...headers, "Content-Length": String(size) },
+  });
+}
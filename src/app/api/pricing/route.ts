@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { isMockMode } from "@/lib/env";
+import { getPricingCatalog, getVideoPrice } from "@/lib/pricingCatalog";
+import { VIDEO_MODELS } from "@/lib/videoEngine";
+
+export async function GET() {
+  try {
+    const catalog = getPricingCatalog();
+
+    // Enabled video models in fallback order; the offline placeholder only in mock mode
+    const video = Object.entries(VIDEO_MODELS)
+      .filter(([, model]: [string, any]) => model.enabled && (model.provider !== "mock" || isMockMode()))
+      .sort(([, a]: [string, any], [, b]: [string, any]) => a.priority - b.priority)
+      .map(([id, model]: [string, any]) => ({
+        model: id,
+        name: model.name,
+        label: catalog.video[id]?.label || model.name,
+        provider: model.provider,
+        // Models missing from the catalog are charged the default model's price
+        perSecond: getVideoPrice(id).perSecond,
+      }));
+
+    const openai = Object.entries(catalog.openai).map(([model, price]: [string, any]) => ({ model, ...price }));
+
+    return NextResponse.json({
+      success: true,
+      pricing: {
+        currency: catalog.currency,
+        defaults: catalog.defaults,
+        openai,
+        video,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error loading pricing catalog:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to load pricing",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { getJobsManager } from "@/lib/generationJobs";
+import { startJobWorker } from "@/lib/jobWorker";
+import { getRateLimiter } from "@/lib/rateLimiter";
+import {
+  claimStoryboardRender,
+  estimateMovie,
+  getStoryboard,
+  KEYFRAME_MODES,
+  releaseStoryboardRender,
+  setStoryboardRenderJob,
+  VIDEO_MODELS,
+} from "@/lib/videoEngine";
+
+// A claim whose job was never queued (the request died in between) stops blocking renders after this
+const RENDER_CLAIM_TIMEOUT_MS = 60 * 1000; // 1 minute
+
+/**
+ * The render a storyboard is busy with: a queued or running job, or a claim still being queued
+ */
+async function activeRender(storyboard: any) {
+  if (!storyboard.job_id) {
+    const claimedAt = Date.parse(storyboard.updated_at);
+    return storyboard.status === "rendering" && Date.now() - claimedAt < RENDER_CLAIM_TIMEOUT_MS ? { jobId: null } : null;
+  }
+  const renderJob = await getJobsManager().getPersistedJob(storyboard.job_id);
+  return renderJob && ["queued", "running"].includes(renderJob.status) ? { jobId: renderJob.id } : null;
+}
+
+/**
+ * Render an approved storyboard: queues a job that runs the video stage only
+ * (buildVideoPrompt + generateSceneVideo) on the storyboard's scenes.
+ * Optional body: { modelChain: string[] } overrides the chain chosen when drafting,
+ * { keyframes: "last_frame" | "generated" } starts each scene from the previous one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid storyboard ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const storyboard = await getStoryboard(id);
+    const jobsManager = getJobsManager();
+
+    // Only one render at a time per storyboard
+    const active = await activeRender(storyboard);
+    if (active) {
+      return NextResponse.json(
+        { error: "Storyboard is already being rendered", jobId: active.jobId },
+        { status: 409 }
+      );
+    }
+
+    const scenes = storyboard.scenes || [];
+    if (scenes.length === 0) {
+      return NextResponse.json(
+        { error: "Storyboard has no scenes to render" },
+        { status: 400 }
+      );
+    }
+
+    const modelChain = body?.modelChain ?? storyboard.metadata?.model_chain ?? null;
+    if (modelChain !== null && (!Array.isArray(modelChain) || modelChain.length === 0 || modelChain.some((m: unknown) => typeof m !== "string" || !(m in VIDEO_MODELS)))) {
+      return NextResponse.json(
+        { error: "modelChain must be a non-empty list of known models" },
+        { status: 400 }
+      );
+    }
+
+    const keyframes = body?.keyframes ?? null;
+    if (keyframes !== null && !KEYFRAME_MODES.includes(keyframes)) {
+      return NextResponse.json(
+        { error: `keyframes must be one of: ${KEYFRAME_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Check budget and rate limits before queueing
+    const budgetManager = getBudgetManager();
+    const totalDurationSeconds = scenes.length * storyboard.scene_duration;
+    let estimate;
+    try {
+      estimate = estimateMovie({ totalDurationSeconds, sceneDuration: storyboard.scene_duration, modelChain, keyframes });
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // The scripts are already written: only the storyboard's scenes (and their keyframes) are charged
+    const perScene = scenes.length / estimate.scenes;
+    const estimatedCost = {
+      openai: 0,
+      video: estimate.cost.video * perScene,
+      images: estimate.cost.images * perScene,
+      total: (estimate.cost.video + estimate.cost.images) * perScene,
+    };
+
+    if (!budgetManager.isWithinBudget(estimatedCost)) {
+      return NextResponse.json(
+        {
+          error: `Estimated cost ($${estimatedCost.total.toFixed(4)}) exceeds maximum budget ($${MAX_BUDGET})`,
+          estimatedCost,
+          maxBudget: MAX_BUDGET,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Renders are charged to whoever drafted the storyboard
+    const owner = {
+      userId: storyboard.user_id || "anonymous",
+      teamId: storyboard.metadata?.team_id || null,
+      projectId: storyboard.metadata?.project_id || null,
+    };
+    const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost.total);
+    if (!budgetCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: `Insufficient budget remaining. ${budgetCheck.reason}`,
+          budget: {
+            scopeType: budgetCheck.scopeType,
+            scopeId: budgetCheck.scopeId,
+            period: budgetCheck.period,
+            remaining: budgetCheck.remaining,
+          },
+          estimatedCost,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Checked without using up a slot - the worker takes one per scene it renders
+    const replicateRateLimit = await getRateLimiter().check("replicate", { model: modelChain?.[0] || "google/veo-3.1-fast" });
+    if (!replicateRateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: `Replicate rate limit: ${replicateRateLimit.reason}`,
+          retryAfter: replicateRateLimit.retryAfter,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Claimed before the job is queued, so of two requests checked at the same time only one queues a render
+    if (!(await claimStoryboardRender(storyboard.id, storyboard.updated_at))) {
+      const latest = await getStoryboard(id);
+      const claimed = await activeRender(latest);
+      return NextResponse.json(
+        claimed
+          ? { error: "Storyboard is already being rendered", jobId: claimed.jobId }
+          : { error: "Storyboard was changed while the render was being queued. Try again." },
+        { status: 409 }
+      );
+    }
+
+    // The job keeps its own copy of the scenes, so later edits don't change a render in progress
+    let job;
+    try {
+      job = await jobsManager.enqueueJob({
+        userId: owner.userId,
+        prompt: storyboard.story_premise,
+        request: {
+          baseStoryPrompt: storyboard.story_premise,
+          characterIds: storyboard.character_ids,
+          totalDurationSeconds,
+          sceneDuration: storyboard.scene_duration,
+          enableParallel: true,
+          modelChain,
+          projectName: storyboard.metadata?.project_name || null,
+          transition: storyboard.metadata?.transition || null,
+          styleReference: storyboard.metadata?.style_reference || null,
+          keyframes,
+          teamId: owner.teamId,
+          projectId: owner.projectId,
+          storyboardId: storyboard.id,
+          storyboard: scenes,
+        },
+      });
+    } catch (error) {
+      await releaseStoryboardRender(storyboard.id, storyboard);
+      throw error;
+    }
+    await setStoryboardRenderJob(storyboard.id, job.id);
+    startJobWorker();
+
+    return NextResponse.json(
+      {
+        success: true,
+        status: job.status,
+        budget: {
+          estimated: estimatedCost,
+        },
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error("Error rendering storyboard:", error);
+    const notFound = error.message?.startsWith("Storyboard not found");
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to render storyboard",
+      },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStoryboard, updateStoryboard } from "@/lib/videoEngine";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid storyboard ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const storyboard = await getStoryboard(id);
+
+    return NextResponse.json({
+      success: true,
+      storyboard,
+    });
+  } catch (error: any) {
+    console.error("Error fetching storyboard:", error);
+    const notFound = error.message?.startsWith("Storyboard not found");
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to fetch storyboard",
+      },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
+
+/**
+ * Save edits to a draft storyboard.
+ * Body: { scenes?: [{ id?, visual, dialogue, endHook, summary }], title?: string }
+ * The array order is the scene order, so reordering, inserting and deleting are all a full `scenes` update.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid storyboard ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || (body.scenes === undefined && body.title === undefined)) {
+      return NextResponse.json(
+        { error: "Nothing to update. Provide scenes and/or title." },
+        { status: 400 }
+      );
+    }
+
+    const storyboard = await updateStoryboard(id, { scenes: body.scenes, title: body.title });
+
+    return NextResponse.json({
+      success: true,
+      storyboard,
+    });
+  } catch (error: any) {
+    console.error("Error updating storyboard:", error);
+    const status = error.message?.startsWith("Storyboard not found")
+      ? 404
+      : error.message?.startsWith("Failed")
+        ? 500
+        : 400;
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to update storyboard",
+      },
+      { status }
+    );
+  }
+}
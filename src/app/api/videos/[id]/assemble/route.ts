@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assembleMovieById } from "@/lib/videoEngine";
+import { normalizeTransition } from "@/lib/movieAssembler";
+
+// Assembly downloads and re-encodes every clip, so give it room to finish
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid video ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    // Optional body: { transition: { type, duration }, sceneTransitions: { [sceneNumber]: { type, duration } } }
+    const body = await request.json().catch(() => ({}));
+    let transition = null;
+    const sceneTransitions: Record<string, any> = {};
+    try {
+      transition = normalizeTransition(body?.transition);
+      for (const [scene, sceneTransition] of Object.entries(body?.sceneTransitions || {})) {
+        sceneTransitions[scene] = normalizeTransition(sceneTransition);
+      }
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const movie = await assembleMovieById(id, { transition, sceneTransitions });
+
+    return NextResponse.json({
+      success: true,
+      finalVideoUrl: movie.final_video_url,
+      video: movie,
+    });
+  } catch (error: any) {
+    console.error("Error assembling video:", error);
+    const notFound = error.message?.startsWith("Movie not found");
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to assemble video",
+      },
+      { status: notFound ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { regenerateScene, VIDEO_MODELS } from "@/lib/videoEngine";
+
+// A scene render can take several minutes (plus model fallbacks)
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; n: string }> }
+) {
+  try {
+    const { id, n } = await params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid video ID format. Expected UUID." },
+        { status: 400 }
+      );
+    }
+
+    const sceneNumber = Number(n);
+    if (!Number.isInteger(sceneNumber) || sceneNumber < 1) {
+      return NextResponse.json(
+        { error: "Scene number must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    // Optional body: { rewrite: boolean, modelChain: string[] }
+    const body = await request.json().catch(() => ({}));
+    const rewrite = body?.rewrite === true;
+    let modelChain = null;
+    if (body?.modelChain !== undefined && body?.modelChain !== null) {
+      const unknown = Array.isArray(body.modelChain)
+        ? body.modelChain.filter((m: unknown) => typeof m !== "string" || !(m in VIDEO_MODELS))
+        : null;
+      if (!unknown || body.modelChain.length === 0 || unknown.length > 0) {
+        return NextResponse.json(
+          { error: `modelChain must be a non-empty list of known models${unknown?.length ? ` (unknown: ${unknown.join(", ")})` : ""}` },
+          { status: 400 }
+        );
+      }
+      modelChain = body.modelChain;
+    }
+
+    const { movie, scene } = await regenerateScene(id, sceneNumber, { rewrite, modelChain });
+
+    return NextResponse.json({
+      success: true,
+      scene,
+      video: movie,
+    });
+  } catch (error: any) {
+    console.error("Error regenerating scene:", error);
+    const status = error.message?.startsWith("Movie not found")
+      ? 404
+      : error.message?.includes("out of range")
+        ? 400
+        : error.message?.includes("kept changing")
+          ? 409
+          : 500;
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to regenerate scene",
+      },
+      { status }
+    );
+  }
+}
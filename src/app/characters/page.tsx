@@ -0,0 +1,471 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+const emptyForm = {
+  name: "",
+  personality: "",
+  base_prompt: "",
+  visual_details: "",
+  voice: "",
+  consistency_checklist: "", // One item per line
+};
+
+// The form's checklist text as the list the API takes
+const checklistItems = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+export default function CharactersPage() {
+  const [userName, setUserName] = useState("");
+  const [characters, setCharacters] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // null = new character
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [referenceImage, setReferenceImage] = useState<string | null>(null);
+  const [description, setDescription] = useState("");
+  const [withPortrait, setWithPortrait] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Load user name from localStorage
+  useEffect(() => {
+    const savedUserName = localStorage.getItem("videoMaker_userName");
+    if (savedUserName) {
+      setUserName(savedUserName);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCharacters();
+  }, [userName]);
+
+  const owner = userName.trim();
+  const hasOwner = owner.length >= 2;
+  const ownCharacters = characters.filter((char) => !char.system);
+  const systemCharacters = characters.filter((char) => char.system);
+
+  const fetchCharacters = async () => {
+    try {
+      setLoading(true);
+      const url = hasOwner ? `/api/characters?userId=${encodeURIComponent(owner)}` : "/api/characters";
+      const response = await fetch(url);
+      const data = await response.json();
+
+      if (data.success) {
+        setCharacters(data.characters || []);
+      } else {
+        setError(data.error || "Failed to load characters");
+      }
+    } catch (err: any) {
+      console.error("Error fetching characters:", err);
+      setError(err.message || "Failed to load characters");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectCharacter = (char: any | null) => {
+    setError(null);
+    setSelectedId(char?.id || null);
+    setReferenceImage(char?.reference_image || null);
+    setForm(
+      char
+        ? {
+            name: char.name,
+            personality: char.personality || "",
+            base_prompt: char.base_prompt || "",
+            visual_details: char.visual_details || "",
+            voice: char.voice || "",
+            consistency_checklist: (char.consistency_checklist || []).join("\n"),
+          }
+        : emptyForm
+    );
+  };
+
+  // Runs one character request and reloads the list; returns the response, or null if it failed
+  const send = async (url: string, method: string, body?: any) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      localStorage.setItem("videoMaker_userName", owner);
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify({ userId: owner, ...body }) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      await fetchCharacters();
+      return data;
+    } catch (err: any) {
+      setError(err.message || "Request failed");
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasOwner) {
+      setError("Please enter your name (at least 2 characters)");
+      return;
+    }
+    const fields = { ...form, consistency_checklist: checklistItems(form.consistency_checklist) };
+    const data = selectedId
+      ? await send(`/api/characters/${selectedId}`, "PUT", fields)
+      : await send("/api/characters", "POST", { ...fields, reference_image: referenceImage });
+    if (data) selectCharacter(data.character);
+  };
+
+  // Fills the new-character form with a generated profile to review before creating it
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/characters/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ description, userId: hasOwner ? owner : null, portrait: withPortrait }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Generation failed");
+      }
+      selectCharacter(null);
+      setReferenceImage(data.character.reference_image || null);
+      setForm({
+        name: data.character.name,
+        personality: data.character.personality,
+        base_prompt: data.character.base_prompt,
+        visual_details: data.character.visual_details,
+        voice: data.character.voice,
+        consistency_checklist: data.character.consistency_checklist.join("\n"),
+      });
+    } catch (err: any) {
+      setError(err.message || "Generation failed");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDuplicate = async (char: any) => {
+    if (!hasOwner) {
+      setError("Please enter your name (at least 2 characters)");
+      return;
+    }
+    const data = await send(`/api/characters/${char.id}/duplicate`, "POST", {});
+    if (data) selectCharacter(data.character);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !confirm(`Delete "${form.name}"? Videos already made with it are kept.`)) return;
+    const data = await send(`/api/characters/${selectedId}?userId=${encodeURIComponent(owner)}`, "DELETE");
+    if (data) selectCharacter(null);
+  };
+
+  // Image-to-video models start this character's scenes from the reference image
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !selectedId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const upload = new FormData();
+      upload.set("userId", owner);
+      upload.set("image", file);
+      const response = await fetch(`/api/characters/${selectedId}/reference-image`, { method: "POST", body: upload });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Upload failed");
+      }
+      setReferenceImage(data.character.reference_image);
+      await fetchCharacters();
+    } catch (err: any) {
+      setError(err.message || "Upload failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveImage = async () => {
+    if (!selectedId) return;
+    const data = await send(`/api/characters/${selectedId}`, "PUT", { reference_image: null });
+    if (data) setReferenceImage(null);
+  };
+
+  const renderCard = (char: any) => (
+    <div
+      key={char.id}
+      className={`p-3 rounded-lg transition-colors ${
+        selectedId === char.id
+          ? "bg-white/30 border-2 border-white"
+          : "bg-white/10 border border-white/20 hover:bg-white/20"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => (char.system ? null : selectCharacter(char))}
+          disabled={char.system}
+          className="text-left flex-1 disabled:cursor-default"
+        >
+          <div className="text-white font-medium">{char.name}</div>
+          <div className="text-white/60 text-sm">{char.personality}</div>
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDuplicate(char)}
+          disabled={isSaving}
+          className="text-white/80 hover:text-white text-sm underline disabled:opacity-50"
+        >
+          Duplicate
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-500 via-purple-600 to-pink-500 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">🧑‍🎨 Characters</h1>
+          <p className="text-xl text-white/80">
+            Create the cast of your movies, or start from a copy of a shared character
+          </p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-6">
+          <label className="block text-white font-semibold mb-2">Your Name</label>
+          <input
+            type="text"
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            placeholder="The name you create videos under"
+            className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-white rounded-lg p-4 mb-6">❌ {error}</div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-white font-semibold text-lg">My Characters</h2>
+                <button
+                  type="button"
+                  onClick={() => selectCharacter(null)}
+                  className="text-white/80 hover:text-white text-sm underline"
+                >
+                  ➕ New Character
+                </button>
+              </div>
+              {loading ? (
+                <p className="text-white/60">Loading...</p>
+              ) : ownCharacters.length === 0 ? (
+                <p className="text-white/60">
+                  {hasOwner ? "No characters yet." : "Enter your name to see your characters."}
+                </p>
+              ) : (
+                <div className="space-y-2">{ownCharacters.map(renderCard)}</div>
+              )}
+            </div>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-white font-semibold text-lg mb-3">✨ Generate from a Description</h2>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g. a retired circus strongman turned lighthouse keeper"
+                maxLength={1000}
+                rows={3}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white mb-3"
+              />
+              <label className="flex items-center gap-2 text-white/80 text-sm mb-3">
+                <input type="checkbox" checked={withPortrait} onChange={(e) => setWithPortrait(e.target.checked)} />
+                Also draw a reference portrait (paid per image)
+              </label>
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={isGenerating || description.trim().length < 3}
+                className="w-full bg-white/20 border border-white/40 text-white px-4 py-2 rounded-lg font-semibold hover:bg-white/30 transition-colors disabled:opacity-50"
+              >
+                {isGenerating ? "Generating..." : "✨ Generate Profile"}
+              </button>
+              <p className="text-white/60 text-xs mt-2">The profile fills the form below; review it, then create the character.</p>
+            </div>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-white font-semibold text-lg mb-3">Shared Characters</h2>
+              <div className="space-y-2">{systemCharacters.map(renderCard)}</div>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleSave}
+            className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-4 h-fit"
+          >
+            <h2 className="text-white font-semibold text-lg">
+              {selectedId ? `Edit ${form.name || "Character"}` : "New Character"}
+            </h2>
+
+            <div>
+              <label className="block text-white mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={100}
+                required
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-white mb-1">Personality</label>
+              <input
+                type="text"
+                value={form.personality}
+                onChange={(e) => setForm({ ...form, personality: e.target.value })}
+                placeholder="e.g. Sci-Fi Explorer"
+                maxLength={200}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-white mb-1">Base Prompt</label>
+              <textarea
+                value={form.base_prompt}
+                onChange={(e) => setForm({ ...form, base_prompt: e.target.value })}
+                placeholder="e.g. cinematic, realistic scientist character"
+                maxLength={1000}
+                rows={3}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-white mb-1">Visual Details</label>
+              <textarea
+                value={form.visual_details}
+                onChange={(e) => setForm({ ...form, visual_details: e.target.value })}
+                placeholder="Face, hair, wardrobe and colors that must stay the same in every scene"
+                maxLength={2000}
+                rows={4}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-white mb-1">Voice</label>
+              <input
+                type="text"
+                value={form.voice}
+                onChange={(e) => setForm({ ...form, voice: e.target.value })}
+                placeholder="Pitch, pace, accent and any verbal habits"
+                maxLength={500}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-white mb-1">Consistency Checklist</label>
+              <textarea
+                value={form.consistency_checklist}
+                onChange={(e) => setForm({ ...form, consistency_checklist: e.target.value })}
+                placeholder="One visual fact per line that must be true in every frame"
+                rows={4}
+                className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white"
+              />
+            </div>
+
+            {!selectedId && referenceImage && (
+              <div>
+                <label className="block text-white mb-1">Generated Portrait</label>
+                <div className="flex items-start gap-3">
+                  <img src={referenceImage} alt={form.name} className="w-32 h-32 object-cover rounded-lg border border-white/30" />
+                  <button
+                    type="button"
+                    onClick={() => setReferenceImage(null)}
+                    className="text-white/80 hover:text-white text-sm underline"
+                  >
+                    Don&apos;t use
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {selectedId && (
+              <div>
+                <label className="block text-white mb-1">Reference Image</label>
+                <p className="text-white/60 text-sm mb-2">
+                  Image-to-video models start this character&apos;s scenes from it (PNG, JPEG or WebP, up to 10 MB)
+                </p>
+                {referenceImage && (
+                  <div className="flex items-start gap-3 mb-2">
+                    <img src={referenceImage} alt={form.name} className="w-32 h-32 object-cover rounded-lg border border-white/30" />
+                    <button
+                      type="button"
+                      onClick={handleRemoveImage}
+                      disabled={isSaving}
+                      className="text-white/80 hover:text-white text-sm underline disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  disabled={isSaving}
+                  onChange={(e) => {
+                    handleUpload(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  className="block w-full text-white/80 text-sm"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 bg-white text-purple-600 px-4 py-2 rounded-lg font-semibold hover:bg-white/90 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : selectedId ? "💾 Save Changes" : "➕ Create Character"}
+              </button>
+              {selectedId && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="px-4 py-2 rounded-lg bg-red-500/30 border border-red-400 text-white hover:bg-red-500/50 transition-colors disabled:opacity-50"
+                >
+                  🗑️ Delete
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        <div className="text-center mt-8">
+          <Link href="/create" className="text-white/80 hover:text-white underline">
+            ← Back to Create
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
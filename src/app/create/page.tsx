@@ -16,6 +16,10 @@ export default function CreatePage() {
     qualityPriority: "quality" as "speed" | "quality",
     enableParallel: true,
     budget: 0,
+    transition: "cut",
+    transitionDuration: 0.5,
+    keyframes: "",
+    workflow: "render" as "render" | "storyboard",
   });
 
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -26,6 +30,14 @@ export default function CreatePage() {
   const [isGeneratingPreset, setIsGeneratingPreset] = useState(false);
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
   const [isAborting, setIsAborting] = useState(false);
+  const [sceneStatuses, setSceneStatuses] = useState<Record<number, any>>({});
+  const [costSoFar, setCostSoFar] = useState<number | null>(null);
+  const [budgetAlert, setBudgetAlert] = useState<any>(null);
+  const [pausedJob, setPausedJob] = useState<any>(null);
+  const [storyboard, setStoryboard] = useState<any>(null);
+  const [isSavingStoryboard, setIsSavingStoryboard] = useState(false);
+  const [models, setModels] = useState<{ model: string; label: string; perSecond: number }[]>([]);
+  const [estimate, setEstimate] = useState<any>(null);
 
   // Load user name from localStorage on mount
   useEffect(() => {
@@ -35,9 +47,10 @@ export default function CreatePage() {
     }
   }, []);
 
-  // Fetch characters from API
+  // Fetch the shared characters and the user's own from API
   useEffect(() => {
-    fetch("/api/characters")
+    const owner = formData.userName.trim();
+    fetch(owner.length >= 2 ? `/api/characters?userId=${encodeURIComponent(owner)}` : "/api/characters")
       .then((res) => res.json())
       .then((data) => {
         if (data.success) {
@@ -55,8 +68,131 @@ export default function CreatePage() {
           { id: "char-5", name: "👨‍🚀 Nova Pilot", personality: "Astronaut" },
         ]);
       });
+  }, [formData.userName]);
+
+  // Fetch model prices from the pricing catalog
+  useEffect(() => {
+    fetch("/api/pricing")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setModels(data.pricing.video);
+        }
+      })
+      .catch((err) => console.error("Error fetching pricing:", err));
   }, []);
 
+  // Preflight the current settings: cost, time and whether the budget allows it
+  useEffect(() => {
+    if (formData.customDuration < 30) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch("/api/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userName: formData.userName.trim() || undefined,
+          totalDurationSeconds: formData.customDuration,
+          sceneDuration: formData.sceneDuration,
+          modelChain: formData.modelPreference ? [formData.modelPreference] : null,
+          enableParallel: formData.enableParallel,
+          mode: formData.workflow === "storyboard" ? "storyboard" : "movie",
+          keyframes: formData.keyframes || null,
+        }),
+        signal: controller.signal,
+      })
+        .then((res) => res.json())
+        .then((data) => setEstimate(data.success ? data : null))
+        .catch((err) => {
+          if (err.name !== "AbortError") console.error("Error fetching estimate:", err);
+        });
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    formData.userName,
+    formData.customDuration,
+    formData.sceneDuration,
+    formData.modelPreference,
+    formData.enableParallel,
+    formData.workflow,
+    formData.keyframes,
+  ]);
+
+  // Stream live job progress while a generation is running
+  useEffect(() => {
+    if (!currentJobId) return;
+
+    const source = new EventSource(`/api/jobs/${currentJobId}/events`);
+    const updateScene = (scene: number, update: any) =>
+      setSceneStatuses((prev) => ({ ...prev, [scene]: { ...prev[scene], ...update } }));
+
+    source.addEventListener("snapshot", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setProgress({ status: data.status, percentage: data.progress || 0 });
+      (data.scenes || []).forEach((scene: any) =>
+        updateScene(scene.scene, { status: "completed", model: scene.model })
+      );
+    });
+    source.addEventListener("progress", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setProgress(data);
+      updateScene(data.scene, { status: data.status, error: data.error });
+    });
+    source.addEventListener("scene", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      updateScene(data.scene, { status: "completed", model: data.model });
+    });
+    source.addEventListener("fallback", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      updateScene(data.scene, { fallback: `${data.model} failed, trying ${data.remainingModels?.[0] || "nothing else"}` });
+    });
+    source.addEventListener("cost", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setCostSoFar(data.cost);
+    });
+    source.addEventListener("budget_alert", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setBudgetAlert(data.alert);
+    });
+    source.addEventListener("done", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      source.close();
+      setIsSubmitting(false);
+      setIsAborting(false);
+      setCurrentJobId(null);
+      if (data.status === "aborted") {
+        setError("Generation was aborted. Partial progress has been saved.");
+      } else if (data.status === "paused") {
+        setPausedJob({ id: currentJobId, ...data });
+      } else if (data.status === "failed") {
+        setError(data.error || "Video generation failed");
+      }
+      if (data.storyboardId) {
+        // Script-first run finished: open the draft in the storyboard editor
+        fetch(`/api/storyboards/${data.storyboardId}`)
+          .then((res) => res.json())
+          .then((result) => {
+            if (!result.success) throw new Error(result.error || "Failed to load storyboard");
+            setStoryboard(result.storyboard);
+            setProgress(null);
+            setSceneStatuses({});
+          })
+          .catch((err) => setError(err.message || "Failed to load storyboard"));
+      } else if (data.movieId) {
+        router.push(`/video/${data.movieId}`);
+      } else if (data.status === "completed") {
+        router.push(`/gallery?created=true`);
+      }
+    });
+
+    return () => source.close();
+  }, [currentJobId, router]);
+
   const contentTypes = [
     { value: "short-film", label: "🎭 Short Film / Narrative" },
     { value: "educational", label: "📚 Educational / Explainer" },
@@ -107,25 +243,19 @@ export default function CreatePage() {
     },
   ];
 
-  const models = [
-    { value: "google/veo-3.1-fast", label: "🏆 Premium Quality ($0.015/sec)", cost: 0.015 },
-    { value: "luma/dream-machine", label: "🎬 Balanced Professional ($0.01/sec)", cost: 0.01 },
-    { value: "stability-ai/svd", label: "💰 Budget Friendly ($0.008/sec)", cost: 0.008 },
-    { value: "anotherjesse/zeroscope-v2-xl", label: "⚡ Ultra Budget ($0.007/sec)", cost: 0.007 },
-  ];
 
+  const transitions = [
+    { value: "cut", label: "✂️ Hard Cut" },
+    { value: "crossfade", label: "🌫️ Crossfade" },
+    { value: "dip-to-black", label: "🌑 Dip to Black" },
+    { value: "whip-pan", label: "💨 Whip-Pan Blur" },
+  ];
 
-  const calculateCost = () => {
-    const totalScenes = Math.ceil(formData.customDuration / formData.sceneDuration);
-    const model = models.find(m => m.value === formData.modelPreference);
-    if (!model) return 0;
-    return totalScenes * formData.sceneDuration * model.cost;
-  };
-
-  const estimatedTime = () => {
-    const totalScenes = Math.ceil(formData.customDuration / formData.sceneDuration);
-    return Math.ceil(totalScenes * 0.4); // ~24 seconds per scene average
-  };
+  const keyframeOptions = [
+    { value: "", label: "🖼️ Character reference image" },
+    { value: "last_frame", label: "🎞️ Previous scene's last frame" },
+    { value: "generated", label: "🎨 Generated keyframe (paid per image)" },
+  ];
 
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -154,6 +284,10 @@ export default function CreatePage() {
     setIsSubmitting(true);
     setError(null);
     setProgress(null);
+    setSceneStatuses({});
+    setCostSoFar(null);
+    setBudgetAlert(null);
+    setPausedJob(null);
 
     try {
       // Validate user name
@@ -188,6 +322,12 @@ export default function CreatePage() {
           sceneDuration: sceneDuration,
           modelChain: formData.modelPreference ? [formData.modelPreference] : null,
           projectName: formData.contentType,
+          transition:
+            formData.transition === "cut"
+              ? null
+              : { type: formData.transition, duration: formData.transitionDuration },
+          mode: formData.workflow === "storyboard" ? "storyboard" : "movie",
+          keyframes: formData.keyframes || null,
         }),
       });
 
@@ -197,31 +337,11 @@ export default function CreatePage() {
         throw new Error(data.error || "Failed to create video");
       }
 
-      // Store jobId for abort functionality
+      // The job is queued and runs in the background; keep its ID for abort functionality
       if (data.jobId) {
         setCurrentJobId(data.jobId);
       }
-
-      // Handle aborted generation
-      if (data.aborted) {
-        setIsSubmitting(false);
-        setIsAborting(false);
-        setCurrentJobId(null);
-        setError("Generation was aborted. Partial progress has been saved.");
-        if (data.movie?.dbRecord?.id) {
-          router.push(`/video/${data.movie.dbRecord.id}`);
-        }
-        return;
-      }
-
-      // Redirect to video page or gallery
-      if (data.movie?.dbRecord?.id) {
-        router.push(`/video/${data.movie.dbRecord.id}`);
-      } else if (data.movie?.movieId) {
-        router.push(`/video/${data.movie.movieId}`);
-      } else {
-        router.push(`/gallery?created=true`);
-      }
+      setProgress({ status: data.status || "queued", percentage: 0 });
     } catch (err: any) {
       console.error("Error creating video:", err);
       setError(err.message || "Failed to create video. Please try again.");
@@ -230,6 +350,99 @@ export default function CreatePage() {
     }
   };
 
+  // Storyboard editing - the array order is the scene order
+  const updateStoryboardScene = (index: number, field: string, value: string) => {
+    setStoryboard((prev: any) => ({
+      ...prev,
+      scenes: prev.scenes.map((scene: any, i: number) => (i === index ? { ...scene, [field]: value } : scene)),
+    }));
+  };
+
+  const moveStoryboardScene = (index: number, direction: -1 | 1) => {
+    setStoryboard((prev: any) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.scenes.length) return prev;
+      const scenes = [...prev.scenes];
+      [scenes[index], scenes[target]] = [scenes[target], scenes[index]];
+      return { ...prev, scenes };
+    });
+  };
+
+  const insertStoryboardScene = (index: number) => {
+    setStoryboard((prev: any) => {
+      const scenes = [...prev.scenes];
+      scenes.splice(index + 1, 0, { visual: "", dialogue: "", endHook: "", summary: "" });
+      return { ...prev, scenes };
+    });
+  };
+
+  const deleteStoryboardScene = (index: number) => {
+    setStoryboard((prev: any) => ({
+      ...prev,
+      scenes: prev.scenes.filter((_: any, i: number) => i !== index),
+    }));
+  };
+
+  const saveStoryboard = async () => {
+    const response = await fetch(`/api/storyboards/${storyboard.id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ scenes: storyboard.scenes }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save storyboard");
+    }
+    setStoryboard(data.storyboard);
+    return data.storyboard;
+  };
+
+  const handleSaveStoryboard = async () => {
+    setIsSavingStoryboard(true);
+    setError(null);
+    try {
+      await saveStoryboard();
+    } catch (err: any) {
+      console.error("Error saving storyboard:", err);
+      setError(err.message || "Failed to save storyboard");
+    } finally {
+      setIsSavingStoryboard(false);
+    }
+  };
+
+  const handleRenderStoryboard = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setSceneStatuses({});
+    setCostSoFar(null);
+    setBudgetAlert(null);
+    setPausedJob(null);
+    try {
+      const saved = await saveStoryboard();
+      const response = await fetch(`/api/storyboards/${saved.id}/render`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          modelChain: formData.modelPreference ? [formData.modelPreference] : null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to render storyboard");
+      }
+      setCurrentJobId(data.jobId);
+      setProgress({ status: data.status || "queued", percentage: 0 });
+    } catch (err: any) {
+      console.error("Error rendering storyboard:", err);
+      setError(err.message || "Failed to render storyboard");
+      setIsSubmitting(false);
+    }
+  };
+
   const handleAbort = async () => {
     if (!currentJobId) return;
 
@@ -245,13 +458,8 @@ export default function CreatePage() {
 
       const data = await response.json();
       if (data.success) {
+        // The event stream sends "done" once the worker has stopped
         setError("Generation aborted. Stopping current operations...");
-        // Wait a moment for the abort to process
-        setTimeout(() => {
-          setIsSubmitting(false);
-          setIsAborting(false);
-          setCurrentJobId(null);
-        }, 2000);
       } else {
         setError(data.error || "Failed to abort generation");
         setIsAborting(false);
@@ -263,6 +471,125 @@ export default function CreatePage() {
     }
   };
 
+  const handleResume = async () => {
+    if (!pausedJob) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${pausedJob.id}/resume`, { method: "POST" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Failed to resume generation");
+
+      setError(null);
+      setBudgetAlert(null);
+      setPausedJob(null);
+      setIsSubmitting(true);
+      setCurrentJobId(data.jobId);
+    } catch (err: any) {
+      console.error("Error resuming job:", err);
+      setError(err.message || "Failed to resume generation");
+    }
+  };
+
+  const statusPanels = (
+    <>
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 text-white">
+          <p className="font-semibold">❌ Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Paused by a budget soft stop */}
+      {pausedJob && (
+        <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-lg p-4 text-white">
+          <p className="font-semibold">⏸️ Paused by the budget soft stop</p>
+          <p>
+            The {pausedJob.budgetAlert?.period} budget reached {pausedJob.budgetAlert?.threshold}%.{" "}
+            {pausedJob.successfulScenes}/{pausedJob.totalScenes} scenes are saved; resume once the budget allows.
+          </p>
+          <button
+            onClick={handleResume}
+            className="mt-3 bg-yellow-500 hover:bg-yellow-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+          >
+            ▶️ Resume
+          </button>
+        </div>
+      )}
+
+      {/* Progress Display */}
+      {(progress || isSubmitting) && (
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-white font-semibold">⚡ Generation Progress</h3>
+            {currentJobId && (
+              <button
+                type="button"
+                onClick={handleAbort}
+                disabled={isAborting}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg font-semibold hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAborting ? "Aborting..." : "🛑 Abort Generation"}
+              </button>
+            )}
+          </div>
+          {progress && (
+            <div className="mb-2">
+              <div className="flex justify-between text-white mb-2">
+                <span>Progress: {progress.percentage || 0}%</span>
+                <span>{progress.status || "Starting..."}</span>
+              </div>
+              <div className="w-full bg-white/20 rounded-full h-4">
+                <div
+                  className="bg-white h-4 rounded-full transition-all duration-300"
+                  style={{ width: `${progress.percentage || 0}%` }}
+                />
+              </div>
+              {costSoFar !== null && (
+                <div className="text-white/70 text-sm mt-2">Cost so far: ${costSoFar.toFixed(4)}</div>
+              )}
+              {budgetAlert && (
+                <div className="text-yellow-300 text-sm mt-1">
+                  ⚠️ {budgetAlert.scopeType === "global" ? "Global" : budgetAlert.scopeType} {budgetAlert.period} budget at{" "}
+                  {budgetAlert.percent}% (${budgetAlert.spent.toFixed(2)} of ${budgetAlert.limit.toFixed(2)})
+                  {budgetAlert.softStop ? " - pausing after the scenes in progress" : ""}
+                </div>
+              )}
+              {progress.pacing && (
+                <div className="text-white/70 text-sm mt-1">
+                  Pacing: {progress.pacing.concurrency} scene(s) at once
+                  {progress.pacing.intervalMs > 0 ? `, renders ${Math.round(progress.pacing.intervalMs / 1000)}s apart` : ""}
+                </div>
+              )}
+            </div>
+          )}
+          {Object.keys(sceneStatuses).length > 0 && (
+            <div className="mt-4 space-y-1 max-h-64 overflow-y-auto">
+              {Object.entries(sceneStatuses)
+                .sort(([a], [b]) => Number(a) - Number(b))
+                .map(([scene, info]) => (
+                  <div key={scene} className="flex justify-between text-sm text-white/80">
+                    <span>Scene {scene}</span>
+                    <span>
+                      {info.status === "completed" ? "✅" : info.status === "failed" ? "❌" : "⏳"} {info.status}
+                      {info.model ? ` • ${info.model}` : ""}
+                      {info.fallback && info.status !== "completed" ? ` • ${info.fallback}` : ""}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          )}
+          {currentJobId && (
+            <p className="text-white/60 text-sm mt-4">
+              💰 Click "Abort Generation" to stop and save money. Partial progress will be saved.
+              You can also leave this page - the movie keeps generating and will appear in the gallery.
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-500 via-purple-600 to-pink-500 py-12 px-4">
       <div className="max-w-5xl mx-auto">
@@ -275,469 +602,629 @@ export default function CreatePage() {
           </p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* User Name Input */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              👤 Your Name
-            </label>
-            <p className="text-white/70 text-sm mb-4">
-              Enter your name to save videos under your account. This will be saved for future use.
-            </p>
-            <input
-              type="text"
-              value={formData.userName}
-              onChange={(e) => setFormData({ ...formData, userName: e.target.value })}
-              placeholder="Enter your name (e.g., John Doe)"
-              className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50"
-              required
-              minLength={2}
-            />
-          </div>
-
-          {/* AI Generator Button */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              🤖 AI Story Generator
-            </label>
-            <p className="text-white/70 text-sm mb-4">
-              Click a preset below to auto-fill a complete story, or write your own below.
-            </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {storyPresets.map((preset, index) => (
-                <button
-                  key={index}
-                  type="button"
-                  onClick={() => handleGeneratePreset(preset)}
-                  disabled={isGeneratingPreset}
-                  className="p-4 bg-white/10 hover:bg-white/20 border border-white/30 rounded-lg text-left transition-all hover:scale-105 disabled:opacity-50"
-                >
-                  <div className="font-semibold text-white mb-1">{preset.name}</div>
-                  <div className="text-white/60 text-xs">
-                    {formatDuration(preset.duration)} • {preset.contentType}
-                  </div>
-                </button>
-              ))}
+        {storyboard ? (
+          <div className="space-y-6">
+            {/* Storyboard Editor */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-2xl font-bold text-white mb-2">📋 Storyboard: {storyboard.title}</h2>
+              <p className="text-white/70 text-sm">
+                Review and edit the screenplay before paying for video. Reorder, insert or delete scenes, then render.
+                {" "}{storyboard.scenes.length} scene{storyboard.scenes.length !== 1 ? "s" : ""} × {storyboard.scene_duration}s
+                {" "}= {formatDuration(storyboard.scenes.length * storyboard.scene_duration)}
+              </p>
             </div>
-          </div>
 
-          {/* Story Input */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              Tell Us Your Story Vision
-            </label>
-            <textarea
-              value={formData.storyPrompt}
-              onChange={(e) => setFormData({ ...formData, storyPrompt: e.target.value })}
-              placeholder="Describe your video concept in detail. Be specific about:
-• Main plot or message
-• Setting and atmosphere
-• Character interactions
-• Key visual moments
-• Desired emotional tone
-
-Example: 'A sci-fi adventure where a time-traveling historian discovers ancient technology in 1920s Paris, blending steampunk aesthetics with futuristic elements. Focus on mystery, discovery, and the ethical dilemmas of changing history.'"
-              className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50 resize-none"
-              rows={8}
-              required
-            />
-          </div>
+            {storyboard.scenes.map((scene: any, index: number) => (
+              <div
+                key={scene.id || `new-${index}`}
+                className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20"
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-white font-semibold text-lg">Scene {index + 1}</h3>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => moveStoryboardScene(index, -1)}
+                      disabled={index === 0 || isSubmitting}
+                      className="px-3 py-1 bg-white/20 text-white rounded hover:bg-white/30 text-sm disabled:opacity-50"
+                    >
+                      ⬆️
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStoryboardScene(index, 1)}
+                      disabled={index === storyboard.scenes.length - 1 || isSubmitting}
+                      className="px-3 py-1 bg-white/20 text-white rounded hover:bg-white/30 text-sm disabled:opacity-50"
+                    >
+                      ⬇️
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => insertStoryboardScene(index)}
+                      disabled={isSubmitting}
+                      className="px-3 py-1 bg-white/20 text-white rounded hover:bg-white/30 text-sm disabled:opacity-50"
+                    >
+                      ➕ Insert After
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteStoryboardScene(index)}
+                      disabled={storyboard.scenes.length === 1 || isSubmitting}
+                      className="px-3 py-1 bg-red-500/60 text-white rounded hover:bg-red-500/80 text-sm disabled:opacity-50"
+                    >
+                      🗑️ Delete
+                    </button>
+                  </div>
+                </div>
+                {[
+                  { field: "visual", label: "Visual", rows: 5 },
+                  { field: "dialogue", label: "Dialogue", rows: 3 },
+                  { field: "summary", label: "Summary", rows: 2 },
+                  { field: "endHook", label: "End Hook (how the next scene picks up)", rows: 2 },
+                ].map(({ field, label, rows }) => (
+                  <div key={field} className="mb-3">
+                    <label className="block text-white/80 text-sm mb-1">{label}</label>
+                    <textarea
+                      value={scene[field] || ""}
+                      onChange={(e) => updateStoryboardScene(index, field, e.target.value)}
+                      disabled={isSubmitting}
+                      rows={rows}
+                      className="w-full px-4 py-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50 resize-y"
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
 
-          {/* Content Type */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              What Are You Creating Today?
-            </label>
-            <select
-              value={formData.contentType}
-              onChange={(e) => setFormData({ ...formData, contentType: e.target.value })}
-              className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
-              required
-            >
-              <option value="">Select content type...</option>
-              {contentTypes.map((type) => (
-                <option key={type.value} value={type.value} className="bg-purple-600">
-                  {type.label}
-                </option>
-              ))}
-            </select>
-          </div>
+            {statusPanels}
 
-          {/* Character Selection */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              Select Your Characters
-            </label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-              {characters.map((char) => (
-                <label
-                  key={char.id}
-                  className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors ${
-                    formData.characterIds.includes(char.id)
-                      ? "bg-white/30 border-2 border-white"
-                      : "bg-white/10 border border-white/20 hover:bg-white/20"
-                  }`}
-                >
-                  <input
-                    type="checkbox"
-                    checked={formData.characterIds.includes(char.id)}
-                    onChange={(e) => {
-                      if (e.target.checked) {
-                        setFormData({
-                          ...formData,
-                          characterIds: [...formData.characterIds, char.id],
-                        });
-                      } else {
-                        setFormData({
-                          ...formData,
-                          characterIds: formData.characterIds.filter((id) => id !== char.id),
-                        });
-                      }
-                    }}
-                    className="w-5 h-5"
-                  />
-                  <div>
-                    <div className="text-white font-medium">{char.name}</div>
-                    <div className="text-white/60 text-sm">{char.personality || char.type}</div>
-                  </div>
-                </label>
-              ))}
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={handleSaveStoryboard}
+                disabled={isSavingStoryboard || isSubmitting}
+                className="flex-1 bg-white/20 text-white font-bold py-4 px-6 rounded-lg hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingStoryboard ? "Saving..." : "💾 Save Storyboard"}
+              </button>
+              <button
+                type="button"
+                onClick={handleRenderStoryboard}
+                disabled={isSubmitting || storyboard.scenes.some((scene: any) => !scene.visual?.trim())}
+                className="flex-1 bg-white text-purple-600 font-bold py-4 px-6 rounded-lg hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+              >
+                {isSubmitting ? "Rendering..." : "🎬 Render Movie"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setStoryboard(null);
+                  setError(null);
+                }}
+                disabled={isSubmitting}
+                className="px-6 py-4 text-white/80 hover:text-white underline disabled:opacity-50"
+              >
+                ← Back to settings
+              </button>
             </div>
-            <button
-              type="button"
-              className="text-white/80 hover:text-white text-sm underline"
-            >
-              ➕ Create New Character...
-            </button>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* User Name Input */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                👤 Your Name
+              </label>
+              <p className="text-white/70 text-sm mb-4">
+                Enter your name to save videos under your account. This will be saved for future use.
+              </p>
+              <input
+                type="text"
+                value={formData.userName}
+                onChange={(e) => setFormData({ ...formData, userName: e.target.value })}
+                placeholder="Enter your name (e.g., John Doe)"
+                className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50"
+                required
+                minLength={2}
+              />
+            </div>
 
-          {/* Duration & Settings */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              Video Length & Settings
-            </label>
-            
-            {/* Custom Duration Input */}
-            <div className="mb-4">
-              <label className="block text-white/80 mb-2">
-                Total Duration: {formatDuration(formData.customDuration)} (30s - 2 hours)
+            {/* AI Generator Button */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                🤖 AI Story Generator
               </label>
-              <div className="flex items-center space-x-4">
-                <input
-                  type="number"
-                  min="30"
-                  max="7200"
-                  value={formData.customDuration}
-                  onChange={(e) => {
-                    const value = Math.max(30, Math.min(7200, parseInt(e.target.value) || 30));
-                    setFormData({ ...formData, customDuration: value });
-                  }}
-                  className="flex-1 px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
-                  required
-                />
-                <div className="text-white/60 text-sm whitespace-nowrap">
-                  {formData.customDuration < 60 && `${formData.customDuration}s`}
-                  {formData.customDuration >= 60 && formData.customDuration < 3600 && `${Math.floor(formData.customDuration / 60)}m ${formData.customDuration % 60}s`}
-                  {formData.customDuration >= 3600 && `${Math.floor(formData.customDuration / 3600)}h ${Math.floor((formData.customDuration % 3600) / 60)}m`}
-                </div>
-              </div>
-              {/* Scene Count Display */}
-              <div className="mt-2 text-white/70 text-sm">
-                {(() => {
-                  const totalScenes = Math.ceil(formData.customDuration / formData.sceneDuration);
-                  const adjustedScenes = formData.customDuration === 30 ? 3 : totalScenes;
-                  const adjustedDuration = formData.customDuration === 30 ? 10 : formData.sceneDuration;
-                  return `Will create ${adjustedScenes} scene${adjustedScenes !== 1 ? 's' : ''} (${adjustedDuration}s each)`;
-                })()}
-              </div>
-              <div className="mt-2">
-                <input
-                  type="range"
-                  min="30"
-                  max="7200"
-                  step="30"
-                  value={formData.customDuration}
-                  onChange={(e) => setFormData({ ...formData, customDuration: parseInt(e.target.value) })}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-white/60 text-xs mt-1">
-                  <span>30s</span>
-                  <span className="font-semibold">Quick Presets:</span>
-                  <span>2h</span>
-                </div>
-                <div className="flex justify-center gap-2 mt-2">
-                  <button
-                    type="button"
-                    onClick={() => setFormData({ ...formData, customDuration: 30 })}
-                    className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
-                  >
-                    30s
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setFormData({ ...formData, customDuration: 120 })}
-                    className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
-                  >
-                    2m
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setFormData({ ...formData, customDuration: 600 })}
-                    className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
-                  >
-                    10m
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setFormData({ ...formData, customDuration: 3600 })}
-                    className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
-                  >
-                    1h
-                  </button>
+              <p className="text-white/70 text-sm mb-4">
+                Click a preset below to auto-fill a complete story, or write your own below.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {storyPresets.map((preset, index) => (
                   <button
+                    key={index}
                     type="button"
-                    onClick={() => setFormData({ ...formData, customDuration: 7200 })}
-                    className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    onClick={() => handleGeneratePreset(preset)}
+                    disabled={isGeneratingPreset}
+                    className="p-4 bg-white/10 hover:bg-white/20 border border-white/30 rounded-lg text-left transition-all hover:scale-105 disabled:opacity-50"
                   >
-                    2h
+                    <div className="font-semibold text-white mb-1">{preset.name}</div>
+                    <div className="text-white/60 text-xs">
+                      {formatDuration(preset.duration)} • {preset.contentType}
+                    </div>
                   </button>
-                </div>
+                ))}
               </div>
             </div>
 
-            <div className="mb-4">
-              <label className="block text-white/80 mb-2">
-                Scene Duration: {formData.sceneDuration}s
+            {/* Story Input */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                Tell Us Your Story Vision
               </label>
-              <input
-                type="range"
-                min="4"
-                max="30"
-                value={formData.sceneDuration}
-                onChange={(e) => setFormData({ ...formData, sceneDuration: parseInt(e.target.value) })}
-                className="w-full"
+              <textarea
+                value={formData.storyPrompt}
+                onChange={(e) => setFormData({ ...formData, storyPrompt: e.target.value })}
+                placeholder="Describe your video concept in detail. Be specific about:
+  • Main plot or message
+  • Setting and atmosphere
+  • Character interactions
+  • Key visual moments
+  • Desired emotional tone
+
+  Example: 'A sci-fi adventure where a time-traveling historian discovers ancient technology in 1920s Paris, blending steampunk aesthetics with futuristic elements. Focus on mystery, discovery, and the ethical dilemmas of changing history.'"
+                className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50 resize-none"
+                rows={8}
+                required
               />
-              <div className="flex justify-between text-white/60 text-xs mt-1">
-                <span>4s</span>
-                <span className="font-semibold">Recommended: 6-8s</span>
-                <span>30s</span>
-              </div>
             </div>
 
-            <div className="flex items-center justify-between">
-              <span className="text-white/80">Quality Priority:</span>
-              <div className="flex items-center space-x-4">
-                <span className={`text-sm ${formData.qualityPriority === "speed" ? "text-white font-bold" : "text-white/60"}`}>
-                  ⚡ Speed
-                </span>
-                <button
-                  type="button"
-                  onClick={() =>
-                    setFormData({
-                      ...formData,
-                      qualityPriority: formData.qualityPriority === "speed" ? "quality" : "speed",
-                    })
-                  }
-                  className={`relative w-14 h-7 rounded-full transition-colors ${
-                    formData.qualityPriority === "quality" ? "bg-purple-500" : "bg-white/30"
-                  }`}
-                >
-                  <span
-                    className={`absolute top-1 left-1 w-5 h-5 bg-white rounded-full transition-transform ${
-                      formData.qualityPriority === "quality" ? "translate-x-7" : ""
+            {/* Content Type */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                What Are You Creating Today?
+              </label>
+              <select
+                value={formData.contentType}
+                onChange={(e) => setFormData({ ...formData, contentType: e.target.value })}
+                className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                required
+              >
+                <option value="">Select content type...</option>
+                {contentTypes.map((type) => (
+                  <option key={type.value} value={type.value} className="bg-purple-600">
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Character Selection */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                Select Your Characters
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                {characters.map((char) => (
+                  <label
+                    key={char.id}
+                    className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                      formData.characterIds.includes(char.id)
+                        ? "bg-white/30 border-2 border-white"
+                        : "bg-white/10 border border-white/20 hover:bg-white/20"
                     }`}
-                  />
-                </button>
-                <span className={`text-sm ${formData.qualityPriority === "quality" ? "text-white font-bold" : "text-white/60"}`}>
-                  🏆 Quality
-                </span>
+                  >
+                    <input
+                      type="checkbox"
+                      checked={formData.characterIds.includes(char.id)}
+                      onChange={(e) => {
+                        if (e.target.checked) {
+                          setFormData({
+                            ...formData,
+                            characterIds: [...formData.characterIds, char.id],
+                          });
+                        } else {
+                          setFormData({
+                            ...formData,
+                            characterIds: formData.characterIds.filter((id) => id !== char.id),
+                          });
+                        }
+                      }}
+                      className="w-5 h-5"
+                    />
+                    <div>
+                      <div className="text-white font-medium">{char.name}</div>
+                      <div className="text-white/60 text-sm">{char.personality || char.type}</div>
+                    </div>
+                  </label>
+                ))}
               </div>
+              <button
+                type="button"
+                onClick={() => router.push("/characters")}
+                className="text-white/80 hover:text-white text-sm underline"
+              >
+                ➕ Create New Character...
+              </button>
             </div>
-          </div>
 
-          {/* Model Selection */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <label className="block text-white font-semibold mb-3 text-lg">
-              Select Your Budget & Quality Preference
-            </label>
-            <select
-              value={formData.modelPreference}
-              onChange={(e) => setFormData({ ...formData, modelPreference: e.target.value })}
-              className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
-            >
-              {models.map((model) => (
-                <option key={model.value} value={model.value} className="bg-purple-600">
-                  {model.label}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          {/* Cost Estimate */}
-          {formData.customDuration >= 30 && (
+            {/* Duration & Settings */}
             <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-              <h3 className="text-white font-semibold mb-4 text-lg">💰 Cost Estimate</h3>
-              <div className="space-y-2 text-white/80">
-                <div className="flex justify-between">
-                  <span>Total Duration:</span>
-                  <span className="text-white font-semibold">
-                    {formatDuration(formData.customDuration)}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Scene Duration:</span>
-                  <span className="text-white font-semibold">{formData.sceneDuration}s</span>
+              <label className="block text-white font-semibold mb-3 text-lg">
+                Video Length & Settings
+              </label>
+            
+              {/* Custom Duration Input */}
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2">
+                  Total Duration: {formatDuration(formData.customDuration)} (30s - 2 hours)
+                </label>
+                <div className="flex items-center space-x-4">
+                  <input
+                    type="number"
+                    min="30"
+                    max="7200"
+                    value={formData.customDuration}
+                    onChange={(e) => {
+                      const value = Math.max(30, Math.min(7200, parseInt(e.target.value) || 30));
+                      setFormData({ ...formData, customDuration: value });
+                    }}
+                    className="flex-1 px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                    required
+                  />
+                  <div className="text-white/60 text-sm whitespace-nowrap">
+                    {formData.customDuration < 60 && `${formData.customDuration}s`}
+                    {formData.customDuration >= 60 && formData.customDuration < 3600 && `${Math.floor(formData.customDuration / 60)}m ${formData.customDuration % 60}s`}
+                    {formData.customDuration >= 3600 && `${Math.floor(formData.customDuration / 3600)}h ${Math.floor((formData.customDuration % 3600) / 60)}m`}
+                  </div>
                 </div>
-                <div className="flex justify-between">
-                  <span>Model:</span>
-                  <span className="text-white font-semibold">
-                    {models.find((m) => m.value === formData.modelPreference)?.label.split("(")[0].trim()}
-                  </span>
+                {/* Scene Count Display */}
+                <div className="mt-2 text-white/70 text-sm">
+                  {(() => {
+                    const totalScenes = Math.ceil(formData.customDuration / formData.sceneDuration);
+                    const adjustedScenes = formData.customDuration === 30 ? 3 : totalScenes;
+                    const adjustedDuration = formData.customDuration === 30 ? 10 : formData.sceneDuration;
+                    return `Will create ${adjustedScenes} scene${adjustedScenes !== 1 ? 's' : ''} (${adjustedDuration}s each)`;
+                  })()}
                 </div>
-                <div className="flex justify-between text-lg pt-2 border-t border-white/20">
-                  <span className="text-white font-semibold">Estimated Cost:</span>
-                  <span className="text-white font-bold text-xl">${calculateCost().toFixed(2)}</span>
+                <div className="mt-2">
+                  <input
+                    type="range"
+                    min="30"
+                    max="7200"
+                    step="30"
+                    value={formData.customDuration}
+                    onChange={(e) => setFormData({ ...formData, customDuration: parseInt(e.target.value) })}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-white/60 text-xs mt-1">
+                    <span>30s</span>
+                    <span className="font-semibold">Quick Presets:</span>
+                    <span>2h</span>
+                  </div>
+                  <div className="flex justify-center gap-2 mt-2">
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, customDuration: 30 })}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    >
+                      30s
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, customDuration: 120 })}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    >
+                      2m
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, customDuration: 600 })}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    >
+                      10m
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, customDuration: 3600 })}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    >
+                      1h
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, customDuration: 7200 })}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+                    >
+                      2h
+                    </button>
+                  </div>
                 </div>
-                <div className="flex justify-between">
-                  <span>Estimated Time:</span>
-                  <span className="text-white font-semibold">~{estimatedTime()} minutes</span>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2">
+                  Scene Duration: {formData.sceneDuration}s
+                </label>
+                <input
+                  type="range"
+                  min="4"
+                  max="30"
+                  value={formData.sceneDuration}
+                  onChange={(e) => setFormData({ ...formData, sceneDuration: parseInt(e.target.value) })}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-white/60 text-xs mt-1">
+                  <span>4s</span>
+                  <span className="font-semibold">Recommended: 6-8s</span>
+                  <span>30s</span>
                 </div>
               </div>
-              <p className="text-white/60 text-sm mt-4">
-                💡 Tip: Longer scenes reduce total API calls, potentially lowering costs!
-              </p>
-            </div>
-          )}
 
-          {/* Advanced Options */}
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <button
-              type="button"
-              onClick={() => setShowAdvanced(!showAdvanced)}
-              className="flex items-center justify-between w-full text-white font-semibold text-lg"
-            >
-              <span>⚙️ Advanced Settings (Optional)</span>
-              <span>{showAdvanced ? "▲" : "▼"}</span>
-            </button>
-            {showAdvanced && (
-              <div className="mt-4 space-y-4">
-                <div>
-                  <label className="block text-white/80 mb-2">Enable Parallel Processing</label>
+              <div className="flex items-center justify-between">
+                <span className="text-white/80">Quality Priority:</span>
+                <div className="flex items-center space-x-4">
+                  <span className={`text-sm ${formData.qualityPriority === "speed" ? "text-white font-bold" : "text-white/60"}`}>
+                    ⚡ Speed
+                  </span>
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, enableParallel: !formData.enableParallel })}
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        qualityPriority: formData.qualityPriority === "speed" ? "quality" : "speed",
+                      })
+                    }
                     className={`relative w-14 h-7 rounded-full transition-colors ${
-                      formData.enableParallel ? "bg-purple-500" : "bg-white/30"
+                      formData.qualityPriority === "quality" ? "bg-purple-500" : "bg-white/30"
                     }`}
                   >
                     <span
                       className={`absolute top-1 left-1 w-5 h-5 bg-white rounded-full transition-transform ${
-                        formData.enableParallel ? "translate-x-7" : ""
+                        formData.qualityPriority === "quality" ? "translate-x-7" : ""
                       }`}
                     />
                   </button>
+                  <span className={`text-sm ${formData.qualityPriority === "quality" ? "text-white font-bold" : "text-white/60"}`}>
+                    🏆 Quality
+                  </span>
                 </div>
-                <div>
-                  <label className="block text-white/80 mb-2">Set Maximum Budget</label>
-                  <input
-                    type="range"
-                    min="0"
-                    max="50"
-                    value={formData.budget}
-                    onChange={(e) => setFormData({ ...formData, budget: parseInt(e.target.value) })}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-white/60 text-xs mt-1">
-                    <span>$0</span>
-                    <span className="font-semibold">${formData.budget}</span>
-                    <span>$50</span>
+              </div>
+            </div>
+
+            {/* Model Selection */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <label className="block text-white font-semibold mb-3 text-lg">
+                Select Your Budget & Quality Preference
+              </label>
+              <select
+                value={formData.modelPreference}
+                onChange={(e) => setFormData({ ...formData, modelPreference: e.target.value })}
+                className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+              >
+                {models.map((model) => (
+                  <option key={model.model} value={model.model} className="bg-purple-600">
+                    {model.label} (${model.perSecond}/sec)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Cost Estimate */}
+            {formData.customDuration >= 30 && estimate && (
+              <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+                <h3 className="text-white font-semibold mb-4 text-lg">💰 Cost Estimate</h3>
+                <div className="space-y-2 text-white/80">
+                  <div className="flex justify-between">
+                    <span>Total Duration:</span>
+                    <span className="text-white font-semibold">
+                      {formatDuration(estimate.estimate.durationSeconds)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Scenes:</span>
+                    <span className="text-white font-semibold">
+                      {estimate.estimate.scenes} × {estimate.estimate.sceneDuration}s
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Model:</span>
+                    <span className="text-white font-semibold">
+                      {models.find((m) => m.model === formData.modelPreference)?.label}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-lg pt-2 border-t border-white/20">
+                    <span className="text-white font-semibold">Estimated Cost:</span>
+                    <span className="text-white font-bold text-xl">${estimate.estimate.cost.total.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Script writing (OpenAI):</span>
+                    <span>${estimate.estimate.cost.openai.toFixed(4)}</span>
+                  </div>
+                  {estimate.estimate.cost.images > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Keyframe images:</span>
+                      <span>${estimate.estimate.cost.images.toFixed(4)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span>If every scene falls back:</span>
+                    <span>${estimate.estimate.cost.worstCase.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Estimated Time:</span>
+                    <span className="text-white font-semibold">~{formatDuration(estimate.estimate.time.seconds)}</span>
                   </div>
                 </div>
+                {!estimate.budget.allowed && (
+                  <p className="text-red-200 text-sm mt-4">⚠️ {estimate.budget.reason}</p>
+                )}
+                <p className="text-white/60 text-sm mt-4">
+                  💡 Tip: Longer scenes reduce total API calls, potentially lowering costs!
+                </p>
               </div>
             )}
-          </div>
 
-          {/* Error Message */}
-          {error && (
-            <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 text-white">
-              <p className="font-semibold">❌ Error:</p>
-              <p>{error}</p>
+            {/* Advanced Options */}
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <button
+                type="button"
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="flex items-center justify-between w-full text-white font-semibold text-lg"
+              >
+                <span>⚙️ Advanced Settings (Optional)</span>
+                <span>{showAdvanced ? "▲" : "▼"}</span>
+              </button>
+              {showAdvanced && (
+                <div className="mt-4 space-y-4">
+                  <div>
+                    <label className="block text-white/80 mb-2">Enable Parallel Processing</label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, enableParallel: !formData.enableParallel })}
+                      className={`relative w-14 h-7 rounded-full transition-colors ${
+                        formData.enableParallel ? "bg-purple-500" : "bg-white/30"
+                      }`}
+                    >
+                      <span
+                        className={`absolute top-1 left-1 w-5 h-5 bg-white rounded-full transition-transform ${
+                          formData.enableParallel ? "translate-x-7" : ""
+                        }`}
+                      />
+                    </button>
+                  </div>
+                  <div>
+                    <label className="block text-white/80 mb-2">Scene Transitions</label>
+                    <select
+                      value={formData.transition}
+                      onChange={(e) => setFormData({ ...formData, transition: e.target.value })}
+                      className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                    >
+                      {transitions.map((t) => (
+                        <option key={t.value} value={t.value} className="bg-purple-600">
+                          {t.label}
+                        </option>
+                      ))}
+                    </select>
+                    {formData.transition !== "cut" && (
+                      <div className="mt-2">
+                        <input
+                          type="range"
+                          min="0.1"
+                          max="2"
+                          step="0.1"
+                          value={formData.transitionDuration}
+                          onChange={(e) => setFormData({ ...formData, transitionDuration: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                        <div className="text-white/60 text-xs mt-1">
+                          Transition length: {formData.transitionDuration.toFixed(1)}s
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-white/80 mb-2">Scene Continuity</label>
+                    <select
+                      value={formData.keyframes}
+                      onChange={(e) => setFormData({ ...formData, keyframes: e.target.value })}
+                      className="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                    >
+                      {keyframeOptions.map((k) => (
+                        <option key={k.value} value={k.value} className="bg-purple-600">
+                          {k.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="text-white/60 text-xs mt-1">
+                      What image-to-video models start each scene after the first from
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-white/80 mb-2">Set Maximum Budget</label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="50"
+                      value={formData.budget}
+                      onChange={(e) => setFormData({ ...formData, budget: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-white/60 text-xs mt-1">
+                      <span>$0</span>
+                      <span className="font-semibold">${formData.budget}</span>
+                      <span>$50</span>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
 
-          {/* Progress Display */}
-          {(progress || isSubmitting) && (
+            {/* Workflow */}
             <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-white font-semibold">⚡ Generation Progress</h3>
-                {currentJobId && (
+              <label className="block text-white font-semibold mb-3 text-lg">
+                How Should We Make It?
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {[
+                  { value: "render", title: "🎬 Generate Now", description: "Write and render every scene in one go" },
+                  { value: "storyboard", title: "📋 Script First", description: "Review and edit the storyboard before paying for video" },
+                ].map((option) => (
                   <button
+                    key={option.value}
                     type="button"
-                    onClick={handleAbort}
-                    disabled={isAborting}
-                    className="px-4 py-2 bg-red-500 text-white rounded-lg font-semibold hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => setFormData({ ...formData, workflow: option.value as "render" | "storyboard" })}
+                    className={`p-4 rounded-lg text-left transition-colors ${
+                      formData.workflow === option.value
+                        ? "bg-white/30 border-2 border-white"
+                        : "bg-white/10 border border-white/20 hover:bg-white/20"
+                    }`}
                   >
-                    {isAborting ? "Aborting..." : "🛑 Abort Generation"}
+                    <div className="text-white font-semibold">{option.title}</div>
+                    <div className="text-white/60 text-sm">{option.description}</div>
                   </button>
-                )}
+                ))}
               </div>
-              {progress && (
-                <div className="mb-2">
-                  <div className="flex justify-between text-white mb-2">
-                    <span>Progress: {progress.percentage || 0}%</span>
-                    <span>{progress.status || "Starting..."}</span>
-                  </div>
-                  <div className="w-full bg-white/20 rounded-full h-4">
-                    <div
-                      className="bg-white h-4 rounded-full transition-all duration-300"
-                      style={{ width: `${progress.percentage || 0}%` }}
-                    />
-                  </div>
-                </div>
-              )}
-              {currentJobId && (
-                <p className="text-white/60 text-sm mt-4">
-                  💰 Click "Abort Generation" to stop and save money. Partial progress will be saved.
-                </p>
-              )}
             </div>
-          )}
 
-          {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={isSubmitting || !formData.storyPrompt || !formData.contentType || formData.characterIds.length === 0 || formData.customDuration < 30 || formData.customDuration > 7200}
-            className="w-full bg-white text-purple-600 font-bold py-4 px-6 rounded-lg hover:bg-white/90 transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-lg"
-          >
-            {isSubmitting ? (
-              <span className="flex items-center justify-center">
-                <svg
-                  className="animate-spin -ml-1 mr-3 h-5 w-5 text-purple-600"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  ></circle>
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  ></path>
-                </svg>
-                Creating Your Movie...
-              </span>
-            ) : (
-              "🎬 Create My Movie"
-            )}
-          </button>
-        </form>
+            {statusPanels}
+
+            {/* Submit Button */}
+            <button
+              type="submit"
+              disabled={isSubmitting || !formData.storyPrompt || !formData.contentType || formData.characterIds.length === 0 || formData.customDuration < 30 || formData.customDuration > 7200}
+              className="w-full bg-white text-purple-600 font-bold py-4 px-6 rounded-lg hover:bg-white/90 transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed shadow-lg text-lg"
+            >
+              {isSubmitting ? (
+                <span className="flex items-center justify-center">
+                  <svg
+                    className="animate-spin -ml-1 mr-3 h-5 w-5 text-purple-600"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  {formData.workflow === "storyboard" ? "Writing Your Storyboard..." : "Creating Your Movie..."}
+                </span>
+              ) : formData.workflow === "storyboard" ? (
+                "📋 Write My Storyboard"
+              ) : (
+                "🎬 Create My Movie"
+              )}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
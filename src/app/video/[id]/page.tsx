@@ -10,6 +10,11 @@ export default function VideoPage() {
   const [video, setVideo] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isAssembling, setIsAssembling] = useState(false);
+  const [assembleError, setAssembleError] = useState<string | null>(null);
+  const [transition, setTransition] = useState({ type: "", duration: 0.5 });
+  const [regeneratingScene, setRegeneratingScene] = useState<number | null>(null);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchVideo();
@@ -34,6 +39,57 @@ export default function VideoPage() {
     }
   };
 
+  const handleAssemble = async () => {
+    setIsAssembling(true);
+    setAssembleError(null);
+    try {
+      // Without a choice the stored transitions are reused, so the output matches the last assembly
+      const response = await fetch(`/api/videos/${params.id}/assemble`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          transition: transition.type ? { type: transition.type, duration: transition.duration } : null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to assemble video");
+      }
+      setVideo(data.video);
+    } catch (err: any) {
+      console.error("Error assembling video:", err);
+      setAssembleError(err.message || "Failed to assemble video");
+    } finally {
+      setIsAssembling(false);
+    }
+  };
+
+  const handleRegenerate = async (sceneNumber: number, rewrite = false) => {
+    setRegeneratingScene(sceneNumber);
+    setRegenerateError(null);
+    try {
+      const response = await fetch(`/api/videos/${params.id}/scenes/${sceneNumber}/regenerate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rewrite }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to regenerate scene");
+      }
+      setVideo(data.video);
+    } catch (err: any) {
+      console.error("Error regenerating scene:", err);
+      setRegenerateError(err.message || "Failed to regenerate scene");
+    } finally {
+      setRegeneratingScene(null);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -79,6 +135,9 @@ export default function VideoPage() {
   }
 
   const scenes = video.scenes_data || [];
+  const missingScenes = Array.from({ length: video.total_scenes || 0 }, (_, i) => i + 1).filter(
+    (n) => !scenes.some((scene: any) => scene.scene === n)
+  );
   const isGenerating = video.status === "generating" || video.status === "pending";
 
   if (isGenerating) {
@@ -145,7 +204,13 @@ export default function VideoPage() {
 
         {/* Video Player */}
         <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-6">
-          {scenes.length > 0 && scenes[0].video_url ? (
+          {video.final_video_url ? (
+            <div className="aspect-video bg-black rounded-lg mb-4 overflow-hidden">
+              <video controls className="w-full h-full" src={video.final_video_url}>
+                Your browser does not support the video tag.
+              </video>
+            </div>
+          ) : scenes.length > 0 && scenes[0].video_url ? (
             <div className="aspect-video bg-black rounded-lg mb-4 overflow-hidden">
               <video
                 controls
@@ -169,10 +234,64 @@ export default function VideoPage() {
             <button className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30">
               ⏯️ Play
             </button>
-            <button className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30">
-              📥 Download
-            </button>
+            {video.final_video_url ? (
+              <a
+                href={video.final_video_url}
+                download
+                className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30"
+              >
+                📥 Download
+              </a>
+            ) : (
+              <button className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30" disabled>
+                📥 Download
+              </button>
+            )}
+            {scenes.length > 0 && (
+              <button
+                onClick={handleAssemble}
+                disabled={isAssembling}
+                className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 disabled:opacity-50"
+              >
+                {isAssembling ? "🎞️ Assembling..." : video.final_video_url ? "🎞️ Re-assemble" : "🎞️ Assemble Full Movie"}
+              </button>
+            )}
           </div>
+          {scenes.length > 1 && (
+            <div className="flex flex-wrap items-center gap-3 mt-3 text-white/80 text-sm">
+              <span>Transitions:</span>
+              <select
+                value={transition.type}
+                onChange={(e) => setTransition({ ...transition, type: e.target.value })}
+                className="px-3 py-2 rounded-lg bg-white/20 border border-white/30 text-white"
+              >
+                <option value="" className="bg-purple-600">
+                  Keep current ({video.metadata?.transition?.type || "cut"})
+                </option>
+                <option value="cut" className="bg-purple-600">✂️ Hard Cut</option>
+                <option value="crossfade" className="bg-purple-600">🌫️ Crossfade</option>
+                <option value="dip-to-black" className="bg-purple-600">🌑 Dip to Black</option>
+                <option value="whip-pan" className="bg-purple-600">💨 Whip-Pan Blur</option>
+              </select>
+              {transition.type && transition.type !== "cut" && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0.1"
+                    max="2"
+                    step="0.1"
+                    value={transition.duration}
+                    onChange={(e) => setTransition({ ...transition, duration: parseFloat(e.target.value) || 0.5 })}
+                    className="w-20 px-2 py-1 rounded bg-white/20 border border-white/30 text-white"
+                  />
+                  seconds
+                </label>
+              )}
+            </div>
+          )}
+          {assembleError && (
+            <p className="text-red-200 text-sm mt-3">❌ {assembleError}</p>
+          )}
         </div>
 
         {/* Video Details */}
@@ -233,6 +352,7 @@ export default function VideoPage() {
                       </h3>
                       <div className="text-white/60 text-sm mt-1">
                         Status: ✅ Generated • Duration: {scene.duration}s • Model: {scene.model || "Unknown"}
+                        {scene.history?.length > 0 && ` • ${scene.history.length} earlier version(s)`}
                       </div>
                     </div>
                     {scene.video_url && (
@@ -257,8 +377,19 @@ export default function VideoPage() {
                     <button className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm">
                       ✏️ Edit Prompt
                     </button>
-                    <button className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm">
-                      🔄 Regenerate
+                    <button
+                      onClick={() => handleRegenerate(scene.scene || index + 1)}
+                      disabled={regeneratingScene !== null}
+                      className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {regeneratingScene === (scene.scene || index + 1) ? "⏳ Regenerating..." : "🔄 Regenerate"}
+                    </button>
+                    <button
+                      onClick={() => handleRegenerate(scene.scene || index + 1, true)}
+                      disabled={regeneratingScene !== null}
+                      className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      📝 Rewrite & Regenerate
                     </button>
                     <button className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm">
                       📥 Download
@@ -266,7 +397,33 @@ export default function VideoPage() {
                   </div>
                 </div>
               ))}
+              {missingScenes.map((sceneNumber) => (
+                <div
+                  key={`missing-${sceneNumber}`}
+                  className="bg-red-500/10 rounded-lg p-4 border border-red-500/30 flex items-center justify-between"
+                >
+                  <div>
+                    <h3 className="text-white font-semibold text-lg">Scene {sceneNumber}</h3>
+                    <div className="text-white/60 text-sm mt-1">Status: ❌ Failed</div>
+                  </div>
+                  <button
+                    onClick={() => handleRegenerate(sceneNumber)}
+                    disabled={regeneratingScene !== null}
+                    className="px-3 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {regeneratingScene === sceneNumber ? "⏳ Generating..." : "🔄 Generate"}
+                  </button>
+                </div>
+              ))}
             </div>
+            {regenerateError && (
+              <p className="text-red-300 text-sm mt-4">❌ {regenerateError}</p>
+            )}
+            {regeneratingScene === null && !video.final_video_url && (
+              <p className="text-white/60 text-sm mt-4">
+                Scenes changed since the last assembly. Assemble the movie again to update the full video.
+              </p>
+            )}
           </div>
         )}
 
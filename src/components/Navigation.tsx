@@ -9,6 +9,7 @@ export default function Navigation() {
   const navItems = [
     { href: "/", label: "Home" },
     { href: "/create", label: "Create" },
+    { href: "/characters", label: "Characters" },
     { href: "/gallery", label: "Gallery" },
     { href: "/pricing", label: "Pricing" },
   ];
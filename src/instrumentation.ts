@@ -0,0 +1,7 @@
+export async function register() {
+  // Start the generation job worker on server boot so queued and crashed jobs are picked up
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("@/lib/jobWorker");
+    startJobWorker();
+  }
+}
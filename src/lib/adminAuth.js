@@ -0,0 +1,31 @@
+/**
+ * Admin Auth - Bearer tokens for the admin API routes
+ * Tokens come from ADMIN_API_TOKENS ("name:token" pairs); the matching name identifies the
+ * admin in the budget audit log.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { getEnv } from "@/lib/env";
+
+// Hashed first so tokens of any length compare in constant time
+const digest = (value) => createHash("sha256").update(value).digest();
+
+/**
+ * Check the request's `Authorization: Bearer <token>` header.
+ * Returns { admin: name } or { error, status } for the route to answer with.
+ */
+export function authenticateAdmin(request) {
+  const tokens = getEnv().ADMIN_API_TOKENS;
+  if (tokens.length === 0) {
+    return { error: "Admin API is disabled: ADMIN_API_TOKENS is not set", status: 503 };
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization") || "");
+  if (!match) return { error: "Admin token required", status: 401 };
+
+  const received = digest(match[1]);
+  // Every token is compared, so the answer time doesn't tell which one was close
+  const admin = tokens.reduce((found, { name, token }) => (timingSafeEqual(digest(token), received) ? name : found), null);
+  if (!admin) return { error: "Invalid admin token", status: 401 };
+  return { admin };
+}
@@ -1,72 +1,181 @@
 /**
- * Budget Manager - Tracks costs and enforces $5 budget limit
- * Rate limiting for OpenAI and Replicate API calls
+ * Budget Manager - Tracks costs and enforces spending caps
+ * Caps are set per user, team, project or globally (daily, monthly, lifetime) and checked
+ * against the `cost_ledger` table, so they survive restarts and hold across server instances.
+ * Spend that crosses an alert threshold of a cap (50/80/100% by default) raises an alert once.
+ * Admins can reset a scope's spend, top up or temporarily override its caps; every change is audited.
+ * Rate limits for OpenAI and Replicate calls live in src/lib/rateLimiter.js.
  */
 
-import { createClient } from "@supabase/supabase-js";
-
-const MAX_BUDGET = 5.0; // $5 maximum budget
-const OPENAI_COST_PER_1K_TOKENS = {
-  "gpt-4o-mini": 0.00015, // $0.15 per 1M tokens input, $0.60 per 1M tokens output
-  "gpt-4o": 0.0025, // $2.50 per 1M tokens input, $10 per 1M tokens output
-  "gpt-4": 0.03, // $30 per 1M tokens input, $60 per 1M tokens output
-};
-
-// Rate limiting configuration
-const RATE_LIMITS = {
-  openai: {
-    requestsPerMinute: 60,
-    requestsPerHour: 5000,
-  },
-  replicate: {
-    requestsPerMinute: 10,
-    requestsPerHour: 500,
-  },
-};
-
-class BudgetManager {
-  constructor() {
-    this.currentCost = 0;
-    this.rateLimiters = {
-      openai: new Map(),
-      replicate: new Map(),
+import { EventEmitter } from "events";
+import { getEnv } from "@/lib/env";
+import { createServiceClient } from "@/lib/supabaseClients";
+import { getImagePrice, getOpenAIPrice, getVideoPrice, priceOpenAITokens } from "@/lib/pricingCatalog";
+import { sendBudgetWebhook } from "@/lib/budgetWebhooks";
+import { RATE_LIMITS } from "@/lib/rateLimiter";
+
+const MAX_BUDGET = 5.0; // $5 maximum estimated cost of a single request
+// Script generation estimate per scene: the scene prompt in, the script out
+const ESTIMATED_INPUT_TOKENS_PER_SCENE = 300;
+const ESTIMATED_OUTPUT_TOKENS_PER_SCENE = 200;
+
+export const BUDGET_SCOPES = ["user", "team", "project", "global"];
+export const BUDGET_PERIODS = ["daily", "monthly", "lifetime"];
+export const GLOBAL_SCOPE_ID = "*";
+const ANONYMOUS_USER = "anonymous";
+const COST_GROUPS = ["user", "model", "day"];
+// Holds of a job that died without releasing them stop counting after this long
+const RESERVATION_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Start of the current budget period in UTC; null for lifetime
+ */
+export function getPeriodStart(period, now = new Date()) {
+  if (period === "daily") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "monthly") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return null;
+}
+
+/**
+ * Every scope a piece of spend counts against. `owner` is { userId, teamId?, projectId? }.
+ */
+export function getOwnerScopes({ userId = null, teamId = null, projectId = null } = {}) {
+  return [
+    { scopeType: "user", scopeId: userId || ANONYMOUS_USER },
+    ...(teamId ? [{ scopeType: "team", scopeId: teamId }] : []),
+    ...(projectId ? [{ scopeType: "project", scopeId: projectId }] : []),
+    { scopeType: "global", scopeId: GLOBAL_SCOPE_ID },
+  ];
+}
+
+// Reservation amounts as plain numbers
+const toReservation = (row) => ({ ...row, amount: Number(row.amount), committed: Number(row.committed) });
+
+const toLimit = (value) => (value === null || value === undefined ? null : Number(value));
+
+const scopeLabel = (scopeType, scopeId) =>
+  scopeType === "global" ? "Global" : `${scopeType[0].toUpperCase()}${scopeType.slice(1)} "${scopeId}"`;
+
+function validateScope(scopeType, scopeId) {
+  if (!BUDGET_SCOPES.includes(scopeType)) {
+    throw new Error(`Budget scope must be one of: ${BUDGET_SCOPES.join(", ")}`);
+  }
+  if (!scopeId || typeof scopeId !== "string") throw new Error("Budget scope id is required");
+}
+
+const isPositiveNumber = (value) => typeof value === "number" && Number.isFinite(value) && value > 0;
+const isNonNegativeNumber = (value) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// Budget columns are NUMERIC(x, 4)
+const roundAmount = (value) => Math.round(value * 10000) / 10000;
+
+/**
+ * Caps of a scope before any override: its `budgets` row, else the DEFAULT_USER_* caps for users
+ */
+function baseLimits(scopeType, row) {
+  if (row) {
+    return { daily: toLimit(row.daily_limit), monthly: toLimit(row.monthly_limit), lifetime: toLimit(row.lifetime_limit) };
+  }
+  if (scopeType === "user") {
+    const env = getEnv();
+    return {
+      daily: toLimit(env.DEFAULT_USER_DAILY_BUDGET),
+      monthly: toLimit(env.DEFAULT_USER_MONTHLY_BUDGET),
+      lifetime: toLimit(env.DEFAULT_USER_LIFETIME_BUDGET),
     };
   }
+  return { daily: null, monthly: null, lifetime: null };
+}
+
+/**
+ * The override of a `budgets` row until it expires: { limits, expiresAt }, or null
+ */
+function activeOverride(row, now) {
+  if (!row?.override_limits) return null;
+  if (row.override_expires_at && new Date(row.override_expires_at) <= now) return null;
+  return { limits: row.override_limits, expiresAt: row.override_expires_at };
+}
+
+/**
+ * Caps that apply now: the base caps with any active override on top
+ */
+function resolveLimits(scopeType, row, now) {
+  const base = baseLimits(scopeType, row);
+  const override = activeOverride(row, now);
+  const limits = Object.fromEntries(
+    BUDGET_PERIODS.map((period) => [period, override && override.limits[period] !== undefined ? toLimit(override.limits[period]) : base[period]])
+  );
+  return { ...limits, configured: Boolean(row) };
+}
+
+function alertPolicyFromRow(row) {
+  const env = getEnv();
+  const softStopPercent = toLimit(row?.soft_stop_percent ?? env.BUDGET_SOFT_STOP_PERCENT);
+  const thresholds = (row?.alert_thresholds ?? env.BUDGET_ALERT_THRESHOLDS).map(Number);
+  if (softStopPercent !== null) thresholds.push(softStopPercent);
+  return { thresholds: [...new Set(thresholds)].sort((a, b) => a - b), softStopPercent };
+}
+
+// What the audit log keeps of a scope report before and after a change
+const auditState = ({ limits, spent, override, spendResetAt }) => ({ limits, spent, override, spendResetAt });
+
+const budgetExceededReason = (scopeType, scopeId, period, remaining, amount) =>
+  `${scopeLabel(scopeType, scopeId)} ${period} budget exceeded. Remaining: $${remaining.toFixed(4)}, Needed: $${amount.toFixed(4)}`;
+
+export class BudgetManager {
+  // `supabase` can be injected (tests); otherwise a service-role client is created on first use
+  constructor({ supabase = null } = {}) {
+    this.currentCost = 0; // Spend of this process since start (informational; caps live in the database)
+    this.supabase = supabase;
+    this.alerts = new EventEmitter(); // Spending alerts for in-process listeners (running jobs)
+    this.alerts.setMaxListeners(0);
+  }
+
+  getClient() {
+    if (!this.supabase) {
+      this.supabase = createServiceClient();
+    }
+    return this.supabase;
+  }
 
   /**
-   * Calculate estimated cost for a video generation request
+   * Calculate estimated cost for a video generation request.
+   * With `keyframes: "generated"` every scene after the first also pays for one image.
    */
-  calculateEstimatedCost(totalDurationSeconds, sceneDuration, modelName, openaiModel = "gpt-4o-mini") {
+  calculateEstimatedCost(totalDurationSeconds, sceneDuration, modelName, openaiModel = "gpt-4o-mini", { keyframes = null, imageModel = getEnv().OPENAI_IMAGE_MODEL } = {}) {
     const totalScenes = Math.ceil(totalDurationSeconds / sceneDuration);
     const model = this.getModelCost(modelName);
     
     // Video generation cost
     const videoCost = totalScenes * sceneDuration * model.costPerSecond;
     
-    // OpenAI script generation cost (estimate ~500 tokens per scene)
-    const estimatedTokensPerScene = 500;
-    const totalTokens = totalScenes * estimatedTokensPerScene;
-    const openaiCost = (totalTokens / 1000) * OPENAI_COST_PER_1K_TOKENS[openaiModel] || 0.00015;
+    // OpenAI script generation cost
+    const tokens = {
+      inputTokens: totalScenes * ESTIMATED_INPUT_TOKENS_PER_SCENE,
+      outputTokens: totalScenes * ESTIMATED_OUTPUT_TOKENS_PER_SCENE,
+    };
+    const openaiCost = priceOpenAITokens(tokens, openaiModel);
+
+    // Keyframe images (unpriced image models can't be used, so they cost nothing here)
+    const imageCost = keyframes === "generated"
+      ? Math.max(0, totalScenes - 1) * (getImagePrice(imageModel)?.perImage || 0)
+      : 0;
     
     return {
       video: videoCost,
       openai: openaiCost,
-      total: videoCost + openaiCost,
+      images: imageCost,
+      total: videoCost + openaiCost + imageCost,
       scenes: totalScenes,
+      tokens,
     };
   }
 
   /**
-   * Get model cost information
+   * Get model cost information (unknown models are priced like the catalog's default video model)
    */
   getModelCost(modelName) {
-    const models = {
-      "google/veo-3.1-fast": { costPerSecond: 0.015 },
-      "luma/dream-machine": { costPerSecond: 0.01 },
-      "stability-ai/svd": { costPerSecond: 0.008 },
-      "anotherjesse/zeroscope-v2-xl": { costPerSecond: 0.007 },
-    };
-    return models[modelName] || models["anotherjesse/zeroscope-v2-xl"];
+    return { costPerSecond: getVideoPrice(modelName).perSecond };
   }
 
   /**
@@ -77,88 +186,736 @@ class BudgetManager {
   }
 
   /**
-   * Check rate limits
+   * Track actual cost: appends one row to the cost ledger, which counts it against every scope
+   * of the owner. Spend is never refused here - the money is already gone; checkBudget() stops the next call.
+   *
+   * `owner` is { userId, teamId?, projectId? } plus what the call was for: { jobId?, movieId?, storyboardId?, sceneNumber? }
+   * and the job's budget reservation, if it has one: { reservationId? }.
+   * `usage` describes the call: { model, inputTokens?, outputTokens?, seconds?, unit?, unitPrice?, outputUnitPrice? }
+   * and, for a video prediction: { predictionId, predictionStatus, estimatedAmount, providerCost?, predictTime?, hardware? }.
    */
-  checkRateLimit(service, identifier = "default") {
-    const now = Date.now();
-    const limiter = this.rateLimiters[service];
-    
-    if (!limiter.has(identifier)) {
-      limiter.set(identifier, {
-        requests: [],
-        lastReset: now,
+  async trackCost(service, cost, owner = {}, usage = {}) {
+    this.currentCost += cost;
+
+    const { error } = await this.getClient()
+      .from("cost_ledger")
+      .insert({
+        user_id: owner.userId || ANONYMOUS_USER,
+        team_id: owner.teamId || null,
+        project_id: owner.projectId || null,
+        job_id: owner.jobId || null,
+        movie_id: owner.movieId || null,
+        storyboard_id: owner.storyboardId || null,
+        scene_number: owner.sceneNumber ?? null,
+        service,
+        model: usage.model || null,
+        input_tokens: usage.inputTokens ?? null,
+        output_tokens: usage.outputTokens ?? null,
+        seconds: usage.seconds ?? null,
+        unit: usage.unit || null,
+        unit_price: usage.unitPrice ?? null,
+        output_unit_price: usage.outputUnitPrice ?? null,
+        prediction_id: usage.predictionId || null,
+        prediction_status: usage.predictionStatus || null,
+        estimated_amount: usage.estimatedAmount ?? null,
+        provider_cost: usage.providerCost ?? null,
+        predict_time: usage.predictTime ?? null,
+        hardware: usage.hardware || null,
+        amount: cost,
       });
+    if (error) {
+      console.error(`⚠️  Failed to record $${cost.toFixed(4)} of ${service} spend: ${error.message}`);
+    }
+
+    // Spend inside a reservation moves from held to spent. The ledger row is written first,
+    // so for a moment the amount counts twice - never zero times.
+    if (owner.reservationId) {
+      await this.commitReservation(owner.reservationId, cost);
+    }
+
+    // Alerting never fails the call that spent
+    if (cost > 0) {
+      await this.checkAlerts(owner, cost).catch((alertError) =>
+        console.error(`⚠️  Failed to check spending alerts: ${alertError.message}`)
+      );
     }
 
-    const record = limiter.get(identifier);
-    const limits = RATE_LIMITS[service];
+    return this.currentCost;
+  }
 
-    // Clean old requests (older than 1 hour)
-    record.requests = record.requests.filter(
-      (time) => now - time < 60 * 60 * 1000
+  /**
+   * Track OpenAI API call cost (input and output tokens at their own catalog prices)
+   */
+  trackOpenAICost({ inputTokens = 0, outputTokens = 0 } = {}, model = "gpt-4o-mini", owner = {}) {
+    const { inputPer1kTokens, outputPer1kTokens } = getOpenAIPrice(model);
+    const cost = priceOpenAITokens({ inputTokens, outputTokens }, model);
+    return this.trackCost("openai", cost, owner, {
+      model,
+      inputTokens,
+      outputTokens,
+      unit: "1k_tokens",
+      unitPrice: inputPer1kTokens,
+      outputUnitPrice: outputPer1kTokens,
+    });
+  }
+
+  /**
+   * Track generated images (keyframes) at the catalog's per-image price; unpriced models are refused
+   * before anything is generated, see getImagePrice()
+   */
+  trackImageCost(count, model, owner = {}) {
+    const { perImage } = getImagePrice(model);
+    return this.trackCost("openai", count * perImage, owner, { model, unit: "image", unitPrice: perImage });
+  }
+
+  /**
+   * Track Replicate video generation cost
+   */
+  trackReplicateCost(duration, modelName, owner = {}) {
+    const { costPerSecond } = this.getModelCost(modelName);
+    const cost = duration * costPerSecond;
+    return this.trackCost("replicate", cost, owner, { model: modelName, seconds: duration, unit: "second", unitPrice: costPerSecond });
+  }
+
+  /* =======================
+     COST LEDGER
+  ======================= */
+
+  /**
+   * Total ledger spend of one job, movie or storyboard (every filter given must match)
+   */
+  async getLedgerTotal({ jobId = null, movieId = null, storyboardId = null } = {}) {
+    const filters = Object.entries({ job_id: jobId, movie_id: movieId, storyboard_id: storyboardId }).filter(([, value]) => value);
+    if (filters.length === 0) throw new Error("A job, movie or storyboard id is required");
+
+    let query = this.getClient().from("cost_ledger").select("amount");
+    for (const [column, value] of filters) query = query.eq(column, value);
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to read cost ledger: ${error.message}`);
+    return (data || []).reduce((total, row) => total + Number(row.amount), 0);
+  }
+
+  /**
+   * Ledger spend grouped by user, model and UTC day. `from` / `to` bound created_at (to is exclusive).
+   */
+  async getCostSummary({ from = null, to = null, userId = null, teamId = null, projectId = null } = {}) {
+    const supabase = this.getClient();
+    const groups = await Promise.all(
+      COST_GROUPS.map(async (group) => {
+        const { data, error } = await supabase.rpc("cost_ledger_summary", {
+          p_group: group,
+          p_from: from ? from.toISOString() : null,
+          p_to: to ? to.toISOString() : null,
+          p_user_id: userId,
+          p_team_id: teamId,
+          p_project_id: projectId,
+        });
+        if (error) throw new Error(`Failed to summarize costs: ${error.message}`);
+        return (data || []).map((row) => ({ key: row.key, amount: Number(row.amount), calls: Number(row.calls) }));
+      })
     );
+    const [byUser, byModel, byDay] = groups;
+
+    return {
+      total: byUser.reduce((sum, row) => sum + row.amount, 0),
+      calls: byUser.reduce((sum, row) => sum + row.calls, 0),
+      byUser: byUser.map(({ key, ...row }) => ({ userId: key, ...row })),
+      byModel: byModel.map(({ key, ...row }) => ({ model: key, ...row })),
+      byDay: byDay.map(({ key, ...row }) => ({ day: key, ...row })),
+    };
+  }
 
-    // Check per-minute limit
-    const recentRequests = record.requests.filter(
-      (time) => now - time < 60 * 1000
+  /* =======================
+     PROVIDER COST RECONCILIATION
+  ======================= */
+
+  /**
+   * Prediction charges still at our estimate: no provider cost on the row and no adjustment yet.
+   * Oldest first, optionally for one job.
+   */
+  async getUnreconciledPredictions({ jobId = null, limit = 100 } = {}) {
+    const { data, error } = await this.getClient().rpc("unreconciled_predictions", { p_job_id: jobId, p_limit: limit });
+    if (error) throw new Error(`Failed to read unreconciled predictions: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Settle a prediction charge at the provider's reported cost. The ledger is append-only, so this
+   * appends an adjustment row (`adjusts_id` -> the charge) for the difference; a charge is only
+   * ever adjusted once. Returns the adjustment, or null when it was already reconciled.
+   */
+  async reconcilePrediction(entry, { providerCost, predictTime = null, hardware = null }) {
+    const { data, error } = await this.getClient().rpc("record_cost_adjustment", {
+      p_entry_id: entry.id,
+      p_provider_cost: providerCost,
+      p_predict_time: predictTime,
+      p_hardware: hardware,
+    });
+    if (error) throw new Error(`Failed to reconcile prediction ${entry.prediction_id}: ${error.message}`);
+    const adjustment = Array.isArray(data) ? data[0] : data;
+    if (!adjustment) return null;
+
+    const difference = Number(adjustment.amount);
+    this.currentCost += difference;
+    console.log(
+      `🧾 ${entry.model || entry.service} prediction ${entry.prediction_id}: provider charged $${providerCost.toFixed(4)}, ` +
+        `we charged $${Number(entry.amount).toFixed(4)} (${difference >= 0 ? "+" : ""}${difference.toFixed(4)})`
     );
-    if (recentRequests.length >= limits.requestsPerMinute) {
-      return {
-        allowed: false,
-        reason: `Rate limit exceeded: ${limits.requestsPerMinute} requests per minute`,
-        retryAfter: 60 - Math.floor((now - recentRequests[0]) / 1000),
+    // Spend that turned out higher can cross a threshold too
+    if (difference > 0) {
+      const owner = {
+        userId: entry.user_id,
+        teamId: entry.team_id,
+        projectId: entry.project_id,
+        jobId: entry.job_id,
+        movieId: entry.movie_id,
+        storyboardId: entry.storyboard_id,
+        sceneNumber: entry.scene_number,
       };
+      await this.checkAlerts(owner, difference).catch((alertError) =>
+        console.error(`⚠️  Failed to check spending alerts: ${alertError.message}`)
+      );
     }
+    return { ...adjustment, amount: difference };
+  }
+
+  /**
+   * Estimated against provider-reported cost per video model, over the predictions the provider
+   * reported a cost for. Failed predictions the provider still billed are counted on their own.
+   */
+  async getCostDrift({ from = null, to = null, userId = null, teamId = null, projectId = null } = {}) {
+    const { data, error } = await this.getClient().rpc("cost_ledger_drift", {
+      p_from: from ? from.toISOString() : null,
+      p_to: to ? to.toISOString() : null,
+      p_user_id: userId,
+      p_team_id: teamId,
+      p_project_id: projectId,
+    });
+    if (error) throw new Error(`Failed to compute cost drift: ${error.message}`);
 
-    // Check per-hour limit
-    if (record.requests.length >= limits.requestsPerHour) {
+    return (data || []).map((row) => {
+      const estimated = Number(row.estimated);
+      const actual = Number(row.actual);
       return {
-        allowed: false,
-        reason: `Rate limit exceeded: ${limits.requestsPerHour} requests per hour`,
-        retryAfter: 3600 - Math.floor((now - record.requests[0]) / 1000),
+        model: row.model,
+        predictions: Number(row.predictions),
+        reported: Number(row.reported),
+        estimated,
+        actual,
+        drift: actual - estimated,
+        driftPercent: estimated > 0 ? Math.round(((actual - estimated) / estimated) * 1000) / 10 : null,
+        failedCharged: Number(row.failed_charged),
+        failedCost: Number(row.failed_cost),
       };
+    });
+  }
+
+  /* =======================
+     PERSISTENT BUDGETS
+  ======================= */
+
+  /**
+   * Caps of one scope. Users without a `budgets` row get the DEFAULT_USER_* caps;
+   * teams, projects and the global scope are uncapped until a row exists.
+   * An admin override replaces the caps it names until it expires.
+   */
+  async getScopeLimits(scopeType, scopeId, now = new Date()) {
+    return resolveLimits(scopeType, await this.readBudgetRow(scopeType, scopeId), now);
+  }
+
+  /**
+   * Create or replace the caps of one scope. `null` removes the cap for that period.
+   */
+  async setScopeLimits(scopeType, scopeId, { daily = null, monthly = null, lifetime = null } = {}) {
+    validateScope(scopeType, scopeId);
+    for (const [period, limit] of Object.entries({ daily, monthly, lifetime })) {
+      if (limit !== null && (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0)) {
+        throw new Error(`${period} budget must be a non-negative number or null`);
+      }
     }
 
-    // Record this request
-    record.requests.push(now);
+    return this.saveBudgetRow(scopeType, scopeId, { daily_limit: daily, monthly_limit: monthly, lifetime_limit: lifetime });
+  }
+
+  /**
+   * Update a scope's `budgets` row, or create it holding the scope's current base caps
+   * (so users keep the default caps when only another column is set)
+   */
+  async saveBudgetRow(scopeType, scopeId, values, existing = undefined) {
+    if (existing === undefined) existing = await this.readBudgetRow(scopeType, scopeId);
+
+    const supabase = this.getClient();
+    let result;
+    if (existing) {
+      result = await supabase.from("budgets").update(values).eq("id", existing.id).select().single();
+    } else {
+      const { daily, monthly, lifetime } = baseLimits(scopeType, null);
+      result = await supabase
+        .from("budgets")
+        .insert({ scope_type: scopeType, scope_id: scopeId, daily_limit: daily, monthly_limit: monthly, lifetime_limit: lifetime, ...values })
+        .select()
+        .single();
+    }
+    if (result.error) throw new Error(`Failed to save ${scopeType} budget: ${result.error.message}`);
+    return result.data;
+  }
 
-    return { allowed: true };
+  async readBudgetRow(scopeType, scopeId) {
+    const { data, error } = await this.getClient()
+      .from("budgets")
+      .select("*")
+      .eq("scope_type", scopeType)
+      .eq("scope_id", scopeId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to read ${scopeType} budget: ${error.message}`);
+    return data;
   }
 
   /**
-   * Track actual cost
+   * What a scope has spent in the current day, month and overall. Spend before `since`
+   * doesn't count; it defaults to the scope's last admin reset.
    */
-  trackCost(service, cost) {
-    this.currentCost += cost;
-    
-    if (this.currentCost > MAX_BUDGET) {
-      throw new Error(
-        `Budget exceeded! Current cost: $${this.currentCost.toFixed(4)}, Max: $${MAX_BUDGET}`
+  async getScopeSpend(scopeType, scopeId, now = new Date(), since = undefined) {
+    if (since === undefined) since = (await this.readBudgetRow(scopeType, scopeId))?.spend_reset_at ?? null;
+
+    const { data, error } = await this.getClient().rpc("cost_ledger_totals", {
+      p_scope_type: scopeType,
+      p_scope_id: scopeId,
+      p_day_start: getPeriodStart("daily", now).toISOString(),
+      p_month_start: getPeriodStart("monthly", now).toISOString(),
+      p_since: since,
+    });
+    if (error) throw new Error(`Failed to read ${scopeType} spend: ${error.message}`);
+
+    const totals = (Array.isArray(data) ? data[0] : data) || {};
+    return {
+      daily: Number(totals.daily || 0),
+      monthly: Number(totals.monthly || 0),
+      lifetime: Number(totals.lifetime || 0),
+    };
+  }
+
+  /**
+   * Budget held for a scope by running jobs' reservations (reserved, not yet spent)
+   */
+  async getScopeHeld(scopeType, scopeId) {
+    const { data, error } = await this.getClient().rpc("budget_reservation_holds", {
+      p_scope_type: scopeType,
+      p_scope_id: scopeId,
+    });
+    if (error) throw new Error(`Failed to read ${scopeType} reservations: ${error.message}`);
+    return Number(data || 0);
+  }
+
+  /**
+   * Caps, spend, held reservations and what is left for one scope (remaining is null where there's no cap),
+   * plus the admin override in force and the last spend reset
+   */
+  async getScopeReport(scopeType, scopeId, now = new Date()) {
+    const row = await this.readBudgetRow(scopeType, scopeId);
+    const { configured, ...limits } = resolveLimits(scopeType, row, now);
+    const spendResetAt = row?.spend_reset_at ?? null;
+    const [spent, held] = await Promise.all([
+      this.getScopeSpend(scopeType, scopeId, now, spendResetAt),
+      this.getScopeHeld(scopeType, scopeId),
+    ]);
+    // Reservations count against every period: the work they hold budget for happens now
+    const remaining = Object.fromEntries(
+      BUDGET_PERIODS.map((period) => [period, limits[period] === null ? null : Math.max(0, limits[period] - spent[period] - held)])
+    );
+    return { scopeType, scopeId, configured, limits, spent, held, remaining, override: activeOverride(row, now), spendResetAt };
+  }
+
+  /**
+   * Reports for every scope of an owner, plus the tightest remaining amount across them
+   */
+  async getBudgetReport(owner = {}, now = new Date()) {
+    const scopes = await Promise.all(
+      getOwnerScopes(owner).map(({ scopeType, scopeId }) => this.getScopeReport(scopeType, scopeId, now))
+    );
+    const left = scopes.flatMap((scope) => Object.values(scope.remaining)).filter((value) => value !== null);
+    return { scopes, remaining: left.length > 0 ? Math.min(...left) : null };
+  }
+
+  /**
+   * Whether `amount` more can be spent by this owner without breaking any cap.
+   * With `owner.reservationId`, whatever is still held by that reservation covers the amount first.
+   */
+  async checkBudget(owner = {}, amount = 0, now = new Date()) {
+    if (owner.reservationId) {
+      const reservation = await this.getReservation(owner.reservationId);
+      const covered = reservation?.status === "active" ? Math.max(0, reservation.amount - reservation.committed) : 0;
+      amount = Math.max(0, amount - covered);
+    }
+
+    const report = await this.getBudgetReport(owner, now);
+    for (const scope of report.scopes) {
+      for (const period of BUDGET_PERIODS) {
+        const left = scope.remaining[period];
+        if (left !== null && amount > left) {
+          return {
+            allowed: false,
+            reason: budgetExceededReason(scope.scopeType, scope.scopeId, period, left, amount),
+            scopeType: scope.scopeType,
+            scopeId: scope.scopeId,
+            period,
+            remaining: left,
+            report,
+          };
+        }
+      }
+    }
+    return { allowed: true, remaining: report.remaining, report };
+  }
+
+  /* =======================
+     SPENDING ALERTS
+  ======================= */
+
+  /**
+   * Alert thresholds (percent of each cap) and soft stop percentage of one scope. NULL columns of
+   * its `budgets` row fall back to BUDGET_ALERT_THRESHOLDS and BUDGET_SOFT_STOP_PERCENT.
+   * Reaching the soft stop percentage is always an alert of its own.
+   */
+  async getAlertPolicy(scopeType, scopeId) {
+    return alertPolicyFromRow(await this.readBudgetRow(scopeType, scopeId));
+  }
+
+  /**
+   * Set the alert thresholds and soft stop percentage of one scope (`null` goes back to the env defaults).
+   * A scope without a `budgets` row gets one holding its current caps, so users keep the default caps.
+   */
+  async setAlertPolicy(scopeType, scopeId, { thresholds = null, softStopPercent = null } = {}) {
+    validateScope(scopeType, scopeId);
+    if (thresholds !== null && (!Array.isArray(thresholds) || !thresholds.every(isPositiveNumber))) {
+      throw new Error("Alert thresholds must be a list of positive percentages or null");
+    }
+    if (softStopPercent !== null && !isPositiveNumber(softStopPercent)) {
+      throw new Error("Soft stop percentage must be a positive number or null");
+    }
+
+    return this.saveBudgetRow(scopeType, scopeId, { alert_thresholds: thresholds, soft_stop_percent: softStopPercent });
+  }
+
+  /**
+   * Listen to spending alerts raised by this process. Returns an unsubscribe function.
+   */
+  onAlert(listener) {
+    this.alerts.on("alert", listener);
+    return () => this.alerts.off("alert", listener);
+  }
+
+  /**
+   * Raise an alert for every threshold that `cost` (already in the ledger) took a scope of the owner past.
+   * Each crossing is recorded once per scope, period, threshold and cap - as a zero-amount `budget_alert`
+   * row in the ledger - so concurrent spend never alerts twice and a raised cap or a spend reset re-arms the thresholds.
+   * New alerts go to onAlert() listeners and the webhook. Returns them.
+   */
+  async checkAlerts(owner = {}, cost = 0, now = new Date()) {
+    const crossings = await Promise.all(
+      getOwnerScopes(owner).map(async ({ scopeType, scopeId }) => {
+        const row = await this.readBudgetRow(scopeType, scopeId);
+        const limits = resolveLimits(scopeType, row, now);
+        const policy = alertPolicyFromRow(row);
+        const spendResetAt = row?.spend_reset_at ?? null;
+        const spent = await this.getScopeSpend(scopeType, scopeId, now, spendResetAt);
+        return BUDGET_PERIODS.flatMap((period) => {
+          const limit = limits[period];
+          if (!limit) return []; // No cap, or a zero cap with no percentages to cross
+          const before = ((spent[period] - cost) / limit) * 100;
+          const after = (spent[period] / limit) * 100;
+          return policy.thresholds
+            .filter((threshold) => before < threshold && after >= threshold)
+            .map((threshold) => ({
+              scopeType,
+              scopeId,
+              period,
+              periodStart: getPeriodStart(period, now)?.toISOString() ?? null,
+              threshold,
+              limit,
+              spent: spent[period],
+              percent: Math.round(after * 10) / 10,
+              softStop: policy.softStopPercent !== null && threshold >= policy.softStopPercent,
+              spendResetAt,
+            }));
+        });
+      })
+    );
+
+    const alerts = [];
+    for (const crossing of crossings.flat()) {
+      const alert = {
+        key: [
+          crossing.scopeType,
+          crossing.scopeId,
+          crossing.period,
+          crossing.periodStart || "lifetime",
+          crossing.threshold,
+          crossing.limit,
+          ...(crossing.spendResetAt ? [crossing.spendResetAt] : []),
+        ].join(":"),
+        ...crossing,
+        userId: owner.userId || ANONYMOUS_USER,
+        jobId: owner.jobId || null,
+        movieId: owner.movieId || null,
+        storyboardId: owner.storyboardId || null,
+        sceneNumber: owner.sceneNumber ?? null,
+        createdAt: now.toISOString(),
+      };
+      if (!(await this.recordAlert(alert, owner))) continue; // Raised already, possibly by another instance
+
+      console.log(
+        `🔔 ${scopeLabel(alert.scopeType, alert.scopeId)} ${alert.period} spend reached ${alert.threshold}% ` +
+          `of $${alert.limit.toFixed(2)} ($${alert.spent.toFixed(4)})${alert.softStop ? " - soft stop" : ""}`
       );
+      alerts.push(alert);
+      this.alerts.emit("alert", alert);
+      await this.deliverWebhook(alert);
     }
+    return alerts;
+  }
 
-    return this.currentCost;
+  /**
+   * Write an alert to the ledger unless its key is already there. Returns whether it was new.
+   */
+  async recordAlert(alert, owner = {}) {
+    const { data, error } = await this.getClient().rpc("record_budget_alert", {
+      p_alert: alert,
+      p_user_id: owner.userId || ANONYMOUS_USER,
+      p_team_id: owner.teamId || null,
+      p_project_id: owner.projectId || null,
+      p_job_id: owner.jobId || null,
+      p_movie_id: owner.movieId || null,
+      p_storyboard_id: owner.storyboardId || null,
+      p_scene_number: owner.sceneNumber ?? null,
+    });
+    if (error) throw new Error(`Failed to record budget alert: ${error.message}`);
+    return Boolean(data);
   }
 
   /**
-   * Track OpenAI API call cost
+   * POST an alert to BUDGET_WEBHOOK_URL when one is set. Failures are logged; the alert is in the ledger either way.
    */
-  trackOpenAICost(tokens, model = "gpt-4o-mini") {
-    const cost = (tokens / 1000) * OPENAI_COST_PER_1K_TOKENS[model] || 0.00015;
-    return this.trackCost("openai", cost);
+  async deliverWebhook(alert) {
+    const { BUDGET_WEBHOOK_URL: url, BUDGET_WEBHOOK_SECRET: secret } = getEnv();
+    if (!url) return;
+    try {
+      await sendBudgetWebhook(alert, { url, secret });
+    } catch (error) {
+      console.error(`⚠️  Budget webhook failed for alert ${alert.key}: ${error.message}`);
+    }
   }
 
+  /* =======================
+     ADMIN
+  ======================= */
+
   /**
-   * Track Replicate video generation cost
+   * Reports for every scope of a type that has spent anything or has a `budgets` row
    */
-  trackReplicateCost(duration, modelName) {
-    const model = this.getModelCost(modelName);
-    const cost = duration * model.costPerSecond;
-    return this.trackCost("replicate", cost);
+  async listScopeReports(scopeType, now = new Date()) {
+    if (!BUDGET_SCOPES.includes(scopeType)) {
+      throw new Error(`Budget scope must be one of: ${BUDGET_SCOPES.join(", ")}`);
+    }
+    const { data, error } = await this.getClient().rpc("budget_scope_ids", { p_scope_type: scopeType });
+    if (error) throw new Error(`Failed to list ${scopeType} budgets: ${error.message}`);
+
+    const ids = scopeType === "global" ? [GLOBAL_SCOPE_ID] : (data || []).map((row) => row.scope_id);
+    return Promise.all(ids.map((scopeId) => this.getScopeReport(scopeType, scopeId, now)));
+  }
+
+  /**
+   * Start counting a scope's spend again from now, in every period. The ledger keeps the
+   * earlier rows; they just stop counting against the caps. Reservations keep holding.
+   */
+  async resetScopeSpend(scopeType, scopeId, { actor, reason = null, now = new Date() } = {}) {
+    validateScope(scopeType, scopeId);
+    return this.changeBudget("reset", scopeType, scopeId, { actor, reason, now }, () => ({
+      spend_reset_at: now.toISOString(),
+    }));
   }
 
   /**
-   * Get current budget status
+   * Raise one of a scope's caps by `amount` for good (an override raises it for a while)
+   */
+  async topUpScope(scopeType, scopeId, { amount, period, actor, reason = null, now = new Date() } = {}) {
+    validateScope(scopeType, scopeId);
+    if (!isPositiveNumber(amount)) throw new Error("Top-up amount must be a positive number");
+    if (!BUDGET_PERIODS.includes(period)) throw new Error(`Budget period must be one of: ${BUDGET_PERIODS.join(", ")}`);
+
+    return this.changeBudget("top_up", scopeType, scopeId, { actor, reason, now }, (row) => {
+      const cap = baseLimits(scopeType, row)[period];
+      if (cap === null) throw new Error(`${scopeLabel(scopeType, scopeId)} has no ${period} cap to top up`);
+      return { [`${period}_limit`]: roundAmount(cap + amount) };
+    });
+  }
+
+  /**
+   * Replace some of a scope's caps until `expiresAt`; the caps not named keep their base value
+   */
+  async overrideScopeLimits(scopeType, scopeId, { limits = {}, expiresAt, actor, reason = null, now = new Date() } = {}) {
+    validateScope(scopeType, scopeId);
+    const overrideLimits = Object.fromEntries(
+      BUDGET_PERIODS.filter((period) => limits[period] !== undefined && limits[period] !== null).map((period) => [period, limits[period]])
+    );
+    if (Object.keys(overrideLimits).length === 0) throw new Error("An override needs a daily, monthly or lifetime cap");
+    for (const [period, limit] of Object.entries(overrideLimits)) {
+      if (!isNonNegativeNumber(limit)) throw new Error(`${period} override must be a non-negative number`);
+    }
+    const expires = new Date(expiresAt);
+    if (Number.isNaN(expires.getTime()) || expires <= now) throw new Error("Override expiry must be a date in the future");
+
+    return this.changeBudget("override", scopeType, scopeId, { actor, reason, now }, () => ({
+      override_limits: overrideLimits,
+      override_expires_at: expires.toISOString(),
+    }));
+  }
+
+  async clearScopeOverride(scopeType, scopeId, { actor, reason = null, now = new Date() } = {}) {
+    validateScope(scopeType, scopeId);
+    return this.changeBudget("clear_override", scopeType, scopeId, { actor, reason, now }, () => ({
+      override_limits: null,
+      override_expires_at: null,
+    }));
+  }
+
+  /**
+   * Apply an admin change to a scope's `budgets` row and audit it. `values(row)` returns the
+   * columns to write. Returns { report, audit } with the scope's report after the change.
+   */
+  async changeBudget(action, scopeType, scopeId, { actor, reason = null, now = new Date() }, values) {
+    if (!actor) throw new Error("Budget changes need an actor for the audit log");
+
+    const existing = await this.readBudgetRow(scopeType, scopeId);
+    const before = await this.getScopeReport(scopeType, scopeId, now);
+    await this.saveBudgetRow(scopeType, scopeId, values(existing), existing);
+    const report = await this.getScopeReport(scopeType, scopeId, now);
+
+    const { data: audit, error } = await this.getClient()
+      .from("budget_audit_log")
+      .insert({
+        actor,
+        action,
+        scope_type: scopeType,
+        scope_id: scopeId,
+        before: auditState(before),
+        after: auditState(report),
+        reason,
+      })
+      .select()
+      .single();
+    if (error) throw new Error(`Budget changed but the audit entry failed: ${error.message}`);
+
+    console.log(`🛠️  ${actor}: ${action.replace("_", " ")} of ${scopeLabel(scopeType, scopeId)} budget${reason ? ` (${reason})` : ""}`);
+    return { report, audit };
+  }
+
+  /**
+   * Audit entries, newest first, optionally for one scope
+   */
+  async getBudgetAudit({ scopeType = null, scopeId = null, limit = 100 } = {}) {
+    let query = this.getClient().from("budget_audit_log").select("*");
+    if (scopeType) query = query.eq("scope_type", scopeType);
+    if (scopeId) query = query.eq("scope_id", scopeId);
+    const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+    if (error) throw new Error(`Failed to read budget audit log: ${error.message}`);
+    return data || [];
+  }
+
+  /* =======================
+     RESERVATIONS
+  ======================= */
+
+  /**
+   * Hold `amount` of every scope of the owner for a job. The caps check and the insert run in one
+   * database call that locks the scopes, so two jobs starting together can't both get the last dollars.
+   * A job that reserves again (a resumed attempt) replaces its earlier reservation.
+   */
+  async reserveBudget(owner = {}, amount = 0, { jobId = null, now = new Date(), ttlMs = RESERVATION_TTL_MS } = {}) {
+    const scopes = await Promise.all(
+      getOwnerScopes(owner).map(async ({ scopeType, scopeId }) => {
+        const row = await this.readBudgetRow(scopeType, scopeId);
+        const { daily, monthly, lifetime } = resolveLimits(scopeType, row, now);
+        return { scope_type: scopeType, scope_id: scopeId, daily, monthly, lifetime, since: row?.spend_reset_at ?? null };
+      })
+    );
+
+    const { data, error } = await this.getClient().rpc("reserve_budget", {
+      p_scopes: scopes,
+      p_amount: amount,
+      p_user_id: owner.userId || ANONYMOUS_USER,
+      p_team_id: owner.teamId || null,
+      p_project_id: owner.projectId || null,
+      p_job_id: jobId,
+      p_day_start: getPeriodStart("daily", now).toISOString(),
+      p_month_start: getPeriodStart("monthly", now).toISOString(),
+      p_expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+    });
+    if (error) throw new Error(`Failed to reserve budget: ${error.message}`);
+
+    if (!data.allowed) {
+      const remaining = Number(data.remaining);
+      return {
+        allowed: false,
+        reason: budgetExceededReason(data.scope_type, data.scope_id, data.period, remaining, amount),
+        scopeType: data.scope_type,
+        scopeId: data.scope_id,
+        period: data.period,
+        remaining,
+      };
+    }
+    return { allowed: true, reservation: toReservation(data.reservation) };
+  }
+
+  async getReservation(reservationId) {
+    const { data, error } = await this.getClient()
+      .from("budget_reservations")
+      .select("*")
+      .eq("id", reservationId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to read reservation: ${error.message}`);
+    return data ? toReservation(data) : null;
+  }
+
+  /**
+   * Count actual spend against a reservation (called by trackCost). Failures are logged: the spend
+   * is already in the ledger, the reservation just keeps holding a little too much until released.
+   */
+  async commitReservation(reservationId, amount) {
+    const { error } = await this.getClient().rpc("commit_budget_reservation", {
+      p_reservation_id: reservationId,
+      p_amount: amount,
+    });
+    if (error) {
+      console.error(`⚠️  Failed to commit $${amount.toFixed(4)} to reservation ${reservationId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stop holding whatever the reservation didn't spend. Returns the final reservation.
+   */
+  async releaseReservation(reservationId) {
+    const { data, error } = await this.getClient()
+      .from("budget_reservations")
+      .update({ status: "released", released_at: new Date().toISOString() })
+      .eq("id", reservationId)
+      .eq("status", "active")
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Failed to release reservation: ${error.message}`);
+
+    const reservation = data ? toReservation(data) : await this.getReservation(reservationId);
+    if (data) {
+      console.log(
+        `💰 Released reservation ${reservationId}: spent $${reservation.committed.toFixed(4)} ` +
+          `of $${reservation.amount.toFixed(4)} reserved`
+      );
+    }
+    return reservation;
+  }
+
+  /**
+   * Spend of this process since it started (all users)
    */
   getBudgetStatus() {
     return {
@@ -174,10 +931,6 @@ class BudgetManager {
    */
   reset() {
     this.currentCost = 0;
-    this.rateLimiters = {
-      openai: new Map(),
-      replicate: new Map(),
-    };
   }
 }
 
@@ -193,5 +946,5 @@ export function getBudgetManager() {
 
 // Export constants
 export const MAX_BUDGET_EXPORT = MAX_BUDGET;
-export { RATE_LIMITS, OPENAI_COST_PER_1K_TOKENS };
+export { RATE_LIMITS };
 
@@ -0,0 +1,57 @@
+/**
+ * Budget Webhooks - POSTs spending alerts to BUDGET_WEBHOOK_URL
+ * The body is the alert as JSON. `X-Budget-Signature: t=<unix seconds>,v1=<hex>` carries an
+ * HMAC-SHA256 of "<t>.<body>" keyed with BUDGET_WEBHOOK_SECRET; receivers recompute it and
+ * reject old timestamps so a captured request can't be replayed.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_TIMEOUT_MS = 5 * 1000; // 5 seconds
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60; // Receivers reject signatures older than this
+
+export function signWebhookPayload(body, secret, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a received body against its X-Budget-Signature header (for receivers written in JS)
+ */
+export function verifyWebhookSignature(body, header, secret, { now = Date.now(), toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS } = {}) {
+  const parts = Object.fromEntries(
+    String(header || "")
+      .split(",")
+      .map((part) => part.split("="))
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split("v1=")[1], "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * POST one alert. Throws when the webhook isn't configured or doesn't answer with a 2xx.
+ */
+export async function sendBudgetWebhook(alert, { url, secret, timeoutMs = WEBHOOK_TIMEOUT_MS } = {}) {
+  if (!url) throw new Error("BUDGET_WEBHOOK_URL is not set");
+  if (!secret) throw new Error("BUDGET_WEBHOOK_SECRET is required to sign budget webhooks");
+
+  const body = JSON.stringify({ type: "budget.threshold_crossed", alert });
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Budget-Signature": signWebhookPayload(body, secret) },
+      body,
+      signal: controller.signal
+    });
+    if (!res.ok) throw new Error(`Budget webhook answered ${res.status} ${res.statusText}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
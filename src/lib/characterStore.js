@@ -0,0 +1,349 @@
+/**
+ * Character Store - Create, edit, duplicate and delete characters
+ * Every character belongs to one user (`user_id`, the name the user creates videos under).
+ * The seeded `system` characters are shared with everyone: they can be used and duplicated,
+ * but not changed. Reference images are uploaded to the `images` bucket and given to
+ * image-to-video models as the scene's conditioning frame. Profiles can also be written by the
+ * character builder (generateCharacter in videoEngine.js) from a short description.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { createServiceClient } from "@/lib/supabaseClients";
+
+export const SYSTEM_USER_ID = "system";
+
+export const CHARACTER_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_PERSONALITY_LENGTH: 200,
+  MAX_PROMPT_LENGTH: 1000,
+  MAX_VISUAL_DETAILS_LENGTH: 2000,
+  MAX_VOICE_LENGTH: 500,
+  MAX_CHECKLIST_ITEMS: 10,
+  MAX_CHECKLIST_ITEM_LENGTH: 200,
+  MAX_DESCRIPTION_LENGTH: 1000,
+  MAX_REFERENCE_IMAGE_BYTES: 10 * 1024 * 1024
+};
+
+// Reference image types video models accept, with the file extension they are stored under
+export const REFERENCE_IMAGE_TYPES = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp"
+};
+
+const DEFAULT_BASE_PROMPT = "cinematic, realistic character";
+const DEFAULT_PERSONALITY = "realistic movie character";
+
+const optionalText = (max) => z.string().trim().max(max).nullable().optional();
+const checklistItem = z.string().trim().min(1).max(CHARACTER_LIMITS.MAX_CHECKLIST_ITEM_LENGTH);
+
+// Field names match the characters /api/characters returns, so an edited character can be sent back as is
+const CharacterInput = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(CHARACTER_LIMITS.MAX_NAME_LENGTH),
+    personality: optionalText(CHARACTER_LIMITS.MAX_PERSONALITY_LENGTH),
+    base_prompt: optionalText(CHARACTER_LIMITS.MAX_PROMPT_LENGTH),
+    visual_details: optionalText(CHARACTER_LIMITS.MAX_VISUAL_DETAILS_LENGTH),
+    voice: optionalText(CHARACTER_LIMITS.MAX_VOICE_LENGTH),
+    // Things that must be true in every frame; the character lock repeats them for every scene
+    consistency_checklist: z.array(checklistItem).max(CHARACTER_LIMITS.MAX_CHECKLIST_ITEMS).nullable().optional(),
+    reference_image: z.string().url().max(2000).nullable().optional(),
+    seed: z.number().int().nonnegative().max(Number.MAX_SAFE_INTEGER).nullable().optional()
+  })
+  .strip();
+
+// The structured profile the character builder asks the model for
+const GeneratedProfile = z.object({
+  name: z.string().trim().min(1).max(CHARACTER_LIMITS.MAX_NAME_LENGTH),
+  personality: z.string().trim().min(1).max(CHARACTER_LIMITS.MAX_PERSONALITY_LENGTH),
+  base_prompt: z.string().trim().min(1).max(CHARACTER_LIMITS.MAX_PROMPT_LENGTH),
+  face: z.string().trim().min(1).max(500),
+  hair: z.string().trim().min(1).max(300),
+  wardrobe: z.string().trim().min(1).max(500),
+  wardrobe_palette: z.array(z.string().trim().min(1).max(40)).min(1).max(6),
+  voice: z.string().trim().min(1).max(300),
+  speech_tics: z.array(z.string().trim().min(1).max(120)).max(5).default([]),
+  consistency_checklist: z.array(checklistItem).min(3).max(CHARACTER_LIMITS.MAX_CHECKLIST_ITEMS)
+});
+
+/**
+ * Parse a character body with `schema`. Throws with every problem listed if it's invalid.
+ */
+function parseInput(schema, input) {
+  const parsed = schema.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid character: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The user id characters are saved under: a trimmed name of at least 2 characters
+ */
+function validateUserId(userId) {
+  if (typeof userId !== "string" || userId.trim().length < 2 || userId.length > 100) {
+    throw new Error("userId must be a name of 2 to 100 characters");
+  }
+  const trimmed = userId.trim();
+  if (trimmed === SYSTEM_USER_ID) {
+    throw new Error(`"${SYSTEM_USER_ID}" is reserved for the shared characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * A characters row as the API returns it. Rows of the old schema keep their fields in columns
+ * instead of `profile`.
+ */
+export function formatCharacter(row) {
+  const profile = row.profile && typeof row.profile === "object" ? row.profile : row;
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    base_prompt: profile.base_prompt || DEFAULT_BASE_PROMPT,
+    personality: profile.personality || DEFAULT_PERSONALITY,
+    reference_image: row.reference_image ?? null,
+    visual_details: profile.visual_details || null,
+    voice: profile.voice || null,
+    consistency_checklist: profile.consistency_checklist || [],
+    seed: row.seed ?? null,
+    system: row.user_id === SYSTEM_USER_ID
+  };
+}
+
+// Columns of a create or update; `profile` is merged into the existing one so unknown keys survive
+function toColumns(input, profile = {}) {
+  const columns = {};
+  const nextProfile = { ...profile };
+  for (const field of ["personality", "base_prompt", "visual_details", "voice"]) {
+    if (input[field] !== undefined) nextProfile[field] = input[field] || null;
+  }
+  if (input.consistency_checklist !== undefined) {
+    nextProfile.consistency_checklist = input.consistency_checklist?.length ? input.consistency_checklist : null;
+  }
+  if (input.name !== undefined) columns.name = input.name;
+  if (input.reference_image !== undefined) columns.reference_image = input.reference_image;
+  if (input.seed !== undefined) columns.seed = input.seed;
+  columns.profile = nextProfile;
+  return columns;
+}
+
+function saveError(action, error, name) {
+  if (error.code === "23505") return new Error(`You already have a character named "${name}"`);
+  return new Error(`Failed to ${action} character: ${error.message}`);
+}
+
+/* =======================
+   READS
+======================= */
+
+/**
+ * The shared system characters plus, when `userId` is given, that user's own
+ */
+export async function listCharacters(userId = null) {
+  const owners = userId ? [SYSTEM_USER_ID, userId.trim()] : [SYSTEM_USER_ID];
+  const { data, error } = await createServiceClient()
+    .from("characters")
+    .select("*")
+    .in("user_id", owners)
+    .order("name", { ascending: true });
+  if (error) throw new Error(`Failed to fetch characters: ${error.message}`);
+  return (data || []).map(formatCharacter);
+}
+
+async function readCharacter(supabase, characterId) {
+  const { data, error } = await supabase.from("characters").select("*").eq("id", characterId).maybeSingle();
+  if (error) throw new Error(`Failed to fetch character: ${error.message}`);
+  return data;
+}
+
+/**
+ * A character `userId` may change. Other users' characters answer as not found, so ids don't
+ * reveal whether they exist.
+ */
+async function readOwnCharacter(supabase, characterId, userId) {
+  const row = await readCharacter(supabase, characterId);
+  if (row?.user_id === SYSTEM_USER_ID) {
+    throw new Error("System characters are shared and can't be changed; duplicate it instead");
+  }
+  if (!row || row.user_id !== userId) throw new Error("Character not found");
+  return row;
+}
+
+/* =======================
+   WRITES
+======================= */
+
+export async function createCharacter(userId, input) {
+  const owner = validateUserId(userId);
+  const character = parseInput(CharacterInput, input);
+
+  const { data, error } = await createServiceClient()
+    .from("characters")
+    .insert({ user_id: owner, ...toColumns(character) })
+    .select()
+    .single();
+  if (error) throw saveError("create", error, character.name);
+
+  console.log(`🧑‍🎨 ${owner} created character "${data.name}"`);
+  return formatCharacter(data);
+}
+
+/**
+ * Change some fields of one of the user's characters. `null` clears an optional field.
+ */
+export async function updateCharacter(characterId, userId, input) {
+  const owner = validateUserId(userId);
+  const changes = parseInput(CharacterInput.partial(), input);
+  if (Object.keys(changes).length === 0) throw new Error("Nothing to update");
+
+  const supabase = createServiceClient();
+  const row = await readOwnCharacter(supabase, characterId, owner);
+
+  const { data, error } = await supabase
+    .from("characters")
+    .update(toColumns(changes, row.profile || {}))
+    .eq("id", characterId)
+    .select()
+    .single();
+  if (error) throw saveError("update", error, changes.name);
+  return formatCharacter(data);
+}
+
+export async function deleteCharacter(characterId, userId) {
+  const owner = validateUserId(userId);
+  const supabase = createServiceClient();
+  const row = await readOwnCharacter(supabase, characterId, owner);
+
+  const { error } = await supabase.from("characters").delete().eq("id", characterId);
+  if (error) throw new Error(`Failed to delete character: ${error.message}`);
+
+  console.log(`🗑️ ${owner} deleted character "${row.name}"`);
+}
+
+/**
+ * Copy one of the user's characters or a system character into the user's own.
+ * Without a `name` the copy is called "<name> (copy)", numbered if that is taken.
+ */
+export async function duplicateCharacter(characterId, userId, { name } = {}) {
+  const owner = validateUserId(userId);
+  const supabase = createServiceClient();
+  const source = await readCharacter(supabase, characterId);
+  if (!source || (source.user_id !== owner && source.user_id !== SYSTEM_USER_ID)) {
+    throw new Error("Character not found");
+  }
+
+  let copyName;
+  if (name !== undefined) {
+    copyName = parseInput(CharacterInput.pick({ name: true }), { name }).name;
+  } else {
+    const { data: owned, error } = await supabase.from("characters").select("name").eq("user_id", owner);
+    if (error) throw new Error(`Failed to fetch characters: ${error.message}`);
+    const taken = new Set((owned || []).map((row) => row.name));
+
+    const base = source.name.substring(0, CHARACTER_LIMITS.MAX_NAME_LENGTH - 12);
+    copyName = `${base} (copy)`;
+    for (let n = 2; taken.has(copyName); n++) copyName = `${base} (copy ${n})`;
+  }
+
+  const { data, error } = await supabase
+    .from("characters")
+    .insert({
+      user_id: owner,
+      name: copyName,
+      profile: source.profile || {},
+      reference_image: source.reference_image ?? null,
+      seed: source.seed ?? null
+    })
+    .select()
+    .single();
+  if (error) throw saveError("duplicate", error, copyName);
+
+  console.log(`🧑‍🎨 ${owner} duplicated "${source.name}" as "${data.name}"`);
+  return formatCharacter(data);
+}
+
+/* =======================
+   REFERENCE IMAGES
+======================= */
+
+/**
+ * Store an uploaded reference image for one of the user's characters and make it the
+ * character's `reference_image`. The previous image stays in the bucket: finished movies may
+ * have been conditioned on it.
+ */
+export async function uploadReferenceImage(characterId, userId, { data, contentType }) {
+  const owner = validateUserId(userId);
+  const extension = REFERENCE_IMAGE_TYPES[contentType];
+  if (!extension) {
+    throw new Error(`Reference image must be one of: ${Object.keys(REFERENCE_IMAGE_TYPES).join(", ")}`);
+  }
+  if (!data || data.byteLength === 0) throw new Error("Reference image is empty");
+  if (data.byteLength > CHARACTER_LIMITS.MAX_REFERENCE_IMAGE_BYTES) {
+    throw new Error(`Reference image is larger than ${CHARACTER_LIMITS.MAX_REFERENCE_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const supabase = createServiceClient();
+  await readOwnCharacter(supabase, characterId, owner);
+
+  const path = `characters/${characterId}/${uuidv4()}.${extension}`;
+  const { error: uploadError } = await supabase.storage
+    .from("images")
+    .upload(path, Buffer.from(data), { contentType, cacheControl: "3600" });
+  if (uploadError) throw new Error(`Failed to upload reference image: ${uploadError.message}`);
+
+  const { data: urlData } = supabase.storage.from("images").getPublicUrl(path);
+  const { data: row, error } = await supabase
+    .from("characters")
+    .update({ reference_image: urlData.publicUrl })
+    .eq("id", characterId)
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to update character: ${error.message}`);
+
+  console.log(`🖼️ ${owner} uploaded a reference image for "${row.name}"`);
+  return formatCharacter(row);
+}
+
+/* =======================
+   GENERATED PROFILES
+======================= */
+
+/**
+ * Validate what the character builder's model returned. Throws with every problem listed.
+ */
+export function parseGeneratedProfile(raw) {
+  const parsed = GeneratedProfile.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "profile"}: ${i.message}`).join("; ");
+    throw new Error(`Generated profile is invalid: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The character fields of a generated profile: face, hair and wardrobe become the visual details
+ * the video prompts carry, the speech tics join the voice the director writes dialogue for.
+ */
+export function generatedProfileToCharacter(profile) {
+  const visualDetails = [
+    `Face: ${profile.face}`,
+    `Hair: ${profile.hair}`,
+    `Wardrobe: ${profile.wardrobe} (palette: ${profile.wardrobe_palette.join(", ")})`
+  ].join("\n");
+  const voice = profile.speech_tics.length > 0
+    ? `${profile.voice} Speech tics: ${profile.speech_tics.join("; ")}`
+    : profile.voice;
+
+  return {
+    name: profile.name,
+    personality: profile.personality,
+    base_prompt: profile.base_prompt,
+    visual_details: visualDetails.substring(0, CHARACTER_LIMITS.MAX_VISUAL_DETAILS_LENGTH),
+    voice: voice.substring(0, CHARACTER_LIMITS.MAX_VOICE_LENGTH),
+    consistency_checklist: profile.consistency_checklist
+  };
+}
@@ -13,15 +13,88 @@ const EnvSchema = z.object({
   GOOGLE_API_KEY: z.string().default(""),
 
   // Optional overrides
-  OPENAI_MODEL: z.string().min(1).optional()
+  OPENAI_MODEL: z.string().min(1).optional(),
+  // Model that draws generated keyframes (see createMovie's `keyframes` option); priced in pricing.json
+  OPENAI_IMAGE_MODEL: z.string().min(1).default("gpt-image-1"),
+
+  // Video providers (see src/lib/videoProviders.js)
+  VIDEO_HTTP_BASE_URL: z.string().url().optional(),
+  VIDEO_HTTP_API_KEY: z.string().min(1).optional(),
+  MOCK_VIDEO_CLIPS_DIR: z.string().min(1).optional(),
+
+  // Model prices (defaults to pricing.json at the project root, see src/lib/pricingCatalog.js)
+  PRICING_CATALOG_PATH: z.string().min(1).optional(),
+
+  // Where rate-limit buckets are kept (see src/lib/rateLimiter.js); "redis" needs REDIS_URL
+  RATE_LIMIT_STORE: z.enum(["memory", "postgres", "redis"]).default("postgres"),
+  REDIS_URL: z.string().url().optional(),
+
+  // Movie assembly
+  FFMPEG_PATH: z.string().min(1).default("ffmpeg"),
+  FFPROBE_PATH: z.string().min(1).default("ffprobe"),
+
+  // Caps (USD) for users without a row in `budgets`; an unset monthly/lifetime cap means no cap
+  DEFAULT_USER_DAILY_BUDGET: z.coerce.number().nonnegative().default(5),
+  DEFAULT_USER_MONTHLY_BUDGET: z.coerce.number().nonnegative().optional(),
+  DEFAULT_USER_LIFETIME_BUDGET: z.coerce.number().nonnegative().optional(),
+
+  // Spending alerts: percentages of a cap that raise an alert ("" for none), and the percentage at which
+  // jobs pause after their current scene (unset: never). A `budgets` row can override both per scope.
+  BUDGET_ALERT_THRESHOLDS: z
+    .string()
+    .default("50,80,100")
+    .transform((value) => value.split(",").map((part) => part.trim()).filter(Boolean).map(Number))
+    .pipe(z.array(z.number().positive())),
+  BUDGET_SOFT_STOP_PERCENT: z.coerce.number().positive().optional(),
+  // Alerts are POSTed here, signed with the secret (see src/lib/budgetWebhooks.js)
+  BUDGET_WEBHOOK_URL: z.string().url().optional(),
+  BUDGET_WEBHOOK_SECRET: z.string().min(1).optional(),
+
+  // Admin API tokens as "name:token" pairs, comma separated (see src/lib/adminAuth.js). The name
+  // is what the budget audit log records as the actor. Admin routes answer 503 while this is empty.
+  ADMIN_API_TOKENS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .map((part) => {
+          const separator = part.indexOf(":");
+          if (separator < 0) return { name: "", token: part }; // Rejected below: every token needs a name
+          return { name: part.slice(0, separator).trim(), token: part.slice(separator + 1).trim() };
+        })
+    )
+    .pipe(z.array(z.object({ name: z.string().min(1), token: z.string().min(16) }))),
+
+  // "mock" runs the whole pipeline offline (see src/lib/mockBackend.js)
+  VIDEO_ENGINE_MODE: z.enum(["live", "mock"]).default("live"),
+  APP_URL: z.string().url().default("http://localhost:3000")
+});
+
+// Mock mode never talks to Supabase, OpenAI or Replicate, so their keys are optional
+const MockEnvSchema = EnvSchema.extend({
+  NEXT_PUBLIC_SUPABASE_URL: z.string().url().default("http://localhost:54321"),
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().default("mock"),
+  SUPABASE_SERVICE_ROLE_KEY: z.string().default("mock"),
+  OPENAI_API_KEY: z.string().default("mock"),
+  REPLICATE_API_TOKEN: z.string().default("mock")
 });
 
+/**
+ * Whether the engine runs against the in-memory mock backend instead of real services
+ */
+export function isMockMode() {
+  return process.env.VIDEO_ENGINE_MODE === "mock";
+}
+
 /**
  * Validates and returns required runtime env vars.
  * Throws a helpful error if misconfigured.
  */
 export function getEnv() {
-  const parsed = EnvSchema.safeParse(process.env);
+  const parsed = (isMockMode() ? MockEnvSchema : EnvSchema).safeParse(process.env);
   if (parsed.success) return parsed.data;
 
   const issues = parsed.error.issues
@@ -1,11 +1,35 @@
 /**
  * Generation Jobs Manager - Tracks active video generation jobs
  * Allows aborting ongoing generations to prevent unnecessary spending
+ * Persists queued/running jobs to the `jobs` table so they survive restarts
  */
 
-class GenerationJobsManager {
-  constructor() {
+import { EventEmitter } from "events";
+import { createServiceClient } from "@/lib/supabaseClients";
+
+// A running job that hasn't written a heartbeat for this long is considered
+// orphaned (its worker crashed or was restarted) and is put back in the queue.
+export const JOB_STALE_AFTER_MS = 10 * 60 * 1000; // 10 minutes
+export const JOB_HEARTBEAT_MS = 60 * 1000; // 1 minute
+export const MAX_JOB_ATTEMPTS = 3;
+
+export class GenerationJobsManager {
+  // `supabase` can be injected (tests); otherwise a service-role client is created on first use
+  constructor({ supabase = null } = {}) {
     this.jobs = new Map(); // jobId -> { abortController, startTime, movieId }
+    this.supabase = supabase;
+    this.events = new EventEmitter(); // jobId -> live progress events for SSE subscribers
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Lazily create the service-role client used for the `jobs` table
+   */
+  getClient() {
+    if (!this.supabase) {
+      this.supabase = createServiceClient();
+    }
+    return this.supabase;
   }
 
   /**
@@ -32,8 +56,9 @@ class GenerationJobsManager {
 
   /**
    * Abort a generation job
+   * Running jobs are stopped in-process; queued jobs are cancelled in the database
    */
-  abortJob(jobId) {
+  async abortJob(jobId) {
     const job = this.jobs.get(jobId);
     if (job && job.status === "running") {
       job.abortController.abort();
@@ -41,7 +66,17 @@ class GenerationJobsManager {
       job.abortedAt = Date.now();
       return true;
     }
-    return false;
+
+    // Not running in this process - cancel it in the queue (or flag it for whichever worker holds it)
+    const { data, error } = await this.getClient()
+      .from("jobs")
+      .update({ status: "aborted", completed_at: new Date().toISOString() })
+      .eq("id", jobId)
+      .in("status", ["queued", "running", "paused"])
+      .select("id");
+
+    if (error) throw new Error(`Failed to abort job: ${error.message}`);
+    return (data || []).length > 0;
   }
 
   /**
@@ -69,6 +104,210 @@ class GenerationJobsManager {
     };
   }
 
+  /* =======================
+     LIVE EVENTS
+  ======================= */
+
+  /**
+   * Publish a live event (progress, scene, fallback, cost, done) for a job
+   */
+  emitJobEvent(jobId, type, data = {}) {
+    this.events.emit(jobId, { type, data, timestamp: Date.now() });
+  }
+
+  /**
+   * Listen to a job's live events. Returns an unsubscribe function.
+   */
+  subscribe(jobId, listener) {
+    this.events.on(jobId, listener);
+    return () => this.events.off(jobId, listener);
+  }
+
+  /* =======================
+     PERSISTENT QUEUE
+  ======================= */
+
+  /**
+   * Insert a queued job. `request` holds the createMovie options needed to (re)run it.
+   */
+  async enqueueJob({ userId, prompt, request }) {
+    const { data, error } = await this.getClient()
+      .from("jobs")
+      .insert({
+        user_id: userId,
+        prompt,
+        duration: request.totalDurationSeconds,
+        status: "queued",
+        progress: 0,
+        result: { scenes: [] },
+        metadata: { request },
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to enqueue job: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * Claim the oldest queued job for a worker. Returns null when the queue is empty.
+   * The status check in the update makes the claim safe across several workers.
+   */
+  async claimNextJob(workerId) {
+    const supabase = this.getClient();
+    const { data: candidates, error } = await supabase
+      .from("jobs")
+      .select("id, attempts")
+      .eq("status", "queued")
+      .order("created_at", { ascending: true })
+      .limit(5);
+
+    if (error) throw new Error(`Failed to read job queue: ${error.message}`);
+
+    for (const candidate of candidates || []) {
+      const { data: claimed } = await supabase
+        .from("jobs")
+        .update({
+          status: "running",
+          worker_id: workerId,
+          attempts: (candidate.attempts || 0) + 1,
+          started_at: new Date().toISOString(),
+          heartbeat_at: new Date().toISOString(),
+        })
+        .eq("id", candidate.id)
+        .eq("status", "queued")
+        .select()
+        .maybeSingle();
+
+      if (claimed) return claimed;
+    }
+    return null;
+  }
+
+  /**
+   * Put a job paused by a budget soft stop back in the queue; it resumes from its last saved scene.
+   * Returns false when the job isn't paused.
+   */
+  async resumeJob(jobId) {
+    const { data, error } = await this.getClient()
+      .from("jobs")
+      .update({ status: "queued", worker_id: null })
+      .eq("id", jobId)
+      .eq("status", "paused")
+      .select("id");
+
+    if (error) throw new Error(`Failed to resume job: ${error.message}`);
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Put orphaned running jobs back in the queue so they resume from their last saved scene.
+   * Jobs that keep crashing are failed after MAX_JOB_ATTEMPTS.
+   */
+  async requeueStaleJobs(staleAfterMs = JOB_STALE_AFTER_MS) {
+    const supabase = this.getClient();
+    const cutoff = new Date(Date.now() - staleAfterMs).toISOString();
+    const { data: stale, error } = await supabase
+      .from("jobs")
+      .select("id, attempts")
+      .eq("status", "running")
+      .lt("heartbeat_at", cutoff);
+
+    if (error) throw new Error(`Failed to read stale jobs: ${error.message}`);
+
+    for (const job of stale || []) {
+      const exhausted = (job.attempts || 0) >= MAX_JOB_ATTEMPTS;
+      await supabase
+        .from("jobs")
+        .update(
+          exhausted
+            ? { status: "failed", error: `Job crashed ${job.attempts} times`, completed_at: new Date().toISOString() }
+            : { status: "queued", worker_id: null }
+        )
+        .eq("id", job.id)
+        .eq("status", "running");
+    }
+    return (stale || []).length;
+  }
+
+  /**
+   * Mark a running job as alive
+   */
+  async heartbeat(jobId) {
+    await this.updateJob(jobId, { heartbeat_at: new Date().toISOString() });
+  }
+
+  /**
+   * Apply a partial update to a persisted job
+   */
+  async updateJob(jobId, patch) {
+    const { error } = await this.getClient().from("jobs").update(patch).eq("id", jobId);
+    if (error) throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+  }
+
+  /**
+   * Read a persisted job row
+   */
+  async getPersistedJob(jobId) {
+    const { data, error } = await this.getClient().from("jobs").select("*").eq("id", jobId).maybeSingle();
+    if (error) throw new Error(`Failed to read job ${jobId}: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * List persisted jobs, newest first. `status` may be a single status or an array.
+   */
+  async listJobs({ userId = null, status = null, limit = 20 } = {}) {
+    let query = this.getClient()
+      .from("jobs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (userId) query = query.eq("user_id", userId);
+    if (Array.isArray(status) && status.length > 0) query = query.in("status", status);
+    else if (typeof status === "string" && status) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to list jobs: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Shape a persisted job row for API responses
+   */
+  toJobSummary(row) {
+    const scenes = row.result?.scenes || [];
+    const failed = row.result?.failed || [];
+    const startedAt = row.started_at || row.created_at;
+    const endedAt = row.completed_at ? new Date(row.completed_at).getTime() : Date.now();
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status,
+      mode: row.metadata?.request?.mode || "movie",
+      prompt: row.prompt,
+      progress: row.progress || 0,
+      attempts: row.attempts || 0,
+      createdAt: row.created_at,
+      startedAt: row.started_at || null,
+      completedAt: row.completed_at || null,
+      elapsed: row.status === "queued" ? 0 : Math.max(0, endedAt - new Date(startedAt).getTime()),
+      totalScenes: row.result?.totalScenes || null,
+      scenesDone: scenes.length,
+      scenesFailed: failed.length,
+      failedScenes: failed,
+      modelsUsed: [...new Set(scenes.map((s) => s.model).filter(Boolean))],
+      cost: row.cost_tracking?.total || 0,
+      movieId: row.result?.movieId || null,
+      storyboardId: row.result?.storyboardId || null,
+      budgetAlert: row.result?.budgetAlert || null,
+      error: row.error || null,
+      live: this.jobs.get(row.id)?.status === "running",
+    };
+  }
+
   /**
    * Remove old completed jobs (cleanup)
    */
@@ -93,4 +332,3 @@ export function getJobsManager() {
   }
   return jobsManagerInstance;
 }
-
@@ -0,0 +1,13 @@
+/**
+ * Hash - Small stable string hash (32-bit FNV-1a) for picking fixtures and clips deterministically
+ * Not for anything security related.
+ */
+
+export function hashString(text) {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,311 @@
+/**
+ * Job Worker - Runs queued generation jobs from the `jobs` table
+ * Each finished scene is saved to `jobs.result` so a crashed job resumes where it stopped
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { createMovie, draftStoryboard, estimateMovie, reconcileProviderCosts } from "@/lib/videoEngine";
+import { getJobsManager, JOB_HEARTBEAT_MS } from "@/lib/generationJobs";
+import { getBudgetManager } from "@/lib/budgetManager";
+
+const POLL_INTERVAL_MS = 5 * 1000; // 5 seconds
+const MAX_CONCURRENT_JOBS = 1; // Per process - scenes inside a job already run in parallel
+
+/**
+ * Budget to reserve for a job: the scripts for a storyboard draft, otherwise the scenes still to render.
+ * Priced by the engine's own estimate, so scene lengths are snapped to the model the way createMovie does.
+ */
+function estimateJobCost(request, savedScenes) {
+  const estimate = estimateMovie({
+    totalDurationSeconds: request.totalDurationSeconds,
+    sceneDuration: request.sceneDuration,
+    modelChain: request.modelChain || null,
+    mode: request.mode === "storyboard" ? "storyboard" : "movie",
+    keyframes: request.keyframes || null
+  });
+  if (request.mode === "storyboard") return estimate.cost.openai;
+
+  // A storyboard render has exactly its scenes, already scripted; a resumed job only the ones without a saved result
+  const totalScenes = request.storyboard?.length || estimate.scenes;
+  const finished = new Set(savedScenes.filter((s) => s.success && s.video).map((s) => s.scene));
+  const pendingScenes = Math.max(0, totalScenes - finished.size);
+  const sceneCost = request.storyboard ? estimate.cost.total - estimate.cost.openai : estimate.cost.total;
+  return (sceneCost / estimate.scenes) * pendingScenes;
+}
+
+export class JobWorker {
+  constructor() {
+    this.workerId = `worker-${uuidv4()}`;
+    this.active = new Set();
+    this.timer = null;
+    this.polling = false;
+  }
+
+  /**
+   * Start polling the queue (idempotent)
+   */
+  start() {
+    if (this.timer) return;
+    console.log(`👷 Job worker ${this.workerId} started`);
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+  }
+
+  /**
+   * Stop polling; jobs already running keep going
+   */
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Claim and start jobs while there is capacity
+   */
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const jobsManager = getJobsManager();
+      await jobsManager.requeueStaleJobs();
+
+      while (this.active.size < MAX_CONCURRENT_JOBS) {
+        const job = await jobsManager.claimNextJob(this.workerId);
+        if (!job) break;
+
+        this.active.add(job.id);
+        this.runJob(job).finally(() => this.active.delete(job.id));
+      }
+    } catch (error) {
+      console.error(`❌ Job worker poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run (or resume) one claimed job to completion
+   */
+  async runJob(job) {
+    const jobsManager = getJobsManager();
+    const request = job.metadata?.request || {};
+    const savedScenes = job.result?.scenes || [];
+    const abortController = jobsManager.createJob(job.id);
+
+    console.log(`👷 Running job ${job.id} (attempt ${job.attempts}, ${savedScenes.length} scene(s) saved)`);
+
+    // Heartbeat keeps the job from being treated as orphaned, and picks up aborts
+    // requested through another server instance.
+    const heartbeat = setInterval(async () => {
+      try {
+        const current = await jobsManager.getPersistedJob(job.id);
+        if (current?.status === "aborted") {
+          abortController.abort();
+          return;
+        }
+        await jobsManager.heartbeat(job.id);
+      } catch (error) {
+        console.error(`⚠️  Heartbeat failed for job ${job.id}: ${error.message}`);
+      }
+    }, JOB_HEARTBEAT_MS);
+
+    const scenes = [...savedScenes];
+    const failed = [];
+    let totalScenes = job.result?.totalScenes || null;
+
+    // The job's cost comes from its ledger entries, so it includes what earlier attempts spent
+    const budgetManager = getBudgetManager();
+    let reservation = null;
+    const jobCost = async () => {
+      try {
+        return { ...job.cost_tracking, total: await budgetManager.getLedgerTotal({ jobId: job.id }) };
+      } catch (error) {
+        console.error(`⚠️  Failed to read the cost of job ${job.id}: ${error.message}`);
+        return job.cost_tracking;
+      }
+    };
+
+    const onSceneComplete = async (scene) => {
+      scenes.push({
+        scene: scene.scene,
+        success: scene.success,
+        video: scene.video,
+        model: scene.model,
+        duration: scene.duration,
+        script: scene.script,
+        summary: scene.summary,
+        endHook: scene.endHook,
+        totalTime: scene.totalTime
+      });
+      jobsManager.emitJobEvent(job.id, "scene", scenes[scenes.length - 1]);
+      await jobsManager.updateJob(job.id, {
+        result: { ...job.result, scenes, failed, totalScenes },
+        heartbeat_at: new Date().toISOString()
+      });
+    };
+
+    const onProgress = (progress) => {
+      // Fallback, cost and budget alert notifications go out as their own event types; everything else is progress
+      const type = ["fallback", "cost", "budget_alert"].includes(progress.status) ? progress.status : "progress";
+      jobsManager.emitJobEvent(job.id, type, progress);
+      if (type === "fallback" || type === "budget_alert") return;
+
+      totalScenes = progress.total;
+      const patch = { heartbeat_at: new Date().toISOString() };
+      if (type === "cost") {
+        // Cost events carry the movie's (or storyboard's) ledger total, which is this job's spend
+        patch.cost_tracking = { ...job.cost_tracking, total: progress.cost };
+      } else {
+        patch.progress = progress.percentage;
+        if (progress.status === "failed") {
+          failed.push({ scene: progress.scene, error: progress.error, timestamp: Date.now() });
+          patch.result = { ...job.result, scenes, failed, totalScenes };
+        }
+      }
+
+      jobsManager
+        .updateJob(job.id, patch)
+        .catch((error) => console.error(`⚠️  Progress update failed for job ${job.id}: ${error.message}`));
+    };
+
+    jobsManager.emitJobEvent(job.id, "status", { status: "running", attempt: job.attempts, resumedScenes: savedScenes.length });
+
+    try {
+      // Hold the estimate for the whole run; the engine commits spend against it scene by scene
+      const owner = { userId: job.user_id, teamId: request.teamId || null, projectId: request.projectId || null };
+      const reserved = await budgetManager.reserveBudget(owner, estimateJobCost(request, savedScenes), { jobId: job.id });
+      if (!reserved.allowed) {
+        throw new Error(`Insufficient budget remaining. ${reserved.reason}`);
+      }
+      reservation = reserved.reservation;
+
+      if (request.mode === "storyboard") {
+        // Script-only job: the drafted storyboard is edited and rendered later
+        const storyboard = await draftStoryboard({
+          ...request,
+          userId: job.user_id,
+          onProgress,
+          abortSignal: abortController.signal,
+          jobId: job.id,
+          reservationId: reservation.id
+        });
+        await jobsManager.updateJob(job.id, {
+          status: "completed",
+          progress: 100,
+          error: null,
+          completed_at: new Date().toISOString(),
+          cost_tracking: await jobCost(),
+          result: { scenes: [], failed, totalScenes: storyboard.scenes.length, storyboardId: storyboard.id }
+        });
+        jobsManager.emitJobEvent(job.id, "done", { status: "completed", movieId: null, storyboardId: storyboard.id });
+        console.log(`✅ Job ${job.id} drafted storyboard ${storyboard.id}`);
+        return;
+      }
+
+      // Keep one movie id across attempts so a resumed job's ledger entries all point at the same movie
+      let movieId = job.metadata?.movie_id;
+      if (!movieId) {
+        movieId = uuidv4();
+        job.metadata = { ...job.metadata, movie_id: movieId };
+        await jobsManager.updateJob(job.id, { metadata: job.metadata });
+      }
+
+      const result = await createMovie({
+        ...request,
+        movieId,
+        userId: job.user_id,
+        onProgress,
+        onSceneComplete,
+        abortSignal: abortController.signal,
+        jobId: job.id,
+        resumeScenes: savedScenes,
+        reservationId: reservation.id
+      });
+
+      if (result.paused) {
+        // Budget soft stop: the finished scenes stay in the job, and resuming it renders the rest
+        await jobsManager.updateJob(job.id, {
+          status: "paused",
+          error: null,
+          cost_tracking: await jobCost(),
+          result: { scenes, failed, totalScenes: result.totalScenes, budgetAlert: result.budgetAlert }
+        });
+        jobsManager.emitJobEvent(job.id, "done", {
+          status: "paused",
+          movieId: null,
+          successfulScenes: result.successfulScenes,
+          totalScenes: result.totalScenes,
+          budgetAlert: result.budgetAlert
+        });
+        console.log(`⏸️  Job ${job.id} paused by a budget soft stop (${result.successfulScenes}/${result.totalScenes} scenes)`);
+        return;
+      }
+
+      const aborted = abortController.signal.aborted;
+      const status = aborted ? "aborted" : (result.successfulScenes > 0 ? "completed" : "failed");
+      await jobsManager.updateJob(job.id, {
+        status,
+        ...(aborted ? {} : { progress: 100 }),
+        error: result.successfulScenes > 0 || aborted ? null : "No scenes were generated",
+        completed_at: new Date().toISOString(),
+        cost_tracking: await jobCost(),
+        result: {
+          scenes,
+          movieId: result.dbRecord?.id || null,
+          totalScenes: result.totalScenes,
+          successfulScenes: result.successfulScenes,
+          failedScenes: result.failedScenes,
+          failed
+        }
+      });
+      jobsManager.emitJobEvent(job.id, "done", {
+        status,
+        movieId: result.dbRecord?.id || null,
+        successfulScenes: result.successfulScenes,
+        totalScenes: result.totalScenes
+      });
+      console.log(`✅ Job ${job.id} finished (${result.successfulScenes}/${result.totalScenes} scenes)`);
+    } catch (error) {
+      const aborted = abortController.signal.aborted || error.message?.includes("aborted");
+      console.error(`❌ Job ${job.id} ${aborted ? "aborted" : "failed"}: ${error.message}`);
+      await jobsManager
+        .updateJob(job.id, {
+          status: aborted ? "aborted" : "failed",
+          error: aborted ? null : error.message,
+          completed_at: new Date().toISOString(),
+          cost_tracking: await jobCost(),
+          result: { ...job.result, scenes, failed, totalScenes }
+        })
+        .catch((updateError) => console.error(`⚠️  Failed to record job ${job.id} failure: ${updateError.message}`));
+      jobsManager.emitJobEvent(job.id, "done", {
+        status: aborted ? "aborted" : "failed",
+        error: aborted ? null : error.message,
+        movieId: null
+      });
+    } finally {
+      clearInterval(heartbeat);
+      jobsManager.completeJob(job.id);
+      // Whatever the job didn't spend goes back to the budget
+      if (reservation) {
+        await budgetManager
+          .releaseReservation(reservation.id)
+          .catch((error) => console.error(`⚠️  Failed to release the budget of job ${job.id}: ${error.message}`));
+      }
+      // Renders charged before the provider reported their metrics are settled at its real cost
+      await reconcileProviderCosts({ jobId: job.id }).catch((error) =>
+        console.error(`⚠️  Failed to reconcile the provider costs of job ${job.id}: ${error.message}`)
+      );
+    }
+  }
+}
+
+// Singleton instance
+let jobWorkerInstance = null;
+
+export function startJobWorker() {
+  if (!jobWorkerInstance) {
+    jobWorkerInstance = new JobWorker();
+  }
+  jobWorkerInstance.start();
+  return jobWorkerInstance;
+}
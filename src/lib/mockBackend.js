@@ -0,0 +1,765 @@
+/**
+ * Mock Backend - Offline stand-ins for Supabase and OpenAI (VIDEO_ENGINE_MODE=mock)
+ * Tables and storage live in memory for the lifetime of the server process; OpenAI returns
+ * deterministic scripts built from the prompt, so the same request always yields the same movie,
+ * character profiles built from the description, and a 1x1 placeholder for every generated image.
+ */
+
+import "server-only";
+
+import { v4 as uuidv4 } from "uuid";
+import { getEnv } from "@/lib/env";
+import { hashString } from "@/lib/hash";
+import { takeToken } from "@/lib/rateLimiter";
+
+/* =======================
+   IN-MEMORY STORE
+======================= */
+
+// Column defaults from supabase-schema.sql (id and timestamps are filled in by insertRow)
+const TABLE_DEFAULTS = {
+  characters: () => ({ profile: {}, reference_image: null, seed: null }),
+  videos: () => ({ character_id: null, prompt: null, images: [], video_url: null, duration: 10, metadata: {} }),
+  jobs: () => ({
+    character_id: null,
+    character_name: null,
+    character_profile: {},
+    duration: 10,
+    style: "cinematic realistic",
+    status: "queued",
+    progress: 0,
+    error: null,
+    result: {},
+    cost_tracking: { images: 0, video: 0, audio: 0, total: 0 },
+    metadata: {},
+    worker_id: null,
+    attempts: 0,
+    started_at: null,
+    heartbeat_at: null,
+    completed_at: null
+  }),
+  movies: () => ({
+    user_id: null,
+    successful_scenes: 0,
+    character_ids: [],
+    scenes_data: [],
+    metadata: {},
+    status: "pending",
+    final_video_url: null
+  }),
+  storyboards: () => ({
+    user_id: null,
+    character_ids: [],
+    scenes: [],
+    status: "draft",
+    movie_id: null,
+    job_id: null,
+    metadata: {}
+  }),
+  budgets: () => ({
+    daily_limit: null,
+    monthly_limit: null,
+    lifetime_limit: null,
+    alert_thresholds: null,
+    soft_stop_percent: null,
+    spend_reset_at: null,
+    override_limits: null,
+    override_expires_at: null,
+    metadata: {}
+  }),
+  cost_ledger: () => ({
+    team_id: null,
+    project_id: null,
+    job_id: null,
+    movie_id: null,
+    storyboard_id: null,
+    scene_number: null,
+    model: null,
+    input_tokens: null,
+    output_tokens: null,
+    seconds: null,
+    unit: null,
+    unit_price: null,
+    output_unit_price: null,
+    alert: null,
+    prediction_id: null,
+    prediction_status: null,
+    estimated_amount: null,
+    provider_cost: null,
+    predict_time: null,
+    hardware: null,
+    adjusts_id: null
+  }),
+  budget_reservations: () => ({
+    team_id: null,
+    project_id: null,
+    job_id: null,
+    committed: 0,
+    status: "active",
+    released_at: null
+  }),
+  budget_audit_log: () => ({
+    before: null,
+    after: null,
+    reason: null
+  }),
+  rate_limit_buckets: () => ({
+    tokens: [],
+    blocked_until: null
+  })
+};
+
+// Tables with an updated_at trigger in the real schema
+const TOUCHED_TABLES = ["characters", "jobs", "movies", "storyboards", "budgets", "budget_reservations"];
+
+// Tables whose triggers reject UPDATE and DELETE
+const APPEND_ONLY_TABLES = ["cost_ledger", "budget_audit_log"];
+
+// Unique constraints of the real schema, by constraint name
+const UNIQUE_KEYS = {
+  characters: { characters_user_id_name_key: ["user_id", "name"] }
+};
+
+// Same rows as the DEFAULT DATA section of the schema, with fixed ids so fixtures are stable
+const SEED_CHARACTERS = [
+  ["🧑‍🔬 Dr. Aris Thorne", "Sci-Fi Explorer", "cinematic, realistic scientist character"],
+  ["🦸‍♂️ Captain Vector", "Space Hero", "cinematic, realistic space hero"],
+  ["🧙‍♀️ Lyra Moonwhisper", "Fantasy Mage", "cinematic, realistic fantasy mage"],
+  ["🕵️‍♂️ Detective Kairo", "Noir Detective", "cinematic, realistic noir detective"],
+  ["👨‍🚀 Nova Pilot", "Astronaut", "cinematic, realistic astronaut"]
+].map(([name, personality, base_prompt], index) => ({
+  id: `00000000-0000-4000-8000-00000000000${index + 1}`,
+  user_id: "system",
+  name,
+  profile: { personality, base_prompt }
+}));
+
+/**
+ * Empty store with the seed characters. Kept on globalThis so route handlers, the job
+ * worker and dev-mode hot reloads all see the same data.
+ */
+function createStore() {
+  const store = {
+    tables: Object.fromEntries(Object.keys(TABLE_DEFAULTS).map((table) => [table, []])),
+    buckets: { images: new Map(), videos: new Map() },
+    lastTimestamp: 0
+  };
+  for (const character of SEED_CHARACTERS) insertRow(store, "characters", character);
+  return store;
+}
+
+export function getMockStore() {
+  if (!globalThis.__mockBackendStore) {
+    globalThis.__mockBackendStore = createStore();
+  }
+  return globalThis.__mockBackendStore;
+}
+
+/**
+ * Drop everything and start again from the seed data
+ */
+export function resetMockStore() {
+  globalThis.__mockBackendStore = createStore();
+  return globalThis.__mockBackendStore;
+}
+
+// Strictly increasing, so rows inserted in the same millisecond still sort in insert order
+function nextTimestamp(store) {
+  store.lastTimestamp = Math.max(Date.now(), store.lastTimestamp + 1);
+  return new Date(store.lastTimestamp).toISOString();
+}
+
+/**
+ * The unique constraint `candidate` would break if it were saved next to `rows`, or null
+ */
+function uniqueViolation(table, rows, candidate) {
+  for (const [constraint, columns] of Object.entries(UNIQUE_KEYS[table] || {})) {
+    const taken = rows.some((row) => row !== candidate && columns.every((column) => row[column] === candidate[column]));
+    if (taken) {
+      return { code: "23505", message: `duplicate key value violates unique constraint "${constraint}"` };
+    }
+  }
+  return null;
+}
+
+function insertRow(store, table, values) {
+  const now = nextTimestamp(store);
+  const row = {
+    id: uuidv4(),
+    ...(TABLE_DEFAULTS[table]?.() || {}),
+    created_at: now,
+    ...(TOUCHED_TABLES.includes(table) ? { updated_at: now } : {}),
+    ...structuredClone(values)
+  };
+  store.tables[table].push(row);
+  return row;
+}
+
+/* =======================
+   SUPABASE QUERY BUILDER
+======================= */
+
+const FILTERS = {
+  eq: (value, expected) => value === expected,
+  neq: (value, expected) => value !== expected,
+  in: (value, expected) => expected.includes(value),
+  lt: (value, expected) => value !== null && value !== undefined && value < expected,
+  lte: (value, expected) => value !== null && value !== undefined && value <= expected,
+  gt: (value, expected) => value !== null && value !== undefined && value > expected,
+  gte: (value, expected) => value !== null && value !== undefined && value >= expected
+};
+
+function pickColumns(row, columns) {
+  if (!columns || columns.trim() === "*") return row;
+  const names = columns.split(",").map((name) => name.trim()).filter(Boolean);
+  return Object.fromEntries(names.map((name) => [name, row[name] ?? null]));
+}
+
+/**
+ * The subset of the PostgREST builder the app uses. Awaiting it resolves to `{ data, error }`
+ * like supabase-js; errors are returned, never thrown.
+ */
+class MockQuery {
+  constructor(store, table) {
+    this.store = store;
+    this.table = table;
+    this.action = "select";
+    this.values = null;
+    this.columns = "*";
+    this.returning = false;
+    this.filters = [];
+    this.ordering = [];
+    this.maxRows = null;
+    this.cardinality = null; // "single" | "maybeSingle"
+
+    for (const [name, test] of Object.entries(FILTERS)) {
+      this[name] = (column, expected) => {
+        this.filters.push((row) => test(row[column] ?? null, expected));
+        return this;
+      };
+    }
+  }
+
+  select(columns = "*") {
+    if (this.action === "select") this.columns = columns;
+    else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    return this;
+  }
+
+  insert(values) {
+    this.action = "insert";
+    this.values = values;
+    return this;
+  }
+
+  update(values) {
+    this.action = "update";
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.ordering.push({ column, ascending });
+    return this;
+  }
+
+  limit(count) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then(resolve, reject) {
+    let result;
+    try {
+      result = this.execute();
+    } catch (error) {
+      result = { data: null, error: { message: error.message } };
+    }
+    return Promise.resolve(result).then(resolve, reject);
+  }
+
+  execute() {
+    const rows = this.store.tables[this.table];
+    if (!rows) {
+      return { data: null, error: { code: "42P01", message: `relation "public.${this.table}" does not exist` } };
+    }
+
+    if ((this.action === "update" || this.action === "delete") && APPEND_ONLY_TABLES.includes(this.table)) {
+      return { data: null, error: { code: "P0001", message: `${this.table} is append-only` } };
+    }
+
+    let affected;
+    if (this.action === "insert") {
+      const values = Array.isArray(this.values) ? this.values : [this.values];
+      for (const [index, value] of values.entries()) {
+        const violation = uniqueViolation(this.table, [...rows, ...values.slice(0, index)], value);
+        if (violation) return { data: null, error: violation };
+      }
+      affected = values.map((value) => insertRow(this.store, this.table, value));
+    } else {
+      affected = rows.filter((row) => this.filters.every((test) => test(row)));
+
+      if (this.action === "update") {
+        const updated = affected.map((row) => ({ ...row, ...this.values }));
+        const others = rows.filter((row) => !affected.includes(row));
+        for (const [index, row] of updated.entries()) {
+          const violation = uniqueViolation(this.table, [...others, ...updated.slice(0, index)], row);
+          if (violation) return { data: null, error: violation };
+        }
+        const touched = TOUCHED_TABLES.includes(this.table) ? { updated_at: nextTimestamp(this.store) } : {};
+        for (const row of affected) Object.assign(row, structuredClone(this.values), touched);
+      } else if (this.action === "delete") {
+        this.store.tables[this.table] = rows.filter((row) => !affected.includes(row));
+      }
+    }
+
+    if (this.action !== "select" && !this.returning) return { data: null, error: null };
+
+    let data = [...affected];
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      data.sort((a, b) => {
+        if (a[column] === b[column]) return 0;
+        const before = a[column] === null || a[column] === undefined ? true : a[column] < b[column];
+        return (before ? -1 : 1) * (ascending ? 1 : -1);
+      });
+    }
+    if (this.maxRows !== null) data = data.slice(0, this.maxRows);
+    data = data.map((row) => structuredClone(pickColumns(row, this.columns)));
+
+    if (this.cardinality) {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === "single")) {
+        return {
+          data: null,
+          error: {
+            code: "PGRST116",
+            message: "JSON object requested, multiple (or no) rows returned",
+            details: `The result contains ${data.length} rows`
+          }
+        };
+      }
+      return { data: data[0] || null, error: null };
+    }
+    return { data, error: null };
+  }
+}
+
+/* =======================
+   SUPABASE STORAGE
+======================= */
+
+class MockBucket {
+  constructor(store, bucket) {
+    this.store = store;
+    this.bucket = bucket;
+  }
+
+  get files() {
+    if (!this.store.buckets[this.bucket]) this.store.buckets[this.bucket] = new Map();
+    return this.store.buckets[this.bucket];
+  }
+
+  async upload(path, body, { contentType = "application/octet-stream", upsert = false } = {}) {
+    if (this.files.has(path) && !upsert) {
+      return { data: null, error: { statusCode: "409", message: "The resource already exists" } };
+    }
+    const buffer = Buffer.isBuffer(body) ? body : Buffer.from(body instanceof ArrayBuffer ? body : await new Response(body).arrayBuffer());
+    this.files.set(path, { buffer, contentType });
+    return { data: { path }, error: null };
+  }
+
+  async download(path) {
+    const file = this.files.get(path);
+    if (!file) return { data: null, error: { statusCode: "404", message: "Object not found" } };
+    return { data: new Blob([file.buffer], { type: file.contentType }), error: null };
+  }
+
+  getPublicUrl(path) {
+    const { APP_URL } = getEnv();
+    const encoded = path.split("/").map(encodeURIComponent).join("/");
+    return { data: { publicUrl: `${APP_URL.replace(/\/+$/, "")}/api/mock-storage/${this.bucket}/${encoded}` } };
+  }
+}
+
+/**
+ * A stored file, for the /api/mock-storage route
+ */
+export function getMockStorageObject(bucket, path) {
+  return getMockStore().buckets[bucket]?.get(path) || null;
+}
+
+// JavaScript versions of the SQL functions in supabase-schema.sql, for rpc()
+const LEDGER_SCOPE_COLUMNS = { user: "user_id", team: "team_id", project: "project_id" };
+
+const MOCK_FUNCTIONS = {
+  cost_ledger_totals(store, { p_scope_type, p_scope_id, p_day_start, p_month_start, p_since = null }) {
+    const column = LEDGER_SCOPE_COLUMNS[p_scope_type];
+    const rows = store.tables.cost_ledger.filter(
+      (row) => (!column || row[column] === p_scope_id) && (!p_since || row.created_at >= p_since)
+    );
+    const sum = (since) =>
+      rows.filter((row) => !since || row.created_at >= since).reduce((total, row) => total + Number(row.amount), 0);
+    return [{ daily: sum(p_day_start), monthly: sum(p_month_start), lifetime: sum(null) }];
+  },
+
+  budget_scope_ids(store, { p_scope_type }) {
+    const column = LEDGER_SCOPE_COLUMNS[p_scope_type];
+    const ids = new Set([
+      ...store.tables.cost_ledger.map((row) => (column ? row[column] : "*")).filter(Boolean),
+      ...store.tables.budgets.filter((row) => row.scope_type === p_scope_type).map((row) => row.scope_id)
+    ]);
+    return [...ids].sort().map((scope_id) => ({ scope_id }));
+  },
+
+  cost_ledger_summary(store, { p_group, p_from = null, p_to = null, p_user_id = null, p_team_id = null, p_project_id = null }) {
+    const keyOf = {
+      user: (row) => row.user_id,
+      model: (row) => row.model ?? row.service
+    }[p_group] || ((row) => row.created_at.slice(0, 10));
+
+    const groups = new Map();
+    for (const row of store.tables.cost_ledger) {
+      if (row.alert) continue;
+      if ((p_from && row.created_at < p_from) || (p_to && row.created_at >= p_to)) continue;
+      if ((p_user_id && row.user_id !== p_user_id) || (p_team_id && row.team_id !== p_team_id)) continue;
+      if (p_project_id && row.project_id !== p_project_id) continue;
+
+      const key = keyOf(row);
+      const group = groups.get(key) || { key, amount: 0, calls: 0 };
+      group.amount += Number(row.amount);
+      if (!row.adjusts_id) group.calls += 1;
+      groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => (a.key < b.key ? -1 : 1));
+  },
+
+  // The unique index on alert->>'key' of the SQL version: an alert already in the ledger isn't written again
+  record_budget_alert(store, args) {
+    const { p_alert, p_user_id, p_team_id = null, p_project_id = null, p_job_id = null, p_movie_id = null, p_storyboard_id = null, p_scene_number = null } = args;
+    if (store.tables.cost_ledger.some((row) => row.alert?.key === p_alert.key)) return false;
+    insertRow(store, "cost_ledger", {
+      user_id: p_user_id,
+      team_id: p_team_id,
+      project_id: p_project_id,
+      job_id: p_job_id,
+      movie_id: p_movie_id,
+      storyboard_id: p_storyboard_id,
+      scene_number: p_scene_number,
+      service: "budget_alert",
+      amount: 0,
+      alert: p_alert
+    });
+    return true;
+  },
+
+  unreconciled_predictions(store, { p_job_id = null, p_limit = 100 }) {
+    const adjusted = new Set(store.tables.cost_ledger.map((row) => row.adjusts_id).filter(Boolean));
+    return store.tables.cost_ledger
+      .filter((row) => row.prediction_id && row.provider_cost === null && !row.adjusts_id && !adjusted.has(row.id))
+      .filter((row) => !p_job_id || row.job_id === p_job_id)
+      .slice(0, p_limit);
+  },
+
+  // The unique index on adjusts_id of the SQL version: a charge is adjusted once
+  record_cost_adjustment(store, { p_entry_id, p_provider_cost, p_predict_time = null, p_hardware = null }) {
+    const entry = store.tables.cost_ledger.find((row) => row.id === p_entry_id && row.provider_cost === null);
+    if (!entry || store.tables.cost_ledger.some((row) => row.adjusts_id === p_entry_id)) return [];
+    const { user_id, team_id, project_id, job_id, movie_id, storyboard_id, scene_number, service, model, prediction_id, prediction_status } = entry;
+    return [
+      insertRow(store, "cost_ledger", {
+        user_id,
+        team_id,
+        project_id,
+        job_id,
+        movie_id,
+        storyboard_id,
+        scene_number,
+        service,
+        model,
+        prediction_id,
+        prediction_status,
+        provider_cost: p_provider_cost,
+        predict_time: p_predict_time,
+        hardware: p_hardware ?? entry.hardware,
+        adjusts_id: entry.id,
+        amount: p_provider_cost - Number(entry.amount)
+      })
+    ];
+  },
+
+  cost_ledger_drift(store, { p_from = null, p_to = null, p_user_id = null, p_team_id = null, p_project_id = null }) {
+    const rows = store.tables.cost_ledger;
+    const groups = new Map();
+    for (const entry of rows) {
+      if (!entry.prediction_id || entry.adjusts_id) continue;
+      if ((p_from && entry.created_at < p_from) || (p_to && entry.created_at >= p_to)) continue;
+      if ((p_user_id && entry.user_id !== p_user_id) || (p_team_id && entry.team_id !== p_team_id)) continue;
+      if (p_project_id && entry.project_id !== p_project_id) continue;
+
+      const model = entry.model ?? entry.service;
+      const providerCost = entry.provider_cost ?? rows.find((row) => row.adjusts_id === entry.id)?.provider_cost ?? null;
+      const group = groups.get(model) || { model, predictions: 0, reported: 0, estimated: 0, actual: 0, failed_charged: 0, failed_cost: 0 };
+      group.predictions += 1;
+      if (providerCost !== null) {
+        group.reported += 1;
+        group.estimated += Number(entry.estimated_amount ?? 0);
+        group.actual += Number(providerCost);
+        if (entry.prediction_status !== "succeeded") {
+          if (providerCost > 0) group.failed_charged += 1;
+          group.failed_cost += Number(providerCost);
+        }
+      }
+      groups.set(model, group);
+    }
+    return [...groups.values()].sort((a, b) => (a.model < b.model ? -1 : 1));
+  },
+
+  budget_reservation_holds(store, { p_scope_type, p_scope_id }) {
+    const column = LEDGER_SCOPE_COLUMNS[p_scope_type];
+    const now = new Date().toISOString();
+    return store.tables.budget_reservations
+      .filter((row) => row.status === "active" && row.expires_at > now && (!column || row[column] === p_scope_id))
+      .reduce((total, row) => total + Math.max(row.amount - row.committed, 0), 0);
+  },
+
+  // Runs synchronously, which is as atomic as the advisory locks of the SQL version
+  reserve_budget(store, args) {
+    const { p_scopes, p_amount, p_user_id, p_team_id, p_project_id, p_job_id, p_day_start, p_month_start, p_expires_at } = args;
+    if (p_job_id) {
+      for (const row of store.tables.budget_reservations) {
+        if (row.job_id === p_job_id && row.status === "active") {
+          const now = nextTimestamp(store);
+          Object.assign(row, { status: "released", released_at: now, updated_at: now });
+        }
+      }
+    }
+
+    for (const scope of p_scopes) {
+      const [spent] = MOCK_FUNCTIONS.cost_ledger_totals(store, {
+        p_scope_type: scope.scope_type,
+        p_scope_id: scope.scope_id,
+        p_day_start,
+        p_month_start,
+        p_since: scope.since ?? null
+      });
+      const held = MOCK_FUNCTIONS.budget_reservation_holds(store, { p_scope_type: scope.scope_type, p_scope_id: scope.scope_id });
+      for (const period of ["daily", "monthly", "lifetime"]) {
+        const cap = scope[period];
+        const used = spent[period] + held;
+        if (cap !== null && cap !== undefined && used + p_amount > cap) {
+          return {
+            allowed: false,
+            scope_type: scope.scope_type,
+            scope_id: scope.scope_id,
+            period,
+            remaining: Math.max(cap - used, 0)
+          };
+        }
+      }
+    }
+
+    const reservation = insertRow(store, "budget_reservations", {
+      user_id: p_user_id,
+      team_id: p_team_id,
+      project_id: p_project_id,
+      job_id: p_job_id,
+      amount: p_amount,
+      expires_at: p_expires_at
+    });
+    return { allowed: true, reservation };
+  },
+
+  commit_budget_reservation(store, { p_reservation_id, p_amount }) {
+    const row = store.tables.budget_reservations.find((reservation) => reservation.id === p_reservation_id);
+    if (row) Object.assign(row, { committed: row.committed + p_amount, updated_at: nextTimestamp(store) });
+    return null;
+  },
+
+  // Runs synchronously like reserve_budget; the bucket math is takeToken() itself
+  rate_limit_take(store, { p_key, p_buckets, p_consume = true }) {
+    const row = store.tables.rate_limit_buckets.find((bucket) => bucket.key === p_key);
+    const state = row
+      ? { tokens: row.tokens, updatedAt: Date.parse(row.updated_at), blockedUntil: row.blocked_until ? Date.parse(row.blocked_until) : null }
+      : null;
+    const result = takeToken(state, p_buckets, Date.now(), p_consume);
+
+    const values = {
+      tokens: result.state.tokens,
+      updated_at: new Date(result.state.updatedAt).toISOString(),
+      blocked_until: result.state.blockedUntil ? new Date(result.state.blockedUntil).toISOString() : null
+    };
+    if (row) Object.assign(row, values);
+    else insertRow(store, "rate_limit_buckets", { key: p_key, ...values });
+    return { allowed: result.allowed, retry_after_ms: result.retryAfterMs, limited_by: result.limitedBy };
+  },
+
+  rate_limit_block(store, { p_key, p_retry_after_ms }) {
+    const until = Date.now() + p_retry_after_ms;
+    const row = store.tables.rate_limit_buckets.find((bucket) => bucket.key === p_key);
+    if (!row) {
+      insertRow(store, "rate_limit_buckets", { key: p_key, updated_at: new Date().toISOString(), blocked_until: new Date(until).toISOString() });
+    } else if (!row.blocked_until || Date.parse(row.blocked_until) < until) {
+      row.blocked_until = new Date(until).toISOString();
+    }
+    return null;
+  }
+};
+
+/**
+ * Drop-in for the supabase-js client. Service-role and anon clients share one store
+ * (row level security isn't emulated).
+ */
+export function createMockSupabaseClient() {
+  // The store is looked up per query so long-lived clients follow resetMockStore()
+  return {
+    from: (table) => new MockQuery(getMockStore(), table),
+    rpc: async (name, args = {}) => {
+      const fn = MOCK_FUNCTIONS[name];
+      if (!fn) return { data: null, error: { code: "42883", message: `function ${name} does not exist` } };
+      return { data: structuredClone(fn(getMockStore(), args)), error: null };
+    },
+    storage: {
+      from: (bucket) => new MockBucket(getMockStore(), bucket)
+    }
+  };
+}
+
+/* =======================
+   OPENAI
+======================= */
+
+const MOCK_USAGE = { prompt_tokens: 400, completion_tokens: 200 };
+
+const MOCK_SETTINGS = [
+  "a rain-slicked rooftop at dusk, neon signs flickering below",
+  "a cramped control room lit by amber warning lights",
+  "a windswept ridge above a glowing valley",
+  "a quiet library aisle with dust drifting through shafts of light",
+  "a crowded night market strung with paper lanterns"
+];
+
+const MOCK_CAMERA = [
+  "Slow dolly in from a wide shot to a medium close-up",
+  "Handheld tracking shot following from behind",
+  "Low-angle crane move rising over the scene",
+  "Static wide shot, then a sharp push in"
+];
+
+/**
+ * Scene script in the shape of the director's scene_script structured output
+ */
+function buildMockScene(userPrompt) {
+  const sceneMatch = userPrompt.match(/WRITE: SCENE (\d+) of (\d+)/);
+  const sceneNumber = sceneMatch ? Number(sceneMatch[1]) : 1;
+  const totalScenes = sceneMatch ? Number(sceneMatch[2]) : 1;
+  const premise = (userPrompt.match(/STORY PREMISE \/ PROJECT BRIEF:\n([^\n]*)/)?.[1] || "an untold story").trim();
+  const names = [...userPrompt.matchAll(/^- (.+)$/gm)].map((match) => match[1].trim());
+  const [lead = "The hero", partner = lead] = names;
+
+  const seed = hashString(`${premise}|${sceneNumber}`);
+  const setting = MOCK_SETTINGS[seed % MOCK_SETTINGS.length];
+  const camera = MOCK_CAMERA[seed % MOCK_CAMERA.length];
+  const isLast = sceneNumber >= totalScenes;
+
+  return {
+    visual: `${camera}: ${lead} moves through ${setting}, chasing the thread of ${premise}. ${partner === lead ? "" : `${partner} keeps pace a step behind. `}Scene ${sceneNumber} of ${totalScenes}.`,
+    shots: [
+      { framing: "wide", camera, action: `${lead} enters ${setting}.` },
+      { framing: "medium close-up", camera: "locked off", action: `${lead} stops and looks ahead.` }
+    ],
+    dialogue: [
+      { speaker: lead, line: "This is where it changes.", direction: "" },
+      { speaker: partner, line: isLast ? "Then let's finish it." : "Keep going - we're close.", direction: "(beat)" }
+    ],
+    endHook: isLast ? `${lead} turns toward the light as the frame settles.` : `${lead} pushes forward into the next space, still in motion.`,
+    summary: `In scene ${sceneNumber}, ${lead} advances the story of ${premise} at ${setting}${isLast ? " and reaches the end." : " and heads on to the next beat."}`,
+    location: setting,
+    timeOfDay: seed % 2 === 0 ? "night" : "dusk",
+    props: ["a folded map"]
+  };
+}
+
+const MOCK_HAIR = ["cropped silver hair", "shoulder-length black curls", "a copper braid", "a shaved head"];
+const MOCK_PALETTES = [["charcoal", "rust", "cream"], ["navy", "white", "brass"], ["olive", "sand", "black"]];
+
+/**
+ * Character profile JSON for the character builder, in the shape its prompt asks for
+ */
+function buildMockCharacterProfile(userPrompt) {
+  const description = (userPrompt.match(/DESCRIPTION:\n([\s\S]*?)(?:\n\nNAME:|$)/)?.[1] || "a mysterious stranger").trim();
+  const name = userPrompt.match(/\n\nNAME: (.+)$/)?.[1]?.trim() || `Mock ${description.split(/\s+/).slice(-1)[0].replace(/\W/g, "") || "Hero"}`;
+  const seed = hashString(description);
+  const hair = MOCK_HAIR[seed % MOCK_HAIR.length];
+  const palette = MOCK_PALETTES[seed % MOCK_PALETTES.length];
+
+  return {
+    name,
+    personality: `Determined lead: ${description.substring(0, 120)}`,
+    base_prompt: `cinematic, realistic portrayal of ${description.substring(0, 200)}`,
+    face: "oval face, warm brown eyes, a thin scar through the left eyebrow",
+    hair,
+    wardrobe: `a ${palette[0]} field jacket over a ${palette[2]} shirt, worn leather boots`,
+    wardrobe_palette: palette,
+    voice: "low, unhurried voice with a dry edge",
+    speech_tics: ["answers questions with questions"],
+    consistency_checklist: [
+      "scar through the left eyebrow",
+      `${hair}`,
+      `${palette[0]} field jacket, always worn`,
+      "worn leather boots",
+      "warm brown eyes"
+    ]
+  };
+}
+
+// 1x1 PNG returned for every generated image
+const MOCK_IMAGE_B64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+/**
+ * Drop-in for the OpenAI client's chat.completions.create (structured scene scripts, or character
+ * profiles for the character builder's DESCRIPTION prompts) and images.generate
+ */
+export function createMockOpenAI() {
+  return {
+    images: {
+      generate: async ({ n = 1 }) => ({
+        created: Math.floor(Date.now() / 1000),
+        data: Array.from({ length: n }, () => ({ b64_json: MOCK_IMAGE_B64 }))
+      })
+    },
+    chat: {
+      completions: {
+        create: async ({ model, messages }) => {
+          // The first user message is the request; later ones ask to repair a reply
+          const userPrompt = messages.find((message) => message.role === "user")?.content || "";
+          const content = JSON.stringify(
+            userPrompt.startsWith("DESCRIPTION:") ? buildMockCharacterProfile(userPrompt) : buildMockScene(userPrompt)
+          );
+          return {
+            id: `mock-chatcmpl-${hashString(userPrompt)}`,
+            model,
+            choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+            usage: { ...MOCK_USAGE, total_tokens: MOCK_USAGE.prompt_tokens + MOCK_USAGE.completion_tokens }
+          };
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,391 @@
+/**
+ * Movie Assembler - Stitches a movie's scene clips into one MP4 with ffmpeg
+ * Clips are normalized to the same resolution, fps and aspect ratio before joining.
+ * Also pulls the last frame out of a clip, which the next scene can start from (keyframes).
+ */
+
+import "server-only";
+
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { resolveMockClipPath } from "@/lib/videoProviders";
+
+const ASSEMBLY_HEIGHT = 720; // Output height; width follows the aspect ratio
+const AUDIO_SAMPLE_RATE = 48000;
+const DOWNLOAD_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes per clip
+
+/* =======================
+   TRANSITIONS
+======================= */
+
+// Transition out of a scene into the next one. `xfade` is the ffmpeg xfade transition name.
+export const TRANSITIONS = {
+  cut: { name: "Hard Cut", xfade: null, defaultDuration: 0 },
+  crossfade: { name: "Crossfade", xfade: "fade", defaultDuration: 0.5 },
+  "dip-to-black": { name: "Dip to Black", xfade: "fadeblack", defaultDuration: 0.8 },
+  "whip-pan": { name: "Whip-Pan Blur", xfade: "slideleft", blur: true, defaultDuration: 0.3 }
+};
+
+export const TRANSITION_LIMITS = {
+  MIN_DURATION: 0.1,
+  MAX_DURATION: 2
+};
+
+/**
+ * Validate a transition choice and fill in its default duration
+ */
+export function normalizeTransition(transition) {
+  if (!transition) return null;
+  const type = typeof transition === "string" ? transition : transition.type;
+  const spec = TRANSITIONS[type];
+  if (!spec) {
+    throw new Error(`Unknown transition "${type}". Expected one of: ${Object.keys(TRANSITIONS).join(", ")}`);
+  }
+  if (type === "cut") return { type, duration: 0 };
+
+  const duration = Number(transition.duration ?? spec.defaultDuration);
+  if (!Number.isFinite(duration) || duration < TRANSITION_LIMITS.MIN_DURATION || duration > TRANSITION_LIMITS.MAX_DURATION) {
+    throw new Error(
+      `Transition duration must be between ${TRANSITION_LIMITS.MIN_DURATION}s and ${TRANSITION_LIMITS.MAX_DURATION}s`
+    );
+  }
+  return { type, duration };
+}
+
+/**
+ * Resolve the transition after every scene: the scene's own choice, else the movie default, else a cut.
+ * The last scene never transitions.
+ */
+export function resolveSceneTransitions(scenes, movieTransition = null) {
+  const fallback = normalizeTransition(movieTransition) || { type: "cut", duration: 0 };
+  return scenes.map((scene, index) => ({
+    ...scene,
+    transition: index === scenes.length - 1 ? null : normalizeTransition(scene.transition) || fallback
+  }));
+}
+
+/* =======================
+   FFMPEG HELPERS
+======================= */
+
+/**
+ * Run an ffmpeg/ffprobe binary and resolve with its stdout
+ */
+function runBinary(binary, args) {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    proc.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    proc.stderr.on("data", (chunk) => {
+      // Keep only the tail - ffmpeg is chatty and the error is at the end
+      stderr = (stderr + chunk).slice(-4000);
+    });
+    proc.on("error", (error) => {
+      reject(new Error(`Failed to start ${binary}: ${error.message}. Is ffmpeg installed (see FFMPEG_PATH)?`));
+    });
+    proc.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${binary} exited with code ${code}:\n${stderr}`));
+    });
+  });
+}
+
+/**
+ * Output frame size for an aspect ratio like "16:9" (dimensions kept even for x264)
+ */
+export function getOutputSize(aspectRatio, height = ASSEMBLY_HEIGHT) {
+  const [w, h] = String(aspectRatio).split(":").map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 16 / 9;
+  const width = Math.round((height * ratio) / 2) * 2;
+  return { width, height };
+}
+
+async function getClipDuration(ffprobePath, file) {
+  const out = await runBinary(ffprobePath, [
+    "-v", "error",
+    "-show_entries", "format=duration",
+    "-of", "csv=p=0",
+    file
+  ]);
+  const duration = parseFloat(out.trim());
+  if (!Number.isFinite(duration)) throw new Error(`Could not read clip duration of ${file}`);
+  return duration;
+}
+
+async function hasAudioStream(ffprobePath, file) {
+  const out = await runBinary(ffprobePath, [
+    "-v", "error",
+    "-select_streams", "a",
+    "-show_entries", "stream=index",
+    "-of", "csv=p=0",
+    file
+  ]);
+  return out.trim().length > 0;
+}
+
+/**
+ * Re-encode one clip to the shared output format.
+ * Clips without audio get a silent track so every clip has the same streams.
+ */
+async function normalizeClip({ ffmpegPath, ffprobePath }, input, output, { width, height, fps }) {
+  const videoFilter =
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${fps},format=yuv420p`;
+
+  const withAudio = await hasAudioStream(ffprobePath, input);
+  const args = ["-y", "-i", input];
+  if (!withAudio) {
+    args.push("-f", "lavfi", "-i", `anullsrc=channel_layout=stereo:sample_rate=${AUDIO_SAMPLE_RATE}`);
+  }
+  args.push(
+    "-vf", videoFilter,
+    "-map", "0:v:0",
+    "-map", withAudio ? "0:a:0" : "1:a:0",
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "20",
+    "-r", String(fps),
+    "-c:a", "aac",
+    "-ar", String(AUDIO_SAMPLE_RATE),
+    "-ac", "2",
+    "-shortest",
+    "-movflags", "+faststart",
+    output
+  );
+
+  await runBinary(ffmpegPath, args);
+}
+
+/**
+ * Join normalized clips back to back (stream copy - they already share one format)
+ */
+async function concatClips({ ffmpegPath }, clips, output, workDir) {
+  const listFile = path.join(workDir, "clips.txt");
+  await fs.writeFile(listFile, clips.map((c) => `file '${c.replace(/'/g, "'\\''")}'`).join("\n"));
+  await runBinary(ffmpegPath, ["-y", "-f", "concat", "-safe", "0", "-i", listFile, "-c", "copy", "-movflags", "+faststart", output]);
+}
+
+/**
+ * Build the filter graph that chains clips with per-boundary transitions.
+ * `clips` is [{ duration, transition }] where `transition` applies between a clip and the next one.
+ */
+export function buildTransitionFilter(clips) {
+  const filters = [];
+  let videoLabel = "[0:v]";
+  let audioLabel = "[0:a]";
+  let timelineLength = clips[0].duration;
+
+  for (let i = 1; i < clips.length; i++) {
+    const transition = clips[i - 1].transition || { type: "cut", duration: 0 };
+    const spec = TRANSITIONS[transition.type];
+    const outVideo = `[v${i}]`;
+    const outAudio = `[a${i}]`;
+
+    if (!spec?.xfade) {
+      filters.push(`${videoLabel}[${i}:v]concat=n=2:v=1:a=0${outVideo}`);
+      filters.push(`${audioLabel}[${i}:a]concat=n=2:v=0:a=1${outAudio}`);
+      timelineLength += clips[i].duration;
+    } else {
+      // A transition can't be longer than half of either clip it overlaps
+      const duration = Math.min(transition.duration, clips[i - 1].duration / 2, clips[i].duration / 2);
+      const offset = Math.max(0, timelineLength - duration);
+      const start = offset.toFixed(3);
+      const end = (offset + duration).toFixed(3);
+
+      if (spec.blur) {
+        const mixed = `[x${i}]`;
+        filters.push(`${videoLabel}[${i}:v]xfade=transition=${spec.xfade}:duration=${duration.toFixed(3)}:offset=${start}${mixed}`);
+        // Horizontal motion blur only while the frame is moving
+        filters.push(`${mixed}avgblur=sizeX=48:sizeY=1:enable='between(t,${start},${end})'${outVideo}`);
+      } else {
+        filters.push(`${videoLabel}[${i}:v]xfade=transition=${spec.xfade}:duration=${duration.toFixed(3)}:offset=${start}${outVideo}`);
+      }
+      filters.push(`${audioLabel}[${i}:a]acrossfade=d=${duration.toFixed(3)}${outAudio}`);
+      timelineLength += clips[i].duration - duration;
+    }
+
+    videoLabel = outVideo;
+    audioLabel = outAudio;
+  }
+
+  return { filter: filters.join(";"), videoLabel, audioLabel, duration: timelineLength };
+}
+
+/**
+ * Join normalized clips, applying transitions between them. All-cut movies are stream-copied.
+ */
+async function joinClips(binaries, clips, output, workDir, { fps }) {
+  const paths = clips.map((c) => c.path);
+  const hasTransitions = clips.slice(0, -1).some((c) => c.transition && c.transition.type !== "cut");
+  if (!hasTransitions || clips.length === 1) {
+    await concatClips(binaries, paths, output, workDir);
+    return;
+  }
+
+  const { filter, videoLabel, audioLabel } = buildTransitionFilter(clips);
+  const filterFile = path.join(workDir, "transitions.txt");
+  await fs.writeFile(filterFile, filter);
+
+  await runBinary(binaries.ffmpegPath, [
+    "-y",
+    ...paths.flatMap((p) => ["-i", p]),
+    "-filter_complex_script", filterFile,
+    "-map", videoLabel,
+    "-map", audioLabel,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "20",
+    "-r", String(fps),
+    "-pix_fmt", "yuv420p",
+    "-c:a", "aac",
+    "-ar", String(AUDIO_SAMPLE_RATE),
+    "-movflags", "+faststart",
+    output
+  ]);
+}
+
+async function downloadClip(url, destination) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`Failed to fetch clip ${url}: ${res.status} ${res.statusText}`);
+    await fs.writeFile(destination, Buffer.from(await res.arrayBuffer()));
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/* =======================
+   KEYFRAMES
+======================= */
+
+/**
+ * The last frame of a clip as a PNG buffer. `clipUrl` is a provider or storage URL, or a
+ * file:// URL of a local clip (mock provider, mock mode only, see resolveMockClipPath).
+ */
+export async function extractLastFrame({ ffmpegPath = "ffmpeg" }, clipUrl) {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "keyframe-"));
+  try {
+    let clip = path.join(workDir, "clip.mp4");
+    if (/^file:/i.test(clipUrl)) {
+      clip = resolveMockClipPath(clipUrl);
+    } else {
+      await downloadClip(clipUrl, clip);
+    }
+
+    // Decode the final half second, overwriting the image with each frame so the last one is kept
+    const frame = path.join(workDir, "frame.png");
+    await runBinary(ffmpegPath, ["-y", "-sseof", "-0.5", "-i", clip, "-update", "1", frame]);
+    return await fs.readFile(frame);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/* =======================
+   ASSEMBLY
+======================= */
+
+/**
+ * Assemble a movie row's scenes into one MP4, upload it to the `videos` bucket
+ * and store the URL in `movies.final_video_url`.
+ */
+export async function assembleMovie(
+  { supabase },
+  movie,
+  { ffmpegPath = "ffmpeg", ffprobePath = "ffprobe", fps, aspectRatio, transition, sceneTransitions = {} }
+) {
+  // Explicit choices override what's stored (a new movie-wide transition replaces every scene's
+  // stored one). The resolved transitions are saved back to scenes_data so re-assembling the
+  // same movie produces the same cut.
+  const movieTransition = normalizeTransition(transition) || movie.metadata?.transition || null;
+  const scenes = resolveSceneTransitions(
+    (movie.scenes_data || [])
+      .filter((s) => s.video_url)
+      .sort((a, b) => (a.scene || 0) - (b.scene || 0))
+      .map((s) => {
+        if (sceneTransitions[s.scene]) return { ...s, transition: sceneTransitions[s.scene] };
+        return transition ? { ...s, transition: null } : s;
+      }),
+    movieTransition
+  );
+
+  if (scenes.length === 0) throw new Error("Movie has no scene clips to assemble");
+
+  const { width, height } = getOutputSize(aspectRatio);
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "movie-assembly-"));
+  const binaries = { ffmpegPath, ffprobePath };
+
+  console.log(`\n🎞️  Assembling movie ${movie.id}: ${scenes.length} clip(s) → ${width}x${height} @ ${fps}fps`);
+
+  try {
+    const normalized = [];
+    for (const [index, scene] of scenes.entries()) {
+      const raw = path.join(workDir, `raw-${index}.mp4`);
+      const clip = path.join(workDir, `clip-${index}.mp4`);
+      console.log(`📥 [ASSEMBLY] Scene ${scene.scene}: downloading + normalizing...`);
+      await downloadClip(scene.video_url, raw);
+      await normalizeClip(binaries, raw, clip, { width, height, fps });
+      normalized.push({
+        path: clip,
+        duration: await getClipDuration(ffprobePath, clip),
+        transition: scene.transition
+      });
+    }
+
+    const output = path.join(workDir, "movie.mp4");
+    console.log(`🔗 [ASSEMBLY] Joining ${normalized.length} clip(s)...`);
+    await joinClips(binaries, normalized, output, workDir, { fps });
+
+    const storagePath = `movies/${movie.id}-${uuidv4()}.mp4`;
+    console.log(`☁️  [ASSEMBLY] Uploading final movie: ${storagePath}`);
+    const { error: uploadError } = await supabase.storage
+      .from("videos")
+      .upload(storagePath, await fs.readFile(output), {
+        contentType: "video/mp4",
+        upsert: true,
+        cacheControl: "3600"
+      });
+    if (uploadError) throw new Error(`Storage upload failed: ${uploadError.message}`);
+
+    const { data: urlData } = supabase.storage.from("videos").getPublicUrl(storagePath);
+    const finalVideoUrl = urlData.publicUrl;
+
+    const { data, error } = await supabase
+      .from("movies")
+      .update({
+        final_video_url: finalVideoUrl,
+        scenes_data: (movie.scenes_data || []).map(
+          (s) => scenes.find((resolved) => resolved.scene === s.scene && resolved.video_url === s.video_url) || s
+        ),
+        metadata: {
+          ...(movie.metadata || {}),
+          transition: movieTransition,
+          assembly: {
+            assembled_at: new Date().toISOString(),
+            scenes: scenes.map((s) => s.scene),
+            width,
+            height,
+            fps
+          }
+        }
+      })
+      .eq("id", movie.id)
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save final video URL: ${error.message}`);
+
+    console.log(`✅ [ASSEMBLY] Final movie ready: ${finalVideoUrl}`);
+    return data;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
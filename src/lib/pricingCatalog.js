@@ -0,0 +1,123 @@
+/**
+ * Pricing Catalog - The one place model prices are defined
+ * Loaded from `pricing.json` at the project root (or PRICING_CATALOG_PATH) and read by the
+ * budget manager, the video engine and, through /api/pricing, the create page.
+ * Models billed for the GPU time they use name their `hardware`; its price turns a prediction's
+ * reported predict time into what the provider actually charged. Image models (keyframes) are
+ * priced per image.
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { getEnv } from "@/lib/env";
+
+const Price = z.number().nonnegative();
+
+const CatalogSchema = z
+  .object({
+    currency: z.string().min(1).default("USD"),
+    // Unknown models are priced like these
+    defaults: z.object({
+      openai: z.string().min(1),
+      video: z.string().min(1)
+    }),
+    openai: z.record(z.object({ inputPer1kTokens: Price, outputPer1kTokens: Price })),
+    video: z.record(z.object({ label: z.string().min(1).optional(), perSecond: Price, hardware: z.string().min(1).optional() })),
+    hardware: z.record(z.object({ perSecond: Price })).default({}),
+    images: z.record(z.object({ perImage: Price })).default({})
+  })
+  .superRefine((catalog, ctx) => {
+    if (!catalog.openai[catalog.defaults.openai]) {
+      ctx.addIssue({ code: "custom", path: ["defaults", "openai"], message: `No price for "${catalog.defaults.openai}"` });
+    }
+    if (!catalog.video[catalog.defaults.video]) {
+      ctx.addIssue({ code: "custom", path: ["defaults", "video"], message: `No price for "${catalog.defaults.video}"` });
+    }
+    for (const [model, { hardware }] of Object.entries(catalog.video)) {
+      if (hardware && !catalog.hardware[hardware]) {
+        ctx.addIssue({ code: "custom", path: ["video", model, "hardware"], message: `No price for hardware "${hardware}"` });
+      }
+    }
+  });
+
+let cached = null; // { filePath, catalog }
+
+/**
+ * Read and validate a catalog file. Throws with every problem listed if it's malformed.
+ */
+export function loadPricingCatalog(filePath) {
+  let raw;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Failed to read pricing catalog ${filePath}: ${error.message}`);
+  }
+
+  const parsed = CatalogSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n");
+    throw new Error(`Invalid pricing catalog ${filePath}:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The current catalog. The file is read once per path; call resetPricingCatalog() to pick up edits.
+ */
+export function getPricingCatalog() {
+  const filePath = getEnv().PRICING_CATALOG_PATH || path.join(process.cwd(), "pricing.json");
+  if (!cached || cached.filePath !== filePath) {
+    cached = { filePath, catalog: loadPricingCatalog(filePath) };
+  }
+  return cached.catalog;
+}
+
+export function resetPricingCatalog() {
+  cached = null;
+}
+
+/**
+ * Per-1K-token input and output prices of an OpenAI model
+ */
+export function getOpenAIPrice(model) {
+  const { openai, defaults } = getPricingCatalog();
+  return openai[model] || openai[defaults.openai];
+}
+
+/**
+ * Per-second price of a video model
+ */
+export function getVideoPrice(model) {
+  const { video, defaults } = getPricingCatalog();
+  return video[model] || video[defaults.video];
+}
+
+/**
+ * Hardware a known video model is billed for by the second (unknown models have none)
+ */
+export function getModelHardware(model) {
+  return getPricingCatalog().video[model]?.hardware || null;
+}
+
+/**
+ * Per-second price of a hardware type, or null when the catalog doesn't list it
+ */
+export function getHardwarePrice(hardware) {
+  return getPricingCatalog().hardware[hardware] || null;
+}
+
+/**
+ * Price of one generated image, or null when the catalog doesn't list the model
+ */
+export function getImagePrice(model) {
+  return getPricingCatalog().images[model] || null;
+}
+
+/**
+ * Cost of an OpenAI call from its token counts
+ */
+export function priceOpenAITokens({ inputTokens = 0, outputTokens = 0 } = {}, model) {
+  const { inputPer1kTokens, outputPer1kTokens } = getOpenAIPrice(model);
+  return (inputTokens / 1000) * inputPer1kTokens + (outputTokens / 1000) * outputPer1kTokens;
+}
@@ -0,0 +1,496 @@
+/**
+ * Rate Limiter - Token buckets shared by every server instance
+ * Each key (service, model, API key) has one bucket per window: per minute and per hour. A call
+ * takes a token from each bucket and the buckets refill continuously. When a provider answers 429,
+ * its Retry-After blocks the key for that long. Bucket state lives in a pluggable store:
+ * this process (memory), Postgres (`rate_limit_buckets`) or any server that speaks the Redis protocol.
+ */
+
+import { createHash } from "crypto";
+import net from "net";
+import { getEnv } from "@/lib/env";
+import { createServiceClient } from "@/lib/supabaseClients";
+
+// Rate limiting configuration
+export const RATE_LIMITS = {
+  openai: {
+    requestsPerMinute: 60,
+    requestsPerHour: 5000,
+  },
+  replicate: {
+    requestsPerMinute: 10,
+    requestsPerHour: 500,
+  },
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// Longer waits give up, so the engine can fall back to another model instead of stalling a scene
+export const MAX_RATE_LIMIT_WAIT_MS = 2 * 60 * 1000; // 2 minutes
+// Environment variable holding the API key each service is called with
+const SERVICE_API_KEYS = {
+  openai: "OPENAI_API_KEY",
+  replicate: "REPLICATE_API_TOKEN",
+  http: "VIDEO_HTTP_API_KEY",
+};
+const RETRY_AFTER = "retry-after";
+
+// Resolves after `ms`, or as soon as the signal aborts
+export const sleep = (ms, abortSignal = null) =>
+  new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", done);
+      resolve();
+    };
+    if (abortSignal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    abortSignal?.addEventListener("abort", done, { once: true });
+  });
+
+/**
+ * Buckets for a service's limits: [{ capacity, windowMs }] (none for services without limits)
+ */
+export function getBuckets(limits) {
+  if (!limits) return [];
+  return [
+    { capacity: limits.requestsPerMinute, windowMs: MINUTE_MS },
+    { capacity: limits.requestsPerHour, windowMs: HOUR_MS },
+  ];
+}
+
+/**
+ * One token-bucket step. `state` is { tokens: number[], updatedAt, blockedUntil } (null for a new key).
+ * Returns the next state and whether a token was available; `limitedBy` is the index of the bucket
+ * that ran dry, or "retry-after" while the provider asked us to back off.
+ * The Postgres function and the Redis script implement exactly this.
+ */
+export function takeToken(state, buckets, now, consume = true) {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = buckets.map(({ capacity, windowMs }, i) =>
+    Math.min(capacity, (state?.tokens?.[i] ?? capacity) + (elapsed * capacity) / windowMs)
+  );
+
+  const blockedUntil = state?.blockedUntil > now ? state.blockedUntil : null;
+  let retryAfterMs = blockedUntil ? blockedUntil - now : 0;
+  let limitedBy = blockedUntil ? RETRY_AFTER : null;
+  buckets.forEach(({ capacity, windowMs }, i) => {
+    if (tokens[i] >= 1) return;
+    const waitMs = Math.ceil(((1 - tokens[i]) * windowMs) / capacity);
+    if (waitMs > retryAfterMs) {
+      retryAfterMs = waitMs;
+      limitedBy = i;
+    }
+  });
+
+  const allowed = limitedBy === null;
+  if (allowed && consume) tokens = tokens.map((level) => level - 1);
+  return { state: { tokens, updatedAt: now, blockedUntil }, allowed, retryAfterMs, limitedBy };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header value (seconds or an HTTP date); null if missing
+ */
+export function parseRetryAfter(value, now = Date.now()) {
+  if (value === null || value === undefined || value === "") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Retry-After of a failed API call: set by our own providers, or read from the response headers
+ * the Replicate and OpenAI SDKs attach to their errors
+ */
+export function getRetryAfterMs(error) {
+  if (typeof error?.retryAfterMs === "number") return error.retryAfterMs;
+  const headers = error?.response?.headers || error?.headers;
+  const value = typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+  return parseRetryAfter(value);
+}
+
+/* =======================
+   STORES
+======================= */
+
+/**
+ * Buckets of this process only - for a single server, or when no shared store is available
+ */
+export class MemoryRateLimitStore {
+  constructor() {
+    this.states = new Map();
+  }
+
+  async take(key, buckets, consume = true) {
+    const result = takeToken(this.states.get(key) || null, buckets, Date.now(), consume);
+    this.states.set(key, result.state);
+    return { allowed: result.allowed, retryAfterMs: result.retryAfterMs, limitedBy: result.limitedBy };
+  }
+
+  async block(key, retryAfterMs) {
+    const state = this.states.get(key) || { tokens: [], updatedAt: Date.now(), blockedUntil: null };
+    state.blockedUntil = Math.max(state.blockedUntil || 0, Date.now() + retryAfterMs);
+    this.states.set(key, state);
+  }
+
+  async clear() {
+    this.states.clear();
+  }
+}
+
+/**
+ * Buckets in the `rate_limit_buckets` table; `rate_limit_take()` locks the key's row, so instances
+ * sharing the database share the limits
+ */
+export class PostgresRateLimitStore {
+  // `supabase` can be injected (tests); otherwise a service-role client is created on first use
+  constructor({ supabase = null } = {}) {
+    this.supabase = supabase;
+  }
+
+  getClient() {
+    if (!this.supabase) {
+      this.supabase = createServiceClient();
+    }
+    return this.supabase;
+  }
+
+  async take(key, buckets, consume = true) {
+    const { data, error } = await this.getClient().rpc("rate_limit_take", {
+      p_key: key,
+      p_buckets: buckets,
+      p_consume: consume,
+    });
+    if (error) throw new Error(`Failed to check rate limit: ${error.message}`);
+    return { allowed: data.allowed, retryAfterMs: Number(data.retry_after_ms), limitedBy: data.limited_by };
+  }
+
+  async block(key, retryAfterMs) {
+    const { error } = await this.getClient().rpc("rate_limit_block", { p_key: key, p_retry_after_ms: Math.ceil(retryAfterMs) });
+    if (error) throw new Error(`Failed to record Retry-After: ${error.message}`);
+  }
+
+  async clear() {
+    const { error } = await this.getClient().from("rate_limit_buckets").delete().neq("key", "");
+    if (error) throw new Error(`Failed to clear rate limits: ${error.message}`);
+  }
+}
+
+// Same steps as takeToken(), on the server's clock; limited_by is -1 (none), -2 (Retry-After) or the bucket index
+const REDIS_TAKE_SCRIPT = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local buckets = cjson.decode(ARGV[1])
+local raw = redis.call('GET', KEYS[1])
+local state = raw and cjson.decode(raw) or {}
+local updated = tonumber(state.updatedAt) or now
+local elapsed = math.max(0, now - updated)
+local blocked = tonumber(state.blockedUntil)
+if blocked and blocked <= now then blocked = nil end
+local retry = blocked and (blocked - now) or 0
+local limited = blocked and -2 or -1
+local tokens = {}
+local ttl = 1000
+for i, b in ipairs(buckets) do
+  local prev = state.tokens and tonumber(state.tokens[i]) or b.capacity
+  local level = math.min(b.capacity, prev + elapsed * b.capacity / b.windowMs)
+  tokens[i] = level
+  ttl = math.max(ttl, b.windowMs)
+  if level < 1 then
+    local wait = math.ceil((1 - level) * b.windowMs / b.capacity)
+    if wait > retry then retry = wait; limited = i - 1 end
+  end
+end
+local allowed = limited == -1
+if allowed and ARGV[2] == '1' then
+  for i = 1, #tokens do tokens[i] = tokens[i] - 1 end
+end
+if blocked then ttl = math.max(ttl, blocked - now) end
+redis.call('SET', KEYS[1], cjson.encode({ tokens = tokens, updatedAt = now, blockedUntil = blocked }), 'PX', ttl)
+return cjson.encode({ allowed = allowed, retry_after_ms = retry, limited_by = limited })
+`;
+
+const REDIS_BLOCK_SCRIPT = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local raw = redis.call('GET', KEYS[1])
+local state = raw and cjson.decode(raw) or { updatedAt = now }
+local until_ms = now + tonumber(ARGV[1])
+state.blockedUntil = math.max(tonumber(state.blockedUntil) or 0, until_ms)
+redis.call('SET', KEYS[1], cjson.encode(state), 'PX', math.max(${HOUR_MS}, state.blockedUntil - now))
+return 1
+`;
+
+/**
+ * Minimal Redis protocol (RESP2) client: one connection, commands answered in order.
+ * Works with Redis and compatible servers (Valkey, KeyDB, Dragonfly, ...).
+ */
+export class RedisConnection {
+  constructor(url) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || "127.0.0.1";
+    this.port = Number(parsed.port) || 6379;
+    this.username = decodeURIComponent(parsed.username || "");
+    this.password = decodeURIComponent(parsed.password || "");
+    this.db = Number(parsed.pathname.slice(1)) || 0;
+    this.socket = null;
+    this.ready = null;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+  }
+
+  connect() {
+    if (!this.ready) {
+      this.ready = new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host: this.host, port: this.port });
+        // Commands in flight fail with the connection; the next command reconnects.
+        // A socket dropped for a garbled reply was already replaced: its close changes nothing.
+        const fail = (error) => {
+          reject(error);
+          if (this.socket !== socket) return;
+          this.ready = null;
+          this.buffer = Buffer.alloc(0);
+          this.pending.splice(0).forEach((pending) => pending.reject(error));
+        };
+        socket.once("connect", () => resolve(socket));
+        socket.on("data", (chunk) => this.onData(chunk, socket));
+        socket.on("error", fail);
+        socket.on("close", () => fail(new Error("Redis connection closed")));
+        this.socket = socket;
+      }).then(async (socket) => {
+        try {
+          if (this.password) await this.send(this.username ? ["AUTH", this.username, this.password] : ["AUTH", this.password]);
+          if (this.db) await this.send(["SELECT", String(this.db)]);
+          return socket;
+        } catch (error) {
+          socket.destroy();
+          throw error;
+        }
+      });
+    }
+    return this.ready;
+  }
+
+  send(args) {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      const parts = args.map((arg) => {
+        const value = Buffer.from(String(arg));
+        return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from("\r\n")]);
+      });
+      this.socket.write(Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]));
+    });
+  }
+
+  async command(...args) {
+    await this.connect();
+    return this.send(args);
+  }
+
+  onData(chunk, socket) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      let parsed;
+      try {
+        parsed = parseReply(this.buffer, 0);
+      } catch (error) {
+        // A reply we can't read leaves the stream out of step with the commands: fail them all
+        // and drop the connection (thrown from a socket handler, it would crash the process)
+        this.ready = null;
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        this.pending.splice(0).forEach((pending) => pending.reject(error));
+        socket.destroy();
+        return;
+      }
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.end);
+      const { resolve, reject } = this.pending.shift() || {};
+      if (parsed.value instanceof Error) reject?.(parsed.value);
+      else resolve?.(parsed.value);
+    }
+  }
+
+  close() {
+    this.socket?.end();
+  }
+}
+
+// One RESP2 reply starting at `offset`, or null until it has fully arrived
+function parseReply(buffer, offset) {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  if (type === "+") return { value: line, end: next };
+  if (type === "-") return { value: new Error(`Redis error: ${line}`), end: next };
+  if (type === ":") return { value: Number(line), end: next };
+  if (type === "$") {
+    const length = Number(line);
+    if (length === -1) return { value: null, end: next };
+    if (buffer.length < next + length + 2) return null;
+    return { value: buffer.toString("utf8", next, next + length), end: next + length + 2 };
+  }
+  if (type === "*") {
+    const count = Number(line);
+    if (count === -1) return { value: null, end: next };
+    const values = [];
+    let end = next;
+    for (let i = 0; i < count; i++) {
+      const item = parseReply(buffer, end);
+      if (!item) return null;
+      values.push(item.value);
+      end = item.end;
+    }
+    return { value: values, end };
+  }
+  throw new Error(`Unexpected Redis reply type "${type}"`);
+}
+
+/**
+ * Buckets in Redis; each step is one Lua script, which Redis runs atomically
+ */
+export class RedisRateLimitStore {
+  constructor({ url = null, connection = null, prefix = "ratelimit:" } = {}) {
+    if (!url && !connection) throw new Error("Redis rate limit store needs REDIS_URL");
+    this.connection = connection || new RedisConnection(url);
+    this.prefix = prefix;
+  }
+
+  async take(key, buckets, consume = true) {
+    const reply = await this.connection.command("EVAL", REDIS_TAKE_SCRIPT, 1, this.prefix + key, JSON.stringify(buckets), consume ? "1" : "0");
+    const { allowed, retry_after_ms, limited_by } = JSON.parse(reply);
+    return {
+      allowed,
+      retryAfterMs: Number(retry_after_ms),
+      limitedBy: limited_by === -1 ? null : limited_by === -2 ? RETRY_AFTER : limited_by,
+    };
+  }
+
+  async block(key, retryAfterMs) {
+    await this.connection.command("EVAL", REDIS_BLOCK_SCRIPT, 1, this.prefix + key, Math.ceil(retryAfterMs));
+  }
+
+  async clear() {
+    const keys = await this.connection.command("KEYS", `${this.prefix}*`);
+    if (keys.length > 0) await this.connection.command("DEL", ...keys);
+  }
+}
+
+/**
+ * Store named by RATE_LIMIT_STORE (default: postgres)
+ */
+export function createRateLimitStore(env = getEnv()) {
+  switch (env.RATE_LIMIT_STORE) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "redis":
+      return new RedisRateLimitStore({ url: env.REDIS_URL });
+    default:
+      return new PostgresRateLimitStore();
+  }
+}
+
+/* =======================
+   LIMITER
+======================= */
+
+export class RateLimiter {
+  constructor({ store = null, limits = RATE_LIMITS, maxWaitMs = MAX_RATE_LIMIT_WAIT_MS } = {}) {
+    this.store = store;
+    this.limits = limits;
+    this.maxWaitMs = maxWaitMs;
+  }
+
+  getStore() {
+    if (!this.store) {
+      this.store = createRateLimitStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Bucket key: service, model and a fingerprint of the API key (the key itself is never stored).
+   * Without an explicit `apiKey` the one the service is configured with is used.
+   */
+  getKey(service, { model = null, apiKey } = {}) {
+    const key = apiKey === undefined ? getEnv()[SERVICE_API_KEYS[service]] : apiKey;
+    const fingerprint = key ? createHash("sha256").update(key).digest("hex").slice(0, 12) : "none";
+    return `${service}:${model || "*"}:${fingerprint}`;
+  }
+
+  async take(service, options, consume) {
+    const buckets = getBuckets(this.limits[service]);
+    const result = await this.getStore().take(this.getKey(service, options), buckets, consume);
+    if (result.allowed) return { allowed: true };
+
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+    const reason =
+      result.limitedBy === RETRY_AFTER
+        ? `${service} asked us to retry after ${retryAfter}s`
+        : `Rate limit exceeded: ${buckets[result.limitedBy].capacity} requests per ${result.limitedBy === 0 ? "minute" : "hour"}`;
+    return { allowed: false, reason, retryAfter, retryAfterMs: result.retryAfterMs };
+  }
+
+  /**
+   * Whether a call could go ahead right now, without using up a token (for preflight checks)
+   */
+  check(service, options = {}) {
+    return this.take(service, options, false);
+  }
+
+  /**
+   * Take a token for a call that is about to be made
+   */
+  acquire(service, options = {}) {
+    return this.take(service, options, true);
+  }
+
+  /**
+   * Take a token, sleeping until one is free. Gives up (returns the refusal) when the wait would
+   * be longer than `maxWaitMs`; throws if `abortSignal` fires while waiting.
+   */
+  async waitForSlot(service, { abortSignal = null, maxWaitMs = this.maxWaitMs, ...options } = {}) {
+    const deadline = Date.now() + maxWaitMs;
+    for (;;) {
+      if (abortSignal?.aborted) throw new Error("Generation aborted by user");
+
+      const result = await this.acquire(service, options);
+      if (result.allowed || Date.now() + result.retryAfterMs > deadline) return result;
+
+      console.log(`⏳ ${service}${options.model ? ` ${options.model}` : ""}: ${result.reason} - waiting ${result.retryAfter}s for a slot`);
+      await sleep(result.retryAfterMs, abortSignal);
+    }
+  }
+
+  /**
+   * The provider answered 429: nobody uses this key until its Retry-After has passed
+   */
+  recordRetryAfter(service, options = {}, retryAfterMs) {
+    return this.getStore().block(this.getKey(service, options), retryAfterMs);
+  }
+
+  reset() {
+    return this.store?.clear();
+  }
+}
+
+// Singleton instance
+let rateLimiterInstance = null;
+
+export function getRateLimiter() {
+  if (!rateLimiterInstance) {
+    rateLimiterInstance = new RateLimiter();
+  }
+  return rateLimiterInstance;
+}
+
+/**
+ * Drop the singleton so the next getRateLimiter() picks up a fresh store (tests, config changes)
+ */
+export function resetRateLimiter() {
+  rateLimiterInstance = null;
+}
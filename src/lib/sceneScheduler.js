@@ -0,0 +1,117 @@
+/**
+ * Scene Scheduler - How many scenes render at once, and how far apart renders start
+ * Learned per video provider from the renders themselves: a run of clean renders lets one more
+ * scene run in parallel, a 429 halves the parallelism and spaces renders out to just under the
+ * request rate the provider refused. Render latency is tracked for estimates.
+ * State is per process, like the circuit breaker; the shared rate limiter still caps calls across instances.
+ */
+
+import { sleep } from "@/lib/rateLimiter";
+
+export const SCHEDULER_LIMITS = {
+  INITIAL_CONCURRENCY: 2,
+  MAX_CONCURRENCY: 6,
+  MAX_INTERVAL_MS: 60 * 1000, // Renders never start more than a minute apart
+  RATE_WINDOW_MS: 60 * 1000, // A 429 is measured against the render starts of the last minute
+  RATE_SAFETY: 0.8, // Run at 80% of the rate that was refused
+  INTERVAL_DECAY: 0.9, // Each clean render shortens the interval by 10%
+  LATENCY_SMOOTHING: 0.3 // Weight of the newest render in the average latency
+};
+
+export class SceneScheduler {
+  constructor(limits = SCHEDULER_LIMITS) {
+    this.limits = { ...SCHEDULER_LIMITS, ...limits };
+    this.providers = new Map();
+  }
+
+  getState(provider) {
+    if (!this.providers.has(provider)) {
+      this.providers.set(provider, {
+        concurrency: this.limits.INITIAL_CONCURRENCY,
+        intervalMs: 0,
+        latencyMs: null,
+        rateCeilingPerMinute: null,
+        successStreak: 0,
+        rateLimited: 0,
+        starts: [],
+        nextStartAt: 0
+      });
+    }
+    return this.providers.get(provider);
+  }
+
+  /**
+   * Current pacing of a provider, as shown in job progress events and used by estimates
+   */
+  getPacing(provider) {
+    const { concurrency, intervalMs, latencyMs, rateCeilingPerMinute, rateLimited } = this.getState(provider);
+    return { provider, concurrency, intervalMs, latencyMs, rateCeilingPerMinute, rateLimited };
+  }
+
+  /**
+   * Wait until the provider's interval since the last render start has passed, then claim the start
+   */
+  async waitForTurn(provider, abortSignal = null) {
+    const state = this.getState(provider);
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    // Claimed before sleeping, so renders waiting together queue up one interval apart
+    state.nextStartAt = startAt + state.intervalMs;
+    if (startAt > now) {
+      console.log(`⏳ ${provider}: pacing renders ${Math.round(state.intervalMs / 1000)}s apart - waiting ${Math.ceil((startAt - now) / 1000)}s`);
+      await sleep(startAt - now, abortSignal);
+    }
+    state.starts = [...state.starts.filter((t) => Date.now() - t < this.limits.RATE_WINDOW_MS), Date.now()];
+  }
+
+  /**
+   * A render finished: after as many clean renders in a row as run at once, allow one more
+   */
+  recordSuccess(provider, latencyMs) {
+    const state = this.getState(provider);
+    const { LATENCY_SMOOTHING, INTERVAL_DECAY, MAX_CONCURRENCY } = this.limits;
+
+    state.latencyMs = state.latencyMs === null ? latencyMs : Math.round(state.latencyMs + LATENCY_SMOOTHING * (latencyMs - state.latencyMs));
+    state.intervalMs = state.intervalMs * INTERVAL_DECAY < 100 ? 0 : Math.round(state.intervalMs * INTERVAL_DECAY);
+    state.successStreak++;
+    if (state.successStreak >= state.concurrency && state.concurrency < MAX_CONCURRENCY) {
+      state.concurrency++;
+      state.successStreak = 0;
+      console.log(`📈 ${provider}: ${state.concurrency} scenes at once`);
+    }
+  }
+
+  /**
+   * The provider answered 429: halve the parallelism and space renders below the refused rate
+   */
+  recordRateLimited(provider) {
+    const state = this.getState(provider);
+    const { RATE_WINDOW_MS, RATE_SAFETY, MAX_INTERVAL_MS } = this.limits;
+
+    const recentStarts = state.starts.filter((t) => Date.now() - t < RATE_WINDOW_MS).length;
+    if (recentStarts > 1) {
+      state.rateCeilingPerMinute = Math.max(1, Math.floor(recentStarts * RATE_SAFETY));
+    }
+    const ceilingIntervalMs = state.rateCeilingPerMinute ? Math.ceil((60 * 1000) / state.rateCeilingPerMinute) : 1000;
+
+    state.concurrency = Math.max(1, Math.floor(state.concurrency / 2));
+    state.intervalMs = Math.min(MAX_INTERVAL_MS, Math.max(state.intervalMs * 2, ceilingIntervalMs));
+    state.successStreak = 0;
+    state.rateLimited++;
+    console.log(`📉 ${provider}: rate limited - ${state.concurrency} scene(s) at once, ${Math.round(state.intervalMs / 1000)}s apart`);
+  }
+
+  reset() {
+    this.providers.clear();
+  }
+}
+
+// Singleton instance
+let sceneSchedulerInstance = null;
+
+export function getSceneScheduler() {
+  if (!sceneSchedulerInstance) {
+    sceneSchedulerInstance = new SceneScheduler();
+  }
+  return sceneSchedulerInstance;
+}
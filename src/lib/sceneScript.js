@@ -0,0 +1,121 @@
+/**
+ * Scene Script - The typed scene the director writes for every scene of a movie
+ * The director call asks for it as structured output (a JSON schema built from SceneScript),
+ * the engine validates the reply and stores the parsed object in `scenes_data[].script`.
+ * Storyboard scenes and movies saved before scenes were typed still carry text; they are
+ * turned into the same shape with sceneScriptFromParts.
+ */
+
+import { z } from "zod";
+import { zodResponseFormat } from "openai/helpers/zod";
+
+export const SCENE_SCRIPT_LIMITS = {
+  MAX_VISUAL_LENGTH: 2000,
+  MAX_TEXT_LENGTH: 1000,
+  MAX_SHORT_TEXT_LENGTH: 200,
+  MAX_SHOTS: 6,
+  MAX_DIALOGUE_LINES: 8,
+  MAX_PROPS: 10
+};
+
+// Lengths are checked after parsing rather than in the JSON schema: structured output
+// rejects schemas with string length keywords
+const text = (max) =>
+  z.string().trim().refine((value) => value.length <= max, `must be at most ${max} characters`);
+const requiredText = (max) => text(max).refine((value) => value.length > 0, "is required");
+
+const Shot = z.object({
+  framing: requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH),
+  camera: requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH),
+  action: requiredText(SCENE_SCRIPT_LIMITS.MAX_TEXT_LENGTH)
+});
+
+const DialogueLine = z.object({
+  speaker: requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH),
+  line: requiredText(SCENE_SCRIPT_LIMITS.MAX_TEXT_LENGTH),
+  // "(beat)", "(overlapping)"... empty when the line is just said
+  direction: text(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH)
+});
+
+// Every field is required: structured output only allows required properties
+const SceneScript = z.object({
+  visual: requiredText(SCENE_SCRIPT_LIMITS.MAX_VISUAL_LENGTH),
+  shots: z.array(Shot).min(1).max(SCENE_SCRIPT_LIMITS.MAX_SHOTS),
+  dialogue: z.array(DialogueLine).max(SCENE_SCRIPT_LIMITS.MAX_DIALOGUE_LINES),
+  endHook: requiredText(SCENE_SCRIPT_LIMITS.MAX_TEXT_LENGTH),
+  summary: requiredText(SCENE_SCRIPT_LIMITS.MAX_TEXT_LENGTH),
+  location: requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH),
+  timeOfDay: requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH),
+  props: z.array(requiredText(SCENE_SCRIPT_LIMITS.MAX_SHORT_TEXT_LENGTH)).max(SCENE_SCRIPT_LIMITS.MAX_PROPS)
+});
+
+// The chat completions `response_format` for the director call
+export const SCENE_SCRIPT_RESPONSE_FORMAT = zodResponseFormat(SceneScript, "scene_script");
+
+/**
+ * Validate what the director returned (the JSON text of the reply, or an already parsed object).
+ * Throws with every problem listed, which is also what the repair request tells the model.
+ */
+export function parseSceneScript(raw) {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error("Scene script is not valid JSON");
+    }
+  }
+
+  const parsed = SceneScript.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "scene"}: ${i.message}`).join("; ");
+    throw new Error(`Scene script is invalid: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Dialogue as screenplay lines: `Speaker (direction): "Line"`
+ */
+export function formatDialogue(dialogue = []) {
+  return dialogue
+    .map(({ speaker, line, direction }) => {
+      if (!speaker) return line;
+      return `${speaker}${direction ? ` ${direction}` : ""}: "${line}"`;
+    })
+    .join("\n");
+}
+
+/**
+ * Read `Speaker: "Line"` text back into dialogue lines. Lines without a speaker (stage
+ * directions, free text) are kept with an empty speaker so nothing written is lost.
+ */
+export function parseDialogueText(dialogueText) {
+  return String(dialogueText || "")
+    .split("\n")
+    .map((raw) => raw.trim())
+    .filter(Boolean)
+    .map((raw) => {
+      const match = raw.match(/^([^:"]{1,100}?)\s*(\([^)]*\))?:\s*(.+)$/);
+      if (!match) return { speaker: "", line: raw, direction: "" };
+      return { speaker: match[1].trim(), line: match[3].trim().replace(/^"([\s\S]*)"$/, "$1"), direction: match[2] || "" };
+    });
+}
+
+/**
+ * A scene script from the text parts of a storyboard scene or of a pre-structured script
+ * ({ visual, dialogue, endHook, summary }). Shots, location, time of day and props stay empty.
+ */
+export function sceneScriptFromParts({ visual = "", dialogue = "", endHook = "", summary = "" } = {}) {
+  const sceneSummary = summary || "Scene continues the story.";
+  return {
+    visual: visual || sceneSummary,
+    shots: [],
+    dialogue: parseDialogueText(dialogue),
+    endHook: endHook || sceneSummary,
+    summary: sceneSummary,
+    location: "",
+    timeOfDay: "",
+    props: []
+  };
+}
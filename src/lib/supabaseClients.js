@@ -0,0 +1,27 @@
+/**
+ * Supabase Clients - One place that decides between the real project and the mock backend
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { getEnv, isMockMode } from "@/lib/env";
+import { createMockSupabaseClient } from "@/lib/mockBackend";
+
+/**
+ * Service-role client (bypasses RLS) for server-side writes
+ */
+export function createServiceClient() {
+  if (isMockMode()) return createMockSupabaseClient();
+  const env = getEnv();
+  return createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false }
+  });
+}
+
+/**
+ * Public (anon) client for reads
+ */
+export function createAnonClient() {
+  if (isMockMode()) return createMockSupabaseClient();
+  const env = getEnv();
+  return createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.NEXT_PUBLIC_SUPABASE_ANON_KEY);
+}
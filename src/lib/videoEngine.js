@@ -7,12 +7,21 @@
 
 import "server-only";
 
+import { readFile } from "fs/promises";
 import Replicate from "replicate";
 import OpenAI from "openai";
-import { createClient } from "@supabase/supabase-js";
 import { v4 as uuidv4 } from "uuid";
 import { getEnv } from "@/lib/env";
-import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { createAnonClient, createServiceClient } from "@/lib/supabaseClients";
+import { createMockOpenAI } from "@/lib/mockBackend";
+import { getBudgetManager, getOwnerScopes, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { assembleMovie, extractLastFrame, normalizeTransition } from "@/lib/movieAssembler";
+import { createVideoProviders, resolveMockClipPath, runPrediction } from "@/lib/videoProviders";
+import { getImagePrice, getModelHardware, getVideoPrice, priceOpenAITokens } from "@/lib/pricingCatalog";
+import { CHARACTER_LIMITS, createCharacter, generatedProfileToCharacter, parseGeneratedProfile } from "@/lib/characterStore";
+import { SCENE_SCRIPT_RESPONSE_FORMAT, formatDialogue, parseSceneScript, sceneScriptFromParts } from "@/lib/sceneScript";
+import { getRateLimiter, getRetryAfterMs } from "@/lib/rateLimiter";
+import { getSceneScheduler, SCHEDULER_LIMITS } from "@/lib/sceneScheduler";
 
 /* =======================
    ENVIRONMENT CONFIGURATION
@@ -22,6 +31,7 @@ function createConfig() {
   const env = getEnv();
 
   return {
+    mode: env.VIDEO_ENGINE_MODE,
     supabase: {
       url: env.NEXT_PUBLIC_SUPABASE_URL,
       anonKey: env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
@@ -30,9 +40,18 @@ function createConfig() {
     ai: {
       openai: env.OPENAI_API_KEY,
       openaiModel: env.OPENAI_MODEL || "gpt-4o-mini",
+      imageModel: env.OPENAI_IMAGE_MODEL,
       replicate: env.REPLICATE_API_TOKEN,
       elevenlabs: env.ELEVENLABS_API_KEY,
       google: env.GOOGLE_API_KEY
+    },
+    media: {
+      ffmpegPath: env.FFMPEG_PATH,
+      ffprobePath: env.FFPROBE_PATH
+    },
+    video: {
+      http: { baseUrl: env.VIDEO_HTTP_BASE_URL || null, apiKey: env.VIDEO_HTTP_API_KEY || null },
+      mock: { clipsDir: env.MOCK_VIDEO_CLIPS_DIR || null }
     }
   };
 }
@@ -42,18 +61,21 @@ function createConfig() {
 ======================= */
 
 function createClients(config) {
-  const replicate = new Replicate({ auth: config.ai.replicate });
-  const openai = new OpenAI({ apiKey: config.ai.openai });
+  // Mock mode: no network at all - fake OpenAI, in-memory Supabase, bundled clips for every model
+  const offline = config.mode === "mock";
+  const replicate = offline ? null : new Replicate({ auth: config.ai.replicate });
+  const openai = offline ? createMockOpenAI() : new OpenAI({ apiKey: config.ai.openai });
 
   // Server-side client (service role)
-  const supabase = createClient(config.supabase.url, config.supabase.serviceRoleKey, {
-    auth: { persistSession: false }
-  });
+  const supabase = createServiceClient();
 
   // Public client (anon)
-  const supabaseAnon = createClient(config.supabase.url, config.supabase.anonKey);
+  const supabaseAnon = createAnonClient();
+
+  // Video providers (see VIDEO_MODELS[].provider)
+  const videoProviders = createVideoProviders({ replicate, ...config.video, offline });
 
-  return { replicate, openai, supabase, supabaseAnon };
+  return { replicate, openai, supabase, supabaseAnon, videoProviders };
 }
 
 /* =======================
@@ -67,20 +89,38 @@ export const VIDEO_CONSTRAINTS = {
   DEFAULT_SCENE_DURATION: 6,
   DEFAULT_FPS: 24,
   ASPECT_RATIO: "16:9",
-  MAX_PARALLEL_SCENES: 2,
+  EXPECTED_SCRIPT_SECONDS: 6, // Typical time to write one scene script (used for estimates)
+  EXPECTED_RENDER_SECONDS: 18, // Typical time to render and upload one clip (used for estimates)
   MODEL_TIMEOUT_MS: 5 * 60 * 1000, // 5 minutes
   UPLOAD_TIMEOUT_MS: 30 * 1000 // 30 seconds
 };
 
+// What a model does with a conditioning image (the first frame it animates):
+// "required" - image-to-video only, skipped for scenes without one
+// "optional" - starts from the image when there is one, from the prompt alone otherwise
+// "none"     - text-to-video only, the image is not sent
+export const IMAGE_INPUT = {
+  REQUIRED: "required",
+  OPTIONAL: "optional",
+  NONE: "none"
+};
+
+// Where scenes after the first get their conditioning image (createMovie's `keyframes` option;
+// without one every scene starts from the characters' reference image):
+// "last_frame" - the last frame of the previous scene's clip, so renders run one after another
+// "generated"  - an image drawn from how the previous scene's script ends, paid per image
+export const KEYFRAME_MODES = ["last_frame", "generated"];
+
 export const VIDEO_MODELS = {
   "google/veo-3.1-fast": {
     name: "Google Veo 3.1 Fast",
+    provider: "replicate",
     maxDuration: 8, // Google Veo only supports 4, 6, or 8 seconds
     allowedDurations: [4, 6, 8], // Valid durations for this model
-    costPerSecond: 0.015,
     priority: 1,
     enabled: true,
-    buildInput: ({ prompt, duration, fps, aspect_ratio }) => {
+    imageInput: IMAGE_INPUT.OPTIONAL,
+    buildInput: ({ prompt, duration, fps, aspect_ratio, image }) => {
       // Google Veo only accepts 4, 6, or 8 seconds - clamp to nearest valid value
       let validDuration = duration;
       if (duration <= 5) {
@@ -94,50 +134,77 @@ export const VIDEO_MODELS = {
         prompt,
         duration: validDuration,
         fps,
-        aspect_ratio
+        aspect_ratio,
+        ...(image ? { image } : {})
       };
     }
   },
   "luma/dream-machine": {
     name: "Luma Dream Machine",
+    provider: "replicate",
     maxDuration: 30,
-    costPerSecond: 0.01,
     priority: 2,
     enabled: true,
-    buildInput: ({ prompt, duration, fps }) => ({
+    imageInput: IMAGE_INPUT.OPTIONAL,
+    buildInput: ({ prompt, duration, fps, image }) => ({
       prompt,
       duration,
       style: "realistic",
-      fps
+      fps,
+      ...(image ? { start_image_url: image } : {})
     })
   },
   "stability-ai/svd": {
     name: "Stable Video Diffusion",
+    provider: "replicate",
     maxDuration: 30,
-    costPerSecond: 0.008,
     priority: 3,
     enabled: true,
-    buildInput: ({ prompt, duration, fps }) => ({
-      image: null, // Requires image input
-      prompt,
+    imageInput: IMAGE_INPUT.REQUIRED, // Animates the image; the prompt doesn't steer it
+    buildInput: ({ duration, fps, image }) => ({
+      input_image: image,
       num_frames: Math.floor(duration * fps),
       fps
     })
   },
   "anotherjesse/zeroscope-v2-xl": {
     name: "Zeroscope v2 XL",
+    provider: "replicate",
     maxDuration: 30,
-    costPerSecond: 0.007,
     priority: 4,
     enabled: true,
+    imageInput: IMAGE_INPUT.NONE,
     buildInput: ({ prompt, duration, fps }) => ({
       prompt,
       num_frames: Math.floor(duration * fps),
       fps
     })
+  },
+  // Bundled placeholder clips - free, offline, for development and tests
+  "mock/placeholder": {
+    name: "Mock Placeholder Clips",
+    provider: "mock",
+    maxDuration: 30,
+    priority: 99,
+    enabled: true,
+    imageInput: IMAGE_INPUT.OPTIONAL,
+    buildInput: ({ prompt, duration, fps, image }) => ({
+      prompt,
+      duration,
+      fps,
+      ...(image ? { image } : {})
+    })
   }
 };
 
+// Fallback order when a request doesn't name its models
+export const DEFAULT_MODEL_CHAIN = [
+  "google/veo-3.1-fast",
+  "luma/dream-machine",
+  "stability-ai/svd",
+  "anotherjesse/zeroscope-v2-xl"
+];
+
 /* =======================
    GLOBAL VISUAL LOCK 🔒
 ======================= */
@@ -181,6 +248,8 @@ async function getCharacters(supabase, characterIds) {
           personality: char.profile.personality || "realistic movie character",
           reference_image: char.reference_image,
           visual_details: char.profile.visual_details || null,
+          voice: char.profile.voice || null,
+          consistency_checklist: char.profile.consistency_checklist || [],
         };
       }
       // Otherwise return as-is (old schema or already transformed)
@@ -191,6 +260,8 @@ async function getCharacters(supabase, characterIds) {
         personality: char.personality || "realistic movie character",
         reference_image: char.reference_image,
         visual_details: char.visual_details || null,
+        voice: char.voice || null,
+        consistency_checklist: char.consistency_checklist || [],
       };
     });
   } catch (error) {
@@ -219,7 +290,7 @@ ${c.personality ? `- Personality: ${c.personality}` : ""}
 - CRITICAL: unchanged clothing unless story explicitly requires it
 - CRITICAL: maintain exact same appearance from scene to scene
 ${c.visual_details ? `- Visual Details: ${c.visual_details}` : ""}
-${c.reference_image ? `- Based on reference image: ${c.reference_image}` : ""}
+${(c.consistency_checklist || []).map((item) => `- MUST: ${item}`).join("\n")}
 - Character must look identical in every scene
 - No variations in appearance, clothing, or physical characteristics
 `
@@ -227,17 +298,128 @@ ${c.reference_image ? `- Based on reference image: ${c.reference_image}` : ""}
     .join("\n");
 }
 
+/**
+ * The conditioning frame image-to-video models start a scene from: the first uploaded
+ * reference image of the scene's characters
+ */
+function characterReferenceImage(characters) {
+  return characters.find((c) => c.reference_image)?.reference_image || null;
+}
+
+/* =======================
+   KEYFRAMES
+======================= */
+
+const KEYFRAME_IMAGE_SIZE = "1536x1024"; // Landscape, close to the 16:9 the clips are rendered at
+const MAX_KEYFRAME_PROMPT_LENGTH = 4000;
+
+/**
+ * The keyframe mode a movie uses: none when no model of the chain starts from an image
+ */
+function resolveKeyframeMode(keyframes, modelChain) {
+  if (keyframes === null || keyframes === undefined) return null;
+  if (!KEYFRAME_MODES.includes(keyframes)) {
+    throw new Error(`keyframes must be one of: ${KEYFRAME_MODES.join(", ")}`);
+  }
+  const takesImages = (modelChain || DEFAULT_MODEL_CHAIN).some(
+    (m) => VIDEO_MODELS[m]?.enabled && VIDEO_MODELS[m].imageInput !== IMAGE_INPUT.NONE
+  );
+  return takesImages ? keyframes : null;
+}
+
+function buildKeyframePrompt(previousParts, characters) {
+  const cast = characters
+    .map((c) => `- ${c.name}: ${[c.base_prompt, c.visual_details].filter(Boolean).join("; ")}`)
+    .join("\n");
+  return `A single still frame from a movie: the final moment of this scene, which the next scene continues from.
+
+SCENE:
+${previousParts.visual}
+
+FINAL MOMENT:
+${previousParts.endHook || previousParts.summary}
+
+CHARACTERS (exact appearance):
+${cast}
+${GLOBAL_STYLE}
+No text, captions or borders.`.substring(0, MAX_KEYFRAME_PROMPT_LENGTH);
+}
+
+/**
+ * Generate one image (a keyframe or a character portrait) with OpenAI and charge it to the owner.
+ * Image models without a catalog price are refused, so nothing is generated that can't be billed.
+ */
+async function generateImage({ openai, imageModel, prompt, size, owner }) {
+  const price = getImagePrice(imageModel);
+  if (!price) throw new Error(`No price for image model "${imageModel}" in the pricing catalog`);
+
+  const budgetManager = getBudgetManager();
+  const budgetCheck = await budgetManager.checkBudget(owner, price.perImage);
+  if (!budgetCheck.allowed) throw new Error(`Insufficient budget remaining. ${budgetCheck.reason}`);
+
+  const rateLimitCheck = await getRateLimiter().waitForSlot("openai", { model: imageModel });
+  if (!rateLimitCheck.allowed) {
+    throw new Error(`Rate limit: ${rateLimitCheck.reason}. Retry after ${rateLimitCheck.retryAfter}s`);
+  }
+
+  const response = await openai.images.generate({ model: imageModel, prompt, size, n: 1 });
+  await budgetManager.trackImageCost(1, imageModel, owner);
+
+  const image = response.data?.[0];
+  if (image?.b64_json) return Buffer.from(image.b64_json, "base64");
+  if (image?.url) {
+    const res = await fetch(image.url);
+    if (!res.ok) throw new Error(`Failed to fetch generated image: ${res.status} ${res.statusText}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+  throw new Error("Image model returned no image");
+}
+
+/**
+ * The image scene `sceneNumber` starts from, saved to the `images` bucket:
+ * the previous scene's last frame (`previousClip`) or an image generated from its script (`previousParts`).
+ * Returns { url, source, fromScene }.
+ */
+async function createKeyframe(clients, config, { mode, movieId, sceneNumber, previousClip, previousParts, characters, owner }) {
+  const fromScene = sceneNumber - 1;
+  let image;
+  if (mode === "last_frame") {
+    if (!previousClip) throw new Error(`Scene ${fromScene} has no clip to continue from`);
+    image = await extractLastFrame(config.media, previousClip);
+  } else {
+    if (!previousParts) throw new Error(`Scene ${fromScene} has no script to continue from`);
+    image = await generateImage({
+      openai: clients.openai,
+      imageModel: config.ai.imageModel,
+      prompt: buildKeyframePrompt(previousParts, characters),
+      size: KEYFRAME_IMAGE_SIZE,
+      owner
+    });
+  }
+
+  const path = `keyframes/${movieId}/scene-${sceneNumber}-${uuidv4()}.png`;
+  const { error } = await clients.supabase.storage
+    .from("images")
+    .upload(path, image, { contentType: "image/png", cacheControl: "3600" });
+  if (error) throw new Error(`Failed to save keyframe: ${error.message}`);
+
+  const { data: urlData } = clients.supabase.storage.from("images").getPublicUrl(path);
+  return { url: urlData.publicUrl, source: mode, fromScene };
+}
+
 /* =======================
    PROGRESS TRACKING
 ======================= */
 
-class ProgressTracker {
-  constructor(totalScenes, onProgress = null) {
+export class ProgressTracker {
+  // `getPacing` reports the scene scheduler's current pacing, which every progress event carries
+  constructor(totalScenes, onProgress = null, getPacing = null) {
     this.totalScenes = totalScenes;
     this.completedScenes = 0;
     this.failedScenes = [];
     this.startTime = Date.now();
     this.onProgress = onProgress;
+    this.getPacing = getPacing;
   }
 
   notify(sceneNumber, status, data = {}) {
@@ -248,6 +430,7 @@ class ProgressTracker {
       percentage: Math.round((sceneNumber / this.totalScenes) * 100),
       elapsed: Date.now() - this.startTime,
       status,
+      ...(this.getPacing ? { pacing: this.getPacing() } : {}),
       ...data
     };
 
@@ -280,7 +463,7 @@ class ProgressTracker {
    CIRCUIT BREAKER
 ======================= */
 
-class CircuitBreaker {
+export class CircuitBreaker {
   constructor(failureThreshold = 3, resetTimeout = 60 * 1000) {
     this.failureThreshold = failureThreshold;
     this.resetTimeout = resetTimeout;
@@ -363,18 +546,15 @@ DIALOGUE RULES (BETTER DIALOGUE):
 - Max 3–6 lines total unless the user explicitly requests more dialogue-heavy scenes.
 
 OUTPUT FORMAT (STRICT):
-SCENE_VISUAL:
-[Filmable visual description. Include blocking + camera moves + lighting. Present tense.]
-
-DIALOGUE:
-Character: "Line"
-Character: "Line"
-
-SCENE_END_HOOK:
-[1–2 sentences describing the final continuous motion / cliffhanger that leads directly into the next scene.]
-
-SCENE_SUMMARY:
-[One paragraph continuity summary: where everyone is, what changed, what they’re doing next.]`;
+Reply with one JSON object matching the scene_script schema:
+- visual: Filmable visual description. Include blocking + camera moves + lighting. Present tense.
+- shots: 1–6 shots in order, each { framing (wide/medium/close...), camera (the move), action (what happens in it) }.
+- dialogue: The lines in order, each { speaker (character name), line (the words only), direction ("(beat)", "(overlapping)"... or "") }. Empty if nobody speaks.
+- endHook: 1–2 sentences describing the final continuous motion / cliffhanger that leads directly into the next scene.
+- summary: One paragraph continuity summary: where everyone is, what changed, what they’re doing next.
+- location: Where the scene takes place.
+- timeOfDay: When it takes place (e.g. "dusk", "3 a.m.").
+- props: Objects that matter to the scene or must carry over to the next one.`;
 }
 
 function buildDirectorUserPrompt({
@@ -384,7 +564,8 @@ function buildDirectorUserPrompt({
   storySoFar,
   characters,
   sceneNumber,
-  totalScenes
+  totalScenes,
+  nextSceneSummary = null
 }) {
   const styleBlock = safeExcerpt(styleReference, 4500);
   const continuityBlock = safeExcerpt(storySoFar, 5000);
@@ -397,7 +578,7 @@ ${styleBlock ? `STYLE REFERENCE (tone + cadence only, do NOT copy verbatim):\n${
 ${previousSceneEnd ? `PREVIOUS SCENE ENDED WITH (match this exactly): ${previousSceneEnd}\n` : ""}
 STORY CONTINUITY SO FAR (treat as canon):
 ${continuityBlock || "Beginning of the film."}
-
+${nextSceneSummary ? `\nNEXT SCENE (already filmed - end so it flows directly into this): ${nextSceneSummary}\n` : ""}
 CHARACTER DETAILS (keep voices distinct; do not change wardrobe/identity):
 ${characters
   .map((c) => {
@@ -406,6 +587,7 @@ ${characters
     if (c.personality) lines.push(`  - Personality/voice: ${c.personality}`);
     if (c.base_prompt) lines.push(`  - Visual style: ${c.base_prompt}`);
     if (c.visual_details) lines.push(`  - Visual details: ${c.visual_details}`);
+    if (c.voice) lines.push(`  - Voice (write their dialogue in it): ${c.voice}`);
     if (c.reference_image) lines.push(`  - Reference: ${c.reference_image}`);
     lines.push(`  - Must remain visually identical across scenes (face/body/hair/wardrobe)`);
     return lines.join("\n");
@@ -422,7 +604,16 @@ REQUIREMENTS:
 - Keep dialogue sparse (movie dialogue), 3–6 lines max`;
 }
 
-async function generateSceneScript({
+// Times the director is asked to fix a reply that doesn't match the scene schema
+const SCENE_SCRIPT_REPAIRS = 1;
+
+/**
+ * Write one scene with the director. The reply is structured output validated against the scene
+ * schema; a reply that still doesn't match it is sent back once with the problems to repair.
+ * Returns the typed scene (see sceneScript.js). Throws when OpenAI fails or the repair doesn't
+ * validate either, so the scene is recorded as failed and can be regenerated.
+ */
+export async function generateSceneScript({
   openai,
   openaiModel,
   storySoFar,
@@ -431,7 +622,9 @@ async function generateSceneScript({
   characters,
   baseStoryPrompt,
   previousSceneEnd = null,
-  styleReference = null
+  styleReference = null,
+  nextSceneSummary = null,
+  owner = {}
 }) {
   const systemPrompt = buildDirectorSystemPrompt({ baseStoryPrompt });
   const userPrompt = buildDirectorUserPrompt({
@@ -441,68 +634,77 @@ async function generateSceneScript({
     storySoFar,
     characters,
     sceneNumber,
-    totalScenes
+    totalScenes,
+    nextSceneSummary
   });
 
-  try {
-    console.log(`\n🎬 [SCENE ${sceneNumber}/${totalScenes}] Starting script generation...`);
-    console.log(`📝 Story Premise: "${baseStoryPrompt.substring(0, 100)}${baseStoryPrompt.length > 100 ? '...' : ''}"`);
-    console.log(`👥 Characters: ${characters.map(c => c.name).join(', ')}`);
-    
-    // Check rate limits
-    const budgetManager = getBudgetManager();
-    const rateLimitCheck = budgetManager.checkRateLimit("openai", "script-generation");
+  console.log(`\n🎬 [SCENE ${sceneNumber}/${totalScenes}] Starting script generation...`);
+  console.log(`📝 Story Premise: "${baseStoryPrompt.substring(0, 100)}${baseStoryPrompt.length > 100 ? '...' : ''}"`);
+  console.log(`👥 Characters: ${characters.map(c => c.name).join(', ')}`);
+
+  const budgetManager = getBudgetManager();
+  const messages = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    // Wait for a rate limit slot (gives up if the wait would be too long)
+    const rateLimitCheck = await getRateLimiter().waitForSlot("openai", { model: openaiModel });
     if (!rateLimitCheck.allowed) {
       throw new Error(`Rate limit: ${rateLimitCheck.reason}. Retry after ${rateLimitCheck.retryAfter}s`);
     }
 
-    console.log(`🤖 [SCENE ${sceneNumber}] Calling OpenAI (${openaiModel}) to generate scene script...`);
+    console.log(`🤖 [SCENE ${sceneNumber}] Calling OpenAI (${openaiModel}) to ${attempt === 0 ? "generate" : "repair"} scene script...`);
     const response = await openai.chat.completions.create({
       model: openaiModel,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
+      messages,
       temperature: 0.7,
-      max_tokens: 1500
+      max_tokens: 1500,
+      response_format: SCENE_SCRIPT_RESPONSE_FORMAT
     });
 
     // Track OpenAI cost
     const usage = response.usage;
     if (usage) {
       const totalTokens = (usage.prompt_tokens || 0) + (usage.completion_tokens || 0);
-      budgetManager.trackOpenAICost(totalTokens, openaiModel);
+      await budgetManager.trackOpenAICost(
+        { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 },
+        openaiModel,
+        owner
+      );
       console.log(`✅ [SCENE ${sceneNumber}] Script generated! Tokens: ${totalTokens} (prompt: ${usage.prompt_tokens || 0}, completion: ${usage.completion_tokens || 0})`);
     }
 
-    const script = response.choices?.[0]?.message?.content || "";
-    if (script) {
-      const preview = script.substring(0, 150).replace(/\n/g, ' ');
-      console.log(`📄 [SCENE ${sceneNumber}] Script preview: "${preview}..."`);
-    }
-    
-    return script;
-  } catch (error) {
-    if (error.message?.includes("Rate limit")) {
-      throw error;
+    const message = response.choices?.[0]?.message || {};
+    const reply = message.content || "";
+    try {
+      if (message.refusal) throw new Error(`Scene script was refused: ${message.refusal}`);
+      const scene = parseSceneScript(reply);
+      console.log(`📄 [SCENE ${sceneNumber}] Script preview: "${scene.visual.substring(0, 150).replace(/\n/g, ' ')}..."`);
+      return scene;
+    } catch (parseError) {
+      // No placeholder script: a scene rendered from one would be paid for and saved as a success
+      if (attempt >= SCENE_SCRIPT_REPAIRS) {
+        throw new Error(`Scene ${sceneNumber} script still invalid after ${SCENE_SCRIPT_REPAIRS} repair(s): ${parseError.message}`);
+      }
+      console.log(`⚠️  [SCENE ${sceneNumber}] ${parseError.message} - asking for a repair`);
+      messages.push(
+        { role: "assistant", content: reply },
+        {
+          role: "user",
+          content: `That reply doesn't match the scene_script schema (${parseError.message}). Reply again with the corrected JSON object only, keeping the scene itself unchanged.`
+        }
+      );
     }
-    // Fallback if OpenAI fails
-    return `SCENE_VISUAL:
-A cinematic scene showing ${characters.map((c) => c.name).join(" and ")} continuing their story.
-Professional camera movements, smooth transitions.
-
-DIALOGUE:
-${characters[0]?.name || "Character"}: "We need to keep moving."
-
-SCENE_END_HOOK:
-They keep moving forward, still in motion as the moment cuts.
-
-SCENE_SUMMARY:
-The characters continue their journey, maintaining momentum for the next scene.`;
   }
 }
 
-function extractSceneParts(sceneScript) {
+/**
+ * Split a script in the director's old text format (SCENE_VISUAL / DIALOGUE / SCENE_END_HOOK /
+ * SCENE_SUMMARY). Only movies saved before scenes were typed still store scripts like this.
+ */
+export function extractSceneParts(sceneScript) {
   const visualMatch = sceneScript.match(
     /SCENE_VISUAL:\n([\s\S]*?)(?:\n\nDIALOGUE:|\n\nSCENE_END_HOOK:|\n\nSCENE_SUMMARY:|$)/
   );
@@ -521,12 +723,24 @@ function extractSceneParts(sceneScript) {
   };
 }
 
+/**
+ * The typed scene of a stored scene: its script object, an old text script split into parts,
+ * or (with no script at all) the summary and end hook it was saved with
+ */
+function readSceneScript({ script, summary = null, endHook = null }) {
+  if (script && typeof script === "object") return script;
+  if (typeof script === "string" && script) return sceneScriptFromParts(extractSceneParts(script));
+  return sceneScriptFromParts({ visual: summary, endHook, summary });
+}
+
 /* =======================
    SCENE → VIDEO PROMPT
 ======================= */
 
-function buildVideoPrompt(sceneParts, characters, previousSceneEnd = null, baseStoryPrompt = null) {
-  const { visual, dialogue } = sceneParts;
+function buildVideoPrompt(scene, characters, previousSceneEnd = null, baseStoryPrompt = null) {
+  const { visual, shots = [], location, timeOfDay, props = [] } = scene;
+  const dialogue = formatDialogue(scene.dialogue);
+  const setting = [location, timeOfDay].filter(Boolean).join(", ");
 
   // Build character-specific prompt section
   const characterPrompts = characters.map((c) => {
@@ -542,6 +756,12 @@ function buildVideoPrompt(sceneParts, characters, previousSceneEnd = null, baseS
 CINEMATIC SCENE DIRECTIONS:
 ${visual}
 
+${setting ? `SETTING: ${setting}` : ""}
+
+${shots.length > 0 ? `SHOTS:\n${shots.map((shot, index) => `${index + 1}. ${shot.framing}, ${shot.camera}: ${shot.action}`).join("\n")}` : ""}
+
+${props.length > 0 ? `PROPS: ${props.join(", ")}` : ""}
+
 ${dialogue ? `DIALOGUE SCENE:\n${dialogue}` : ""}
 
 ${baseStoryPrompt ? `STORY CONTEXT: ${baseStoryPrompt}` : ""}
@@ -574,6 +794,8 @@ TECHNICAL REQUIREMENTS:
 - characters must look identical to previous scenes
 `;
 
+  // Sections a scene leaves out would otherwise leave runs of blank lines
+  prompt = prompt.replace(/\n{3,}/g, "\n\n");
   const MAX_PROMPT_LENGTH = 4000;
   if (prompt.length > MAX_PROMPT_LENGTH) prompt = prompt.substring(0, MAX_PROMPT_LENGTH);
   return prompt.trim();
@@ -583,11 +805,6 @@ TECHNICAL REQUIREMENTS:
    VIDEO GENERATION WITH FALLBACK
 ======================= */
 
-// Helper function to wait for a specified time
-function wait(seconds) {
-  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
-}
-
 // Helper function to extract retry time from error message
 function extractRetryTime(errorMessage) {
   const retryMatch = errorMessage.match(/retry_after["\s:]*(\d+)/i) || 
@@ -596,13 +813,49 @@ function extractRetryTime(errorMessage) {
   return retryMatch ? parseInt(retryMatch[1]) : 10; // Default to 10 seconds
 }
 
-async function generateSceneVideo({ replicate }, prompt, duration = 8, modelChain = null, abortSignal = null, retryCount = 0) {
-  const models = (modelChain || [
-    "google/veo-3.1-fast",
-    "luma/dream-machine",
-    "stability-ai/svd",
-    "anotherjesse/zeroscope-v2-xl"
-  ]).filter((m) => VIDEO_MODELS[m]?.enabled);
+/**
+ * Clamp a requested clip length to what a model can render: within
+ * [MIN_DURATION, maxDuration], then snapped to the closest of its allowedDurations (if any)
+ */
+export function clampModelDuration(model, duration) {
+  const clamped = Math.min(Math.max(duration, VIDEO_CONSTRAINTS.MIN_DURATION), model.maxDuration);
+  if (!model.allowedDurations) return clamped;
+  return model.allowedDurations.reduce((prev, curr) =>
+    Math.abs(curr - clamped) < Math.abs(prev - clamped) ? curr : prev
+  );
+}
+
+/**
+ * Charge a finished prediction to the ledger with its final metrics: the provider's cost when it
+ * reports one, the catalog price otherwise. Our estimate and the provider's cost are both kept on
+ * the row. Failed and canceled predictions are charged only what the provider says they used.
+ */
+async function trackPredictionCost(provider, prediction, modelName, { perSecond, duration, owner }) {
+  const finished = await provider.fetchMetrics(prediction);
+  const costReport = provider.getCostReport(finished, { costPerSecond: perSecond, duration, hardware: getModelHardware(modelName) });
+  const amount = costReport.actual ?? costReport.estimated;
+  if (costReport.status !== "succeeded" && !amount) return costReport;
+
+  if (costReport.status !== "succeeded") {
+    console.log(`🧾 ${modelName} prediction ${costReport.predictionId} ${costReport.status}, still billed $${amount.toFixed(4)}`);
+  }
+  await getBudgetManager().trackCost(provider.name, amount, owner, {
+    model: modelName,
+    seconds: costReport.status === "succeeded" ? duration : null,
+    unit: "second",
+    unitPrice: perSecond,
+    predictionId: costReport.predictionId,
+    predictionStatus: costReport.status,
+    estimatedAmount: costReport.estimated,
+    providerCost: costReport.actual,
+    predictTime: costReport.predictTime,
+    hardware: costReport.hardware
+  });
+  return costReport;
+}
+
+export async function generateSceneVideo(clients, prompt, duration = 8, modelChain = null, abortSignal = null, retryCount = 0, onFallback = null, owner = {}, image = null) {
+  const models = (modelChain || DEFAULT_MODEL_CHAIN).filter((m) => VIDEO_MODELS[m]?.enabled);
 
   if (models.length === 0) throw new Error("No enabled video models available");
 
@@ -617,6 +870,14 @@ async function generateSceneVideo({ replicate }, prompt, duration = 8, modelChai
   const errors = [];
   const MAX_RETRIES = 3; // Maximum retries for rate limit errors
 
+  // Record a model failure and tell the caller which models are left to try
+  const recordError = (entry) => {
+    errors.push(entry);
+    if (onFallback) {
+      onFallback({ ...entry, remainingModels: models.slice(models.indexOf(entry.model) + 1) });
+    }
+  };
+
   for (const modelName of models) {
     // Check abort before each model attempt
     if (abortSignal?.aborted) {
@@ -624,126 +885,126 @@ async function generateSceneVideo({ replicate }, prompt, duration = 8, modelChai
     }
 
     if (!circuitBreaker.canExecute(modelName)) {
-      errors.push({ model: modelName, error: "Circuit breaker open" });
+      recordError({ model: modelName, error: "Circuit breaker open" });
       continue;
     }
 
-    // Check rate limits
-    const rateLimitCheck = budgetManager.checkRateLimit("replicate", modelName);
-    if (!rateLimitCheck.allowed) {
-      console.log(`⚠️  Model ${modelName}: Rate limit - ${rateLimitCheck.reason} (retry after ${rateLimitCheck.retryAfter}s)`);
-      errors.push({ 
-        model: modelName, 
-        error: `Rate limit: ${rateLimitCheck.reason}. Retry after ${rateLimitCheck.retryAfter}s` 
-      });
+    const model = VIDEO_MODELS[modelName];
+    const provider = clients.videoProviders[model.provider];
+    if (!provider?.isConfigured()) {
+      recordError({ model: modelName, error: `Video provider "${model.provider}" is not configured` });
+      continue;
+    }
+
+    // Image-to-video models start from the scene's conditioning frame; text-only models never get it
+    if (model.imageInput === IMAGE_INPUT.REQUIRED && !image) {
+      recordError({ model: modelName, error: "Needs a conditioning image and the scene has none" });
       continue;
     }
+    const conditioningImage = model.imageInput === IMAGE_INPUT.NONE ? null : image;
 
     // Check budget before generating
-    const model = VIDEO_MODELS[modelName];
-    
-    // Clamp duration to model's allowed values if specified
-    let actualDuration = Math.min(
-      Math.max(duration, VIDEO_CONSTRAINTS.MIN_DURATION),
-      model.maxDuration
-    );
-    
-    // If model has specific allowed durations, use the closest valid one
-    if (model.allowedDurations) {
-      actualDuration = model.allowedDurations.reduce((prev, curr) => 
-        Math.abs(curr - actualDuration) < Math.abs(prev - actualDuration) ? curr : prev
-      );
-      if (actualDuration !== duration) {
-        console.log(`📏 [${modelName}] Duration adjusted from ${duration}s to ${actualDuration}s (model requirement: ${model.allowedDurations.join(', ')}s)`);
-      }
+    const actualDuration = clampModelDuration(model, duration);
+    if (model.allowedDurations && actualDuration !== duration) {
+      console.log(`📏 [${modelName}] Duration adjusted from ${duration}s to ${actualDuration}s (model requirement: ${model.allowedDurations.join(', ')}s)`);
     }
-    
-    const estimatedCost = model.costPerSecond * actualDuration;
-    const budgetStatus = budgetManager.getBudgetStatus();
-    if (budgetStatus.remaining < estimatedCost) {
-      errors.push({ 
-        model: modelName, 
-        error: `Budget insufficient. Remaining: $${budgetStatus.remaining.toFixed(4)}, Needed: $${estimatedCost.toFixed(4)}` 
+
+    const { perSecond } = getVideoPrice(modelName);
+    const estimatedCost = perSecond * actualDuration;
+    const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost);
+    if (!budgetCheck.allowed) {
+      recordError({ model: modelName, error: `Budget insufficient. ${budgetCheck.reason}` });
+      continue;
+    }
+
+    // Keep to the provider's learned pacing, then wait for a rate limit slot; only a wait longer
+    // than the limiter allows moves on to the next model
+    const scheduler = getSceneScheduler();
+    await scheduler.waitForTurn(provider.name, abortSignal);
+    if (abortSignal?.aborted) {
+      throw new Error("Generation aborted by user");
+    }
+    const rateLimiter = getRateLimiter();
+    const rateLimitCheck = await rateLimiter.waitForSlot(provider.name, { model: modelName, abortSignal });
+    if (!rateLimitCheck.allowed) {
+      console.log(`⚠️  Model ${modelName}: Rate limit - ${rateLimitCheck.reason} (retry after ${rateLimitCheck.retryAfter}s)`);
+      recordError({
+        model: modelName,
+        error: `Rate limit: ${rateLimitCheck.reason}. Retry after ${rateLimitCheck.retryAfter}s`
       });
       continue;
     }
 
+    const renderStart = Date.now();
     try {
       console.log(`🎬 Rendering with ${modelName}...`);
       console.log(`   Duration: ${actualDuration}s`);
       console.log(`   Estimated Cost: $${estimatedCost.toFixed(4)}`);
       console.log(`   Prompt length: ${prompt.length} characters`);
+      if (conditioningImage) console.log(`   Conditioning image: ${conditioningImage}`);
       
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(
-          () =>
-            reject(
-              new Error(
-                `Model ${modelName} timeout after ${VIDEO_CONSTRAINTS.MODEL_TIMEOUT_MS / 1000}s`
-              )
-            ),
-          VIDEO_CONSTRAINTS.MODEL_TIMEOUT_MS
-        );
-      });
-
       const input = model.buildInput({
         prompt,
         duration: actualDuration,
         fps: VIDEO_CONSTRAINTS.DEFAULT_FPS,
-        aspect_ratio: VIDEO_CONSTRAINTS.ASPECT_RATIO
+        aspect_ratio: VIDEO_CONSTRAINTS.ASPECT_RATIO,
+        image: conditioningImage
       });
 
-      console.log(`⏳ Calling Replicate API for ${modelName}...`);
-      const apiCall = replicate.run(modelName, { input });
-      const output = await Promise.race([apiCall, timeoutPromise]);
+      console.log(`⏳ Submitting ${modelName} to ${provider.name}...`);
+      const { prediction, videoUrl } = await runPrediction(provider, modelName, input, {
+        abortSignal,
+        timeoutMs: VIDEO_CONSTRAINTS.MODEL_TIMEOUT_MS
+      });
       console.log(`✅ Received response from ${modelName}`);
 
-      let videoUrl;
-      if (Array.isArray(output)) videoUrl = output[0];
-      else if (output && typeof output === "object") videoUrl = output.video || output.url || output.output;
-      else if (typeof output === "string") videoUrl = output;
-
-      if (!videoUrl || typeof videoUrl !== "string") {
-        throw new Error(`Invalid video URL from ${modelName}`);
-      }
-
       console.log(`✅ Video rendered successfully with ${modelName}!`);
       console.log(`   Video URL: ${videoUrl}`);
 
-      // Track Replicate cost
-      budgetManager.trackReplicateCost(actualDuration, modelName);
+      // Track cost - the provider's own figure when it reports one, the catalog price otherwise
+      const costReport = await trackPredictionCost(provider, prediction, modelName, { perSecond, duration: actualDuration, owner });
 
       circuitBreaker.recordSuccess(modelName);
-      return { videoUrl, model: modelName, duration: actualDuration, promptLength: prompt.length };
+      scheduler.recordSuccess(provider.name, Date.now() - renderStart);
+      return { videoUrl, model: modelName, duration: actualDuration, promptLength: prompt.length, provider: provider.name, image: conditioningImage, costReport };
     } catch (error) {
-      if (error.message?.includes("Budget exceeded")) {
+      // A prediction that failed, timed out or was aborted can still have used billed hardware time
+      if (error.prediction) {
+        await trackPredictionCost(provider, error.prediction, modelName, { perSecond, duration: actualDuration, owner }).catch((costError) =>
+          console.error(`⚠️  Failed to charge ${modelName} prediction ${error.prediction.id}: ${costError.message}`)
+        );
+      }
+
+      if (abortSignal?.aborted) {
         throw error;
       }
       
       // Handle specific API errors with helpful messages
       let errorMessage = error.message;
       if (error.message?.includes("402") || error.message?.includes("Payment Required") || error.message?.includes("insufficient credit")) {
-        errorMessage = "Replicate account has insufficient credit. Please add credits at https://replicate.com/account/billing";
+        errorMessage = provider.name === "replicate"
+          ? "Replicate account has insufficient credit. Please add credits at https://replicate.com/account/billing"
+          : `${provider.name} provider account has insufficient credit`;
         console.error(`💳 ${errorMessage}`);
-      } else if (error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
-        const retryAfter = extractRetryTime(error.message);
+      } else if (error.status === 429 || error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
+        const retryAfterMs = getRetryAfterMs(error) ?? extractRetryTime(error.message) * 1000;
+        const retryAfter = Math.ceil(retryAfterMs / 1000);
         errorMessage = `Rate limit exceeded. Please wait ${retryAfter} seconds before retrying. Low credit accounts have reduced rate limits.`;
         console.error(`⏱️  ${errorMessage}`);
-        
+
+        // Every instance holds off this key until the provider's Retry-After has passed,
+        // and this one runs fewer scenes at once, further apart
+        await rateLimiter.recordRetryAfter(provider.name, { model: modelName }, retryAfterMs + 1000);
+        scheduler.recordRateLimited(provider.name);
+
         // Auto-retry for rate limit errors if we haven't exceeded max retries
         if (retryCount < MAX_RETRIES) {
           console.log(`🔄 Auto-retrying in ${retryAfter} seconds... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
-          await wait(retryAfter + 1); // Wait retry time + 1 second buffer
-          
-          // Check abort during wait
-          if (abortSignal?.aborted) {
-            throw new Error("Generation aborted by user");
-          }
-          
-          // Retry the same model
+
+          // Retry the same model (it waits for the block to pass)
           try {
             console.log(`🔄 Retrying ${modelName} after rate limit wait...`);
-            return await generateSceneVideo({ replicate }, prompt, duration, [modelName], abortSignal, retryCount + 1);
+            return await generateSceneVideo(clients, prompt, duration, [modelName], abortSignal, retryCount + 1, onFallback, owner, image);
           } catch (retryError) {
             // If retry also fails, continue to next model
             errorMessage = retryError.message;
@@ -757,7 +1018,7 @@ async function generateSceneVideo({ replicate }, prompt, duration = 8, modelChai
       if (models.length > 1 && failureCount < 2) {
         console.log(`🔄 Trying next model in chain...`);
       }
-      errors.push({ model: modelName, error: errorMessage, failureCount });
+      recordError({ model: modelName, error: errorMessage, failureCount });
       if (failureCount >= 2) continue;
     }
   }
@@ -771,23 +1032,30 @@ async function generateSceneVideo({ replicate }, prompt, duration = 8, modelChai
    STORAGE & UPLOAD
 ======================= */
 
-async function saveVideo({ supabase }, videoUrl) {
+export async function saveVideo({ supabase }, videoUrl) {
   if (videoUrl && videoUrl.includes("supabase.co")) {
     console.log(`💾 Video already in Supabase storage: ${videoUrl}`);
     return videoUrl;
   }
   if (!videoUrl) throw new Error("No video URL provided");
 
-  console.log(`📥 Downloading video from: ${videoUrl}`);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), VIDEO_CONSTRAINTS.UPLOAD_TIMEOUT_MS);
-  const res = await fetch(videoUrl, { signal: controller.signal });
-  clearTimeout(timeoutId);
+  let buffer;
+  if (/^file:/i.test(videoUrl)) {
+    // Local clip (mock provider); refused outside mock mode and the mock clips directory
+    console.log(`📂 Reading local video: ${videoUrl}`);
+    buffer = await readFile(resolveMockClipPath(videoUrl));
+  } else {
+    console.log(`📥 Downloading video from: ${videoUrl}`);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), VIDEO_CONSTRAINTS.UPLOAD_TIMEOUT_MS);
+    const res = await fetch(videoUrl, { signal: controller.signal });
+    clearTimeout(timeoutId);
 
-  if (!res.ok) throw new Error(`Failed to fetch video: ${res.status} ${res.statusText}`);
+    if (!res.ok) throw new Error(`Failed to fetch video: ${res.status} ${res.statusText}`);
 
-  console.log(`⬇️  Video downloaded, size: ${(res.headers.get('content-length') || 0) / 1024 / 1024} MB`);
-  const buffer = await res.arrayBuffer();
+    console.log(`⬇️  Video downloaded, size: ${(res.headers.get('content-length') || 0) / 1024 / 1024} MB`);
+    buffer = await res.arrayBuffer();
+  }
   const videoId = uuidv4();
   const path = `videos/${videoId}.mp4`;
 
@@ -811,9 +1079,15 @@ async function saveVideo({ supabase }, videoUrl) {
    PARALLEL PROCESSING
 ======================= */
 
-async function processScenesInParallel(sceneFns, maxParallel = VIDEO_CONSTRAINTS.MAX_PARALLEL_SCENES, abortSignal = null) {
+/**
+ * Run scene functions with at most `maxParallel` at once; results come back in scene order.
+ * `maxParallel` can be a function, read again whenever a scene is about to start (adaptive pacing).
+ * Once `shouldStop()` returns true no further scene starts; the running ones finish (budget soft stop).
+ */
+export async function processScenesInParallel(sceneFns, maxParallel = SCHEDULER_LIMITS.INITIAL_CONCURRENCY, abortSignal = null, shouldStop = null) {
   const results = [];
   const running = new Set();
+  const limit = typeof maxParallel === "function" ? maxParallel : () => maxParallel;
 
   for (let i = 0; i < sceneFns.length; i++) {
     // Check for abort before starting new scene
@@ -825,7 +1099,7 @@ async function processScenesInParallel(sceneFns, maxParallel = VIDEO_CONSTRAINTS
       break;
     }
 
-    while (running.size >= maxParallel) {
+    while (running.size >= limit()) {
       // Check abort during wait
       if (abortSignal?.aborted) {
         break;
@@ -833,7 +1107,7 @@ async function processScenesInParallel(sceneFns, maxParallel = VIDEO_CONSTRAINTS
       await Promise.race(running);
     }
 
-    if (abortSignal?.aborted) {
+    if (abortSignal?.aborted || shouldStop?.()) {
       break;
     }
 
@@ -869,7 +1143,7 @@ async function processScenesInParallel(sceneFns, maxParallel = VIDEO_CONSTRAINTS
 ======================= */
 
 async function saveMovieRecord({ supabase }, movieData, userId = null) {
-  const { totalScenes, duration, scenes, baseStoryPrompt, characterIds, totalTime, cost, wasAborted } = movieData;
+  const { movieId, totalScenes, duration, scenes, baseStoryPrompt, characterIds, totalTime, cost, wasAborted } = movieData;
 
   try {
     console.log(`\n${'='.repeat(60)}`);
@@ -882,16 +1156,17 @@ async function saveMovieRecord({ supabase }, movieData, userId = null) {
     console.log(`📝 Title: "${baseStoryPrompt.substring(0, 50)}..."`);
 
     // Calculate total cost from scenes if not provided
-    const totalCost = cost || successfulScenes.reduce((sum, s) => {
-      const model = VIDEO_MODELS[s.model];
-      return sum + (model?.costPerSecond || 0) * (s.duration || 6);
-    }, 0);
+    const totalCost = cost ?? successfulScenes.reduce(
+      (sum, s) => sum + (s.model ? getVideoPrice(s.model).perSecond : 0) * (s.duration || 6),
+      0
+    );
     console.log(`💰 Total Cost: $${totalCost.toFixed(4)}`);
 
     console.log(`🗄️  Inserting record into 'movies' table...`);
     const { data, error } = await supabase
       .from("movies")
       .insert({
+        ...(movieId ? { id: movieId } : {}),
         user_id: userId || null, // Explicitly set to null if not provided
         title: baseStoryPrompt.substring(0, 100),
         total_scenes: totalScenes,
@@ -902,9 +1177,13 @@ async function saveMovieRecord({ supabase }, movieData, userId = null) {
         scenes_data: successfulScenes.map((s) => ({
           scene: s.scene,
           video_url: s.video,
-          script: s.script?.substring(0, 1000),
+          script: s.script || null,
           model: s.model,
-          duration: s.duration
+          duration: s.duration,
+          conditioning_image: s.conditioningImage || null,
+          keyframe: s.keyframe || null,
+          summary: s.summary,
+          endHook: s.endHook
         })),
         status: wasAborted ? "aborted" : (successfulScenes.length > 0 ? "completed" : "failed"),
         metadata: {
@@ -915,6 +1194,10 @@ async function saveMovieRecord({ supabase }, movieData, userId = null) {
           cost: totalCost,
           contentType: movieData.projectName || "custom",
           aborted: wasAborted || false,
+          transition: movieData.transition || null,
+          storyboard_id: movieData.storyboardId || null,
+          team_id: movieData.teamId || null,
+          project_id: movieData.projectId || null,
           completed_scenes: successfulScenes.length,
           total_scenes_requested: totalScenes
         }
@@ -946,12 +1229,146 @@ async function saveMovieRecord({ supabase }, movieData, userId = null) {
    🎞️ MASTER LONG-FORM ENGINE
 ======================= */
 
+// Provider that renders a model, which scene pacing is learned for (offline, the mock provider renders every model)
+function getSceneProvider(config, modelName) {
+  return config.mode === "mock" ? "mock" : VIDEO_MODELS[modelName]?.provider || "replicate";
+}
+
+/**
+ * How many scenes createMovie runs at once: what the scheduler has learned for the provider of
+ * the chain's first model, or one at a time when parallel rendering is off
+ */
+function getSceneConcurrency(provider, enableParallel) {
+  return enableParallel ? getSceneScheduler().getPacing(provider).concurrency : 1;
+}
+
+/**
+ * Calculate scene duration - ensure it's valid for the selected model
+ */
+export function resolveSceneDuration(totalDurationSeconds, sceneDuration, modelName) {
+  let calculatedSceneDuration = sceneDuration;
+  const selectedModel = VIDEO_MODELS[modelName];
+  
+  // Special case: 30 seconds - use valid durations
+  if (totalDurationSeconds === 30) {
+    // For Google Veo (4, 6, 8 only), use 6 seconds = 5 scenes × 6s = 30s (exact match)
+    // Or use 8 seconds = 3 scenes × 8s = 24s (close)
+    if (selectedModel?.allowedDurations) {
+      // Use 6 seconds to get exactly 30 seconds (5 scenes)
+      calculatedSceneDuration = 6;
+    } else {
+      calculatedSceneDuration = 10; // For other models
+    }
+  }
+  
+  // Clamp scene duration to model's allowed values
+  if (selectedModel?.allowedDurations) {
+    const allowed = selectedModel.allowedDurations;
+    // Find the closest allowed duration
+    calculatedSceneDuration = allowed.reduce((prev, curr) => 
+      Math.abs(curr - calculatedSceneDuration) < Math.abs(prev - calculatedSceneDuration) ? curr : prev
+    );
+    console.log(`📏 Adjusted scene duration to ${calculatedSceneDuration}s (model requirement: ${allowed.join(', ')}s)`);
+  }
+
+  return calculatedSceneDuration;
+}
+
+/**
+ * What a movie will cost and how long it will take, worked out with the same scene length and
+ * scene count rules as createMovie. The video cost assumes every scene renders with the first model
+ * of the chain; `worstCase` assumes every scene falls back to the chain's most expensive model.
+ * In "storyboard" mode only the scripts are written, so there is no video cost.
+ * Generated keyframes add one image per scene after the first; last-frame keyframes render the scenes one at a time.
+ */
+export function estimateMovie({
+  totalDurationSeconds = 120,
+  sceneDuration = VIDEO_CONSTRAINTS.DEFAULT_SCENE_DURATION,
+  modelChain = null,
+  enableParallel = true,
+  mode = "movie",
+  keyframes = null
+} = {}) {
+  const config = createConfig();
+  const storyboardOnly = mode === "storyboard";
+  const keyframeMode = storyboardOnly ? null : resolveKeyframeMode(keyframes, modelChain);
+
+  const selectedModelName = modelChain?.[0] || DEFAULT_MODEL_CHAIN[0];
+  const calculatedSceneDuration = resolveSceneDuration(totalDurationSeconds, sceneDuration, selectedModelName);
+  const totalScenes = Math.max(1, Math.ceil(totalDurationSeconds / calculatedSceneDuration));
+  const scriptEstimate = getBudgetManager().calculateEstimatedCost(
+    totalScenes * calculatedSceneDuration,
+    calculatedSceneDuration,
+    selectedModelName,
+    config.ai.openaiModel,
+    { keyframes: keyframeMode, imageModel: config.ai.imageModel }
+  );
+
+  // Each model clamps the scene length to what it can render, so a fallback may bill more or fewer seconds
+  const models = (modelChain || DEFAULT_MODEL_CHAIN)
+    .filter((m) => VIDEO_MODELS[m]?.enabled)
+    .map((modelName) => {
+      const clipDuration = clampModelDuration(VIDEO_MODELS[modelName], calculatedSceneDuration);
+      const { perSecond } = getVideoPrice(modelName);
+      return {
+        model: modelName,
+        name: VIDEO_MODELS[modelName].name,
+        sceneDuration: clipDuration,
+        perSecond,
+        sceneCost: perSecond * clipDuration,
+        videoCost: totalScenes * perSecond * clipDuration
+      };
+    });
+  if (models.length === 0) throw new Error("No enabled video models available");
+
+  const video = storyboardOnly ? 0 : models[0].videoCost;
+  const worstCaseVideo = storyboardOnly ? 0 : totalScenes * Math.max(...models.map((m) => m.sceneCost));
+
+  // The timeline createMovie follows: scripts one after another (each continues the story so far),
+  // renders overlapping up to the learned concurrency and starting at least the learned interval apart
+  const sceneProvider = getSceneProvider(config, selectedModelName);
+  const pacing = getSceneScheduler().getPacing(sceneProvider);
+  const concurrency = storyboardOnly || keyframeMode === "last_frame" ? 1 : getSceneConcurrency(sceneProvider, enableParallel);
+  const renderSeconds = storyboardOnly ? 0 : (pacing.latencyMs ?? VIDEO_CONSTRAINTS.EXPECTED_RENDER_SECONDS * 1000) / 1000;
+  const sceneIntervalSeconds = storyboardOnly ? 0 : pacing.intervalMs / 1000;
+  const slots = new Array(concurrency).fill(0);
+  let scriptsDone = 0;
+  let lastRenderStart = -Infinity;
+  for (let i = 0; i < totalScenes; i++) {
+    const slot = slots.indexOf(Math.min(...slots));
+    scriptsDone = Math.max(slots[slot], scriptsDone) + VIDEO_CONSTRAINTS.EXPECTED_SCRIPT_SECONDS;
+    lastRenderStart = Math.max(scriptsDone, lastRenderStart + sceneIntervalSeconds);
+    slots[slot] = lastRenderStart + renderSeconds;
+  }
+
+  return {
+    mode: storyboardOnly ? "storyboard" : "movie",
+    scenes: totalScenes,
+    sceneDuration: calculatedSceneDuration,
+    requestedDurationSeconds: totalDurationSeconds,
+    durationSeconds: totalScenes * models[0].sceneDuration,
+    models,
+    tokens: { model: config.ai.openaiModel, ...scriptEstimate.tokens },
+    keyframes: keyframeMode,
+    cost: {
+      openai: scriptEstimate.openai,
+      video,
+      images: scriptEstimate.images,
+      total: scriptEstimate.openai + video + scriptEstimate.images,
+      worstCase: scriptEstimate.openai + worstCaseVideo + scriptEstimate.images
+    },
+    time: { seconds: Math.ceil(Math.max(...slots)), parallel: concurrency > 1, concurrency, sceneIntervalSeconds }
+  };
+}
+
 export async function createMovie({
   baseStoryPrompt,
   characterIds,
   totalDurationSeconds = 120,
   sceneDuration = VIDEO_CONSTRAINTS.DEFAULT_SCENE_DURATION,
   userId = null,
+  teamId = null,
+  projectId = null,
   onProgress = null,
   onSceneComplete = null,
   enableParallel = true,
@@ -959,11 +1376,26 @@ export async function createMovie({
   projectName = null,
   styleReference = null,
   abortSignal = null,
-  jobId = null
+  jobId = null,
+  resumeScenes = [],
+  assemble = true,
+  transition = null,
+  storyboard = null,
+  storyboardId = null,
+  movieId = null,
+  reservationId = null,
+  keyframes = null
 }) {
   const config = createConfig();
   const clients = createClients(config);
   const budgetManager = getBudgetManager();
+  // The movie id is fixed up front so every ledger entry can point at it; a resumed job passes the same id again
+  const movieRecordId = movieId || uuidv4();
+  // Spend is charged to the user and, when given, their team and project budgets
+  // (and to the job's budget reservation, when the worker made one)
+  const owner = { userId, teamId, projectId, jobId, movieId: movieRecordId, storyboardId, reservationId };
+  // An approved storyboard fixes the scenes, so its scripts are rendered as-is
+  const storyboardScenes = storyboard ? normalizeStoryboardScenes(storyboard) : null;
 
   if (!baseStoryPrompt || baseStoryPrompt.trim().length < 10) {
     throw new Error("Story prompt must be at least 10 characters");
@@ -974,33 +1406,11 @@ export async function createMovie({
   if (totalDurationSeconds > VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION) {
     throw new Error(`Maximum duration is ${VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION / 60} minutes`);
   }
+  const movieTransition = normalizeTransition(transition);
+  const keyframeMode = resolveKeyframeMode(keyframes, modelChain);
 
-  // Calculate scene duration - ensure it's valid for the selected model
-  let calculatedSceneDuration = sceneDuration;
   const selectedModelName = modelChain?.[0] || "google/veo-3.1-fast";
-  const selectedModel = VIDEO_MODELS[selectedModelName];
-  
-  // Special case: 30 seconds - use valid durations
-  if (totalDurationSeconds === 30) {
-    // For Google Veo (4, 6, 8 only), use 6 seconds = 5 scenes × 6s = 30s (exact match)
-    // Or use 8 seconds = 3 scenes × 8s = 24s (close)
-    if (selectedModel?.allowedDurations) {
-      // Use 6 seconds to get exactly 30 seconds (5 scenes)
-      calculatedSceneDuration = 6;
-    } else {
-      calculatedSceneDuration = 10; // For other models
-    }
-  }
-  
-  // Clamp scene duration to model's allowed values
-  if (selectedModel?.allowedDurations) {
-    const allowed = selectedModel.allowedDurations;
-    // Find the closest allowed duration
-    calculatedSceneDuration = allowed.reduce((prev, curr) => 
-      Math.abs(curr - calculatedSceneDuration) < Math.abs(prev - calculatedSceneDuration) ? curr : prev
-    );
-    console.log(`📏 Adjusted scene duration to ${calculatedSceneDuration}s (model requirement: ${allowed.join(', ')}s)`);
-  }
+  const calculatedSceneDuration = resolveSceneDuration(totalDurationSeconds, sceneDuration, selectedModelName);
 
   // Validate budget before starting
   const modelName = selectedModelName;
@@ -1008,7 +1418,8 @@ export async function createMovie({
     totalDurationSeconds,
     calculatedSceneDuration,
     modelName,
-    config.ai.openaiModel
+    config.ai.openaiModel,
+    { keyframes: keyframeMode, imageModel: config.ai.imageModel }
   );
 
   if (!budgetManager.isWithinBudget(estimatedCost)) {
@@ -1018,16 +1429,15 @@ export async function createMovie({
     );
   }
 
-  const budgetStatus = budgetManager.getBudgetStatus();
-  if (budgetStatus.remaining < estimatedCost.total) {
-    throw new Error(
-      `Insufficient budget remaining. Remaining: $${budgetStatus.remaining.toFixed(4)}, ` +
-      `Estimated: $${estimatedCost.total.toFixed(4)}`
-    );
+  const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost.total);
+  if (!budgetCheck.allowed) {
+    throw new Error(`Insufficient budget remaining. ${budgetCheck.reason}`);
   }
 
   // Calculate total scenes using the calculated scene duration
-  let totalScenes = Math.max(1, Math.ceil(totalDurationSeconds / calculatedSceneDuration));
+  let totalScenes = storyboardScenes
+    ? storyboardScenes.length
+    : Math.max(1, Math.ceil(totalDurationSeconds / calculatedSceneDuration));
   
   console.log(`\n${'='.repeat(60)}`);
   console.log(`🎬 STARTING VIDEO GENERATION`);
@@ -1040,70 +1450,191 @@ export async function createMovie({
   console.log(`💰 Estimated Cost: $${estimatedCost.total.toFixed(4)}`);
   console.log(`${'='.repeat(60)}\n`);
   
-  const progress = new ProgressTracker(totalScenes, onProgress);
+  // Scenes run as many at once as the scheduler has learned the first model's provider takes
+  const sceneProvider = getSceneProvider(config, selectedModelName);
+  const progress = new ProgressTracker(totalScenes, onProgress, () => getSceneScheduler().getPacing(sceneProvider));
   console.log(`👥 Fetching character data from database...`);
   const characters = await getCharacters(clients.supabase, characterIds);
   console.log(`✅ Loaded ${characters.length} characters: ${characters.map(c => c.name).join(', ')}`);
+  const referenceImage = characterReferenceImage(characters);
+  if (referenceImage) console.log(`🖼️  Image-to-video models start from ${referenceImage}`);
+  if (keyframeMode) {
+    console.log(`🖼️  Scenes after the first start from a keyframe (${keyframeMode})`);
+  } else if (keyframes) {
+    console.log(`⚠️  No model in the chain takes an image - skipping keyframes`);
+  }
 
-  let storySoFar = "";
-  let previousSceneEnd = null;
   const scenes = [];
   const startTime = Date.now();
 
+  // Resume: restore finished scenes (and their continuity) from a previous run of this job
+  const finishedScenes = (resumeScenes || [])
+    .filter((s) => s.success && s.video && s.scene <= totalScenes)
+    .sort((a, b) => a.scene - b.scene);
+  // What the next scene's keyframe is made from, by scene: the clip each scene rendered (settles
+  // once the scene is done, null if it failed) and its script
+  const renderedClips = new Map();
+  const writtenScenes = new Map();
+  // The summary and end hook of every scene written so far, by scene: what later scenes continue from
+  const continuity = new Map();
+  for (const finished of finishedScenes) {
+    scenes.push(finished);
+    continuity.set(finished.scene, {
+      summary: finished.summary || "Scene continues the story.",
+      endHook: finished.endHook || finished.summary || null
+    });
+    renderedClips.set(finished.scene, Promise.resolve(finished.video));
+    writtenScenes.set(finished.scene, readSceneScript(finished));
+  }
+  // Scenes render in parallel and finish out of order, so every scene without a saved result
+  // is rendered again - not just the ones after the last finished scene
+  const pendingScenes = [];
+  for (let i = 1; i <= totalScenes; i++) {
+    if (!continuity.has(i)) pendingScenes.push(i);
+  }
+  if (finishedScenes.length > 0) {
+    console.log(`♻️  Resuming job ${jobId || ""}: rendering scene(s) ${pendingScenes.join(", ")} of ${totalScenes} (${finishedScenes.length} scene(s) already done)`);
+    progress.notify(finishedScenes.length, "resumed", { resumedScenes: finishedScenes.length, pendingScenes });
+  }
+
+  // The story up to a scene, from the scenes before it that are written
+  const storyBefore = (sceneNumber) => {
+    const before = [...continuity.entries()].filter(([n]) => n < sceneNumber).sort(([a], [b]) => a - b);
+    return {
+      storySoFar: before.map(([n, scene]) => `\nScene ${n}: ${scene.summary}`).join(""),
+      previousSceneEnd: before.length > 0 ? before[before.length - 1][1].endHook : null,
+      // A scene filling a gap ends where the already finished scene after it begins
+      nextSceneSummary: continuity.get(sceneNumber + 1)?.summary || null
+    };
+  };
+
   const sceneFns = [];
+  let softStop = null; // The spending alert that paused the movie
+  // Scripts are written in scene order, each continuing the story so far; only the renders overlap
+  let scriptChain = Promise.resolve();
 
-  for (let i = 1; i <= totalScenes; i++) {
-    sceneFns.push(async () => {
+  for (const i of pendingScenes) {
+    let clipUrl = null;
+    let clipRendered;
+    renderedClips.set(i, new Promise((resolve) => (clipRendered = resolve)));
+
+    const renderScene = async () => {
       // Check for abort signal before starting scene
       if (abortSignal?.aborted) {
         throw new Error("Generation aborted by user");
       }
+      if (softStop) {
+        return { scene: i, success: false, paused: true };
+      }
 
       const sceneStartTime = Date.now();
       let sceneData = { scene: i, success: false, startTime: sceneStartTime };
+      const previousScript = scriptChain;
+      let scriptWritten;
+      scriptChain = new Promise((resolve) => (scriptWritten = resolve));
 
       try {
         console.log(`\n${'='.repeat(60)}`);
         console.log(`🎬 [SCENE ${i}/${totalScenes}] Starting scene generation...`);
         console.log(`${'='.repeat(60)}`);
-        
-        progress.notify(i, "scripting");
 
-        // Check abort before OpenAI call
-        if (abortSignal?.aborted) {
-          throw new Error("Generation aborted by user");
-        }
+        let sceneScript;
+        let sceneStartsFrom;
+        try {
+          await previousScript;
+          // After a soft stop, scenes with a script finish; the rest wait for the job to be resumed
+          if (softStop) {
+            console.log(`⏸️  [SCENE ${i}] Not started - budget soft stop`);
+            return { ...sceneData, paused: true };
+          }
+          progress.notify(i, "scripting");
 
-        console.log(`📝 [SCENE ${i}] Generating script from prompt...`);
-        const sceneScript = await generateSceneScript({
-          openai: clients.openai,
-          openaiModel: config.ai.openaiModel,
-          storySoFar,
-          sceneNumber: i,
-          totalScenes,
-          characters,
-          baseStoryPrompt,
-          previousSceneEnd,
-          styleReference
-        });
+          // Check abort before OpenAI call
+          if (abortSignal?.aborted) {
+            throw new Error("Generation aborted by user");
+          }
+
+          if (storyboardScenes) {
+            sceneScript = sceneScriptFromParts(storyboardScenes[i - 1]);
+            console.log(`📋 [SCENE ${i}] Using approved storyboard script`);
+          } else {
+            console.log(`📝 [SCENE ${i}] Generating script from prompt...`);
+            const { storySoFar, previousSceneEnd, nextSceneSummary } = storyBefore(i);
+            sceneScript = await generateSceneScript({
+              openai: clients.openai,
+              openaiModel: config.ai.openaiModel,
+              storySoFar,
+              sceneNumber: i,
+              totalScenes,
+              characters,
+              baseStoryPrompt,
+              previousSceneEnd,
+              styleReference,
+              nextSceneSummary,
+              owner: { ...owner, sceneNumber: i }
+            });
+            console.log(`✅ [SCENE ${i}] Script generated successfully!`);
+            progress.notify(i, "cost", { cost: await budgetManager.getLedgerTotal({ movieId: movieRecordId }) });
+          }
 
-        const sceneParts = extractSceneParts(sceneScript);
+          // The next scene continues from this script while this one is still rendering
+          writtenScenes.set(i, sceneScript);
+          sceneStartsFrom = storyBefore(i).previousSceneEnd;
+          continuity.set(i, { summary: sceneScript.summary, endHook: sceneScript.endHook || sceneScript.summary });
+        } finally {
+          scriptWritten();
+        }
         sceneData.script = sceneScript;
-        console.log(`✅ [SCENE ${i}] Script generated successfully!`);
 
-        const videoPrompt = buildVideoPrompt(sceneParts, characters, previousSceneEnd, baseStoryPrompt);
+        const videoPrompt = buildVideoPrompt(sceneScript, characters, sceneStartsFrom, baseStoryPrompt);
         sceneData.promptPreview = `${videoPrompt.substring(0, 200)}...`;
         console.log(`🎥 [SCENE ${i}] Video prompt built (${videoPrompt.length} chars)`);
         console.log(`📋 [SCENE ${i}] Prompt preview: "${videoPrompt.substring(0, 200)}..."`);
 
+        // Continue from the previous scene; without a keyframe the scene starts from the reference image
+        let sceneImage = referenceImage;
+        if (keyframeMode && i > 1) {
+          progress.notify(i, "keyframe", { source: keyframeMode });
+          try {
+            sceneData.keyframe = await createKeyframe(clients, config, {
+              mode: keyframeMode,
+              movieId: movieRecordId,
+              sceneNumber: i,
+              previousClip: keyframeMode === "last_frame" ? await renderedClips.get(i - 1) : null,
+              previousParts: writtenScenes.get(i - 1) || null,
+              characters,
+              owner: { ...owner, sceneNumber: i }
+            });
+            sceneImage = sceneData.keyframe.url;
+            console.log(`🖼️  [SCENE ${i}] Starts from keyframe ${sceneImage}`);
+          } catch (keyframeError) {
+            sceneData.keyframe = { source: keyframeMode, fromScene: i - 1, error: keyframeError.message };
+            console.error(`⚠️  [SCENE ${i}] Keyframe failed, using the reference image: ${keyframeError.message}`);
+          }
+        }
+
         // Check abort before video generation
         if (abortSignal?.aborted) {
           throw new Error("Generation aborted by user");
         }
-
         console.log(`🎬 [SCENE ${i}] Starting video rendering/generation...`);
         progress.notify(i, "generating", { promptLength: videoPrompt.length });
-        const videoResult = await generateSceneVideo(clients, videoPrompt, calculatedSceneDuration, modelChain, abortSignal);
+        const videoResult = await generateSceneVideo(
+          clients,
+          videoPrompt,
+          calculatedSceneDuration,
+          modelChain,
+          abortSignal,
+          0,
+          (fallback) => progress.notify(i, "fallback", fallback),
+          { ...owner, sceneNumber: i },
+          sceneImage
+        );
+        clipUrl = videoResult.videoUrl;
+        progress.notify(i, "cost", {
+          cost: await budgetManager.getLedgerTotal({ movieId: movieRecordId }),
+          model: videoResult.model
+        });
         console.log(`✅ [SCENE ${i}] Video generated! Model: ${videoResult.model}, Duration: ${videoResult.duration}s`);
         console.log(`🔗 [SCENE ${i}] Video URL: ${videoResult.videoUrl}`);
 
@@ -1112,23 +1643,28 @@ export async function createMovie({
         const savedUrl = await saveVideo(clients, videoResult.videoUrl);
         console.log(`✅ [SCENE ${i}] Video saved! URL: ${savedUrl}`);
 
-        storySoFar += `\nScene ${i}: ${sceneParts.summary}`;
-        previousSceneEnd = sceneParts.endHook || sceneParts.summary;
-
         sceneData = {
           ...sceneData,
           success: true,
           video: savedUrl,
           model: videoResult.model,
           duration: videoResult.duration,
+          conditioningImage: videoResult.image,
           prompt: videoPrompt,
-          summary: sceneParts.summary,
+          summary: sceneScript.summary,
+          endHook: sceneScript.endHook,
           endTime: Date.now(),
           totalTime: Date.now() - sceneStartTime
         };
 
         scenes.push(sceneData);
-        if (onSceneComplete) onSceneComplete(sceneData);
+        if (onSceneComplete) {
+          try {
+            await onSceneComplete(sceneData);
+          } catch (callbackError) {
+            console.error(`⚠️  [SCENE ${i}] onSceneComplete failed: ${callbackError.message}`);
+          }
+        }
         const sceneTime = Date.now() - sceneStartTime;
         console.log(`✅ [SCENE ${i}] COMPLETED in ${(sceneTime / 1000).toFixed(1)}s`);
         console.log(`📊 Progress: ${scenes.filter(s => s.success).length}/${totalScenes} scenes done\n`);
@@ -1148,67 +1684,49 @@ export async function createMovie({
         progress.notify(i, "failed", { error: error.message });
         return sceneData;
       }
-    });
+    };
+    sceneFns.push(() => renderScene().finally(() => clipRendered(clipUrl)));
   }
 
-  // For free accounts with rate limits, generate sequentially with delays
-  // This respects the 6 requests/minute limit for low-credit accounts
-  const FREE_ACCOUNT_DELAY = 12; // 12 seconds between scenes = 5 requests/minute (safe margin)
-  
-  if (enableParallel && totalScenes > 1) {
-    // Check if we should use sequential mode for free accounts
-    // Use sequential if we have many scenes to respect rate limits
-    const useSequential = totalScenes > 2; // More than 2 scenes = use sequential to avoid rate limits
-    
-    if (useSequential) {
-      console.log(`⏱️  Using sequential generation with ${FREE_ACCOUNT_DELAY}s delays to respect rate limits`);
-      for (let i = 0; i < sceneFns.length; i++) {
-        if (abortSignal?.aborted) {
-          break;
-        }
-        await sceneFns[i]();
-        
-        // Add delay between scenes (except after the last one)
-        if (i < sceneFns.length - 1 && !abortSignal?.aborted) {
-          console.log(`⏳ Waiting ${FREE_ACCOUNT_DELAY}s before next scene (respecting rate limits)...`);
-          await wait(FREE_ACCOUNT_DELAY);
-        }
-      }
-    } else {
-      // Use parallel for 2 or fewer scenes
-      await processScenesInParallel(sceneFns, VIDEO_CONSTRAINTS.MAX_PARALLEL_SCENES, abortSignal);
-    }
-  } else {
-    // Sequential mode with delays
-    for (let i = 0; i < sceneFns.length; i++) {
-      if (abortSignal?.aborted) {
-        break;
-      }
-      await sceneFns[i]();
-      
-      // Add delay between scenes (except after the last one)
-      if (i < sceneFns.length - 1 && !abortSignal?.aborted) {
-        console.log(`⏳ Waiting ${FREE_ACCOUNT_DELAY}s before next scene (respecting rate limits)...`);
-        await wait(FREE_ACCOUNT_DELAY);
-      }
+  // Spending alerts on any of this movie's budget scopes go out with its progress; a soft stop
+  // lets the scenes already rendering finish and starts no more
+  const ownerScopes = getOwnerScopes(owner).map(({ scopeType, scopeId }) => `${scopeType}:${scopeId}`);
+  const stopListening = budgetManager.onAlert((alert) => {
+    if (!ownerScopes.includes(`${alert.scopeType}:${alert.scopeId}`)) return;
+    progress.notify(progress.completedScenes, "budget_alert", { alert });
+    if (alert.softStop && !softStop) {
+      softStop = alert;
+      console.log(`⏸️  Budget soft stop: finishing the scenes in progress, then pausing`);
     }
+  });
+
+  // As many scenes at once as the provider has proven it takes; a 429 anywhere lowers it for the next scene
+  console.log(`⏱️  Starting with ${getSceneConcurrency(sceneProvider, enableParallel)} scene(s) at once (adaptive pacing)`);
+  try {
+    await processScenesInParallel(sceneFns, () => getSceneConcurrency(sceneProvider, enableParallel), abortSignal, () => softStop !== null);
+  } finally {
+    stopListening();
   }
 
   // Check if aborted
   const wasAborted = abortSignal?.aborted || false;
+  const paused = softStop !== null && !wasAborted;
 
-  const successfulScenes = scenes.filter((s) => s.success && s.video);
+  // Scenes finish out of order (and resumed ones fill gaps), so the movie lists them by number
+  const successfulScenes = scenes.filter((s) => s.success && s.video).sort((a, b) => a.scene - b.scene);
   const totalTime = Date.now() - startTime;
+  // Everything this movie paid for, including scenes from an earlier attempt of the same job
+  const totalCost = await budgetManager.getLedgerTotal({ movieId: movieRecordId });
 
   console.log(`\n${'='.repeat(60)}`);
   console.log(`🎬 VIDEO GENERATION COMPLETE`);
   console.log(`${'='.repeat(60)}`);
   console.log(`✅ Successful Scenes: ${successfulScenes.length}/${totalScenes}`);
   console.log(`⏱️  Total Time: ${(totalTime / 1000 / 60).toFixed(1)} minutes`);
-  console.log(`💰 Total Cost: $${budgetManager.getBudgetStatus().current.toFixed(4)}`);
-  console.log(`${wasAborted ? '⚠️  Generation was aborted' : '✅ Generation completed successfully'}`);
+  console.log(`💰 Total Cost: $${totalCost.toFixed(4)}`);
+  console.log(`${wasAborted ? '⚠️  Generation was aborted' : paused ? '⏸️  Generation paused by a budget soft stop' : '✅ Generation completed successfully'}`);
   
-  if (successfulScenes.length === 0) {
+  if (successfulScenes.length === 0 && !paused) {
     console.log(`\n⚠️  WARNING: No videos were generated!`);
     console.log(`   This usually happens due to:`);
     console.log(`   - Rate limits (wait a few minutes and try again)`);
@@ -1221,31 +1739,50 @@ export async function createMovie({
   
   console.log(`${'='.repeat(60)}\n`);
 
-  // Calculate total cost
-  const finalBudgetStatus = budgetManager.getBudgetStatus();
-  const totalCost = finalBudgetStatus.current;
-
   let dbRecord = null;
-  // Save even if aborted (partial progress)
-  if (successfulScenes.length > 0 || wasAborted) {
+  if (paused) {
+    // Nothing is saved yet: the job keeps the finished scenes and resumes this movie once resumed
+    console.log(`⏸️  Paused after ${successfulScenes.length}/${totalScenes} scenes - resume the job to finish the movie`);
+  } else if (successfulScenes.length > 0 || wasAborted) {
+    // Save even if aborted (partial progress)
     console.log(`💾 Saving to database...`);
     dbRecord = await saveMovieRecord(
       clients,
       {
+        movieId: movieRecordId,
         totalScenes,
         duration: totalDurationSeconds,
         scenes: successfulScenes,
         baseStoryPrompt,
         characterIds,
         userId,
+        teamId,
+        projectId,
         totalTime,
         projectName,
         cost: totalCost,
-        wasAborted
+        wasAborted,
+        transition: movieTransition,
+        storyboardId
       },
       userId
     );
     
+    if (dbRecord && assemble && !wasAborted && successfulScenes.length > 0) {
+      // Stitch the clips into one downloadable file; the per-scene clips stay usable if this fails
+      progress.notify(totalScenes, "assembling");
+      try {
+        dbRecord = await assembleMovie(clients, dbRecord, {
+          ...config.media,
+          fps: VIDEO_CONSTRAINTS.DEFAULT_FPS,
+          aspectRatio: VIDEO_CONSTRAINTS.ASPECT_RATIO
+        });
+      } catch (error) {
+        console.error(`⚠️  Movie assembly failed: ${error.message}`);
+        progress.notify(totalScenes, "assembly_failed", { error: error.message });
+      }
+    }
+
     if (dbRecord) {
       console.log(`\n🎉 SUCCESS! Video is ready to view!`);
       console.log(`📺 Gallery: /gallery`);
@@ -1258,13 +1795,14 @@ export async function createMovie({
     console.log(`❌ No successful scenes to save`);
   }
 
-  const summary = progress.getSummary();
+  if (storyboardId && !paused) {
+    await linkStoryboardMovie(clients, storyboardId, dbRecord, wasAborted);
+  }
 
-  // Always return a valid UUID - use dbRecord.id or generate one
-  const finalMovieId = dbRecord?.id || uuidv4();
+  const summary = progress.getSummary();
 
   return {
-    movieId: finalMovieId,
+    movieId: dbRecord?.id || movieRecordId,
     totalScenes,
     successfulScenes: successfulScenes.length,
     failedScenes: summary.failed,
@@ -1275,10 +1813,598 @@ export async function createMovie({
     characters: characters.map((c) => ({ id: c.id, name: c.name })),
     generatedAt: new Date().toISOString(),
     dbRecord,
-    projectName
+    projectName,
+    paused,
+    budgetAlert: softStop
   };
 }
 
+/* =======================
+   📋 STORYBOARD (SCRIPT FIRST, RENDER LATER)
+======================= */
+
+export const STORYBOARD_LIMITS = {
+  MAX_VISUAL_LENGTH: 2000,
+  MAX_TEXT_LENGTH: 1000
+};
+
+/**
+ * Validate edited storyboard scenes and return them in canonical form.
+ * Scene numbers come from the array order, so reordering is just moving entries.
+ */
+export function normalizeStoryboardScenes(scenes) {
+  if (!Array.isArray(scenes) || scenes.length === 0) {
+    throw new Error("Storyboard must contain at least one scene");
+  }
+
+  return scenes.map((scene, index) => {
+    const field = (name, max) => {
+      const value = scene?.[name] ?? "";
+      if (typeof value !== "string") throw new Error(`Scene ${index + 1}: ${name} must be a string`);
+      if (value.length > max) throw new Error(`Scene ${index + 1}: ${name} is longer than ${max} characters`);
+      return value.trim();
+    };
+
+    const visual = field("visual", STORYBOARD_LIMITS.MAX_VISUAL_LENGTH);
+    if (!visual) throw new Error(`Scene ${index + 1}: visual description is required`);
+
+    return {
+      id: typeof scene.id === "string" && scene.id ? scene.id : uuidv4(),
+      visual,
+      dialogue: field("dialogue", STORYBOARD_LIMITS.MAX_TEXT_LENGTH),
+      endHook: field("endHook", STORYBOARD_LIMITS.MAX_TEXT_LENGTH),
+      summary: field("summary", STORYBOARD_LIMITS.MAX_TEXT_LENGTH)
+    };
+  });
+}
+
+/**
+ * Phase one of the two-phase workflow: write the whole screenplay without rendering video.
+ * Saves a draft row in `storyboards` that can be edited before calling createMovie({ storyboard }).
+ */
+export async function draftStoryboard({
+  baseStoryPrompt,
+  characterIds,
+  totalDurationSeconds = 120,
+  sceneDuration = VIDEO_CONSTRAINTS.DEFAULT_SCENE_DURATION,
+  userId = null,
+  teamId = null,
+  projectId = null,
+  modelChain = null,
+  projectName = null,
+  styleReference = null,
+  transition = null,
+  onProgress = null,
+  abortSignal = null,
+  jobId = null,
+  reservationId = null
+}) {
+  const config = createConfig();
+  const clients = createClients(config);
+  const budgetManager = getBudgetManager();
+  const storyboardId = uuidv4();
+  const owner = { userId, teamId, projectId, jobId, storyboardId, reservationId };
+
+  if (!baseStoryPrompt || baseStoryPrompt.trim().length < 10) {
+    throw new Error("Story prompt must be at least 10 characters");
+  }
+  if (!characterIds || characterIds.length === 0) {
+    throw new Error("At least one character ID is required");
+  }
+  if (totalDurationSeconds > VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION) {
+    throw new Error(`Maximum duration is ${VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION / 60} minutes`);
+  }
+  const movieTransition = normalizeTransition(transition);
+
+  const calculatedSceneDuration = resolveSceneDuration(totalDurationSeconds, sceneDuration, modelChain?.[0] || "google/veo-3.1-fast");
+  const totalScenes = Math.max(1, Math.ceil(totalDurationSeconds / calculatedSceneDuration));
+
+  // Only the scripts are paid for at this stage
+  const estimatedCost = budgetManager.calculateEstimatedCost(
+    totalDurationSeconds,
+    calculatedSceneDuration,
+    modelChain?.[0] || "google/veo-3.1-fast",
+    config.ai.openaiModel
+  );
+  const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost.openai);
+  if (!budgetCheck.allowed) {
+    throw new Error(`Insufficient budget remaining. ${budgetCheck.reason}`);
+  }
+
+  const progress = new ProgressTracker(totalScenes, onProgress);
+  const characters = await getCharacters(clients.supabase, characterIds);
+
+  console.log(`\n📋 Drafting storyboard: ${totalScenes} scenes × ${calculatedSceneDuration}s`);
+
+  // Scripts build on each other's continuity, so they are written in order
+  let storySoFar = "";
+  let previousSceneEnd = null;
+  const scenes = [];
+  for (let i = 1; i <= totalScenes; i++) {
+    if (abortSignal?.aborted) {
+      throw new Error("Generation aborted by user");
+    }
+
+    progress.notify(i, "scripting");
+    const sceneScript = await generateSceneScript({
+      openai: clients.openai,
+      openaiModel: config.ai.openaiModel,
+      storySoFar,
+      sceneNumber: i,
+      totalScenes,
+      characters,
+      baseStoryPrompt,
+      previousSceneEnd,
+      styleReference,
+      owner: { ...owner, sceneNumber: i }
+    });
+
+    // Storyboards are edited as text; rendering turns each scene back into a typed scene
+    scenes.push({
+      id: uuidv4(),
+      visual: sceneScript.visual,
+      dialogue: formatDialogue(sceneScript.dialogue),
+      endHook: sceneScript.endHook,
+      summary: sceneScript.summary
+    });
+    storySoFar += `\nScene ${i}: ${sceneScript.summary}`;
+    previousSceneEnd = sceneScript.endHook || sceneScript.summary;
+
+    progress.notify(i, "cost", { cost: await budgetManager.getLedgerTotal({ storyboardId }) });
+    progress.notify(i, "scripted");
+  }
+
+  const { data, error } = await clients.supabase
+    .from("storyboards")
+    .insert({
+      id: storyboardId,
+      user_id: userId || null,
+      title: baseStoryPrompt.substring(0, 100),
+      story_premise: baseStoryPrompt,
+      character_ids: characterIds,
+      scene_duration: calculatedSceneDuration,
+      scenes,
+      status: "draft",
+      metadata: {
+        model_chain: modelChain || null,
+        project_name: projectName || null,
+        transition: movieTransition,
+        style_reference: styleReference || null,
+        team_id: teamId || null,
+        project_id: projectId || null
+      }
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to save storyboard: ${error.message}`);
+
+  console.log(`✅ Storyboard ${data.id} drafted (${scenes.length} scenes)`);
+  return data;
+}
+
+export async function getStoryboard(storyboardId) {
+  const config = createConfig();
+  const { supabase } = createClients(config);
+  const { data, error } = await supabase.from("storyboards").select("*").eq("id", storyboardId).single();
+  if (error) throw new Error(`Storyboard not found: ${error.message}`);
+  return data;
+}
+
+/**
+ * Save an edited storyboard (scene text, order, inserted or deleted scenes)
+ */
+export async function updateStoryboard(storyboardId, { scenes, title } = {}) {
+  const config = createConfig();
+  const { supabase } = createClients(config);
+  const storyboard = await getStoryboard(storyboardId);
+
+  const patch = {};
+  if (scenes !== undefined) {
+    patch.scenes = normalizeStoryboardScenes(scenes);
+    if (patch.scenes.length * storyboard.scene_duration > VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION) {
+      throw new Error(`Maximum duration is ${VIDEO_CONSTRAINTS.MAX_TOTAL_DURATION / 60} minutes`);
+    }
+  }
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim()) throw new Error("Title must be a non-empty string");
+    patch.title = title.trim().substring(0, 100);
+  }
+
+  const { data, error } = await supabase
+    .from("storyboards")
+    .update(patch)
+    .eq("id", storyboardId)
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to update storyboard: ${error.message}`);
+  return data;
+}
+
+/**
+ * Claim a storyboard for a render before its job is queued: marks it "rendering" without a job,
+ * but only if the row is unchanged since it was checked for another render (same updated_at).
+ * Returns false when another request changed or claimed it first.
+ */
+export async function claimStoryboardRender(storyboardId, checkedUpdatedAt) {
+  const config = createConfig();
+  const { supabase } = createClients(config);
+  const { data, error } = await supabase
+    .from("storyboards")
+    .update({ status: "rendering", job_id: null })
+    .eq("id", storyboardId)
+    .eq("updated_at", checkedUpdatedAt)
+    .select("id");
+  if (error) throw new Error(`Failed to claim storyboard: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+/**
+ * Give back a claim whose job couldn't be queued: the storyboard gets its previous status and job
+ */
+export async function releaseStoryboardRender(storyboardId, { status, job_id }) {
+  const config = createConfig();
+  const { supabase } = createClients(config);
+  const { error } = await supabase.from("storyboards").update({ status, job_id }).eq("id", storyboardId);
+  if (error) console.error(`⚠️  Failed to release storyboard ${storyboardId}: ${error.message}`);
+}
+
+/**
+ * Mark a storyboard as queued for rendering by a job
+ */
+export async function setStoryboardRenderJob(storyboardId, jobId) {
+  const config = createConfig();
+  const { supabase } = createClients(config);
+  const { error } = await supabase
+    .from("storyboards")
+    .update({ status: "rendering", job_id: jobId })
+    .eq("id", storyboardId);
+  if (error) throw new Error(`Failed to update storyboard: ${error.message}`);
+}
+
+/**
+ * Record which movie a storyboard render produced. Failed or aborted renders leave it as a draft.
+ */
+async function linkStoryboardMovie({ supabase }, storyboardId, dbRecord, wasAborted) {
+  const { error } = await supabase
+    .from("storyboards")
+    .update({
+      status: dbRecord && !wasAborted ? "rendered" : "draft",
+      movie_id: dbRecord?.id || null
+    })
+    .eq("id", storyboardId);
+  if (error) console.error(`⚠️  Failed to link storyboard ${storyboardId}: ${error.message}`);
+}
+
+/* =======================
+   🔄 SINGLE SCENE REGENERATION
+======================= */
+
+// Saves of a regenerated scene that may lose the race against other changes to the movie
+const SCENE_SAVE_ATTEMPTS = 3;
+
+/**
+ * Re-render one scene of a saved movie. Reuses the stored script unless `rewrite` is set
+ * (or there is no script, e.g. the scene failed), in which case the director rewrites it
+ * with the neighbouring scenes as continuity. The replaced clip is kept in `history`.
+ */
+export async function regenerateScene(movieId, sceneNumber, { rewrite = false, modelChain = null } = {}) {
+  const config = createConfig();
+  const clients = createClients(config);
+
+  const { data: movie, error } = await clients.supabase.from("movies").select("*").eq("id", movieId).single();
+  if (error) throw new Error(`Movie not found: ${error.message}`);
+  if (sceneNumber < 1 || sceneNumber > movie.total_scenes) {
+    throw new Error(`Scene ${sceneNumber} is out of range (movie has ${movie.total_scenes} scenes)`);
+  }
+
+  const scenesData = [...(movie.scenes_data || [])].sort((a, b) => a.scene - b.scene);
+  const existing = scenesData.find((s) => s.scene === sceneNumber) || null;
+  const previous = [...scenesData].reverse().find((s) => s.scene < sceneNumber) || null;
+  const next = scenesData.find((s) => s.scene > sceneNumber) || null;
+  const previousSceneEnd = previous ? previous.endHook || previous.summary || null : null;
+  const characters = await getCharacters(clients.supabase, movie.character_ids || []);
+  const owner = {
+    userId: movie.user_id,
+    teamId: movie.metadata?.team_id || null,
+    projectId: movie.metadata?.project_id || null,
+    movieId,
+    sceneNumber
+  };
+
+  // Old text scripts were stored truncated, so keep the stored summary/end hook when the script is reused
+  const rewritten = rewrite || !existing?.script;
+  console.log(`\n🔄 [SCENE ${sceneNumber}] Regenerating scene of movie ${movieId} (${rewritten ? "rewrite" : "reuse script"})`);
+
+  let sceneScript = rewritten ? null : readSceneScript(existing);
+  if (rewritten) {
+    const storySoFar = scenesData
+      .filter((s) => s.scene < sceneNumber)
+      .map((s) => `Scene ${s.scene}: ${s.summary || "Scene continues the story."}`)
+      .join("\n");
+    sceneScript = await generateSceneScript({
+      openai: clients.openai,
+      openaiModel: config.ai.openaiModel,
+      storySoFar,
+      sceneNumber,
+      totalScenes: movie.total_scenes,
+      characters,
+      baseStoryPrompt: movie.story_premise,
+      previousSceneEnd,
+      nextSceneSummary: next?.summary || null,
+      owner
+    });
+  }
+
+  const videoPrompt = buildVideoPrompt(sceneScript, characters, previousSceneEnd, movie.story_premise);
+  const videoResult = await generateSceneVideo(
+    clients,
+    videoPrompt,
+    existing?.duration || VIDEO_CONSTRAINTS.DEFAULT_SCENE_DURATION,
+    modelChain,
+    null,
+    0,
+    null,
+    owner,
+    // A scene that started from a keyframe starts from it again: it still shows where the previous scene ends
+    existing?.keyframe?.url || characterReferenceImage(characters)
+  );
+  const savedUrl = await saveVideo(clients, videoResult.videoUrl);
+
+  const rendered = {
+    scene: sceneNumber,
+    video_url: savedUrl,
+    script: sceneScript,
+    model: videoResult.model,
+    duration: videoResult.duration,
+    conditioning_image: videoResult.image,
+    ...(existing?.keyframe ? { keyframe: existing.keyframe } : {}),
+    summary: (!rewritten && existing?.summary) || sceneScript.summary,
+    endHook: (!rewritten && existing?.endHook) || sceneScript.endHook
+  };
+
+  // The render takes minutes, so the movie may have changed meanwhile (another scene regenerated,
+  // a transition edited): the scene is merged into the latest row, saved only if that row is still
+  // the one read (same updated_at), and merged again from a fresh read when it isn't
+  const totalCost = await getBudgetManager().getLedgerTotal({ movieId });
+  let current = movie;
+  for (let attempt = 1; ; attempt++) {
+    const currentScenes = [...(current.scenes_data || [])].sort((a, b) => a.scene - b.scene);
+    const latest = currentScenes.find((s) => s.scene === sceneNumber) || null;
+    const { history = [], ...replaced } = latest || {};
+    const regenerated = {
+      ...rendered,
+      ...(latest?.transition !== undefined ? { transition: latest.transition } : {}),
+      regenerated_at: new Date().toISOString(),
+      history: latest ? [...history, { ...replaced, replaced_at: new Date().toISOString() }] : history
+    };
+
+    const updatedScenes = latest
+      ? currentScenes.map((s) => (s.scene === sceneNumber ? regenerated : s))
+      : [...currentScenes, regenerated].sort((a, b) => a.scene - b.scene);
+    const successfulCount = updatedScenes.filter((s) => s.video_url).length;
+
+    // The stitched file no longer matches the scenes; it has to be re-assembled
+    const { data: updated, error: updateError } = await clients.supabase
+      .from("movies")
+      .update({
+        scenes_data: updatedScenes,
+        successful_scenes: successfulCount,
+        final_video_url: null,
+        status: successfulCount >= current.total_scenes ? "completed" : current.status,
+        metadata: {
+          ...(current.metadata || {}),
+          models_used: [...new Set(updatedScenes.map((s) => s.model).filter(Boolean))],
+          success_rate: current.total_scenes > 0 ? (successfulCount / current.total_scenes) * 100 : 0,
+          cost: totalCost
+        }
+      })
+      .eq("id", movieId)
+      .eq("updated_at", current.updated_at)
+      .select()
+      .maybeSingle();
+    if (updateError) throw new Error(`Failed to save regenerated scene: ${updateError.message}`);
+
+    if (updated) {
+      console.log(`✅ [SCENE ${sceneNumber}] Regenerated with ${videoResult.model}: ${savedUrl}`);
+      return { movie: updated, scene: regenerated };
+    }
+    if (attempt >= SCENE_SAVE_ATTEMPTS) {
+      throw new Error(`Movie ${movieId} kept changing while scene ${sceneNumber} was being saved; try again`);
+    }
+
+    console.log(`🔁 [SCENE ${sceneNumber}] Movie ${movieId} changed during the render, merging into the latest version`);
+    const { data: reread, error: rereadError } = await clients.supabase.from("movies").select("*").eq("id", movieId).single();
+    if (rereadError) throw new Error(`Movie not found: ${rereadError.message}`);
+    current = reread;
+  }
+}
+
+/* =======================
+   🧑‍🎨 CHARACTER BUILDER
+======================= */
+
+const CHARACTER_PORTRAIT_SIZE = "1024x1024";
+// Typical size of a builder call, checked against the budget before it is made
+const CHARACTER_BUILDER_TOKENS = { inputTokens: 500, outputTokens: 700 };
+
+const CHARACTER_BUILDER_PROMPT = `You are the casting director and character designer of an AI movie studio.
+Turn a short description into a character that a video model can render identically in every scene
+and a screenwriter can give a distinct voice.
+
+Return ONLY a JSON object with exactly these keys:
+{
+  "name": "the character's name (keep one given in the description)",
+  "personality": "one line: archetype and temperament",
+  "base_prompt": "one sentence a video model renders the character from: age, build, look, overall style",
+  "face": "face shape, skin tone, eyes, brows, nose, mouth, distinguishing marks",
+  "hair": "color, length, texture, style",
+  "wardrobe": "signature outfit, garment by garment, with materials",
+  "wardrobe_palette": ["3 to 5 color names"],
+  "voice": "pitch, pace, accent and register",
+  "speech_tics": ["up to 3 verbal habits or catchphrases"],
+  "consistency_checklist": ["5 to 8 concrete visual facts that must be true in every frame"]
+}
+
+Be specific and visual. Prefer details a camera can see over backstory.`;
+
+function buildPortraitPrompt(character) {
+  return `Character reference portrait for a movie: ${character.name}.
+${character.base_prompt}
+${character.visual_details}
+Head and shoulders, facing the camera, neutral expression, plain neutral background, soft even lighting.
+Photorealistic, sharp focus. No text, captions or borders.`;
+}
+
+/**
+ * Write a full character profile from a short description with the director's OpenAI model. With
+ * `portrait` a reference portrait is drawn too (saved to the `images` bucket); with `save` the
+ * character is created under `userId`. Everything is charged to `userId`.
+ * Returns { profile, character } - the saved character, or the fields to create it with.
+ */
+export async function generateCharacter({ description, userId = null, name = null, portrait = false, save = false }) {
+  const brief = typeof description === "string" ? description.trim() : "";
+  if (brief.length < 3 || brief.length > CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`description must be 3 to ${CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  if (save && (typeof userId !== "string" || userId.trim().length < 2)) {
+    throw new Error("userId is required to save the character");
+  }
+
+  const config = createConfig();
+  const clients = createClients(config);
+  const budgetManager = getBudgetManager();
+  const owner = { userId: userId?.trim() || null };
+
+  // Nothing is generated unless all of it can be paid for
+  const portraitPrice = portrait ? getImagePrice(config.ai.imageModel) : null;
+  if (portrait && !portraitPrice) {
+    throw new Error(`No price for image model "${config.ai.imageModel}" in the pricing catalog`);
+  }
+  const estimatedCost = priceOpenAITokens(CHARACTER_BUILDER_TOKENS, config.ai.openaiModel) + (portraitPrice?.perImage || 0);
+  const budgetCheck = await budgetManager.checkBudget(owner, estimatedCost);
+  if (!budgetCheck.allowed) throw new Error(`Insufficient budget remaining. ${budgetCheck.reason}`);
+
+  const rateLimitCheck = await getRateLimiter().waitForSlot("openai", { model: config.ai.openaiModel });
+  if (!rateLimitCheck.allowed) {
+    throw new Error(`Rate limit: ${rateLimitCheck.reason}. Retry after ${rateLimitCheck.retryAfter}s`);
+  }
+
+  console.log(`🧑‍🎨 Building a character from "${brief.substring(0, 80)}${brief.length > 80 ? "..." : ""}"`);
+  const response = await clients.openai.chat.completions.create({
+    model: config.ai.openaiModel,
+    messages: [
+      { role: "system", content: CHARACTER_BUILDER_PROMPT },
+      { role: "user", content: `DESCRIPTION:\n${brief}${name ? `\n\nNAME: ${name}` : ""}` }
+    ],
+    temperature: 0.8,
+    max_tokens: 1200,
+    response_format: { type: "json_object" }
+  });
+  if (response.usage) {
+    await budgetManager.trackOpenAICost(
+      { inputTokens: response.usage.prompt_tokens || 0, outputTokens: response.usage.completion_tokens || 0 },
+      config.ai.openaiModel,
+      owner
+    );
+  }
+
+  let raw;
+  try {
+    raw = JSON.parse(response.choices?.[0]?.message?.content || "");
+  } catch {
+    throw new Error("Generated profile is not valid JSON");
+  }
+  const profile = parseGeneratedProfile(name ? { ...raw, name } : raw);
+  const fields = generatedProfileToCharacter(profile);
+
+  if (portrait) {
+    const image = await generateImage({
+      openai: clients.openai,
+      imageModel: config.ai.imageModel,
+      prompt: buildPortraitPrompt(fields),
+      size: CHARACTER_PORTRAIT_SIZE,
+      owner
+    });
+    const path = `characters/generated/${uuidv4()}.png`;
+    const { error } = await clients.supabase.storage
+      .from("images")
+      .upload(path, image, { contentType: "image/png", cacheControl: "3600" });
+    if (error) throw new Error(`Failed to save portrait: ${error.message}`);
+    fields.reference_image = clients.supabase.storage.from("images").getPublicUrl(path).data.publicUrl;
+  }
+
+  console.log(`✅ Built character "${profile.name}"${portrait ? " with a portrait" : ""}`);
+  return { profile, character: save ? await createCharacter(userId, fields) : fields };
+}
+
+/* =======================
+   🎞️ FINAL MOVIE ASSEMBLY
+======================= */
+
+export async function assembleMovieById(movieId, { transition = null, sceneTransitions = {} } = {}) {
+  const config = createConfig();
+  const clients = createClients(config);
+  const { data: movie, error } = await clients.supabase.from("movies").select("*").eq("id", movieId).single();
+  if (error) throw new Error(`Movie not found: ${error.message}`);
+
+  return assembleMovie(clients, movie, {
+    ...config.media,
+    fps: VIDEO_CONSTRAINTS.DEFAULT_FPS,
+    aspectRatio: VIDEO_CONSTRAINTS.ASPECT_RATIO,
+    transition,
+    sceneTransitions
+  });
+}
+
+/* =======================
+   🧾 PROVIDER COST RECONCILIATION
+======================= */
+
+/**
+ * Look up the predictions that were charged at our estimate (the provider hadn't reported
+ * metrics yet) and settle each at the cost the provider reports now. Predictions the provider
+ * still reports no cost for are left for the next run.
+ * Returns { checked, reconciled, unavailable, adjustment } - adjustment is the net change in USD.
+ */
+export async function reconcileProviderCosts({ jobId = null, limit = 100 } = {}, clients = null) {
+  const { videoProviders } = clients || createClients(createConfig());
+  const budgetManager = getBudgetManager();
+  const entries = await budgetManager.getUnreconciledPredictions({ jobId, limit });
+  const summary = { checked: entries.length, reconciled: 0, unavailable: 0, adjustment: 0 };
+
+  for (const entry of entries) {
+    const provider = videoProviders[entry.service];
+    try {
+      if (!provider?.isConfigured()) throw new Error(`Video provider "${entry.service}" is not configured`);
+      const prediction = await provider.poll(entry.prediction_id);
+      const costReport = provider.getCostReport(prediction, {
+        costPerSecond: Number(entry.unit_price || 0),
+        duration: Number(entry.seconds || 0),
+        hardware: entry.hardware || getModelHardware(entry.model)
+      });
+      if (costReport.actual === null) {
+        summary.unavailable++;
+        continue;
+      }
+
+      const adjustment = await budgetManager.reconcilePrediction(entry, {
+        providerCost: costReport.actual,
+        predictTime: costReport.predictTime,
+        hardware: costReport.hardware
+      });
+      if (adjustment) {
+        summary.reconciled++;
+        summary.adjustment += adjustment.amount;
+      }
+    } catch (error) {
+      console.error(`⚠️  Failed to reconcile ${entry.service} prediction ${entry.prediction_id}: ${error.message}`);
+      summary.unavailable++;
+    }
+  }
+  return summary;
+}
+
 /* =======================
    READ-ONLY QUERIES (PUBLIC)
 ======================= */
@@ -0,0 +1,391 @@
+/**
+ * Video Providers - Where scene clips actually get rendered
+ * Every provider exposes the same prediction lifecycle (submit, poll, cancel, fetch output,
+ * cost report), so the fallback loop in generateSceneVideo works the same for Replicate,
+ * a self-hosted HTTP server or the local mock.
+ */
+
+import "server-only";
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { v4 as uuidv4 } from "uuid";
+import { getEnv, isMockMode } from "@/lib/env";
+import { hashString } from "@/lib/hash";
+import { getHardwarePrice } from "@/lib/pricingCatalog";
+import { parseRetryAfter, sleep } from "@/lib/rateLimiter";
+
+export const PREDICTION_POLL_INTERVAL_MS = 3 * 1000; // 3 seconds
+const TERMINAL_STATUSES = ["succeeded", "failed", "canceled"];
+const HTTP_REQUEST_TIMEOUT_MS = 30 * 1000; // 30 seconds per API call
+
+/**
+ * Local path of a file:// clip URL. Clips are only read from disk in mock mode, and only from the
+ * mock clips directory (`MOCK_VIDEO_CLIPS_DIR`, default `public/mock-clips`): any other file a
+ * provider points at - a server file, `.env` - would be uploaded to the public bucket.
+ */
+export function resolveMockClipPath(clipUrl) {
+  if (!isMockMode()) throw new Error(`Local clip URLs are only accepted in mock mode: ${clipUrl}`);
+
+  let clipsDir;
+  let clipPath;
+  try {
+    // Real paths, so neither ".." nor a symlink leads out of the directory
+    clipsDir = fs.realpathSync(getEnv().MOCK_VIDEO_CLIPS_DIR || path.join(process.cwd(), "public", "mock-clips"));
+    clipPath = fs.realpathSync(fileURLToPath(clipUrl));
+  } catch {
+    throw new Error(`Local clip not found: ${clipUrl}`);
+  }
+  const relative = path.relative(clipsDir, clipPath);
+  if (!relative || relative.split(path.sep)[0] === ".." || path.isAbsolute(relative)) {
+    throw new Error(`Local clip is outside the mock clips directory: ${clipUrl}`);
+  }
+  return clipPath;
+}
+
+/**
+ * Pull the clip URL out of whatever shape a model returns
+ */
+function extractVideoUrl(output) {
+  if (Array.isArray(output)) return output[0];
+  if (output && typeof output === "object") return output.video || output.url || output.output;
+  if (typeof output === "string") return output;
+  return null;
+}
+
+/* =======================
+   PROVIDER INTERFACE
+======================= */
+
+/**
+ * Base provider. A prediction is `{ id, status, output, error, metrics, hardware? }` where status is
+ * one of starting | processing | succeeded | failed | canceled.
+ */
+export class VideoProvider {
+  constructor(name) {
+    this.name = name;
+  }
+
+  /**
+   * Whether the provider has the credentials/endpoint it needs
+   */
+  isConfigured() {
+    return true;
+  }
+
+  /**
+   * Start a prediction; returns it in its initial state
+   */
+  async submit(modelName, input) {
+    throw new Error(`Video provider ${this.name} does not implement submit()`);
+  }
+
+  /**
+   * Fetch the current state of a prediction
+   */
+  async poll(predictionId) {
+    throw new Error(`Video provider ${this.name} does not implement poll()`);
+  }
+
+  /**
+   * Stop a prediction so it stops billing
+   */
+  async cancel(predictionId) {
+    throw new Error(`Video provider ${this.name} does not implement cancel()`);
+  }
+
+  /**
+   * Clip URL of a succeeded prediction
+   */
+  async fetchOutput(prediction) {
+    const videoUrl = extractVideoUrl(prediction.output);
+    if (!videoUrl || typeof videoUrl !== "string") {
+      throw new Error(`Invalid video URL from ${this.name}`);
+    }
+    // Only the mock provider's clips are local files
+    if (/^file:/i.test(videoUrl)) {
+      throw new Error(`Video provider ${this.name} returned a local file URL: ${videoUrl}`);
+    }
+    return videoUrl;
+  }
+
+  /**
+   * A finished prediction with its metrics. Providers can fill in predict_time a moment after
+   * the status turns terminal, so one without it is fetched once more.
+   */
+  async fetchMetrics(prediction) {
+    if (prediction.metrics?.predict_time != null) return prediction;
+    try {
+      const latest = await this.poll(prediction.id);
+      return TERMINAL_STATUSES.includes(latest?.status) && latest.metrics?.predict_time != null ? { ...prediction, ...latest } : prediction;
+    } catch (error) {
+      console.error(`⚠️  Failed to fetch metrics of ${this.name} prediction ${prediction.id}: ${error.message}`);
+      return prediction;
+    }
+  }
+
+  /**
+   * What a prediction cost. `estimated` comes from the model's catalog price and only covers
+   * output that was delivered (nothing for failed or canceled predictions). `actual` is set when
+   * the provider reports the cost, or its predict time on hardware the catalog prices.
+   */
+  getCostReport(prediction, { costPerSecond = 0, duration = 0, hardware = null } = {}) {
+    const predictTime = prediction.metrics?.predict_time ?? null;
+    const billedHardware = prediction.hardware || hardware;
+    const hardwarePrice = billedHardware ? getHardwarePrice(billedHardware) : null;
+    return {
+      provider: this.name,
+      predictionId: prediction.id,
+      status: prediction.status,
+      estimated: prediction.status === "succeeded" ? costPerSecond * duration : 0,
+      actual: predictTime !== null && hardwarePrice ? predictTime * hardwarePrice.perSecond : null,
+      predictTime,
+      hardware: billedHardware
+    };
+  }
+}
+
+/* =======================
+   REPLICATE
+======================= */
+
+export class ReplicateVideoProvider extends VideoProvider {
+  constructor(replicate) {
+    super("replicate");
+    this.replicate = replicate;
+  }
+
+  isConfigured() {
+    return Boolean(this.replicate?.auth);
+  }
+
+  async submit(modelName, input) {
+    // "owner/name" runs the latest version; "owner/name:version" pins one
+    const [model, version] = modelName.split(":");
+    return version
+      ? this.replicate.predictions.create({ version, input })
+      : this.replicate.predictions.create({ model, input });
+  }
+
+  async poll(predictionId) {
+    return this.replicate.predictions.get(predictionId);
+  }
+
+  async cancel(predictionId) {
+    return this.replicate.predictions.cancel(predictionId);
+  }
+}
+
+/* =======================
+   GENERIC HTTP (SELF-HOSTED / OTHER VENDORS)
+======================= */
+
+/**
+ * Talks to any server that implements:
+ *   POST {baseUrl}/predictions              { model, input } -> prediction
+ *   GET  {baseUrl}/predictions/{id}         -> prediction
+ *   POST {baseUrl}/predictions/{id}/cancel  -> prediction
+ * Predictions use the Replicate shape; an optional numeric `cost` is treated as the actual cost.
+ */
+export class HttpVideoProvider extends VideoProvider {
+  constructor({ baseUrl = null, apiKey = null } = {}) {
+    super("http");
+    this.baseUrl = baseUrl ? baseUrl.replace(/\/+$/, "") : null;
+    this.apiKey = apiKey;
+  }
+
+  isConfigured() {
+    return Boolean(this.baseUrl);
+  }
+
+  async request(method, pathname, body = undefined) {
+    if (!this.baseUrl) throw new Error("HTTP video provider is not configured (set VIDEO_HTTP_BASE_URL)");
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HTTP_REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${this.baseUrl}${pathname}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal
+      });
+      const text = await res.text();
+      if (!res.ok) {
+        // Keep the status code in the message - the fallback loop looks for 402/429
+        const error = new Error(`HTTP video provider ${method} ${pathname} failed with status ${res.status}: ${text.substring(0, 500)}`);
+        error.status = res.status;
+        error.retryAfterMs = parseRetryAfter(res.headers.get("Retry-After"));
+        throw error;
+      }
+      return text ? JSON.parse(text) : {};
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async submit(modelName, input) {
+    return this.request("POST", "/predictions", { model: modelName, input });
+  }
+
+  async poll(predictionId) {
+    return this.request("GET", `/predictions/${encodeURIComponent(predictionId)}`);
+  }
+
+  async cancel(predictionId) {
+    return this.request("POST", `/predictions/${encodeURIComponent(predictionId)}/cancel`);
+  }
+
+  getCostReport(prediction, options) {
+    const report = super.getCostReport(prediction, options);
+    return typeof prediction.cost === "number" ? { ...report, actual: prediction.cost } : report;
+  }
+}
+
+/* =======================
+   MOCK (BUNDLED TEST CLIPS)
+======================= */
+
+/**
+ * Returns the placeholder clips in `public/mock-clips` without calling any API. The clip is
+ * picked from a hash of the prompt, so the same scene always gets the same clip.
+ * Outputs are file:// URLs; saveVideo reads them from disk (mock mode only, see resolveMockClipPath).
+ */
+export class MockVideoProvider extends VideoProvider {
+  constructor({ clipsDir = null, latencyMs = 0 } = {}) {
+    super("mock");
+    this.clipsDir = clipsDir || path.join(process.cwd(), "public", "mock-clips");
+    this.latencyMs = latencyMs;
+    this.predictions = new Map();
+  }
+
+  listClips() {
+    const clips = fs.existsSync(this.clipsDir)
+      ? fs.readdirSync(this.clipsDir).filter((file) => file.endsWith(".mp4")).sort()
+      : [];
+    if (clips.length === 0) throw new Error(`No mock clips found in ${this.clipsDir}`);
+    return clips;
+  }
+
+  async submit(modelName, input) {
+    const clips = this.listClips();
+    const clip = clips[hashString(String(input?.prompt ?? JSON.stringify(input))) % clips.length];
+    const prediction = {
+      id: `mock-${uuidv4()}`,
+      model: modelName,
+      input,
+      status: "processing",
+      output: null,
+      error: null,
+      readyAt: Date.now() + this.latencyMs,
+      clipPath: path.join(this.clipsDir, clip)
+    };
+    this.predictions.set(prediction.id, prediction);
+    return this.poll(prediction.id);
+  }
+
+  async poll(predictionId) {
+    const prediction = this.predictions.get(predictionId);
+    if (!prediction) throw new Error(`Unknown mock prediction ${predictionId}`);
+
+    if (prediction.status === "processing" && Date.now() >= prediction.readyAt) {
+      prediction.status = "succeeded";
+      prediction.output = pathToFileURL(prediction.clipPath).href;
+      prediction.metrics = { predict_time: this.latencyMs / 1000 };
+      this.predictions.delete(predictionId);
+    }
+    return { ...prediction };
+  }
+
+  async fetchOutput(prediction) {
+    const videoUrl = extractVideoUrl(prediction.output);
+    if (!videoUrl || typeof videoUrl !== "string") {
+      throw new Error(`Invalid video URL from ${this.name}`);
+    }
+    resolveMockClipPath(videoUrl);
+    return videoUrl;
+  }
+
+  async cancel(predictionId) {
+    const prediction = this.predictions.get(predictionId);
+    this.predictions.delete(predictionId);
+    return { ...(prediction || { id: predictionId }), status: "canceled" };
+  }
+
+  getCostReport(prediction, options) {
+    return { ...super.getCostReport(prediction, options), estimated: 0, actual: 0 };
+  }
+}
+
+/* =======================
+   REGISTRY & RUNNER
+======================= */
+
+/**
+ * One instance of every provider, keyed by the name used in VIDEO_MODELS[].provider.
+ * `offline` (mock mode) answers every provider name with the mock so any model chain works.
+ */
+export function createVideoProviders({ replicate, http = {}, mock = {}, offline = false }) {
+  if (offline) {
+    const mockProvider = new MockVideoProvider(mock);
+    return { replicate: mockProvider, http: mockProvider, mock: mockProvider };
+  }
+  return {
+    replicate: new ReplicateVideoProvider(replicate),
+    http: new HttpVideoProvider(http),
+    mock: new MockVideoProvider(mock)
+  };
+}
+
+// The prediction rides along so the caller can charge what a failed render used
+function predictionError(message, prediction) {
+  const error = new Error(message);
+  error.prediction = prediction;
+  return error;
+}
+
+/**
+ * Submit a prediction and poll it to completion. Cancels it on abort or timeout so an
+ * abandoned render doesn't keep billing. Errors after the submit carry the `prediction`.
+ */
+export async function runPrediction(provider, modelName, input, {
+  abortSignal = null,
+  timeoutMs,
+  pollIntervalMs = PREDICTION_POLL_INTERVAL_MS
+} = {}) {
+  let prediction = await provider.submit(modelName, input);
+  const deadline = Date.now() + timeoutMs;
+
+  const stop = async (message) => {
+    try {
+      prediction = { ...prediction, ...(await provider.cancel(prediction.id)) };
+    } catch (error) {
+      console.error(`⚠️  Failed to cancel ${provider.name} prediction ${prediction.id}: ${error.message}`);
+    }
+    throw predictionError(message, prediction);
+  };
+
+  while (!TERMINAL_STATUSES.includes(prediction.status)) {
+    if (abortSignal?.aborted) await stop("Generation aborted by user");
+    if (Date.now() >= deadline) await stop(`Model ${modelName} timeout after ${timeoutMs / 1000}s`);
+
+    // Wakes up early on abort so the prediction is canceled right away
+    await sleep(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())), abortSignal);
+    if (abortSignal?.aborted) continue;
+    prediction = await provider.poll(prediction.id);
+  }
+
+  if (prediction.status === "failed") {
+    throw predictionError(`Prediction failed: ${prediction.error}`, prediction);
+  }
+  if (prediction.status === "canceled") {
+    throw predictionError(`Prediction ${prediction.id} was canceled`, prediction);
+  }
+
+  const videoUrl = await provider.fetchOutput(prediction);
+  return { prediction, videoUrl };
+}
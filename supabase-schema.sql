@@ -79,6 +79,136 @@ CREATE TABLE IF NOT EXISTS movies (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Storyboards table
+-- Draft screenplays (script first, render later); scenes are edited before rendering
+CREATE TABLE IF NOT EXISTS storyboards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT,
+  title TEXT NOT NULL,
+  story_premise TEXT NOT NULL,
+  character_ids JSONB DEFAULT '[]'::jsonb,
+  scene_duration INTEGER NOT NULL,
+  scenes JSONB DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'draft',
+  movie_id UUID REFERENCES movies(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Budgets table
+-- Spending caps per scope (user, team, project or the whole app); NULL means no cap for that period
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('user', 'team', 'project', 'global')),
+  scope_id TEXT NOT NULL,
+  daily_limit NUMERIC(12, 4),
+  monthly_limit NUMERIC(12, 4),
+  lifetime_limit NUMERIC(12, 4),
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (scope_type, scope_id)
+);
+
+-- Cost ledger
+-- One row per paid API call; budget periods are summed from here
+CREATE TABLE IF NOT EXISTS cost_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  project_id TEXT,
+  service TEXT NOT NULL,
+  amount NUMERIC(12, 6) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Budget reservations table
+-- Budget held for a running job: the estimate is reserved when it starts, spend is committed
+-- per scene and whatever is left is released when it ends
+CREATE TABLE IF NOT EXISTS budget_reservations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  project_id TEXT,
+  job_id UUID,
+  amount NUMERIC(12, 6) NOT NULL,
+  committed NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Budget audit log table
+-- Every admin change to a budget (reset, top-up, override): who, what, and the budget before and after
+CREATE TABLE IF NOT EXISTS budget_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('reset', 'top_up', 'override', 'clear_override')),
+  scope_type TEXT NOT NULL,
+  scope_id TEXT NOT NULL,
+  before JSONB,
+  after JSONB,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rate limit buckets table
+-- Token buckets shared by every server instance, one row per service, model and API key fingerprint
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens JSONB NOT NULL DEFAULT '[]'::jsonb,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Jobs queue columns (worker claim, heartbeat and resume bookkeeping)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS worker_id TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Movies: single stitched MP4 of all scenes
+ALTER TABLE movies ADD COLUMN IF NOT EXISTS final_video_url TEXT;
+
+-- Cost ledger: what each call was for and how it was priced
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS job_id UUID;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS movie_id UUID;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS storyboard_id UUID;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS scene_number INTEGER;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS seconds NUMERIC(10, 3);
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS unit TEXT; -- "1k_tokens", "second" or "image"
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS unit_price NUMERIC(12, 8); -- input price for tokens
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS output_unit_price NUMERIC(12, 8); -- output price for tokens
+-- Budget alerts are ledger rows too: service 'budget_alert', amount 0, the alert itself here
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS alert JSONB;
+
+-- Cost ledger: provider-reported cost of video predictions
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS prediction_id TEXT;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS prediction_status TEXT; -- succeeded, failed, canceled
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS estimated_amount NUMERIC(12, 6); -- our catalog estimate
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS provider_cost NUMERIC(12, 6); -- what the provider billed, when known
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS predict_time NUMERIC(10, 3); -- seconds of hardware time
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS hardware TEXT;
+ALTER TABLE cost_ledger ADD COLUMN IF NOT EXISTS adjusts_id UUID REFERENCES cost_ledger(id); -- reconciliation of this charge
+
+-- Budgets: spending alerts (NULL uses BUDGET_ALERT_THRESHOLDS / BUDGET_SOFT_STOP_PERCENT)
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS alert_thresholds JSONB; -- percentages of each cap, e.g. [50, 80, 100]
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS soft_stop_percent NUMERIC(6, 2); -- jobs pause after their current scene
+
+-- Budgets: admin adjustments
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS spend_reset_at TIMESTAMP WITH TIME ZONE; -- spend before this no longer counts
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS override_limits JSONB; -- temporary caps { daily, monthly, lifetime }
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS override_expires_at TIMESTAMP WITH TIME ZONE;
+
 -- ============================================================================
 -- CONSTRAINTS
 -- ============================================================================
@@ -109,6 +239,7 @@ BEGIN
     DROP POLICY IF EXISTS "Users can view own characters" ON characters;
     DROP POLICY IF EXISTS "Users can insert own characters" ON characters;
     DROP POLICY IF EXISTS "Users can update own characters" ON characters;
+    DROP POLICY IF EXISTS "Users can delete own characters" ON characters;
     
     -- Alter the column type
     ALTER TABLE characters ALTER COLUMN user_id TYPE TEXT USING user_id::TEXT;
@@ -159,9 +290,24 @@ CREATE INDEX IF NOT EXISTS idx_videos_created_at ON videos(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
 CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
 CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_status_heartbeat ON jobs(status, heartbeat_at);
 CREATE INDEX IF NOT EXISTS idx_movies_user_id ON movies(user_id);
 CREATE INDEX IF NOT EXISTS idx_movies_created_at ON movies(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_movies_status ON movies(status);
+CREATE INDEX IF NOT EXISTS idx_storyboards_user_id ON storyboards(user_id);
+CREATE INDEX IF NOT EXISTS idx_storyboards_created_at ON storyboards(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_user_id ON cost_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_team_id ON cost_ledger(team_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_project_id ON cost_ledger(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_created_at ON cost_ledger(created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_job_id ON cost_ledger(job_id);
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_movie_id ON cost_ledger(movie_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_ledger_alert_key ON cost_ledger((alert->>'key')) WHERE alert IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_ledger_adjusts_id ON cost_ledger(adjusts_id) WHERE adjusts_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_unreconciled ON cost_ledger(created_at) WHERE prediction_id IS NOT NULL AND provider_cost IS NULL;
+CREATE INDEX IF NOT EXISTS idx_budget_reservations_active ON budget_reservations(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_budget_reservations_job_id ON budget_reservations(job_id);
+CREATE INDEX IF NOT EXISTS idx_budget_audit_log_scope ON budget_audit_log(scope_type, scope_id, created_at DESC);
 
 -- ============================================================================
 -- FUNCTIONS
@@ -176,6 +322,341 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Spend of one budget scope in the current day, month and overall (period starts are passed in, in UTC)
+-- p_since: spend before an admin reset of the scope doesn't count
+-- (the old four-argument version is dropped, or calls without p_since would be ambiguous)
+DROP FUNCTION IF EXISTS cost_ledger_totals(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+CREATE OR REPLACE FUNCTION cost_ledger_totals(
+  p_scope_type TEXT,
+  p_scope_id TEXT,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE,
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (daily NUMERIC, monthly NUMERIC, lifetime NUMERIC) AS $$
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at >= p_day_start), 0),
+    COALESCE(SUM(amount) FILTER (WHERE created_at >= p_month_start), 0),
+    COALESCE(SUM(amount), 0)
+  FROM cost_ledger
+  WHERE (p_since IS NULL OR created_at >= p_since)
+    AND CASE p_scope_type
+      WHEN 'user' THEN user_id = p_scope_id
+      WHEN 'team' THEN team_id = p_scope_id
+      WHEN 'project' THEN project_id = p_scope_id
+      ELSE TRUE
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Every scope id of a type that has spent anything or has a `budgets` row (admin overview)
+CREATE OR REPLACE FUNCTION budget_scope_ids(p_scope_type TEXT)
+RETURNS TABLE (scope_id TEXT) AS $$
+  SELECT DISTINCT CASE p_scope_type
+    WHEN 'user' THEN user_id
+    WHEN 'team' THEN team_id
+    WHEN 'project' THEN project_id
+    ELSE '*'
+  END
+  FROM cost_ledger
+  WHERE CASE p_scope_type
+    WHEN 'user' THEN user_id IS NOT NULL
+    WHEN 'team' THEN team_id IS NOT NULL
+    WHEN 'project' THEN project_id IS NOT NULL
+    ELSE TRUE
+  END
+  UNION
+  SELECT scope_id FROM budgets WHERE scope_type = p_scope_type
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Ledger spend grouped by 'user', 'model' or 'day' (UTC), for /api/costs
+CREATE OR REPLACE FUNCTION cost_ledger_summary(
+  p_group TEXT,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_user_id TEXT DEFAULT NULL,
+  p_team_id TEXT DEFAULT NULL,
+  p_project_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (key TEXT, amount NUMERIC, calls BIGINT) AS $$
+  SELECT
+    CASE p_group
+      WHEN 'user' THEN user_id
+      WHEN 'model' THEN COALESCE(model, service)
+      ELSE to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+    END AS key,
+    SUM(amount),
+    COUNT(*) FILTER (WHERE adjusts_id IS NULL) -- a reconciliation is part of the call it adjusts
+  FROM cost_ledger
+  WHERE alert IS NULL
+    AND (p_from IS NULL OR created_at >= p_from)
+    AND (p_to IS NULL OR created_at < p_to)
+    AND (p_user_id IS NULL OR user_id = p_user_id)
+    AND (p_team_id IS NULL OR team_id = p_team_id)
+    AND (p_project_id IS NULL OR project_id = p_project_id)
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Writes a budget alert to the ledger once per key; false when it was already there
+CREATE OR REPLACE FUNCTION record_budget_alert(
+  p_alert JSONB,
+  p_user_id TEXT,
+  p_team_id TEXT DEFAULT NULL,
+  p_project_id TEXT DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_movie_id UUID DEFAULT NULL,
+  p_storyboard_id UUID DEFAULT NULL,
+  p_scene_number INTEGER DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO cost_ledger (user_id, team_id, project_id, job_id, movie_id, storyboard_id, scene_number, service, amount, alert)
+  VALUES (p_user_id, p_team_id, p_project_id, p_job_id, p_movie_id, p_storyboard_id, p_scene_number, 'budget_alert', 0, p_alert)
+  ON CONFLICT ((alert->>'key')) WHERE alert IS NOT NULL DO NOTHING;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prediction charges still at our estimate (no provider cost, no adjustment), oldest first
+CREATE OR REPLACE FUNCTION unreconciled_predictions(p_job_id UUID DEFAULT NULL, p_limit INTEGER DEFAULT 100)
+RETURNS SETOF cost_ledger AS $$
+  SELECT entry.*
+  FROM cost_ledger entry
+  WHERE entry.prediction_id IS NOT NULL
+    AND entry.provider_cost IS NULL
+    AND entry.adjusts_id IS NULL
+    AND (p_job_id IS NULL OR entry.job_id = p_job_id)
+    AND NOT EXISTS (SELECT 1 FROM cost_ledger adjustment WHERE adjustment.adjusts_id = entry.id)
+  ORDER BY entry.created_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Appends the difference between a prediction's provider cost and what was charged for it, once per charge.
+-- Returns the adjustment row, or nothing when the charge was already reconciled.
+CREATE OR REPLACE FUNCTION record_cost_adjustment(
+  p_entry_id UUID,
+  p_provider_cost NUMERIC,
+  p_predict_time NUMERIC DEFAULT NULL,
+  p_hardware TEXT DEFAULT NULL
+)
+RETURNS SETOF cost_ledger AS $$
+  INSERT INTO cost_ledger (
+    user_id, team_id, project_id, job_id, movie_id, storyboard_id, scene_number, service, model,
+    prediction_id, prediction_status, provider_cost, predict_time, hardware, adjusts_id, amount
+  )
+  SELECT
+    user_id, team_id, project_id, job_id, movie_id, storyboard_id, scene_number, service, model,
+    prediction_id, prediction_status, p_provider_cost, p_predict_time, COALESCE(p_hardware, hardware), id, p_provider_cost - amount
+  FROM cost_ledger
+  WHERE id = p_entry_id AND provider_cost IS NULL
+  ON CONFLICT (adjusts_id) WHERE adjusts_id IS NOT NULL DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- Estimated vs provider-reported cost per video model, over the predictions with a known provider cost
+CREATE OR REPLACE FUNCTION cost_ledger_drift(
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_user_id TEXT DEFAULT NULL,
+  p_team_id TEXT DEFAULT NULL,
+  p_project_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  model TEXT, predictions BIGINT, reported BIGINT, estimated NUMERIC, actual NUMERIC, failed_charged BIGINT, failed_cost NUMERIC
+) AS $$
+  WITH charges AS (
+    SELECT
+      COALESCE(entry.model, entry.service) AS model,
+      entry.prediction_status,
+      entry.estimated_amount,
+      COALESCE(entry.provider_cost, adjustment.provider_cost) AS provider_cost
+    FROM cost_ledger entry
+    LEFT JOIN cost_ledger adjustment ON adjustment.adjusts_id = entry.id
+    WHERE entry.prediction_id IS NOT NULL
+      AND entry.adjusts_id IS NULL
+      AND (p_from IS NULL OR entry.created_at >= p_from)
+      AND (p_to IS NULL OR entry.created_at < p_to)
+      AND (p_user_id IS NULL OR entry.user_id = p_user_id)
+      AND (p_team_id IS NULL OR entry.team_id = p_team_id)
+      AND (p_project_id IS NULL OR entry.project_id = p_project_id)
+  )
+  SELECT
+    model,
+    COUNT(*),
+    COUNT(provider_cost),
+    COALESCE(SUM(estimated_amount) FILTER (WHERE provider_cost IS NOT NULL), 0),
+    COALESCE(SUM(provider_cost), 0),
+    COUNT(*) FILTER (WHERE prediction_status <> 'succeeded' AND provider_cost > 0),
+    COALESCE(SUM(provider_cost) FILTER (WHERE prediction_status <> 'succeeded'), 0)
+  FROM charges
+  GROUP BY model
+  ORDER BY model;
+$$ LANGUAGE sql STABLE;
+
+-- Budget still held for a scope by active reservations (reserved but not yet spent)
+CREATE OR REPLACE FUNCTION budget_reservation_holds(p_scope_type TEXT, p_scope_id TEXT)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(GREATEST(amount - committed, 0)), 0)
+  FROM budget_reservations
+  WHERE status = 'active'
+    AND expires_at > NOW()
+    AND CASE p_scope_type
+      WHEN 'user' THEN user_id = p_scope_id
+      WHEN 'team' THEN team_id = p_scope_id
+      WHEN 'project' THEN project_id = p_scope_id
+      ELSE TRUE
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Check every scope's caps against spend + holds + p_amount and, if they all fit, reserve p_amount.
+-- p_scopes: [{ "scope_type", "scope_id", "daily", "monthly", "lifetime", "since" }] with the caps resolved by the app
+-- (null = no cap) and the scope's last admin reset, if any.
+-- Returns { "allowed": true, "reservation": {...} } or { "allowed": false, "scope_type", "scope_id", "period", "remaining" }.
+CREATE OR REPLACE FUNCTION reserve_budget(
+  p_scopes JSONB,
+  p_amount NUMERIC,
+  p_user_id TEXT,
+  p_team_id TEXT,
+  p_project_id TEXT,
+  p_job_id UUID,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+DECLARE
+  scope JSONB;
+  budget_period TEXT;
+  spent RECORD;
+  held NUMERIC;
+  cap NUMERIC;
+  used NUMERIC;
+  reservation budget_reservations;
+BEGIN
+  -- One reservation per job: a resumed job replaces the hold of its crashed attempt
+  IF p_job_id IS NOT NULL THEN
+    UPDATE budget_reservations SET status = 'released', released_at = NOW()
+    WHERE job_id = p_job_id AND status = 'active';
+  END IF;
+
+  -- Serialize reservations on the same scopes (in a fixed order, so they can't deadlock)
+  FOR scope IN SELECT value FROM jsonb_array_elements(p_scopes) ORDER BY value->>'scope_type', value->>'scope_id' LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('budget:' || (scope->>'scope_type') || ':' || (scope->>'scope_id')));
+  END LOOP;
+
+  FOR scope IN SELECT value FROM jsonb_array_elements(p_scopes) LOOP
+    SELECT * INTO spent FROM cost_ledger_totals(
+      scope->>'scope_type', scope->>'scope_id', p_day_start, p_month_start, (scope->>'since')::TIMESTAMP WITH TIME ZONE
+    );
+    held := budget_reservation_holds(scope->>'scope_type', scope->>'scope_id');
+
+    FOREACH budget_period IN ARRAY ARRAY['daily', 'monthly', 'lifetime'] LOOP
+      cap := (scope->>budget_period)::NUMERIC;
+      used := held + CASE budget_period
+        WHEN 'daily' THEN spent.daily
+        WHEN 'monthly' THEN spent.monthly
+        ELSE spent.lifetime
+      END;
+      IF cap IS NOT NULL AND used + p_amount > cap THEN
+        RETURN jsonb_build_object(
+          'allowed', false,
+          'scope_type', scope->>'scope_type',
+          'scope_id', scope->>'scope_id',
+          'period', budget_period,
+          'remaining', GREATEST(cap - used, 0)
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  INSERT INTO budget_reservations (user_id, team_id, project_id, job_id, amount, expires_at)
+  VALUES (p_user_id, p_team_id, p_project_id, p_job_id, p_amount, p_expires_at)
+  RETURNING * INTO reservation;
+
+  RETURN jsonb_build_object('allowed', true, 'reservation', to_jsonb(reservation));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move spend of a running job from held to committed
+CREATE OR REPLACE FUNCTION commit_budget_reservation(p_reservation_id UUID, p_amount NUMERIC)
+RETURNS VOID AS $$
+  UPDATE budget_reservations SET committed = committed + p_amount WHERE id = p_reservation_id;
+$$ LANGUAGE sql;
+
+-- One token-bucket step for p_key, the same as takeToken() in src/lib/rateLimiter.js.
+-- p_buckets: [{ "capacity", "windowMs" }]. The row is locked, so concurrent callers queue up.
+-- Returns { "allowed", "retry_after_ms", "limited_by" } (limited_by: null, a bucket index or "retry-after").
+CREATE OR REPLACE FUNCTION rate_limit_take(p_key TEXT, p_buckets JSONB, p_consume BOOLEAN DEFAULT TRUE)
+RETURNS JSONB AS $$
+DECLARE
+  bucket_row rate_limit_buckets;
+  now_at TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  elapsed_ms NUMERIC;
+  blocked TIMESTAMP WITH TIME ZONE;
+  retry_ms NUMERIC := 0;
+  limited JSONB := 'null'::jsonb;
+  levels NUMERIC[] := ARRAY[]::NUMERIC[];
+  bucket JSONB;
+  idx INTEGER;
+  capacity NUMERIC;
+  window_ms NUMERIC;
+  level NUMERIC;
+  wait_ms NUMERIC;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, updated_at) VALUES (p_key, now_at) ON CONFLICT (key) DO NOTHING;
+  SELECT * INTO bucket_row FROM rate_limit_buckets WHERE key = p_key FOR UPDATE;
+
+  elapsed_ms := GREATEST(0, EXTRACT(EPOCH FROM (now_at - bucket_row.updated_at)) * 1000);
+  blocked := CASE WHEN bucket_row.blocked_until > now_at THEN bucket_row.blocked_until END;
+  IF blocked IS NOT NULL THEN
+    retry_ms := CEIL(EXTRACT(EPOCH FROM (blocked - now_at)) * 1000);
+    limited := '"retry-after"'::jsonb;
+  END IF;
+
+  FOR bucket, idx IN SELECT value, ordinality - 1 FROM jsonb_array_elements(p_buckets) WITH ORDINALITY LOOP
+    capacity := (bucket->>'capacity')::NUMERIC;
+    window_ms := (bucket->>'windowMs')::NUMERIC;
+    level := LEAST(capacity, COALESCE((bucket_row.tokens->>idx)::NUMERIC, capacity) + elapsed_ms * capacity / window_ms);
+    levels := levels || level;
+    IF level < 1 THEN
+      wait_ms := CEIL((1 - level) * window_ms / capacity);
+      IF wait_ms > retry_ms THEN
+        retry_ms := wait_ms;
+        limited := to_jsonb(idx);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF limited = 'null'::jsonb AND p_consume THEN
+    levels := ARRAY(SELECT unnest(levels) - 1);
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET tokens = to_jsonb(levels), updated_at = now_at, blocked_until = blocked
+  WHERE key = p_key;
+
+  RETURN jsonb_build_object('allowed', limited = 'null'::jsonb, 'retry_after_ms', retry_ms, 'limited_by', limited);
+END;
+$$ LANGUAGE plpgsql;
+
+-- A provider answered 429: block p_key until its Retry-After has passed
+CREATE OR REPLACE FUNCTION rate_limit_block(p_key TEXT, p_retry_after_ms INTEGER)
+RETURNS VOID AS $$
+  INSERT INTO rate_limit_buckets (key, updated_at, blocked_until)
+  VALUES (p_key, clock_timestamp(), clock_timestamp() + p_retry_after_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE
+  SET blocked_until = GREATEST(COALESCE(rate_limit_buckets.blocked_until, EXCLUDED.blocked_until), EXCLUDED.blocked_until);
+$$ LANGUAGE sql;
+
+-- The cost ledger is append-only: corrections are new rows, never edits
+CREATE OR REPLACE FUNCTION prevent_append_only_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ language 'plpgsql';
+
 -- ============================================================================
 -- TRIGGERS
 -- ============================================================================
@@ -201,6 +682,41 @@ CREATE TRIGGER update_movies_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger to auto-update updated_at on storyboard updates
+DROP TRIGGER IF EXISTS update_storyboards_updated_at ON storyboards;
+CREATE TRIGGER update_storyboards_updated_at
+  BEFORE UPDATE ON storyboards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger to keep the cost ledger append-only
+DROP TRIGGER IF EXISTS cost_ledger_append_only ON cost_ledger;
+CREATE TRIGGER cost_ledger_append_only
+  BEFORE UPDATE OR DELETE ON cost_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_append_only_changes();
+
+-- Trigger to keep the budget audit log append-only
+DROP TRIGGER IF EXISTS budget_audit_log_append_only ON budget_audit_log;
+CREATE TRIGGER budget_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON budget_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_append_only_changes();
+
+-- Trigger to auto-update updated_at on budget reservation updates
+DROP TRIGGER IF EXISTS update_budget_reservations_updated_at ON budget_reservations;
+CREATE TRIGGER update_budget_reservations_updated_at
+  BEFORE UPDATE ON budget_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger to auto-update updated_at on budget updates
+DROP TRIGGER IF EXISTS update_budgets_updated_at ON budgets;
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================================================
 -- ROW LEVEL SECURITY (RLS)
 -- ============================================================================
@@ -210,6 +726,14 @@ ALTER TABLE characters ENABLE ROW LEVEL SECURITY;
 ALTER TABLE videos ENABLE ROW LEVEL SECURITY;
 ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE movies ENABLE ROW LEVEL SECURITY;
+-- Storyboards have no policies: only the server (service role) reads and writes them
+ALTER TABLE storyboards ENABLE ROW LEVEL SECURITY;
+-- Budgets and spend are server-only too
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cost_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_audit_log ENABLE ROW LEVEL SECURITY;
 
 -- ============================================================================
 -- RLS POLICIES - CHARACTERS
@@ -234,6 +758,12 @@ CREATE POLICY "Users can update own characters"
   ON characters FOR UPDATE
   USING (auth.uid()::TEXT = user_id);
 
+-- Policy: Users can delete their own characters
+DROP POLICY IF EXISTS "Users can delete own characters" ON characters;
+CREATE POLICY "Users can delete own characters"
+  ON characters FOR DELETE
+  USING (auth.uid()::TEXT = user_id);
+
 -- Policy: Public read access for characters (for service role)
 DROP POLICY IF EXISTS "Characters are viewable by everyone" ON characters;
 CREATE POLICY "Characters are viewable by everyone"
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/budget/route";
+import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { getRequest } from "../helpers";
+
+describe("GET /api/budget", () => {
+  it("reports only the global scope when no owner is given", async () => {
+    const body = await (await GET(getRequest("/api/budget"))).json();
+    expect(body.limits.scopes.map((scope) => scope.scopeType)).toEqual(["global"]);
+    expect(body.limits.remaining).toBeNull();
+    expect(body.limits.maxRequestCost).toBe(MAX_BUDGET);
+  });
+
+  it("reports caps, spend and what is left for each scope of an owner", async () => {
+    const budget = getBudgetManager();
+    await budget.setScopeLimits("team", "studio", { monthly: 10 });
+    await budget.trackCost("replicate", 1.5, { userId: "ana", teamId: "studio" });
+
+    const body = await (await GET(getRequest("/api/budget?userId=ana&teamId=studio"))).json();
+    const [user, team] = body.limits.scopes;
+    expect(user).toMatchObject({ scopeType: "user", scopeId: "ana", configured: false, remaining: { daily: 3.5 } });
+    expect(team).toMatchObject({ scopeType: "team", limits: { monthly: 10 }, spent: { monthly: 1.5 }, remaining: { monthly: 8.5 } });
+    expect(body.limits.remaining).toBe(3.5);
+    // Nothing measured against this process's own spend
+    expect(body.budget).toBeUndefined();
+  });
+
+  it("rejects overlong ids", async () => {
+    const response = await GET(getRequest(`/api/budget?userId=${"x".repeat(101)}`));
+    expect(response.status).toBe(400);
+  });
+});
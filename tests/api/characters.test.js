@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "@/app/api/characters/route";
+import { DELETE, PUT } from "@/app/api/characters/[id]/route";
+import { POST as DUPLICATE } from "@/app/api/characters/[id]/duplicate/route";
+import { POST as UPLOAD } from "@/app/api/characters/[id]/reference-image/route";
+import { POST as GENERATE } from "@/app/api/characters/generate/route";
+import { getMockStorageObject, getMockStore } from "@/lib/mockBackend";
+import { ARIS_ID, MISSING_ID, getRequest, jsonRequest, routeParams } from "../helpers";
+
+const create = async (body) => {
+  const response = await POST(jsonRequest("/api/characters", body));
+  return { status: response.status, body: await response.json() };
+};
+
+describe("/api/characters", () => {
+  it("creates a character and lists it for its owner only", async () => {
+    const { status, body } = await create({ userId: "ana", name: "Zara Quill", personality: "Street Poet" });
+    expect(status).toBe(201);
+    expect(body.character).toMatchObject({ user_id: "ana", name: "Zara Quill", personality: "Street Poet" });
+
+    const mine = await (await GET(getRequest("/api/characters?userId=ana"))).json();
+    expect(mine.characters.map((c) => c.name)).toContain("Zara Quill");
+    const theirs = await (await GET(getRequest("/api/characters?userId=ben"))).json();
+    expect(theirs.characters).toHaveLength(5);
+  });
+
+  it.each([
+    [{ name: "Zara" }, 400],
+    [{ userId: "ana", name: "" }, 400],
+    [{ userId: "ana", name: "Zara", reference_image: "not a url" }, 400]
+  ])("rejects %j", async (body, status) => {
+    expect((await create(body)).status).toBe(status);
+  });
+
+  it("answers 409 for a name the user already has", async () => {
+    await create({ userId: "ana", name: "Zara" });
+    expect((await create({ userId: "ana", name: "Zara" })).status).toBe(409);
+  });
+});
+
+describe("/api/characters/[id]", () => {
+  it("updates and deletes the owner's character", async () => {
+    const { body } = await create({ userId: "ana", name: "Zara" });
+    const id = body.character.id;
+
+    const put = await PUT(jsonRequest(`/api/characters/${id}`, { userId: "ana", base_prompt: "cinematic poet" }, "PUT"), routeParams({ id }));
+    expect((await put.json()).character.base_prompt).toBe("cinematic poet");
+
+    expect((await DELETE(getRequest(`/api/characters/${id}?userId=ben`), routeParams({ id }))).status).toBe(404);
+    const deleted = await DELETE(jsonRequest(`/api/characters/${id}?userId=ana`, undefined, "DELETE"), routeParams({ id }));
+    expect(await deleted.json()).toEqual({ success: true, id });
+  });
+
+  it("refuses to change system characters", async () => {
+    const response = await PUT(jsonRequest(`/api/characters/${ARIS_ID}`, { userId: "ana", name: "Mine" }, "PUT"), routeParams({ id: ARIS_ID }));
+    expect(response.status).toBe(403);
+    expect((await PUT(jsonRequest("/api/characters/x", { userId: "ana" }, "PUT"), routeParams({ id: "x" }))).status).toBe(400);
+  });
+});
+
+describe("POST /api/characters/[id]/duplicate", () => {
+  it("copies a system character into the user's own", async () => {
+    const response = await DUPLICATE(jsonRequest(`/api/characters/${ARIS_ID}/duplicate`, { userId: "ana" }), routeParams({ id: ARIS_ID }));
+    expect(response.status).toBe(201);
+    expect((await response.json()).character).toMatchObject({ user_id: "ana", name: "🧑‍🔬 Dr. Aris Thorne (copy)" });
+
+    const missing = await DUPLICATE(jsonRequest(`/api/characters/${MISSING_ID}/duplicate`, { userId: "ana" }), routeParams({ id: MISSING_ID }));
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe("POST /api/characters/[id]/reference-image", () => {
+  const upload = (id, form) =>
+    UPLOAD(new NextRequest(new URL(`/api/characters/${id}/reference-image`, "http://localhost:3000"), { method: "POST", body: form }), routeParams({ id }));
+
+  it("sets the uploaded image as the character's reference", async () => {
+    const { body } = await create({ userId: "ana", name: "Zara" });
+    const id = body.character.id;
+
+    const form = new FormData();
+    form.set("userId", "ana");
+    form.set("image", new Blob([new Uint8Array([1, 2, 3])], { type: "image/jpeg" }), "zara.jpg");
+    const response = await upload(id, form);
+    expect(response.status).toBe(200);
+    expect((await response.json()).character.reference_image).toMatch(/\/api\/mock-storage\/images\/characters\/.+\.jpg$/);
+
+    const missing = new FormData();
+    missing.set("userId", "ana");
+    expect((await upload(id, missing)).status).toBe(400);
+  });
+});
+
+describe("POST /api/characters/generate", () => {
+  const generate = async (body) => {
+    const response = await GENERATE(jsonRequest("/api/characters/generate", body));
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("returns a structured profile and the fields to create it with, without saving", async () => {
+    const { status, body } = await generate({ description: "a retired circus strongman who keeps a lighthouse", userId: "ana", name: "Old Bram" });
+    expect(status).toBe(200);
+    expect(body.saved).toBe(false);
+    expect(body.profile).toMatchObject({ name: "Old Bram", speech_tics: expect.any(Array) });
+    expect(body.profile.consistency_checklist.length).toBeGreaterThanOrEqual(3);
+    expect(body.character).toMatchObject({ name: "Old Bram", visual_details: expect.stringMatching(/^Face: .+\nHair: .+\nWardrobe: /) });
+
+    expect(getMockStore().tables.characters.filter((c) => c.user_id === "ana")).toHaveLength(0);
+    expect(getMockStore().tables.cost_ledger).toMatchObject([{ user_id: "ana", service: "openai", unit: "1k_tokens" }]);
+  });
+
+  it("draws a portrait and saves the character for its owner", async () => {
+    const { status, body } = await generate({ description: "a night-shift paramedic", userId: "ana", portrait: true, save: true });
+    expect(status).toBe(201);
+    expect(body.character).toMatchObject({ user_id: "ana", system: false, consistency_checklist: body.profile.consistency_checklist });
+
+    const path = decodeURIComponent(new URL(body.character.reference_image).pathname.replace("/api/mock-storage/images/", ""));
+    expect(path).toMatch(/^characters\/generated\/.+\.png$/);
+    expect(getMockStorageObject("images", path)).toMatchObject({ contentType: "image/png" });
+    expect(getMockStore().tables.cost_ledger.map((row) => row.unit)).toEqual(["1k_tokens", "image"]);
+  });
+
+  it.each([
+    [{ description: "ab" }, "description must be 3 to 1000 characters"],
+    [{ description: "a night-shift paramedic", save: true }, "userId is required to save the character"],
+    [{ description: "a night-shift paramedic", portrait: "yes" }, "portrait and save must be true or false"],
+    [{ description: "a night-shift paramedic", userId: "a" }, "userId must be a name of 2 to 100 characters"]
+  ])("rejects %j with 400", async (body, message) => {
+    const { status, body: response } = await generate(body);
+    expect(status).toBe(400);
+    expect(response.error).toBe(message);
+    expect(getMockStore().tables.cost_ledger).toHaveLength(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/costs/route";
+import { getMockStore } from "@/lib/mockBackend";
+import { getRequest } from "../helpers";
+
+const ledgerRow = (created_at, amount, user_id = "ana", model = "luma/dream-machine") =>
+  getMockStore().tables.cost_ledger.push({ id: `${created_at}-${user_id}`, user_id, service: "replicate", model, amount, created_at });
+
+const get = async (query = "") => {
+  const response = await GET(getRequest(`/api/costs${query}`));
+  return { status: response.status, body: await response.json() };
+};
+
+describe("GET /api/costs", () => {
+  it("aggregates the ledger by user, model and day", async () => {
+    ledgerRow("2026-03-14T10:00:00.000Z", 0.5);
+    ledgerRow("2026-03-15T10:00:00.000Z", 0.25, "ben", "gpt-4o-mini");
+
+    const { status, body } = await get();
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ total: 0.75, calls: 2 });
+    expect(body.byUser.map((row) => row.userId)).toEqual(["ana", "ben"]);
+    expect(body.byModel.map((row) => row.model)).toEqual(["gpt-4o-mini", "luma/dream-machine"]);
+    expect(body.byDay).toEqual([
+      { day: "2026-03-14", amount: 0.5, calls: 1 },
+      { day: "2026-03-15", amount: 0.25, calls: 1 }
+    ]);
+  });
+
+  it("includes the whole day given as to", async () => {
+    ledgerRow("2026-03-14T10:00:00.000Z", 0.5);
+    ledgerRow("2026-03-15T23:00:00.000Z", 0.25);
+    ledgerRow("2026-03-16T00:00:00.000Z", 1);
+
+    const { body } = await get("?from=2026-03-15&to=2026-03-15&userId=ana");
+    expect(body.filters).toMatchObject({ userId: "ana", from: "2026-03-15T00:00:00.000Z", to: "2026-03-16T00:00:00.000Z" });
+    expect(body).toMatchObject({ total: 0.25, calls: 1 });
+  });
+
+  it("shows estimated against provider-reported cost per model", async () => {
+    getMockStore().tables.cost_ledger.push(
+      { id: "render-1", user_id: "ana", service: "replicate", model: "stability-ai/svd", amount: 0.06, created_at: "2026-03-14T10:00:00.000Z",
+        prediction_id: "p-1", prediction_status: "succeeded", estimated_amount: 0.048, provider_cost: 0.06 },
+      { id: "render-2", user_id: "ana", service: "replicate", model: "stability-ai/svd", amount: 0.014, created_at: "2026-03-14T10:01:00.000Z",
+        prediction_id: "p-2", prediction_status: "failed", estimated_amount: 0, provider_cost: 0.014 }
+    );
+
+    const { body } = await get();
+    expect(body.calls).toBe(2);
+    expect(body.drift).toMatchObject([{ model: "stability-ai/svd", predictions: 2, reported: 2, failedCharged: 1 }]);
+    expect(body.drift[0].drift).toBeCloseTo(0.026);
+    expect(body.drift[0].failedCost).toBeCloseTo(0.014);
+  });
+
+  it.each([
+    ["?from=yesterday", "from must be a date"],
+    ["?from=2026-03-15&to=2026-03-14", "from must be before to"]
+  ])("rejects %s with 400", async (query, message) => {
+    const { status, body } = await get(query);
+    expect(status).toBe(400);
+    expect(body.error).toContain(message);
+  });
+});
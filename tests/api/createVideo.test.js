@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/create-video/route";
+import { getJobsManager } from "@/lib/generationJobs";
+import { getBudgetManager, MAX_BUDGET_EXPORT as MAX_BUDGET } from "@/lib/budgetManager";
+import { getRateLimiter, RATE_LIMITS } from "@/lib/rateLimiter";
+import { estimateMovie } from "@/lib/videoEngine";
+import { ARIS_ID, jsonRequest } from "../helpers";
+
+// Queued jobs stay queued - the worker's polling loop isn't part of these tests
+vi.mock("@/lib/jobWorker", () => ({ startJobWorker: vi.fn() }));
+
+const validBody = {
+  userName: "Ana",
+  baseStoryPrompt: "A lost robot searches for its maker",
+  characterIds: [ARIS_ID],
+  totalDurationSeconds: 30,
+  sceneDuration: 6
+};
+
+const post = async (body) => {
+  const response = await POST(jsonRequest("/api/create-video", body));
+  return { status: response.status, body: await response.json() };
+};
+
+describe("POST /api/create-video", () => {
+  it.each([
+    [{ userName: "A" }, "User name must be at least 2 characters"],
+    [{ baseStoryPrompt: "too short" }, "Story prompt must be at least 10 characters"],
+    [{ characterIds: [] }, "At least one character ID is required"],
+    [{ mode: "trailer" }, 'Mode must be "movie" or "storyboard"'],
+    [{ transition: { type: "spin" } }, "Unknown transition"],
+    [{ keyframes: "first_frame" }, "keyframes must be one of: last_frame, generated"]
+  ])("rejects %j with 400", async (override, message) => {
+    const { status, body } = await post({ ...validBody, ...override });
+    expect(status).toBe(400);
+    expect(body.error).toContain(message);
+  });
+
+  it("rejects estimates above the maximum budget", async () => {
+    const { status, body } = await post({ ...validBody, totalDurationSeconds: 7200 });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/exceeds maximum budget/);
+    expect(body.maxBudget).toBe(MAX_BUDGET);
+  });
+
+  it("rejects requests once the user's daily budget is nearly spent", async () => {
+    await getBudgetManager().trackCost("replicate", 4.99, { userId: "Ana" });
+    const { status, body } = await post(validBody);
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^Insufficient budget remaining. User "Ana" daily budget exceeded/);
+    expect(body.budget).toMatchObject({ scopeType: "user", scopeId: "Ana", period: "daily" });
+  });
+
+  it("checks the team budget when a team is given", async () => {
+    await getBudgetManager().setScopeLimits("team", "studio", { monthly: 0.1 });
+
+    expect((await post(validBody)).status).toBe(202);
+    const { status, body } = await post({ ...validBody, teamId: "studio" });
+    expect(status).toBe(400);
+    expect(body.budget).toMatchObject({ scopeType: "team", scopeId: "studio", period: "monthly" });
+
+    expect((await post({ ...validBody, teamId: 42 })).body.error).toBe("teamId must be a non-empty string of at most 100 characters");
+  });
+
+  it("answers 429 when the Replicate rate limit is hit", async () => {
+    const limiter = getRateLimiter();
+    for (let i = 0; i < RATE_LIMITS.replicate.requestsPerMinute; i++) await limiter.acquire("replicate", { model: "google/veo-3.1-fast" });
+
+    const { status, body } = await post(validBody);
+    expect(status).toBe(429);
+    expect(body.error).toMatch(/^Replicate rate limit/);
+    expect(body.retryAfter).toBeGreaterThan(0);
+  });
+
+  it("checks the rate limit without using up a slot", async () => {
+    for (let i = 0; i < RATE_LIMITS.replicate.requestsPerMinute + 1; i++) {
+      expect((await post(validBody)).status).toBe(202);
+    }
+  });
+
+  it("queues the job and returns 202 with its id", async () => {
+    const { status, body } = await post(validBody);
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ success: true, status: "queued" });
+
+    const job = await getJobsManager().getPersistedJob(body.jobId);
+    expect(job.user_id).toBe("Ana");
+    expect(job.metadata.request).toMatchObject({ characterIds: [ARIS_ID], totalDurationSeconds: 30, sceneDuration: 6, teamId: null });
+  });
+
+  it("prices the request the way the worker reserves it", async () => {
+    // Veo renders 4, 6 or 8 seconds: 5s scenes become 4s ones
+    const request = { totalDurationSeconds: 12, sceneDuration: 5, modelChain: ["google/veo-3.1-fast"] };
+    const { status, body } = await post({ ...validBody, ...request });
+    expect(status).toBe(202);
+    expect(body.budget.estimated.total).toBeCloseTo(estimateMovie(request).cost.total, 10);
+
+    expect((await post({ ...validBody, modelChain: ["nope/unknown"] })).body.error).toBe("No enabled video models available");
+  });
+
+  it("queues a script-only job in storyboard mode", async () => {
+    const { status, body } = await post({ ...validBody, mode: "storyboard" });
+    expect(status).toBe(202);
+    expect(body.budget.estimated.video).toBe(0);
+
+    const job = await getJobsManager().getPersistedJob(body.jobId);
+    expect(job.metadata.request.mode).toBe("storyboard");
+  });
+
+  it("answers 500 for a body that isn't JSON", async () => {
+    const response = await POST(jsonRequest("/api/create-video", "{not json"));
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/estimate/route";
+import { getBudgetManager } from "@/lib/budgetManager";
+import { jsonRequest } from "../helpers";
+
+const post = async (body) => {
+  const response = await POST(jsonRequest("/api/estimate", body));
+  return { status: response.status, body: await response.json() };
+};
+
+describe("POST /api/estimate", () => {
+  it.each([
+    [{ totalDurationSeconds: 0 }, "totalDurationSeconds must be a positive number"],
+    [{ sceneDuration: 2 }, "sceneDuration must be a number between 4 and 30"],
+    [{ modelChain: ["nope/unknown"] }, "unknown: nope/unknown"],
+    [{ mode: "trailer" }, 'Mode must be "movie" or "storyboard"'],
+    [{ teamId: "" }, "teamId must be a non-empty string of at most 100 characters"],
+    [{ keyframes: "storyboard" }, "keyframes must be one of: last_frame, generated"]
+  ])("rejects %j with 400", async (body, message) => {
+    const { status, body: response } = await post(body);
+    expect(status).toBe(400);
+    expect(response.error).toContain(message);
+  });
+
+  it("returns the breakdown and that the budget allows it", async () => {
+    const { status, body } = await post({ userName: "Ana", totalDurationSeconds: 30, sceneDuration: 10, modelChain: ["google/veo-3.1-fast"] });
+    expect(status).toBe(200);
+    expect(body.estimate).toMatchObject({ scenes: 5, sceneDuration: 6, durationSeconds: 30 });
+    expect(body.estimate.models[0]).toMatchObject({ model: "google/veo-3.1-fast", perSecond: 0.015 });
+    expect(body.estimate.models[0].videoCost).toBeCloseTo(0.45, 10);
+    expect(body.budget).toMatchObject({ allowed: true, reason: null, worstCaseAllowed: true, remaining: 5 });
+  });
+
+  it("adds an image per scene after the first for generated keyframes", async () => {
+    const { body } = await post({ totalDurationSeconds: 30, sceneDuration: 6, modelChain: ["google/veo-3.1-fast"], keyframes: "generated" });
+    expect(body.estimate.keyframes).toBe("generated");
+    expect(body.estimate.cost.images).toBeCloseTo(4 * 0.063, 10);
+    expect(body.estimate.cost.total).toBeCloseTo(body.estimate.cost.openai + body.estimate.cost.video + body.estimate.cost.images, 10);
+
+    // Text-to-video models never start from an image, so there is nothing to generate
+    const textOnly = await post({ totalDurationSeconds: 30, sceneDuration: 6, modelChain: ["anotherjesse/zeroscope-v2-xl"], keyframes: "generated" });
+    expect(textOnly.body.estimate).toMatchObject({ keyframes: null, cost: { images: 0 } });
+  });
+
+  it("says why the budget doesn't allow it", async () => {
+    await getBudgetManager().trackCost("replicate", 4.9, { userId: "Ana" });
+    const { body } = await post({ userName: "Ana", totalDurationSeconds: 60, sceneDuration: 6 });
+    expect(body.budget).toMatchObject({ allowed: false, scopeType: "user", scopeId: "Ana", period: "daily" });
+    expect(body.budget.reason).toMatch(/^Insufficient budget remaining. User "Ana" daily budget exceeded/);
+    expect(getBudgetManager().getBudgetStatus().current).toBe(4.9);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import { GET as listJobs } from "@/app/api/jobs/route";
+import { GET as getJob } from "@/app/api/jobs/[id]/route";
+import { GET as streamJobEvents } from "@/app/api/jobs/[id]/events/route";
+import { POST as resumeJob } from "@/app/api/jobs/[id]/resume/route";
+import { POST as abortVideo } from "@/app/api/abort-video/route";
+import { getJobsManager } from "@/lib/generationJobs";
+import { MISSING_ID, getRequest, jsonRequest, routeParams } from "../helpers";
+
+vi.mock("@/lib/jobWorker", () => ({ startJobWorker: vi.fn() }));
+
+const enqueue = (userId = "ana") =>
+  getJobsManager().enqueueJob({
+    userId,
+    prompt: "A lost robot searches for its maker",
+    request: { totalDurationSeconds: 30, sceneDuration: 6 }
+  });
+
+describe("GET /api/jobs", () => {
+  it("rejects unknown statuses", async () => {
+    const response = await listJobs(getRequest("/api/jobs?status=running,sleeping"));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('Invalid status "sleeping"');
+  });
+
+  it("lists job summaries filtered by user", async () => {
+    await enqueue("ana");
+    await enqueue("ben");
+    const body = await (await listJobs(getRequest("/api/jobs?userId=ben&status=queued"))).json();
+    expect(body.jobs).toHaveLength(1);
+    expect(body.jobs[0]).toMatchObject({ userId: "ben", status: "queued", mode: "movie" });
+  });
+
+  it.each(["abc", "0", "-5", "1.5", ""])("rejects limit=%s", async (limit) => {
+    const response = await listJobs(getRequest(`/api/jobs?limit=${limit}`));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("limit must be a positive whole number");
+  });
+
+  it("caps the page size at 100 jobs", async () => {
+    const listed = vi.spyOn(getJobsManager(), "listJobs");
+    const response = await listJobs(getRequest("/api/jobs?limit=5000"));
+    expect(response.status).toBe(200);
+    expect(listed).toHaveBeenCalledWith(expect.objectContaining({ limit: 100 }));
+  });
+});
+
+describe("GET /api/jobs/[id]", () => {
+  it("validates the id and answers 404 for unknown jobs", async () => {
+    expect((await getJob(getRequest("/api/jobs/x"), routeParams({ id: "x" }))).status).toBe(400);
+    expect((await getJob(getRequest(`/api/jobs/${MISSING_ID}`), routeParams({ id: MISSING_ID }))).status).toBe(404);
+  });
+
+  it("returns the job summary", async () => {
+    const job = await enqueue();
+    const response = await getJob(getRequest(`/api/jobs/${job.id}`), routeParams({ id: job.id }));
+    expect((await response.json()).job).toMatchObject({ id: job.id, status: "queued", elapsed: 0 });
+  });
+});
+
+describe("GET /api/jobs/[id]/events", () => {
+  it("rejects ids that aren't UUIDs with 400", async () => {
+    const response = await streamJobEvents(getRequest("/api/jobs/x/events"), routeParams({ id: "x" }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid job ID format. Expected UUID.");
+  });
+
+  it("answers 404 for unknown jobs", async () => {
+    const response = await streamJobEvents(getRequest(`/api/jobs/${MISSING_ID}/events`), routeParams({ id: MISSING_ID }));
+    expect(response.status).toBe(404);
+  });
+
+  it("sends a snapshot and a done event for finished jobs", async () => {
+    const job = await enqueue();
+    await getJobsManager().updateJob(job.id, { status: "completed", result: { scenes: [], movieId: "movie-1" } });
+
+    const response = await streamJobEvents(getRequest(`/api/jobs/${job.id}/events`), routeParams({ id: job.id }));
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const text = await response.text();
+    expect(text).toContain("event: snapshot");
+    expect(text).toContain(`event: done\ndata: ${JSON.stringify({ status: "completed", movieId: "movie-1", storyboardId: null, error: null })}`);
+  });
+
+  it("forwards live events until done", async () => {
+    const job = await enqueue();
+    const response = await streamJobEvents(getRequest(`/api/jobs/${job.id}/events`), routeParams({ id: job.id }));
+
+    const jobsManager = getJobsManager();
+    jobsManager.emitJobEvent(job.id, "progress", { percentage: 50 });
+    jobsManager.emitJobEvent(job.id, "done", { status: "completed" });
+
+    const text = await response.text();
+    expect(text).toContain(`event: progress\ndata: {"percentage":50}`);
+    expect(text.trim().endsWith(`event: done\ndata: {"status":"completed"}`)).toBe(true);
+  });
+});
+
+describe("POST /api/jobs/[id]/resume", () => {
+  const resume = (id) => resumeJob(jsonRequest(`/api/jobs/${id}/resume`, {}), routeParams({ id }));
+
+  it("puts a paused job back in the queue", async () => {
+    const job = await enqueue();
+    await getJobsManager().updateJob(job.id, { status: "paused" });
+
+    const response = await resume(job.id);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, jobId: job.id, status: "queued" });
+    expect((await getJobsManager().getPersistedJob(job.id)).status).toBe("queued");
+  });
+
+  it("refuses jobs that aren't paused", async () => {
+    const job = await enqueue();
+    const response = await resume(job.id);
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe("Only paused jobs can be resumed (job is queued)");
+  });
+
+  it("validates the id and answers 404 for unknown jobs", async () => {
+    expect((await resume("x")).status).toBe(400);
+    expect((await resume(MISSING_ID)).status).toBe(404);
+  });
+});
+
+describe("POST /api/abort-video", () => {
+  it("requires a job id", async () => {
+    const response = await abortVideo(jsonRequest("/api/abort-video", {}));
+    expect(response.status).toBe(400);
+  });
+
+  it("cancels a queued job", async () => {
+    const job = await enqueue();
+    const response = await abortVideo(jsonRequest("/api/abort-video", { jobId: job.id }));
+    expect(response.status).toBe(200);
+    expect((await getJobsManager().getPersistedJob(job.id)).status).toBe("aborted");
+  });
+
+  it("cancels a paused job", async () => {
+    const job = await enqueue();
+    await getJobsManager().updateJob(job.id, { status: "paused" });
+    expect((await abortVideo(jsonRequest("/api/abort-video", { jobId: job.id }))).status).toBe(200);
+    expect((await getJobsManager().getPersistedJob(job.id)).status).toBe("aborted");
+  });
+
+  it("answers 404 for finished or unknown jobs", async () => {
+    const response = await abortVideo(jsonRequest("/api/abort-video", { jobId: MISSING_ID }));
+    expect(response.status).toBe(404);
+  });
+});
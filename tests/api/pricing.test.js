@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/pricing/route";
+
+describe("GET /api/pricing", () => {
+  it("serves token prices and the enabled video models in fallback order", async () => {
+    const response = await GET();
+    expect(response.status).toBe(200);
+
+    const { pricing } = await response.json();
+    expect(pricing.currency).toBe("USD");
+    expect(pricing.openai).toContainEqual({ model: "gpt-4o-mini", inputPer1kTokens: 0.00015, outputPer1kTokens: 0.0006 });
+    expect(pricing.video[0]).toEqual({
+      model: "google/veo-3.1-fast",
+      name: "Google Veo 3.1 Fast",
+      label: "🏆 Premium Quality",
+      provider: "replicate",
+      perSecond: 0.015
+    });
+    // The placeholder model is only offered in mock mode, which the tests run in
+    expect(pricing.video.at(-1)).toMatchObject({ model: "mock/placeholder", perSecond: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, PUT } from "@/app/api/storyboards/[id]/route";
+import { POST as render } from "@/app/api/storyboards/[id]/render/route";
+import { draftStoryboard, estimateMovie, getStoryboard } from "@/lib/videoEngine";
+import { getJobsManager } from "@/lib/generationJobs";
+import { ARIS_ID, MISSING_ID, getRequest, jsonRequest, routeParams } from "../helpers";
+
+vi.mock("@/lib/jobWorker", () => ({ startJobWorker: vi.fn() }));
+
+describe("storyboard routes", () => {
+  let storyboard;
+
+  beforeEach(async () => {
+    storyboard = await draftStoryboard({
+      baseStoryPrompt: "A lost robot searches for its maker",
+      characterIds: [ARIS_ID],
+      totalDurationSeconds: 18,
+      sceneDuration: 6,
+      userId: "ana"
+    });
+  });
+
+  const put = (id, body) => PUT(jsonRequest(`/api/storyboards/${id}`, body, "PUT"), routeParams({ id }));
+  const postRender = (id, body = {}) => render(jsonRequest(`/api/storyboards/${id}/render`, body), routeParams({ id }));
+
+  describe("GET /api/storyboards/[id]", () => {
+    it("validates the id and answers 404 for unknown storyboards", async () => {
+      expect((await GET(getRequest("/api/storyboards/x"), routeParams({ id: "x" }))).status).toBe(400);
+      expect((await GET(getRequest(`/api/storyboards/${MISSING_ID}`), routeParams({ id: MISSING_ID }))).status).toBe(404);
+    });
+
+    it("returns the draft", async () => {
+      const response = await GET(getRequest(`/api/storyboards/${storyboard.id}`), routeParams({ id: storyboard.id }));
+      expect((await response.json()).storyboard).toMatchObject({ id: storyboard.id, status: "draft" });
+    });
+  });
+
+  describe("PUT /api/storyboards/[id]", () => {
+    it("rejects empty updates and invalid scenes with 400", async () => {
+      expect((await put(storyboard.id, {})).status).toBe(400);
+
+      const response = await put(storyboard.id, { scenes: [{ visual: "" }] });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Scene 1: visual description is required");
+    });
+
+    it("answers 404 for unknown storyboards", async () => {
+      expect((await put(MISSING_ID, { title: "New title" })).status).toBe(404);
+    });
+
+    it("saves reordered scenes and a new title", async () => {
+      const [first, second, third] = storyboard.scenes;
+      const response = await put(storyboard.id, { title: "Reordered", scenes: [third, first, second] });
+      expect(response.status).toBe(200);
+
+      const saved = await getStoryboard(storyboard.id);
+      expect(saved.title).toBe("Reordered");
+      expect(saved.scenes.map((s) => s.id)).toEqual([third.id, first.id, second.id]);
+    });
+  });
+
+  describe("POST /api/storyboards/[id]/render", () => {
+    it("rejects unknown models", async () => {
+      const response = await postRender(storyboard.id, { modelChain: ["nope/unknown"] });
+      expect(response.status).toBe(400);
+    });
+
+    it("charges only the videos, the scripts are already written", async () => {
+      const response = await postRender(storyboard.id, { modelChain: ["google/veo-3.1-fast"] });
+      expect(response.status).toBe(202);
+
+      const { cost } = estimateMovie({ totalDurationSeconds: 18, sceneDuration: 6, modelChain: ["google/veo-3.1-fast"] });
+      const { estimated } = (await response.json()).budget;
+      expect(estimated).toMatchObject({ openai: 0, images: 0 });
+      expect(estimated.total).toBeCloseTo(cost.video, 10);
+    });
+
+    it("queues a render job and refuses a second one while it runs", async () => {
+      const response = await postRender(storyboard.id);
+      expect(response.status).toBe(202);
+      const { jobId } = await response.json();
+
+      const job = await getJobsManager().getPersistedJob(jobId);
+      expect(job.metadata.request).toMatchObject({ storyboardId: storyboard.id, totalDurationSeconds: 18 });
+      expect(await getStoryboard(storyboard.id)).toMatchObject({ status: "rendering", job_id: jobId });
+
+      const again = await postRender(storyboard.id);
+      expect(again.status).toBe(409);
+      expect((await again.json()).jobId).toBe(jobId);
+    });
+
+    it("queues only one render when two requests arrive at the same time", async () => {
+      const responses = await Promise.all([postRender(storyboard.id), postRender(storyboard.id)]);
+      expect(responses.map((response) => response.status).sort()).toEqual([202, 409]);
+
+      const queued = await getJobsManager().listJobs({ limit: 10 });
+      expect(queued).toHaveLength(1);
+      expect(await getStoryboard(storyboard.id)).toMatchObject({ status: "rendering", job_id: queued[0].id });
+    });
+  });
+});
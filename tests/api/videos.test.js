@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { GET as listVideos } from "@/app/api/videos/route";
+import { GET as getVideo } from "@/app/api/videos/[id]/route";
+import { POST as assembleVideo } from "@/app/api/videos/[id]/assemble/route";
+import { POST as regenerateVideoScene } from "@/app/api/videos/[id]/scenes/[n]/regenerate/route";
+import { GET as listCharacters } from "@/app/api/characters/route";
+import { GET as getMockFile } from "@/app/api/mock-storage/[bucket]/[...path]/route";
+import { createMovie } from "@/lib/videoEngine";
+import { createMockSupabaseClient } from "@/lib/mockBackend";
+import { ARIS_ID, MISSING_ID, getRequest, jsonRequest, routeParams } from "../helpers";
+
+const makeMovie = async (userId = null) =>
+  (
+    await createMovie({
+      baseStoryPrompt: "A lost robot searches for its maker",
+      characterIds: [ARIS_ID],
+      totalDurationSeconds: 12,
+      sceneDuration: 6,
+      userId,
+      assemble: false
+    })
+  ).movieId;
+
+describe("GET /api/videos", () => {
+  it("lists movies newest first, optionally for one user", async () => {
+    const older = await makeMovie("ana");
+    const newer = await makeMovie("ben");
+
+    const all = await (await listVideos(getRequest("/api/videos"))).json();
+    expect(all.videos.map((v) => v.id)).toEqual([newer, older]);
+
+    const ana = await (await listVideos(getRequest("/api/videos?userId=ana"))).json();
+    expect(ana.videos.map((v) => v.id)).toEqual([older]);
+  });
+});
+
+describe("GET /api/videos/[id]", () => {
+  it("rejects ids that aren't UUIDs", async () => {
+    const response = await getVideo(getRequest("/api/videos/42"), routeParams({ id: "42" }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid video ID format. Expected UUID.");
+  });
+
+  it("answers 404 for unknown movies", async () => {
+    const response = await getVideo(getRequest(`/api/videos/${MISSING_ID}`), routeParams({ id: MISSING_ID }));
+    expect(response.status).toBe(404);
+  });
+
+  it("returns a saved movie", async () => {
+    const id = await makeMovie();
+    const response = await getVideo(getRequest(`/api/videos/${id}`), routeParams({ id }));
+    expect(response.status).toBe(200);
+    expect((await response.json()).video).toMatchObject({ id, successful_scenes: 2 });
+  });
+});
+
+describe("POST /api/videos/[id]/assemble", () => {
+  it("validates the id and transitions before assembling", async () => {
+    const badId = await assembleVideo(jsonRequest("/api/videos/x/assemble", {}), routeParams({ id: "x" }));
+    expect(badId.status).toBe(400);
+
+    const badTransition = await assembleVideo(
+      jsonRequest(`/api/videos/${MISSING_ID}/assemble`, { transition: { type: "crossfade", duration: 99 } }),
+      routeParams({ id: MISSING_ID })
+    );
+    expect(badTransition.status).toBe(400);
+    expect((await badTransition.json()).error).toMatch(/Transition duration must be between/);
+  });
+
+  it("answers 404 for unknown movies", async () => {
+    const response = await assembleVideo(jsonRequest(`/api/videos/${MISSING_ID}/assemble`, {}), routeParams({ id: MISSING_ID }));
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("POST /api/videos/[id]/scenes/[n]/regenerate", () => {
+  const regenerate = (id, n, body = {}) =>
+    regenerateVideoScene(jsonRequest(`/api/videos/${id}/scenes/${n}/regenerate`, body), routeParams({ id, n: String(n) }));
+
+  it.each([
+    ["not-a-uuid", "1", {}, "Invalid video ID format"],
+    [MISSING_ID, "0", {}, "Scene number must be a positive integer"],
+    [MISSING_ID, "1.5", {}, "Scene number must be a positive integer"],
+    [MISSING_ID, "1", { modelChain: [] }, "modelChain must be a non-empty list"],
+    [MISSING_ID, "1", { modelChain: ["nope/unknown"] }, "unknown: nope/unknown"]
+  ])("rejects %s scene %s %j with 400", async (id, n, body, message) => {
+    const response = await regenerate(id, n, body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(message);
+  });
+
+  it("answers 404 for unknown movies and 400 for scenes past the end", async () => {
+    expect((await regenerate(MISSING_ID, 1)).status).toBe(404);
+
+    const id = await makeMovie();
+    const response = await regenerate(id, 5);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/out of range/);
+  });
+
+  it("re-renders the scene", async () => {
+    const id = await makeMovie();
+    const response = await regenerate(id, 2, { modelChain: ["mock/placeholder"] });
+    expect(response.status).toBe(200);
+    expect((await response.json()).scene).toMatchObject({ scene: 2, model: "mock/placeholder" });
+  });
+});
+
+describe("GET /api/characters", () => {
+  it("returns the seeded characters sorted by name", async () => {
+    const body = await (await listCharacters(getRequest("/api/characters"))).json();
+    expect(body.characters).toHaveLength(5);
+    expect(body.characters.map((c) => c.name)).toEqual([...body.characters.map((c) => c.name)].sort());
+  });
+});
+
+describe("GET /api/mock-storage/[bucket]/[...path]", () => {
+  beforeEach(async () => {
+    await createMockSupabaseClient()
+      .storage.from("videos")
+      .upload("videos/clip.mp4", Buffer.from("0123456789"), { contentType: "video/mp4" });
+  });
+
+  const fetchFile = (path, headers = {}) =>
+    getMockFile(getRequest(`/api/mock-storage/videos/${path.join("/")}`, headers), routeParams({ bucket: "videos", path }));
+
+  it("serves a stored file", async () => {
+    const response = await fetchFile(["videos", "clip.mp4"]);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("video/mp4");
+    expect(await response.text()).toBe("0123456789");
+  });
+
+  it("serves byte ranges", async () => {
+    const response = await fetchFile(["videos", "clip.mp4"], { range: "bytes=2-5" });
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe("bytes 2-5/10");
+    expect(await response.text()).toBe("2345");
+
+    expect((await fetchFile(["videos", "clip.mp4"], { range: "bytes=20-" })).status).toBe(416);
+  });
+
+  it("answers 404 for missing files and outside mock mode", async () => {
+    expect((await fetchFile(["videos", "missing.mp4"])).status).toBe(404);
+
+    process.env.VIDEO_ENGINE_MODE = "live";
+    try {
+      expect((await fetchFile(["videos", "clip.mp4"])).status).toBe(404);
+    } finally {
+      process.env.VIDEO_ENGINE_MODE = "mock";
+    }
+  });
+});
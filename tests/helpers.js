@@ -0,0 +1,79 @@
+/**
+ * Shared fixtures: seeded character ids, a scriptable fake video provider and route call helpers
+ */
+
+import { NextRequest } from "next/server";
+import { VideoProvider } from "@/lib/videoProviders";
+
+// Fixed ids of the mock backend's seed characters (see SEED_CHARACTERS in mockBackend.js)
+export const ARIS_ID = "00000000-0000-4000-8000-000000000001";
+export const NOVA_ID = "00000000-0000-4000-8000-000000000005";
+export const MISSING_ID = "11111111-1111-4111-8111-111111111111";
+
+/**
+ * Provider whose predictions follow a script. Each submit takes the next outcome:
+ * "succeed", "fail", "processing" (never finishes) or an Error to throw from submit().
+ */
+export class FakeVideoProvider extends VideoProvider {
+  constructor(name = "replicate", { outcomes = [], configured = true, cost = null } = {}) {
+    super(name);
+    this.outcomes = [...outcomes];
+    this.configured = configured;
+    this.cost = cost;
+    this.submitted = [];
+    this.canceled = [];
+  }
+
+  isConfigured() {
+    return this.configured;
+  }
+
+  async submit(modelName, input) {
+    const outcome = this.outcomes.length > 0 ? this.outcomes.shift() : "succeed";
+    if (outcome instanceof Error) throw outcome;
+
+    const id = `fake-${this.submitted.length + 1}`;
+    this.submitted.push({ id, modelName, input });
+    if (outcome === "fail") return { id, status: "failed", error: `${modelName} exploded` };
+    if (outcome === "processing") return { id, status: "processing" };
+    return { id, status: "succeeded", output: `https://clips.test/${modelName}/${id}.mp4`, metrics: { predict_time: 1 } };
+  }
+
+  async poll(predictionId) {
+    return { id: predictionId, status: "processing" };
+  }
+
+  async cancel(predictionId) {
+    this.canceled.push(predictionId);
+    return { id: predictionId, status: "canceled" };
+  }
+
+  getCostReport(prediction, options) {
+    const report = super.getCostReport(prediction, options);
+    return this.cost === null ? report : { ...report, actual: this.cost };
+  }
+}
+
+/**
+ * Clients object for functions that take `clients` (generateSceneVideo, saveVideo, ...)
+ */
+export function fakeClients(providers = {}) {
+  return { videoProviders: { replicate: new FakeVideoProvider("replicate"), ...providers } };
+}
+
+export function jsonRequest(url, body, method = "POST", headers = {}) {
+  return new NextRequest(new URL(url, "http://localhost:3000"), {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body)
+  });
+}
+
+export function getRequest(url, headers = {}) {
+  return new NextRequest(new URL(url, "http://localhost:3000"), { headers });
+}
+
+// Second argument Next.js passes to dynamic route handlers
+export function routeParams(params) {
+  return { params: Promise.resolve(params) };
+}
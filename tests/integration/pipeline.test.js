@@ -0,0 +1,296 @@
+import { chmodSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createMovie,
+  draftStoryboard,
+  getMovie,
+  getRecentMovies,
+  getStoryboard,
+  regenerateScene,
+  updateStoryboard
+} from "@/lib/videoEngine";
+import { getMockStorageObject, getMockStore } from "@/lib/mockBackend";
+import { getBudgetManager } from "@/lib/budgetManager";
+import { extractLastFrame } from "@/lib/movieAssembler";
+import { ARIS_ID, MISSING_ID, NOVA_ID } from "../helpers";
+
+// End to end through the real engine code, with the offline mock backend as the only fake
+const movieOptions = {
+  baseStoryPrompt: "A lost robot searches for its maker",
+  characterIds: [ARIS_ID, NOVA_ID],
+  totalDurationSeconds: 18,
+  sceneDuration: 6,
+  assemble: false
+};
+
+// Stands in for ffmpeg: logs the clip it was given and writes a frame to the output path
+const fakeFfmpeg = () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "fake-ffmpeg-"));
+  const bin = path.join(dir, "ffmpeg");
+  writeFileSync(
+    bin,
+    `#!/usr/bin/env node
+const args = process.argv.slice(2);
+require("fs").appendFileSync(${JSON.stringify(path.join(dir, "inputs.log"))}, args[args.indexOf("-i") + 1] + "\\n");
+require("fs").writeFileSync(args[args.length - 1], "frame");
+`
+  );
+  chmodSync(bin, 0o755);
+  return { bin, inputs: () => readFileSync(path.join(dir, "inputs.log"), "utf8").trim().split("\n") };
+};
+
+const storagePath = (url) => decodeURIComponent(new URL(url).pathname.replace("/api/mock-storage/videos/", ""));
+
+describe("createMovie (mock mode)", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("scripts, renders and saves every scene", async () => {
+    const onSceneComplete = vi.fn();
+    const result = await createMovie({ ...movieOptions, userId: "ana", onSceneComplete });
+
+    expect(result).toMatchObject({ totalScenes: 3, successfulScenes: 3, failedScenes: 0 });
+    expect(onSceneComplete).toHaveBeenCalledTimes(3);
+
+    const movie = await getMovie(result.movieId);
+    expect(movie).toMatchObject({ status: "completed", total_scenes: 3, successful_scenes: 3, user_id: "ana" });
+    for (const scene of movie.scenes_data) {
+      expect(scene.script).toMatchObject({
+        shots: [expect.objectContaining({ framing: "wide" }), expect.any(Object)],
+        dialogue: [expect.objectContaining({ speaker: expect.stringContaining("Aris"), line: "This is where it changes." }), expect.any(Object)],
+        endHook: scene.endHook,
+        summary: scene.summary,
+        location: expect.any(String),
+        props: ["a folded map"]
+      });
+      expect(getMockStorageObject("videos", storagePath(scene.video_url))?.contentType).toBe("video/mp4");
+    }
+    expect((await getRecentMovies(5)).map((m) => m.id)).toEqual([result.movieId]);
+  });
+
+  it("writes scripts in scene order and reports the pacing with every progress event", async () => {
+    const onProgress = vi.fn();
+    await createMovie({ ...movieOptions, onProgress });
+
+    const events = onProgress.mock.calls.map(([event]) => event);
+    expect(events.filter((e) => e.status === "scripting").map((e) => e.scene)).toEqual([1, 2, 3]);
+    expect(events.every((e) => e.pacing?.provider === "mock" && e.pacing.concurrency >= 2)).toBe(true);
+  });
+
+  it("renders image-to-video models from a character's reference image", async () => {
+    const aris = getMockStore().tables.characters.find((c) => c.id === ARIS_ID);
+    aris.reference_image = "http://localhost:3000/api/mock-storage/images/characters/aris.png";
+
+    const result = await createMovie({ ...movieOptions, modelChain: ["stability-ai/svd"] });
+    const movie = await getMovie(result.movieId);
+    expect(movie.scenes_data.map((s) => [s.model, s.conditioning_image])).toEqual(
+      Array(3).fill(["stability-ai/svd", aris.reference_image])
+    );
+  });
+
+  it("resumes every scene that has no saved result, not just the ones after the last finished scene", async () => {
+    const first = await createMovie(movieOptions);
+    const [scene1, , scene3] = first.scenes;
+
+    const onProgress = vi.fn();
+    const onSceneComplete = vi.fn();
+    const result = await createMovie({ ...movieOptions, resumeScenes: [scene3, scene1], onProgress, onSceneComplete });
+
+    expect(onSceneComplete.mock.calls.map(([scene]) => scene.scene)).toEqual([2]);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ status: "resumed", pendingScenes: [2] }));
+    expect(result).toMatchObject({ totalScenes: 3, successfulScenes: 3 });
+    const movie = await getMovie(result.movieId);
+    expect(movie.scenes_data.map((s) => s.scene)).toEqual([1, 2, 3]);
+  });
+
+  it("starts each later scene from a keyframe generated from the previous script", async () => {
+    const aris = getMockStore().tables.characters.find((c) => c.id === ARIS_ID);
+    aris.reference_image = "http://localhost:3000/api/mock-storage/images/characters/aris.png";
+
+    const result = await createMovie({ ...movieOptions, userId: "ana", modelChain: ["stability-ai/svd"], keyframes: "generated" });
+    const [first, ...later] = (await getMovie(result.movieId)).scenes_data;
+    expect(first).toMatchObject({ conditioning_image: aris.reference_image, keyframe: null });
+    for (const scene of later) {
+      expect(scene.keyframe).toMatchObject({ source: "generated", fromScene: scene.scene - 1 });
+      expect(scene.conditioning_image).toBe(scene.keyframe.url);
+      const path = decodeURIComponent(new URL(scene.keyframe.url).pathname.replace("/api/mock-storage/images/", ""));
+      expect(path).toMatch(new RegExp(`^keyframes/${result.movieId}/scene-${scene.scene}-`));
+      expect(getMockStorageObject("images", path)?.contentType).toBe("image/png");
+    }
+
+    const images = getMockStore().tables.cost_ledger.filter((row) => row.unit === "image");
+    expect(images.map((row) => [row.scene_number, row.model, row.user_id])).toEqual([
+      [2, "gpt-image-1", "ana"],
+      [3, "gpt-image-1", "ana"]
+    ]);
+  });
+
+  it("starts each later scene from the previous clip's last frame", async () => {
+    const ffmpeg = fakeFfmpeg();
+    vi.stubEnv("FFMPEG_PATH", ffmpeg.bin);
+
+    const result = await createMovie({ ...movieOptions, modelChain: ["luma/dream-machine"], keyframes: "last_frame" });
+    const [first, ...later] = (await getMovie(result.movieId)).scenes_data;
+    expect(first.keyframe).toBeNull();
+    for (const scene of later) {
+      expect(scene.keyframe).toMatchObject({ source: "last_frame", fromScene: scene.scene - 1 });
+      expect(scene.conditioning_image).toBe(scene.keyframe.url);
+    }
+    // Frames come from the provider's local clips (mock provider), one per scene after the first
+    expect(ffmpeg.inputs()).toHaveLength(2);
+    expect(ffmpeg.inputs().every((input) => input.endsWith(".mp4") && !input.startsWith("file:"))).toBe(true);
+  });
+
+  it("only takes last frames from local clips inside the mock clips directory", async () => {
+    const ffmpeg = fakeFfmpeg();
+    await expect(extractLastFrame({ ffmpegPath: ffmpeg.bin }, "file:///etc/passwd")).rejects.toThrow(
+      "outside the mock clips directory"
+    );
+
+    vi.stubEnv("VIDEO_ENGINE_MODE", "live");
+    const clip = path.join(process.cwd(), "public", "mock-clips", "scene-1.mp4");
+    await expect(extractLastFrame({ ffmpegPath: ffmpeg.bin }, `file://${clip}`)).rejects.toThrow("only accepted in mock mode");
+  });
+
+  it("falls back to the reference image when a keyframe can't be made", async () => {
+    const aris = getMockStore().tables.characters.find((c) => c.id === ARIS_ID);
+    aris.reference_image = "http://localhost:3000/api/mock-storage/images/characters/aris.png";
+    vi.stubEnv("FFMPEG_PATH", "/nonexistent/ffmpeg");
+
+    const result = await createMovie({ ...movieOptions, modelChain: ["luma/dream-machine"], keyframes: "last_frame" });
+    const movie = await getMovie(result.movieId);
+    expect(movie.successful_scenes).toBe(3);
+    expect(movie.scenes_data[1]).toMatchObject({
+      conditioning_image: aris.reference_image,
+      keyframe: { source: "last_frame", fromScene: 1, error: expect.stringMatching(/^Failed to start \/nonexistent\/ffmpeg/) }
+    });
+  });
+
+  it("locks every video prompt to the characters' consistency checklists", async () => {
+    const aris = getMockStore().tables.characters.find((c) => c.id === ARIS_ID);
+    aris.profile = { ...aris.profile, consistency_checklist: ["cracked left lens of his glasses"] };
+
+    const result = await createMovie({ ...movieOptions, characterIds: [ARIS_ID] });
+    expect(result.scenes.every((scene) => scene.prompt.includes("- MUST: cracked left lens of his glasses"))).toBe(true);
+  });
+
+  it("is deterministic for the same request", async () => {
+    const first = await getMovie((await createMovie(movieOptions)).movieId);
+    const second = await getMovie((await createMovie(movieOptions)).movieId);
+    expect(second.scenes_data.map((s) => s.script)).toEqual(first.scenes_data.map((s) => s.script));
+  });
+
+  it("charges every script to the owner's ledger and refuses work past their budget", async () => {
+    const result = await createMovie({ ...movieOptions, userId: "ana", teamId: "studio" });
+    const ledger = getMockStore().tables.cost_ledger;
+    expect(ledger.filter((row) => row.service === "openai")).toHaveLength(3);
+    expect(ledger.every((row) => row.user_id === "ana" && row.team_id === "studio")).toBe(true);
+    expect((await getMovie(result.movieId)).metadata.team_id).toBe("studio");
+
+    await getBudgetManager().setScopeLimits("team", "studio", { lifetime: 0 });
+    await expect(createMovie({ ...movieOptions, userId: "ana", teamId: "studio" })).rejects.toThrow(
+      /Insufficient budget remaining. Team "studio" lifetime budget exceeded/
+    );
+  });
+
+  it("costs each movie from its own ledger entries", async () => {
+    const first = await getMovie((await createMovie(movieOptions)).movieId);
+    const second = await getMovie((await createMovie(movieOptions)).movieId);
+
+    const ledger = getMockStore().tables.cost_ledger;
+    const spentOn = (movieId) => ledger.filter((row) => row.movie_id === movieId).reduce((sum, row) => sum + row.amount, 0);
+    // One script call and one render per scene (renders overlap, so the ledger order varies)
+    expect(ledger.filter((row) => row.movie_id === first.id).map((row) => `${row.scene_number}:${row.service}`).sort()).toEqual([
+      "1:mock",
+      "1:openai",
+      "2:mock",
+      "2:openai",
+      "3:mock",
+      "3:openai"
+    ]);
+    expect(first.metadata.cost).toBeGreaterThan(0);
+    expect(first.metadata.cost).toBeCloseTo(spentOn(first.id), 10);
+    expect(second.metadata.cost).toBeCloseTo(first.metadata.cost, 10);
+  });
+
+  it("validates its input before doing any work", async () => {
+    await expect(createMovie({ ...movieOptions, baseStoryPrompt: "short" })).rejects.toThrow("at least 10 characters");
+    await expect(createMovie({ ...movieOptions, characterIds: [] })).rejects.toThrow("At least one character ID");
+  });
+
+  it("records an aborted movie without rendering any scene", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await createMovie({ ...movieOptions, abortSignal: controller.signal });
+    expect(result.successfulScenes).toBe(0);
+    expect(await getMovie(result.movieId)).toMatchObject({ status: "aborted", successful_scenes: 0, scenes_data: [] });
+  });
+});
+
+describe("regenerateScene (mock mode)", () => {
+  it("replaces one scene and keeps the old clip in its history", async () => {
+    const { movieId } = await createMovie(movieOptions);
+    const before = await getMovie(movieId);
+
+    const { movie, scene } = await regenerateScene(movieId, 2, { rewrite: true });
+
+    expect(scene.scene).toBe(2);
+    expect(scene.history).toHaveLength(1);
+    expect(scene.history[0].video_url).toBe(before.scenes_data[1].video_url);
+    expect(movie.final_video_url).toBeNull();
+    expect(movie.scenes_data[0]).toEqual(before.scenes_data[0]);
+  });
+
+  it("keeps every result when scenes are regenerated at the same time", async () => {
+    const { movieId } = await createMovie(movieOptions);
+    const before = await getMovie(movieId);
+
+    const results = await Promise.all([
+      regenerateScene(movieId, 1, { rewrite: true }),
+      regenerateScene(movieId, 2, { rewrite: true }),
+      regenerateScene(movieId, 2, { rewrite: true })
+    ]);
+
+    const movie = await getMovie(movieId);
+    const [first, second] = movie.scenes_data;
+    expect(first).toMatchObject({ video_url: results[0].scene.video_url, history: [expect.objectContaining({ video_url: before.scenes_data[0].video_url })] });
+    // The later save of scene 2 keeps the earlier one in its history instead of overwriting it
+    expect(second.history.map((entry) => entry.video_url)).toEqual([before.scenes_data[1].video_url, expect.any(String)]);
+    expect([results[1].scene.video_url, results[2].scene.video_url]).toContain(second.video_url);
+    expect(movie.scenes_data[2]).toEqual(before.scenes_data[2]);
+  });
+
+  it("rejects unknown movies and out-of-range scenes", async () => {
+    const { movieId } = await createMovie(movieOptions);
+    await expect(regenerateScene(MISSING_ID, 1)).rejects.toThrow(/^Movie not found/);
+    await expect(regenerateScene(movieId, 9)).rejects.toThrow(/out of range/);
+  });
+});
+
+describe("storyboard workflow (mock mode)", () => {
+  it("drafts, edits and renders a storyboard as written", async () => {
+    const { id: storyboardId } = await draftStoryboard({ ...movieOptions, userId: "ana" });
+    const draft = await getStoryboard(storyboardId);
+    expect(draft.status).toBe("draft");
+    expect(draft.scenes).toHaveLength(3);
+
+    const edited = await updateStoryboard(storyboardId, {
+      scenes: [{ ...draft.scenes[0], visual: "A hand-written opening shot." }, draft.scenes[2]]
+    });
+    expect(edited.scenes).toHaveLength(2);
+
+    const result = await createMovie({ ...movieOptions, storyboard: edited.scenes, storyboardId });
+    expect(result.totalScenes).toBe(2);
+
+    const movie = await getMovie(result.movieId);
+    expect(movie.scenes_data[0].script).toMatchObject({
+      visual: "A hand-written opening shot.",
+      dialogue: [expect.objectContaining({ speaker: expect.stringContaining("Aris"), line: "This is where it changes." }), expect.any(Object)],
+      shots: []
+    });
+    expect(await getStoryboard(storyboardId)).toMatchObject({ status: "rendered", movie_id: result.movieId });
+  });
+});
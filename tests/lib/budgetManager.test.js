@@ -0,0 +1,470 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BudgetManager,
+  GLOBAL_SCOPE_ID,
+  MAX_BUDGET_EXPORT as MAX_BUDGET,
+  getOwnerScopes,
+  getPeriodStart
+} from "@/lib/budgetManager";
+import { verifyWebhookSignature } from "@/lib/budgetWebhooks";
+import { getMockStore } from "@/lib/mockBackend";
+
+describe("BudgetManager", () => {
+  let budget;
+
+  beforeEach(() => {
+    budget = new BudgetManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe("calculateEstimatedCost", () => {
+    it("prices every scene at the model's per-second rate", () => {
+      const estimate = budget.calculateEstimatedCost(30, 6, "google/veo-3.1-fast");
+      expect(estimate.scenes).toBe(5);
+      expect(estimate.video).toBeCloseTo(5 * 6 * 0.015);
+      expect(estimate.total).toBeCloseTo(estimate.video + estimate.openai);
+    });
+
+    it("rounds a partial last scene up", () => {
+      expect(budget.calculateEstimatedCost(20, 6, "luma/dream-machine").scenes).toBe(4);
+    });
+
+    it("prices unknown models like the cheapest fallback", () => {
+      expect(budget.getModelCost("nope/unknown")).toEqual(budget.getModelCost("anotherjesse/zeroscope-v2-xl"));
+    });
+
+    it("makes the mock model free", () => {
+      expect(budget.calculateEstimatedCost(60, 6, "mock/placeholder").video).toBe(0);
+    });
+
+    it("prices a generated keyframe for every scene after the first", () => {
+      const estimate = budget.calculateEstimatedCost(30, 6, "luma/dream-machine", "gpt-4o-mini", { keyframes: "generated" });
+      expect(estimate.images).toBeCloseTo(4 * 0.063, 10);
+      expect(estimate.total).toBeCloseTo(estimate.video + estimate.openai + estimate.images, 10);
+      expect(budget.calculateEstimatedCost(30, 6, "luma/dream-machine", "gpt-4o-mini", { keyframes: "last_frame" }).images).toBe(0);
+    });
+  });
+
+  describe("trackCost", () => {
+    it("accumulates spend and reports what is left", async () => {
+      await budget.trackCost("replicate", 1.25);
+      await budget.trackCost("openai", 0.25);
+      expect(budget.getBudgetStatus()).toEqual({
+        current: 1.5,
+        max: MAX_BUDGET,
+        remaining: MAX_BUDGET - 1.5,
+        percentage: (1.5 / MAX_BUDGET) * 100
+      });
+    });
+
+    it("writes each charge to the ledger under its owner", async () => {
+      await budget.trackCost("replicate", 1.25, { userId: "ana", teamId: "studio" });
+      await budget.trackCost("openai", 0.25);
+      expect(getMockStore().tables.cost_ledger).toMatchObject([
+        { user_id: "ana", team_id: "studio", project_id: null, service: "replicate", amount: 1.25 },
+        { user_id: "anonymous", team_id: null, service: "openai", amount: 0.25 }
+      ]);
+    });
+
+    it("records spend past the caps instead of throwing", async () => {
+      await budget.trackCost("replicate", MAX_BUDGET + 1, { userId: "ana" });
+      expect((await budget.getScopeSpend("user", "ana")).daily).toBe(MAX_BUDGET + 1);
+    });
+
+    it("prices OpenAI tokens by model and records the call's usage", async () => {
+      await budget.trackOpenAICost({ inputTokens: 600, outputTokens: 400 }, "gpt-4o", { userId: "ana", movieId: "m-1", sceneNumber: 2 });
+      // 0.6K input tokens at $0.0025 plus 0.4K output tokens at $0.01
+      expect(budget.getBudgetStatus().current).toBeCloseTo(0.0055, 6);
+      expect(getMockStore().tables.cost_ledger[0]).toMatchObject({
+        movie_id: "m-1",
+        scene_number: 2,
+        model: "gpt-4o",
+        input_tokens: 600,
+        output_tokens: 400,
+        unit: "1k_tokens",
+        unit_price: 0.0025,
+        output_unit_price: 0.01
+      });
+    });
+
+    it("records seconds and the per-second price of video calls", async () => {
+      await budget.trackReplicateCost(6, "luma/dream-machine", { userId: "ana" });
+      expect(getMockStore().tables.cost_ledger[0]).toMatchObject({ model: "luma/dream-machine", seconds: 6, unit: "second", unit_price: 0.01 });
+      expect(getMockStore().tables.cost_ledger[0].amount).toBeCloseTo(0.06);
+    });
+
+    it("records generated images at their per-image price", async () => {
+      await budget.trackImageCost(2, "gpt-image-1", { userId: "ana", sceneNumber: 3 });
+      expect(getMockStore().tables.cost_ledger[0]).toMatchObject({ service: "openai", model: "gpt-image-1", unit: "image", unit_price: 0.063, scene_number: 3 });
+      expect(getMockStore().tables.cost_ledger[0].amount).toBeCloseTo(0.126, 10);
+    });
+
+    it("starts over after reset", async () => {
+      await budget.trackCost("replicate", 2);
+      budget.reset();
+      expect(budget.getBudgetStatus().current).toBe(0);
+    });
+  });
+
+  describe("cost ledger", () => {
+    it("totals the spend of one job, movie or storyboard", async () => {
+      await budget.trackCost("replicate", 0.5, { jobId: "j-1", movieId: "m-1" });
+      await budget.trackCost("openai", 0.25, { jobId: "j-1", movieId: "m-1" });
+      await budget.trackCost("replicate", 1, { movieId: "m-2" });
+
+      expect(await budget.getLedgerTotal({ movieId: "m-1" })).toBe(0.75);
+      expect(await budget.getLedgerTotal({ jobId: "j-1" })).toBe(0.75);
+      expect(await budget.getLedgerTotal({ storyboardId: "s-1" })).toBe(0);
+      await expect(budget.getLedgerTotal()).rejects.toThrow(/id is required/);
+    });
+
+    it("is append-only", async () => {
+      await budget.trackCost("replicate", 0.5, { userId: "ana" });
+      const { error } = await budget.getClient().from("cost_ledger").update({ amount: 0 }).eq("user_id", "ana");
+      expect(error.message).toBe("cost_ledger is append-only");
+    });
+
+    it("summarizes spend by user, model and day", async () => {
+      const usage = (model) => ({ model });
+      await budget.trackCost("replicate", 0.5, { userId: "ana" }, usage("luma/dream-machine"));
+      await budget.trackCost("openai", 0.25, { userId: "ana" }, usage("gpt-4o-mini"));
+      await budget.trackCost("replicate", 1, { userId: "ben", teamId: "studio" }, usage("luma/dream-machine"));
+      const today = new Date().toISOString().slice(0, 10);
+
+      const summary = await budget.getCostSummary();
+      expect(summary).toMatchObject({ total: 1.75, calls: 3 });
+      expect(summary.byUser).toEqual([
+        { userId: "ana", amount: 0.75, calls: 2 },
+        { userId: "ben", amount: 1, calls: 1 }
+      ]);
+      expect(summary.byModel).toEqual([
+        { model: "gpt-4o-mini", amount: 0.25, calls: 1 },
+        { model: "luma/dream-machine", amount: 1.5, calls: 2 }
+      ]);
+      expect(summary.byDay).toEqual([{ day: today, amount: 1.75, calls: 3 }]);
+
+      expect((await budget.getCostSummary({ teamId: "studio" })).byUser).toEqual([{ userId: "ben", amount: 1, calls: 1 }]);
+      expect((await budget.getCostSummary({ to: new Date("2000-01-01") })).calls).toBe(0);
+    });
+  });
+
+  describe("scoped budgets", () => {
+    const NOW = new Date("2026-03-15T12:00:00Z");
+
+    const ledgerRow = (created_at, amount, owner = {}) =>
+      getMockStore().tables.cost_ledger.push({
+        id: `${created_at}-${amount}`,
+        user_id: owner.userId || "ana",
+        team_id: owner.teamId || null,
+        project_id: owner.projectId || null,
+        service: "replicate",
+        amount,
+        created_at
+      });
+
+    it("starts periods at UTC midnight and the first of the month", () => {
+      expect(getPeriodStart("daily", NOW).toISOString()).toBe("2026-03-15T00:00:00.000Z");
+      expect(getPeriodStart("monthly", NOW).toISOString()).toBe("2026-03-01T00:00:00.000Z");
+      expect(getPeriodStart("lifetime", NOW)).toBeNull();
+    });
+
+    it("lists the user, team, project and global scopes of an owner", () => {
+      expect(getOwnerScopes({ teamId: "studio" })).toEqual([
+        { scopeType: "user", scopeId: "anonymous" },
+        { scopeType: "team", scopeId: "studio" },
+        { scopeType: "global", scopeId: GLOBAL_SCOPE_ID }
+      ]);
+    });
+
+    it("sums ledger spend per period", async () => {
+      ledgerRow("2026-01-20T10:00:00.000Z", 3);
+      ledgerRow("2026-03-02T10:00:00.000Z", 2);
+      ledgerRow("2026-03-15T09:00:00.000Z", 0.5);
+      ledgerRow("2026-03-15T09:30:00.000Z", 4, { userId: "ben" });
+
+      expect(await budget.getScopeSpend("user", "ana", NOW)).toEqual({ daily: 0.5, monthly: 2.5, lifetime: 5.5 });
+      expect(await budget.getScopeSpend("global", GLOBAL_SCOPE_ID, NOW)).toEqual({ daily: 4.5, monthly: 6.5, lifetime: 9.5 });
+    });
+
+    it("gives users without a row the default caps and other scopes none", async () => {
+      process.env.DEFAULT_USER_MONTHLY_BUDGET = "20";
+      try {
+        expect(await budget.getScopeLimits("user", "ana")).toEqual({ daily: 5, monthly: 20, lifetime: null, configured: false });
+      } finally {
+        delete process.env.DEFAULT_USER_MONTHLY_BUDGET;
+      }
+      expect(await budget.getScopeLimits("team", "studio")).toEqual({ daily: null, monthly: null, lifetime: null, configured: false });
+    });
+
+    it("creates and replaces a scope's caps", async () => {
+      await budget.setScopeLimits("team", "studio", { daily: 10 });
+      await budget.setScopeLimits("team", "studio", { monthly: 50 });
+      expect(getMockStore().tables.budgets).toHaveLength(1);
+      expect(await budget.getScopeLimits("team", "studio")).toEqual({ daily: null, monthly: 50, lifetime: null, configured: true });
+
+      await expect(budget.setScopeLimits("planet", "earth", {})).rejects.toThrow(/Budget scope must be one of/);
+      await expect(budget.setScopeLimits("team", "studio", { daily: -1 })).rejects.toThrow(/daily budget must be/);
+    });
+
+    it("refuses spend that would break the tightest cap", async () => {
+      await budget.setScopeLimits("project", "trailer", { lifetime: 3 });
+      ledgerRow("2026-02-01T00:00:00.000Z", 2, { userId: "ana", projectId: "trailer" });
+
+      const owner = { userId: "ana", projectId: "trailer" };
+      const allowed = await budget.checkBudget(owner, 1, NOW);
+      expect(allowed).toMatchObject({ allowed: true, remaining: 1 });
+
+      const refused = await budget.checkBudget(owner, 1.5, NOW);
+      expect(refused).toMatchObject({ allowed: false, scopeType: "project", scopeId: "trailer", period: "lifetime", remaining: 1 });
+      expect(refused.reason).toBe('Project "trailer" lifetime budget exceeded. Remaining: $1.0000, Needed: $1.5000');
+    });
+
+    it("checks the default daily cap against today's spend only", async () => {
+      ledgerRow("2026-03-14T23:59:59.000Z", 4.5);
+      ledgerRow("2026-03-15T00:00:00.000Z", 4.5);
+      expect((await budget.checkBudget({ userId: "ana" }, 0.5, NOW)).allowed).toBe(true);
+      expect((await budget.checkBudget({ userId: "ana" }, 0.6, NOW)).period).toBe("daily");
+    });
+  });
+
+  describe("reservations", () => {
+    const ana = { userId: "ana" };
+
+    it("lets only one of two concurrent jobs take the last of a cap", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      const results = await Promise.all([budget.reserveBudget(ana, 0.8), budget.reserveBudget(ana, 0.8)]);
+
+      expect(results.map((r) => r.allowed).sort()).toEqual([false, true]);
+      const refused = results.find((r) => !r.allowed);
+      expect(refused).toMatchObject({ scopeType: "user", scopeId: "ana", period: "daily" });
+      expect(refused.remaining).toBeCloseTo(0.2, 10);
+    });
+
+    it("counts what a reservation holds against every period until it is released", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 2, lifetime: 10 });
+      const { reservation } = await budget.reserveBudget(ana, 1.5, { jobId: "job-1" });
+
+      const report = await budget.getScopeReport("user", "ana");
+      expect(report.held).toBe(1.5);
+      expect(report.remaining).toMatchObject({ daily: 0.5, lifetime: 8.5 });
+      expect((await budget.checkBudget(ana, 1)).allowed).toBe(false);
+
+      await budget.releaseReservation(reservation.id);
+      expect(await budget.getScopeHeld("user", "ana")).toBe(0);
+      expect((await budget.checkBudget(ana, 1)).allowed).toBe(true);
+    });
+
+    it("lets the owning job spend what it reserved", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      const { reservation } = await budget.reserveBudget(ana, 0.9);
+      const owner = { ...ana, reservationId: reservation.id };
+
+      expect((await budget.checkBudget(owner, 0.5)).allowed).toBe(true);
+      await budget.trackCost("replicate", 0.5, owner);
+      expect((await budget.getReservation(reservation.id)).committed).toBe(0.5);
+
+      // 0.4 is still held for this job and 0.1 is free
+      expect((await budget.checkBudget(owner, 0.5)).allowed).toBe(true);
+      expect((await budget.checkBudget(owner, 0.6)).allowed).toBe(false);
+      expect((await budget.checkBudget(ana, 0.2)).allowed).toBe(false);
+
+      const released = await budget.releaseReservation(reservation.id);
+      expect(released).toMatchObject({ status: "released", amount: 0.9, committed: 0.5 });
+      expect((await budget.getScopeReport("user", "ana")).remaining.daily).toBeCloseTo(0.5, 10);
+    });
+
+    it("replaces a job's earlier reservation when it reserves again", async () => {
+      const first = await budget.reserveBudget(ana, 1, { jobId: "job-1" });
+      const second = await budget.reserveBudget(ana, 2, { jobId: "job-1" });
+
+      expect((await budget.getReservation(first.reservation.id)).status).toBe("released");
+      expect(second.reservation).toMatchObject({ status: "active", amount: 2 });
+      expect(await budget.getScopeHeld("user", "ana")).toBe(2);
+    });
+
+    it("stops holding budget once a reservation expires", async () => {
+      const past = new Date(Date.now() - 7 * 60 * 60 * 1000);
+      await budget.reserveBudget(ana, 3, { now: past });
+      expect(await budget.getScopeHeld("user", "ana")).toBe(0);
+    });
+  });
+
+  describe("spending alerts", () => {
+    const alertRows = () => getMockStore().tables.cost_ledger.filter((row) => row.service === "budget_alert");
+
+    const listen = () => {
+      const alerts = [];
+      budget.onAlert((alert) => alerts.push(alert));
+      return alerts;
+    };
+
+    it("raises each threshold once as spend crosses it and logs it to the ledger", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      const alerts = listen();
+
+      for (const cost of [0.4, 0.2, 0.35, 0.1]) await budget.trackCost("replicate", cost, { userId: "ana", jobId: "job-1" });
+
+      expect(alerts.map((alert) => alert.threshold)).toEqual([50, 80, 100]);
+      expect(alerts[1]).toMatchObject({ scopeType: "user", scopeId: "ana", period: "daily", limit: 1, percent: 95, softStop: false, jobId: "job-1" });
+      expect(alertRows()).toHaveLength(3);
+      expect(alertRows()[0]).toMatchObject({ user_id: "ana", job_id: "job-1", amount: 0, alert: { threshold: 50 } });
+    });
+
+    it("keeps alert rows out of spend and the cost summary", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      await budget.trackCost("replicate", 0.6, { userId: "ana" });
+
+      expect(alertRows()).toHaveLength(1);
+      expect((await budget.getScopeSpend("user", "ana")).daily).toBeCloseTo(0.6);
+      expect((await budget.getCostSummary()).calls).toBe(1);
+    });
+
+    it("never raises the same crossing twice", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      await budget.trackCost("replicate", 0.6, { userId: "ana" });
+
+      // What a second instance would see checking the same spend
+      expect(await budget.checkAlerts({ userId: "ana" }, 0.6)).toEqual([]);
+      expect(alertRows()).toHaveLength(1);
+    });
+
+    it("re-arms the thresholds when a cap is raised", async () => {
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+      await budget.trackCost("replicate", 0.6, { userId: "ana" });
+      await budget.setScopeLimits("user", "ana", { daily: 2 });
+      const alerts = listen();
+
+      await budget.trackCost("replicate", 0.5, { userId: "ana" });
+      expect(alerts).toMatchObject([{ threshold: 50, limit: 2 }]);
+    });
+
+    it("uses a scope's own thresholds and flags the soft stop", async () => {
+      await budget.setScopeLimits("team", "studio", { monthly: 10 });
+      await budget.setAlertPolicy("team", "studio", { thresholds: [90], softStopPercent: 75 });
+      expect(await budget.getAlertPolicy("team", "studio")).toEqual({ thresholds: [75, 90], softStopPercent: 75 });
+      const alerts = listen();
+
+      await budget.trackCost("replicate", 8, { userId: "ana", teamId: "studio" });
+      expect(alerts.filter((alert) => alert.scopeType === "team")).toMatchObject([{ threshold: 75, softStop: true }]);
+    });
+
+    it("keeps a user's default caps when only the alert policy is set", async () => {
+      await budget.setAlertPolicy("user", "ana", { thresholds: [10] });
+      expect(await budget.getScopeLimits("user", "ana")).toMatchObject({ daily: 5, configured: true });
+      await expect(budget.setAlertPolicy("user", "ana", { thresholds: [0] })).rejects.toThrow("positive percentages");
+    });
+
+    it("POSTs a signed webhook and survives one that fails", async () => {
+      vi.stubEnv("BUDGET_WEBHOOK_URL", "https://hooks.example.com/budget");
+      vi.stubEnv("BUDGET_WEBHOOK_SECRET", "whsec");
+      const fetchMock = vi.fn().mockResolvedValueOnce(new Response(null, { status: 204 })).mockResolvedValue(new Response(null, { status: 500 }));
+      vi.stubGlobal("fetch", fetchMock);
+      await budget.setScopeLimits("user", "ana", { daily: 1 });
+
+      await budget.trackCost("replicate", 0.6, { userId: "ana" });
+      await budget.trackCost("replicate", 0.3, { userId: "ana" });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://hooks.example.com/budget");
+      expect(JSON.parse(init.body)).toMatchObject({ type: "budget.threshold_crossed", alert: { threshold: 50 } });
+      expect(verifyWebhookSignature(init.body, init.headers["X-Budget-Signature"], "whsec")).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(alertRows()).toHaveLength(2);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Budget webhook failed"));
+    });
+  });
+
+  describe("admin changes", () => {
+    const NOW = new Date("2026-03-15T12:00:00Z");
+    const LATER = new Date("2026-03-15T14:00:00Z");
+    const ops = { actor: "ops", now: NOW };
+
+    const ledgerRow = (created_at, amount, userId = "ana") =>
+      getMockStore().tables.cost_ledger.push({ id: `${created_at}-${amount}`, user_id: userId, service: "replicate", amount, created_at });
+
+    it("lists every scope of a type that spent or has a budget", async () => {
+      ledgerRow("2026-03-15T10:00:00.000Z", 1);
+      ledgerRow("2026-03-15T10:00:00.000Z", 2, "ben");
+      await budget.setScopeLimits("user", "cara", { daily: 1 });
+
+      const reports = await budget.listScopeReports("user", NOW);
+      expect(reports.map((report) => report.scopeId)).toEqual(["ana", "ben", "cara"]);
+      expect(reports[1]).toMatchObject({ spent: { daily: 2 }, override: null, spendResetAt: null });
+      expect((await budget.listScopeReports("global", NOW)).map((report) => report.scopeId)).toEqual([GLOBAL_SCOPE_ID]);
+    });
+
+    it("resets a scope's spend without touching the ledger, and audits it", async () => {
+      ledgerRow("2026-03-15T10:00:00.000Z", 3);
+      const { report, audit } = await budget.resetScopeSpend("user", "ana", { ...ops, reason: "refund" });
+      ledgerRow("2026-03-15T13:00:00.000Z", 1);
+
+      expect(report).toMatchObject({ limits: { daily: 5 }, spent: { daily: 0, lifetime: 0 }, spendResetAt: NOW.toISOString() });
+      expect(await budget.getScopeSpend("user", "ana", LATER)).toEqual({ daily: 1, monthly: 1, lifetime: 1 });
+      expect((await budget.checkBudget({ userId: "ana" }, 3.5, LATER)).allowed).toBe(true);
+      expect(getMockStore().tables.cost_ledger).toHaveLength(2);
+      expect(audit).toMatchObject({ actor: "ops", action: "reset", scope_type: "user", scope_id: "ana", reason: "refund" });
+      expect(audit.before.spent.daily).toBe(3);
+      expect(audit.after.spent.daily).toBe(0);
+    });
+
+    it("tops up a cap for good and refuses periods without a cap", async () => {
+      const { report, audit } = await budget.topUpScope("user", "ana", { ...ops, amount: 2.5, period: "daily" });
+      expect(report.limits.daily).toBe(7.5);
+      expect(await budget.getScopeLimits("user", "ana")).toMatchObject({ daily: 7.5, configured: true });
+      expect([audit.before.limits.daily, audit.after.limits.daily]).toEqual([5, 7.5]);
+
+      await expect(budget.topUpScope("user", "ana", { ...ops, amount: 1, period: "monthly" })).rejects.toThrow('User "ana" has no monthly cap to top up');
+      await expect(budget.topUpScope("user", "ana", { ...ops, amount: -1, period: "daily" })).rejects.toThrow("positive number");
+    });
+
+    it("overrides caps until the override expires or is cleared", async () => {
+      const expiresAt = new Date(NOW.getTime() + 60 * 60 * 1000);
+      await budget.overrideScopeLimits("user", "ana", { ...ops, limits: { daily: 20 }, expiresAt });
+
+      expect(await budget.getScopeLimits("user", "ana", NOW)).toMatchObject({ daily: 20, monthly: null });
+      expect((await budget.getScopeReport("user", "ana", NOW)).override).toEqual({ limits: { daily: 20 }, expiresAt: expiresAt.toISOString() });
+      expect((await budget.reserveBudget({ userId: "ana" }, 15, { now: NOW })).allowed).toBe(true);
+      expect((await budget.getScopeLimits("user", "ana", LATER)).daily).toBe(5);
+
+      await budget.clearScopeOverride("user", "ana", ops);
+      expect((await budget.getScopeLimits("user", "ana", NOW)).daily).toBe(5);
+      expect((await budget.getBudgetAudit({ scopeType: "user", scopeId: "ana" })).map((entry) => entry.action)).toEqual(["clear_override", "override"]);
+    });
+
+    it("refuses changes it can't audit and keeps the audit log append-only", async () => {
+      await expect(budget.resetScopeSpend("user", "ana", { now: NOW })).rejects.toThrow("need an actor");
+      await expect(budget.overrideScopeLimits("user", "ana", { ...ops, limits: {}, expiresAt: LATER })).rejects.toThrow("needs a daily");
+      await expect(budget.overrideScopeLimits("user", "ana", { ...ops, limits: { daily: 9 }, expiresAt: "2026-03-14" })).rejects.toThrow("in the future");
+      expect(getMockStore().tables.budgets).toHaveLength(0);
+
+      await budget.resetScopeSpend("user", "ana", ops);
+      const { error } = await budget.getClient().from("budget_audit_log").update({ actor: "someone" }).eq("actor", "ops");
+      expect(error.code).toBe("P0001");
+    });
+
+    it("re-arms alerts after a spend reset", async () => {
+      await budget.setScopeLimits("user", "ana", { lifetime: 1 });
+
+      ledgerRow("2026-03-15T10:00:00.000Z", 0.6);
+      const [first] = await budget.checkAlerts({ userId: "ana" }, 0.6, NOW);
+      await budget.resetScopeSpend("user", "ana", ops);
+      ledgerRow("2026-03-15T13:00:00.000Z", 0.6);
+      const [second] = await budget.checkAlerts({ userId: "ana" }, 0.6, LATER);
+
+      expect([first.threshold, second.threshold]).toEqual([50, 50]);
+      expect(second.key).not.toBe(first.key);
+    });
+  });
+
+  describe("isWithinBudget", () => {
+    it("compares the estimate total with the maximum", () => {
+      expect(budget.isWithinBudget({ total: MAX_BUDGET })).toBe(true);
+      expect(budget.isWithinBudget({ total: MAX_BUDGET + 0.01 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sendBudgetWebhook, signWebhookPayload, verifyWebhookSignature } from "@/lib/budgetWebhooks";
+
+const NOW = 1_800_000_000_000;
+const body = JSON.stringify({ type: "budget.threshold_crossed", alert: { threshold: 80 } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("webhook signatures", () => {
+  it("accepts the signature it made", () => {
+    const header = signWebhookPayload(body, "whsec", NOW / 1000);
+    expect(header).toMatch(/^t=1800000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, "whsec", { now: NOW })).toBe(true);
+  });
+
+  it("rejects another body, another secret and old timestamps", () => {
+    const header = signWebhookPayload(body, "whsec", NOW / 1000);
+    expect(verifyWebhookSignature(`${body} `, header, "whsec", { now: NOW })).toBe(false);
+    expect(verifyWebhookSignature(body, header, "other", { now: NOW })).toBe(false);
+    expect(verifyWebhookSignature(body, header, "whsec", { now: NOW + 10 * 60 * 1000 })).toBe(false);
+    expect(verifyWebhookSignature(body, "garbage", "whsec", { now: NOW })).toBe(false);
+  });
+});
+
+describe("sendBudgetWebhook", () => {
+  it("needs a secret to sign with", async () => {
+    await expect(sendBudgetWebhook({}, { url: "https://hooks.example.com" })).rejects.toThrow("BUDGET_WEBHOOK_SECRET is required");
+  });
+
+  it("fails on a non-2xx answer", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 410, statusText: "Gone" })));
+    await expect(sendBudgetWebhook({}, { url: "https://hooks.example.com", secret: "whsec" })).rejects.toThrow(
+      "Budget webhook answered 410 Gone"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCharacter,
+  deleteCharacter,
+  duplicateCharacter,
+  generatedProfileToCharacter,
+  listCharacters,
+  parseGeneratedProfile,
+  updateCharacter,
+  uploadReferenceImage
+} from "@/lib/characterStore";
+import { getMockStorageObject, getMockStore } from "@/lib/mockBackend";
+import { ARIS_ID } from "../helpers";
+
+const ZARA = { name: "Zara Quill", personality: "Street Poet", base_prompt: "cinematic, young poet", visual_details: "green scarf" };
+
+describe("character store", () => {
+  it("lists the system characters plus the user's own", async () => {
+    await createCharacter("ana", ZARA);
+    await createCharacter("ben", { name: "Bo" });
+
+    expect(await listCharacters()).toHaveLength(5);
+    const characters = await listCharacters("ana");
+    expect(characters).toHaveLength(6);
+    expect(characters.find((c) => c.name === "Zara Quill")).toMatchObject({ user_id: "ana", system: false, visual_details: "green scarf" });
+  });
+
+  it("keeps the profile fields in the profile column", async () => {
+    const character = await createCharacter(" ana ", { ...ZARA, seed: 42 });
+    const row = getMockStore().tables.characters.find((c) => c.id === character.id);
+    expect(row).toMatchObject({
+      user_id: "ana",
+      seed: 42,
+      profile: { personality: "Street Poet", base_prompt: "cinematic, young poet", visual_details: "green scarf" }
+    });
+  });
+
+  it("keeps the voice and the consistency checklist, and clears an empty checklist", async () => {
+    const { id } = await createCharacter("ana", { ...ZARA, voice: "husky, fast", consistency_checklist: ["green scarf", " silver ring "] });
+    expect((await listCharacters("ana")).find((c) => c.id === id)).toMatchObject({
+      voice: "husky, fast",
+      consistency_checklist: ["green scarf", "silver ring"]
+    });
+
+    expect(await updateCharacter(id, "ana", { consistency_checklist: [] })).toMatchObject({ consistency_checklist: [], voice: "husky, fast" });
+    await expect(updateCharacter(id, "ana", { consistency_checklist: [""] })).rejects.toThrow("consistency_checklist.0");
+  });
+
+  it("turns a generated profile into character fields", () => {
+    const profile = parseGeneratedProfile({
+      name: "Mara Vance",
+      personality: "Weary smuggler",
+      base_prompt: "cinematic, realistic woman in her forties",
+      face: "angular face, grey eyes",
+      hair: "black bob",
+      wardrobe: "oilskin coat",
+      wardrobe_palette: ["black", "ochre"],
+      voice: "Low and clipped.",
+      speech_tics: ["says 'copy that'"],
+      consistency_checklist: ["grey eyes", "black bob", "oilskin coat"]
+    });
+    expect(generatedProfileToCharacter(profile)).toEqual({
+      name: "Mara Vance",
+      personality: "Weary smuggler",
+      base_prompt: "cinematic, realistic woman in her forties",
+      visual_details: "Face: angular face, grey eyes\nHair: black bob\nWardrobe: oilskin coat (palette: black, ochre)",
+      voice: "Low and clipped. Speech tics: says 'copy that'",
+      consistency_checklist: ["grey eyes", "black bob", "oilskin coat"]
+    });
+
+    expect(() => parseGeneratedProfile({ ...profile, wardrobe_palette: [], face: undefined })).toThrow(
+      /^Generated profile is invalid: face: Required; wardrobe_palette: /
+    );
+  });
+
+  it("validates input and refuses duplicate names per user", async () => {
+    await expect(createCharacter("ana", { name: " " })).rejects.toThrow("Invalid character: name: Name is required");
+    await expect(createCharacter("ana", { name: "X", seed: -1 })).rejects.toThrow("seed:");
+    await expect(createCharacter("system", ZARA)).rejects.toThrow('"system" is reserved');
+
+    await createCharacter("ana", ZARA);
+    await expect(createCharacter("ana", ZARA)).rejects.toThrow('You already have a character named "Zara Quill"');
+    await expect(createCharacter("ben", ZARA)).resolves.toMatchObject({ user_id: "ben" });
+  });
+
+  it("only lets the owner update or delete a character", async () => {
+    const { id } = await createCharacter("ana", ZARA);
+
+    const updated = await updateCharacter(id, "ana", { personality: "Slam Champion", visual_details: null });
+    expect(updated).toMatchObject({ name: "Zara Quill", personality: "Slam Champion", visual_details: null, base_prompt: "cinematic, young poet" });
+
+    await expect(updateCharacter(id, "ben", { name: "Mine" })).rejects.toThrow("Character not found");
+    await expect(updateCharacter(ARIS_ID, "ana", { name: "Mine" })).rejects.toThrow("System characters are shared");
+    await expect(updateCharacter(id, "ana", {})).rejects.toThrow("Nothing to update");
+
+    await expect(deleteCharacter(id, "ben")).rejects.toThrow("Character not found");
+    await deleteCharacter(id, "ana");
+    expect(await listCharacters("ana")).toHaveLength(5);
+  });
+
+  it("duplicates system and own characters under a free name", async () => {
+    const first = await duplicateCharacter(ARIS_ID, "ana");
+    const second = await duplicateCharacter(ARIS_ID, "ana");
+    expect([first.name, second.name]).toEqual(["🧑‍🔬 Dr. Aris Thorne (copy)", "🧑‍🔬 Dr. Aris Thorne (copy 2)"]);
+    expect(first).toMatchObject({ user_id: "ana", personality: "Sci-Fi Explorer", system: false });
+
+    const renamed = await duplicateCharacter(first.id, "ana", { name: "Aris, older" });
+    expect(renamed.name).toBe("Aris, older");
+    await expect(duplicateCharacter(first.id, "ben")).rejects.toThrow("Character not found");
+  });
+
+  it("stores an uploaded reference image in the images bucket", async () => {
+    const { id } = await createCharacter("ana", ZARA);
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer;
+
+    const character = await uploadReferenceImage(id, "ana", { data: png, contentType: "image/png" });
+    const path = decodeURIComponent(new URL(character.reference_image).pathname.replace("/api/mock-storage/images/", ""));
+    expect(path).toMatch(new RegExp(`^characters/${id}/.+\\.png$`));
+    expect(getMockStorageObject("images", path)).toMatchObject({ contentType: "image/png" });
+
+    await expect(uploadReferenceImage(id, "ana", { data: png, contentType: "image/gif" })).rejects.toThrow("Reference image must be one of");
+    await expect(uploadReferenceImage(id, "ben", { data: png, contentType: "image/png" })).rejects.toThrow("Character not found");
+    await expect(uploadReferenceImage(ARIS_ID, "ana", { data: png, contentType: "image/png" })).rejects.toThrow("System characters");
+  });
+});
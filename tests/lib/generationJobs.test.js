@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GenerationJobsManager, JOB_STALE_AFTER_MS, MAX_JOB_ATTEMPTS } from "@/lib/generationJobs";
+import { createMockSupabaseClient } from "@/lib/mockBackend";
+
+const request = (prompt = "A lost robot searches for its maker") => ({
+  baseStoryPrompt: prompt,
+  characterIds: ["00000000-0000-4000-8000-000000000001"],
+  totalDurationSeconds: 30,
+  sceneDuration: 6
+});
+
+describe("GenerationJobsManager", () => {
+  let supabase;
+  let jobs;
+
+  beforeEach(() => {
+    supabase = createMockSupabaseClient();
+    jobs = new GenerationJobsManager({ supabase });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const readJob = async (id) => (await supabase.from("jobs").select("*").eq("id", id).single()).data;
+
+  describe("persistent queue", () => {
+    it("enqueues a queued job with its request", async () => {
+      const job = await jobs.enqueueJob({ userId: "ana", prompt: "p", request: request() });
+      expect(job).toMatchObject({ user_id: "ana", status: "queued", progress: 0, duration: 30, attempts: 0 });
+      expect(job.metadata.request.sceneDuration).toBe(6);
+    });
+
+    it("claims the oldest queued job first and only once", async () => {
+      const first = await jobs.enqueueJob({ userId: "ana", prompt: "first", request: request() });
+      const second = await jobs.enqueueJob({ userId: "ana", prompt: "second", request: request() });
+
+      const claimed = await jobs.claimNextJob("worker-a");
+      expect(claimed).toMatchObject({ id: first.id, status: "running", worker_id: "worker-a", attempts: 1 });
+      expect(claimed.heartbeat_at).toBeTruthy();
+
+      expect((await jobs.claimNextJob("worker-b")).id).toBe(second.id);
+      expect(await jobs.claimNextJob("worker-c")).toBeNull();
+    });
+
+    it("requeues running jobs whose heartbeat went stale", async () => {
+      vi.useFakeTimers();
+      const job = await jobs.enqueueJob({ userId: "ana", prompt: "p", request: request() });
+      await jobs.claimNextJob("worker-a");
+
+      expect(await jobs.requeueStaleJobs()).toBe(0);
+
+      vi.advanceTimersByTime(JOB_STALE_AFTER_MS + 1000);
+      expect(await jobs.requeueStaleJobs()).toBe(1);
+      expect(await readJob(job.id)).toMatchObject({ status: "queued", worker_id: null });
+    });
+
+    it("fails a job that keeps crashing", async () => {
+      vi.useFakeTimers();
+      const job = await jobs.enqueueJob({ userId: "ana", prompt: "p", request: request() });
+      for (let attempt = 1; attempt <= MAX_JOB_ATTEMPTS; attempt++) {
+        await jobs.claimNextJob("worker-a");
+        vi.advanceTimersByTime(JOB_STALE_AFTER_MS + 1000);
+        await jobs.requeueStaleJobs();
+      }
+
+      const row = await readJob(job.id);
+      expect(row.status).toBe("failed");
+      expect(row.error).toBe(`Job crashed ${MAX_JOB_ATTEMPTS} times`);
+    });
+
+    it("lists jobs newest first, filtered by user and status", async () => {
+      await jobs.enqueueJob({ userId: "ana", prompt: "one", request: request() });
+      await jobs.enqueueJob({ userId: "ben", prompt: "two", request: request() });
+      await jobs.enqueueJob({ userId: "ana", prompt: "three", request: request() });
+      await jobs.claimNextJob("worker-a");
+
+      expect((await jobs.listJobs()).map((j) => j.prompt)).toEqual(["three", "two", "one"]);
+      expect((await jobs.listJobs({ userId: "ana" })).map((j) => j.prompt)).toEqual(["three", "one"]);
+      expect((await jobs.listJobs({ status: "running" })).map((j) => j.prompt)).toEqual(["one"]);
+      expect((await jobs.listJobs({ status: ["queued", "running"], limit: 2 })).map((j) => j.prompt)).toEqual(["three", "two"]);
+    });
+  });
+
+  describe("abortJob", () => {
+    it("aborts a job running in this process through its signal", async () => {
+      const controller = jobs.createJob("job-1");
+      expect(await jobs.abortJob("job-1")).toBe(true);
+      expect(controller.signal.aborted).toBe(true);
+      expect(jobs.getJobStatus("job-1").status).toBe("aborted");
+    });
+
+    it("cancels a queued job in the database", async () => {
+      const job = await jobs.enqueueJob({ userId: "ana", prompt: "p", request: request() });
+      expect(await jobs.abortJob(job.id)).toBe(true);
+
+      const row = await readJob(job.id);
+      expect(row.status).toBe("aborted");
+      expect(row.completed_at).toBeTruthy();
+      expect(await jobs.claimNextJob("worker-a")).toBeNull();
+    });
+
+    it("returns false for finished or unknown jobs", async () => {
+      const job = await jobs.enqueueJob({ userId: "ana", prompt: "p", request: request() });
+      await jobs.updateJob(job.id, { status: "completed" });
+      expect(await jobs.abortJob(job.id)).toBe(false);
+      expect(await jobs.abortJob("11111111-1111-4111-8111-111111111111")).toBe(false);
+    });
+  });
+
+  describe("live events", () => {
+    it("delivers events to subscribers of that job only", () => {
+      const listener = vi.fn();
+      const other = vi.fn();
+      const unsubscribe = jobs.subscribe("job-1", listener);
+      jobs.subscribe("job-2", other);
+
+      jobs.emitJobEvent("job-1", "progress", { percentage: 50 });
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: "progress", data: { percentage: 50 } }));
+      expect(other).not.toHaveBeenCalled();
+
+      unsubscribe();
+      jobs.emitJobEvent("job-1", "done", {});
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("toJobSummary", () => {
+    it("summarises progress, models and cost of a persisted row", () => {
+      const summary = jobs.toJobSummary({
+        id: "job-1",
+        user_id: "ana",
+        status: "completed",
+        prompt: "p",
+        progress: 100,
+        attempts: 1,
+        created_at: "2025-01-01T00:00:00.000Z",
+        started_at: "2025-01-01T00:00:10.000Z",
+        completed_at: "2025-01-01T00:01:10.000Z",
+        result: {
+          totalScenes: 3,
+          movieId: "movie-1",
+          scenes: [{ model: "google/veo-3.1-fast" }, { model: "luma/dream-machine" }, { model: "google/veo-3.1-fast" }],
+          failed: []
+        },
+        cost_tracking: { total: 0.42 },
+        metadata: { request: {} }
+      });
+
+      expect(summary).toMatchObject({
+        status: "completed",
+        mode: "movie",
+        elapsed: 60 * 1000,
+        scenesDone: 3,
+        scenesFailed: 0,
+        modelsUsed: ["google/veo-3.1-fast", "luma/dream-machine"],
+        cost: 0.42,
+        movieId: "movie-1",
+        storyboardId: null,
+        live: false
+      });
+    });
+
+    it("reports queued jobs as not started", () => {
+      const summary = jobs.toJobSummary({ id: "job-1", status: "queued", created_at: new Date().toISOString() });
+      expect(summary).toMatchObject({ elapsed: 0, scenesDone: 0, totalScenes: null, cost: 0 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { JobWorker } from "@/lib/jobWorker";
+import { estimateMovie } from "@/lib/videoEngine";
+import { getJobsManager } from "@/lib/generationJobs";
+import { getBudgetManager } from "@/lib/budgetManager";
+import { getMockStore } from "@/lib/mockBackend";
+import { ARIS_ID } from "../helpers";
+
+// Veo's catalog price keeps the estimate above zero; in mock mode the clip itself comes from the mock provider
+const request = {
+  baseStoryPrompt: "A lost robot searches for its maker",
+  characterIds: [ARIS_ID],
+  totalDurationSeconds: 12,
+  sceneDuration: 6,
+  modelChain: ["google/veo-3.1-fast"],
+  assemble: false
+};
+
+const runQueuedJob = async (userId = "ana", jobRequest = request) => {
+  const jobsManager = getJobsManager();
+  const { id } = await jobsManager.enqueueJob({ userId, prompt: jobRequest.baseStoryPrompt, request: jobRequest });
+  const job = await jobsManager.claimNextJob("worker-test");
+  await new JobWorker().runJob(job);
+  return jobsManager.getPersistedJob(id);
+};
+
+describe("JobWorker budget reservations", () => {
+  it("reserves the estimate, commits each scene's spend and releases the rest", async () => {
+    const job = await runQueuedJob();
+    expect(job.status).toBe("completed");
+
+    const [reservation] = getMockStore().tables.budget_reservations;
+    const spent = await getBudgetManager().getLedgerTotal({ jobId: job.id });
+    expect(reservation).toMatchObject({ job_id: job.id, user_id: "ana", status: "released" });
+    expect(reservation.amount).toBeCloseTo(getBudgetManager().calculateEstimatedCost(12, 6, "google/veo-3.1-fast").total, 10);
+    expect(reservation.committed).toBeCloseTo(spent, 10);
+    expect(job.cost_tracking.total).toBeCloseTo(spent, 10);
+    expect(await getBudgetManager().getScopeHeld("user", "ana")).toBe(0);
+  });
+
+  it("reserves what the engine will charge after snapping the scene length to the model", async () => {
+    // Veo renders 4, 6 or 8 seconds: 5s scenes become 4s ones, so 12 seconds take three scenes, not three 5s ones
+    const job = await runQueuedJob("ana", { ...request, sceneDuration: 5 });
+    expect(job.status).toBe("completed");
+
+    const [reservation] = getMockStore().tables.budget_reservations;
+    const estimate = estimateMovie({ totalDurationSeconds: 12, sceneDuration: 5, modelChain: request.modelChain });
+    expect(estimate).toMatchObject({ scenes: 3, models: [expect.objectContaining({ sceneDuration: 4 })] });
+    expect(reservation.amount).toBeCloseTo(estimate.cost.total, 10);
+    expect(reservation.amount).not.toBeCloseTo(getBudgetManager().calculateEstimatedCost(12, 5, "google/veo-3.1-fast").total, 10);
+  });
+
+  it("fails the job when another job already holds the budget", async () => {
+    const budget = getBudgetManager();
+    await budget.setScopeLimits("user", "ana", { daily: 0.2 });
+    const other = await budget.reserveBudget({ userId: "ana" }, 0.15);
+    expect(other.allowed).toBe(true);
+
+    const job = await runQueuedJob();
+    expect(job.status).toBe("failed");
+    expect(job.error).toMatch(/^Insufficient budget remaining. User "ana" daily budget exceeded/);
+    expect(getMockStore().tables.movies).toHaveLength(0);
+  });
+});
+
+describe("JobWorker budget soft stop", () => {
+  // Six free mock scenes; each script costs $0.00018, so the second one reaches the soft stop at 2% of $0.01
+  const longRequest = { ...request, totalDurationSeconds: 36, modelChain: ["mock/placeholder"] };
+
+  it("finishes the scenes it has scripted, pauses, and completes the movie when resumed", async () => {
+    const budget = getBudgetManager();
+    await budget.setScopeLimits("user", "ana", { daily: 0.01 });
+    await budget.setAlertPolicy("user", "ana", { thresholds: [], softStopPercent: 2 });
+
+    const paused = await runQueuedJob("ana", longRequest);
+    expect(paused.status).toBe("paused");
+    expect(paused.result.budgetAlert).toMatchObject({ scopeType: "user", scopeId: "ana", threshold: 2, softStop: true, sceneNumber: 2 });
+    expect(paused.result.scenes.map((scene) => scene.scene)).toEqual([1, 2]);
+    expect(getMockStore().tables.movies).toHaveLength(0);
+    expect(await budget.getScopeHeld("user", "ana")).toBe(0);
+
+    const jobsManager = getJobsManager();
+    expect(await jobsManager.resumeJob(paused.id)).toBe(true);
+    await new JobWorker().runJob(await jobsManager.claimNextJob("worker-test"));
+
+    const finished = await jobsManager.getPersistedJob(paused.id);
+    expect(finished.status).toBe("completed");
+    expect(finished.result.scenes.map((scene) => scene.scene)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(getMockStore().tables.movies).toMatchObject([{ id: paused.metadata.movie_id, successful_scenes: 6 }]);
+  });
+});
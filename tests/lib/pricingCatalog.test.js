@@ -0,0 +1,71 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  getImagePrice,
+  getOpenAIPrice,
+  getPricingCatalog,
+  getVideoPrice,
+  loadPricingCatalog,
+  priceOpenAITokens
+} from "@/lib/pricingCatalog";
+import { getBudgetManager } from "@/lib/budgetManager";
+
+const writeCatalog = (catalog) => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "pricing-")), "pricing.json");
+  writeFileSync(file, typeof catalog === "string" ? catalog : JSON.stringify(catalog));
+  return file;
+};
+
+const customCatalog = {
+  defaults: { openai: "gpt-4o", video: "luma/dream-machine" },
+  openai: { "gpt-4o": { inputPer1kTokens: 0.01, outputPer1kTokens: 0.02 } },
+  video: { "luma/dream-machine": { perSecond: 0.5 } }
+};
+
+describe("pricing catalog", () => {
+  afterEach(() => {
+    delete process.env.PRICING_CATALOG_PATH;
+  });
+
+  it("loads the bundled pricing.json", () => {
+    const catalog = getPricingCatalog();
+    expect(catalog.currency).toBe("USD");
+    expect(getVideoPrice("google/veo-3.1-fast")).toMatchObject({ perSecond: 0.015 });
+    expect(getOpenAIPrice("gpt-4o-mini")).toEqual({ inputPer1kTokens: 0.00015, outputPer1kTokens: 0.0006 });
+    expect(getImagePrice("gpt-image-1")).toEqual({ perImage: 0.063 });
+    expect(getImagePrice("nope/unknown")).toBeNull();
+  });
+
+  it("prices input and output tokens separately", () => {
+    expect(priceOpenAITokens({ inputTokens: 2000, outputTokens: 1000 }, "gpt-4o-mini")).toBeCloseTo(0.0009, 10);
+    expect(priceOpenAITokens({ outputTokens: 1000 }, "gpt-4")).toBeCloseTo(0.06, 10);
+  });
+
+  it("prices unknown models like the defaults", () => {
+    expect(getVideoPrice("nope/unknown")).toEqual(getVideoPrice("anotherjesse/zeroscope-v2-xl"));
+    expect(getOpenAIPrice("gpt-99")).toEqual(getOpenAIPrice("gpt-4o-mini"));
+  });
+
+  it("reads the file named by PRICING_CATALOG_PATH, which estimates then use", () => {
+    process.env.PRICING_CATALOG_PATH = writeCatalog(customCatalog);
+
+    expect(getVideoPrice("google/veo-3.1-fast").perSecond).toBe(0.5);
+    const estimate = getBudgetManager().calculateEstimatedCost(12, 6, "luma/dream-machine", "gpt-4o");
+    expect(estimate.video).toBeCloseTo(6, 10);
+    // 2 scenes of ~300 input and ~200 output tokens
+    expect(estimate.openai).toBeCloseTo(0.6 * 0.01 + 0.4 * 0.02, 10);
+  });
+
+  it("lists every problem with a malformed catalog", () => {
+    const file = writeCatalog({ ...customCatalog, defaults: { openai: "gpt-4", video: "luma/dream-machine" }, video: { x: { perSecond: -1 } } });
+    expect(() => loadPricingCatalog(file)).toThrow(/Invalid pricing catalog .*\n- video.x.perSecond: .*\n- defaults.openai: No price for "gpt-4"/s);
+    expect(() => loadPricingCatalog(writeCatalog("{"))).toThrow(/^Failed to read pricing catalog/);
+  });
+
+  it("requires a price for the hardware a model is billed on", () => {
+    const file = writeCatalog({ ...customCatalog, video: { "luma/dream-machine": { perSecond: 0.5, hardware: "gpu-z9" } } });
+    expect(() => loadPricingCatalog(file)).toThrow(/video.luma\/dream-machine.hardware: No price for hardware "gpu-z9"/);
+  });
+});
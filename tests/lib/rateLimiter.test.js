@@ -0,0 +1,274 @@
+import net from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RATE_LIMITS,
+  RateLimiter,
+  RedisConnection,
+  RedisRateLimitStore,
+  createRateLimitStore,
+  getBuckets,
+  getRetryAfterMs,
+  parseRetryAfter,
+  takeToken
+} from "@/lib/rateLimiter";
+import { getMockStore } from "@/lib/mockBackend";
+
+const { requestsPerMinute } = RATE_LIMITS.replicate;
+const buckets = getBuckets(RATE_LIMITS.replicate);
+
+const drain = async (limiter, count, options = { model: "luma/dream-machine" }) => {
+  for (let i = 0; i < count; i++) await limiter.acquire("replicate", options);
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("takeToken", () => {
+  it("allows a full bucket's worth of calls, then says how long until the next token", () => {
+    let state = null;
+    for (let i = 0; i < requestsPerMinute; i++) {
+      const result = takeToken(state, buckets, 0);
+      expect(result.allowed).toBe(true);
+      state = result.state;
+    }
+
+    const blocked = takeToken(state, buckets, 0);
+    expect(blocked).toMatchObject({ allowed: false, limitedBy: 0, retryAfterMs: 60000 / requestsPerMinute });
+  });
+
+  it("refills continuously", () => {
+    let state = null;
+    for (let i = 0; i < requestsPerMinute; i++) state = takeToken(state, buckets, 0).state;
+
+    expect(takeToken(state, buckets, 3000).allowed).toBe(false);
+    expect(takeToken(state, buckets, 6000).allowed).toBe(true);
+  });
+
+  it("blocks once the hourly bucket is empty", () => {
+    const hourly = getBuckets({ requestsPerMinute: 10, requestsPerHour: 20 });
+    let state = null;
+    // Spread calls out so the minute bucket never runs dry
+    for (let i = 0; i < 20; i++) {
+      const result = takeToken(state, hourly, i * 6000);
+      expect(result.allowed).toBe(true);
+      state = result.state;
+    }
+
+    const blocked = takeToken(state, hourly, 20 * 6000);
+    expect(blocked).toMatchObject({ allowed: false, limitedBy: 1 });
+  });
+
+  it("doesn't use up a token when only checking", () => {
+    const { state } = takeToken(null, [{ capacity: 1, windowMs: 60000 }], 0, false);
+    expect(takeToken(state, [{ capacity: 1, windowMs: 60000 }], 0).allowed).toBe(true);
+  });
+
+  it("refuses every call until a Retry-After block has passed", () => {
+    const blocked = takeToken({ tokens: [], updatedAt: 0, blockedUntil: 30000 }, buckets, 1000);
+    expect(blocked).toMatchObject({ allowed: false, limitedBy: "retry-after", retryAfterMs: 29000 });
+    expect(takeToken(blocked.state, buckets, 30000).allowed).toBe(true);
+  });
+});
+
+describe("Retry-After", () => {
+  it("parses seconds and HTTP dates", () => {
+    expect(parseRetryAfter("12")).toBe(12000);
+    expect(parseRetryAfter(new Date(70000).toUTCString(), 10000)).toBe(60000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+
+  it("reads it from provider errors and SDK response headers", () => {
+    expect(getRetryAfterMs(Object.assign(new Error("429"), { retryAfterMs: 5000 }))).toBe(5000);
+    expect(getRetryAfterMs({ response: { headers: new Headers({ "Retry-After": "3" }) } })).toBe(3000);
+    expect(getRetryAfterMs({ headers: { "retry-after": "4" } })).toBe(4000);
+    expect(getRetryAfterMs(new Error("boom"))).toBeNull();
+  });
+});
+
+describe("RateLimiter", () => {
+  it("refuses calls past the per-minute limit with a reason and a wait", async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+    await drain(limiter, requestsPerMinute);
+
+    const blocked = await limiter.acquire("replicate", { model: "luma/dream-machine" });
+    expect(blocked).toMatchObject({
+      allowed: false,
+      reason: `Rate limit exceeded: ${requestsPerMinute} requests per minute`,
+      retryAfter: 6
+    });
+  });
+
+  it("names the hourly limit when that is the one hit", async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore(), limits: { replicate: { requestsPerMinute: 100, requestsPerHour: 2 } } });
+    await drain(limiter, 2);
+    expect((await limiter.acquire("replicate", { model: "luma/dream-machine" })).reason).toBe("Rate limit exceeded: 2 requests per hour");
+  });
+
+  it("keeps separate buckets per service, model and API key", async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+    await drain(limiter, requestsPerMinute);
+
+    expect((await limiter.acquire("replicate", { model: "luma/dream-machine" })).allowed).toBe(false);
+    expect((await limiter.acquire("replicate", { model: "stability-ai/svd" })).allowed).toBe(true);
+    expect((await limiter.acquire("replicate", { model: "luma/dream-machine", apiKey: "r8_other" })).allowed).toBe(true);
+    expect((await limiter.acquire("openai", { model: "luma/dream-machine" })).allowed).toBe(true);
+  });
+
+  it("never puts the API key itself in a bucket key", () => {
+    const key = new RateLimiter().getKey("replicate", { model: "luma/dream-machine", apiKey: "r8_secret" });
+    expect(key).toMatch(/^replicate:luma\/dream-machine:[0-9a-f]{12}$/);
+    expect(key).not.toContain("r8_secret");
+  });
+
+  it("leaves services without limits alone", async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+    for (let i = 0; i < 100; i++) expect((await limiter.acquire("mock")).allowed).toBe(true);
+  });
+
+  it("checks without using up a slot", async () => {
+    const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+    for (let i = 0; i < requestsPerMinute * 2; i++) {
+      expect((await limiter.check("replicate", { model: "luma/dream-machine" })).allowed).toBe(true);
+    }
+    await drain(limiter, requestsPerMinute);
+    expect((await limiter.check("replicate", { model: "luma/dream-machine" })).allowed).toBe(false);
+  });
+
+  it("shares Postgres buckets between instances", async () => {
+    const first = new RateLimiter({ store: new PostgresRateLimitStore() });
+    const second = new RateLimiter({ store: new PostgresRateLimitStore() });
+    await drain(first, requestsPerMinute);
+
+    expect((await second.acquire("replicate", { model: "luma/dream-machine" })).allowed).toBe(false);
+    expect(getMockStore().tables.rate_limit_buckets).toHaveLength(1);
+
+    await second.reset();
+    expect(getMockStore().tables.rate_limit_buckets).toHaveLength(0);
+  });
+
+  it("blocks a key for the provider's Retry-After", async () => {
+    const limiter = new RateLimiter({ store: new PostgresRateLimitStore() });
+    await limiter.recordRetryAfter("replicate", { model: "luma/dream-machine" }, 30000);
+
+    const blocked = await limiter.acquire("replicate", { model: "luma/dream-machine" });
+    expect(blocked).toMatchObject({ allowed: false, reason: "replicate asked us to retry after 30s", retryAfter: 30 });
+    expect((await limiter.acquire("replicate", { model: "stability-ai/svd" })).allowed).toBe(true);
+  });
+
+  describe("waitForSlot", () => {
+    it("sleeps until a token is free", async () => {
+      vi.useFakeTimers();
+      const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+      await drain(limiter, requestsPerMinute);
+
+      let result = null;
+      limiter.waitForSlot("replicate", { model: "luma/dream-machine" }).then((value) => (result = value));
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(result).toBeNull();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(result).toEqual({ allowed: true });
+    });
+
+    it("gives up when the wait is longer than allowed", async () => {
+      const limiter = new RateLimiter({ store: new MemoryRateLimitStore(), maxWaitMs: 1000 });
+      await drain(limiter, requestsPerMinute);
+
+      const result = await limiter.waitForSlot("replicate", { model: "luma/dream-machine" });
+      expect(result).toMatchObject({ allowed: false, retryAfter: 6 });
+    });
+
+    it("stops waiting when aborted", async () => {
+      const limiter = new RateLimiter({ store: new MemoryRateLimitStore() });
+      await drain(limiter, requestsPerMinute);
+
+      const controller = new AbortController();
+      const pending = limiter.waitForSlot("replicate", { model: "luma/dream-machine", abortSignal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow("Generation aborted by user");
+    });
+  });
+});
+
+describe("createRateLimitStore", () => {
+  it("picks the store named by RATE_LIMIT_STORE", () => {
+    expect(createRateLimitStore({ RATE_LIMIT_STORE: "memory" })).toBeInstanceOf(MemoryRateLimitStore);
+    expect(createRateLimitStore({ RATE_LIMIT_STORE: "postgres" })).toBeInstanceOf(PostgresRateLimitStore);
+    expect(createRateLimitStore({ RATE_LIMIT_STORE: "redis", REDIS_URL: "redis://localhost:6379" })).toBeInstanceOf(RedisRateLimitStore);
+    expect(() => createRateLimitStore({ RATE_LIMIT_STORE: "redis" })).toThrow("Redis rate limit store needs REDIS_URL");
+  });
+});
+
+describe("Redis store", () => {
+  // Answers each command with the next canned reply, split across writes to exercise buffering
+  const startServer = (replies) =>
+    new Promise((resolve) => {
+      const commands = [];
+      const server = net.createServer((socket) => {
+        socket.on("data", (chunk) => {
+          commands.push(chunk.toString());
+          const reply = replies.shift();
+          socket.write(reply.slice(0, 3));
+          setTimeout(() => socket.write(reply.slice(3)), 5);
+        });
+      });
+      server.listen(0, "127.0.0.1", () => resolve({ server, commands, url: `redis://:secret@127.0.0.1:${server.address().port}/2` }));
+    });
+
+  it("authenticates, selects the database and parses replies", async () => {
+    const { server, commands, url } = await startServer([
+      "+OK\r\n",
+      "+OK\r\n",
+      `$${'{"allowed":false,"retry_after_ms":6000,"limited_by":0}'.length}\r\n{"allowed":false,"retry_after_ms":6000,"limited_by":0}\r\n`,
+      "*2\r\n$12\r\nratelimit:a1\r\n$12\r\nratelimit:b2\r\n",
+      ":2\r\n"
+    ]);
+    const store = new RedisRateLimitStore({ url });
+    try {
+      expect(await store.take("replicate:luma/dream-machine:none", buckets)).toEqual({ allowed: false, retryAfterMs: 6000, limitedBy: 0 });
+      await store.clear();
+
+      expect(commands[0]).toContain("AUTH\r\n$6\r\nsecret");
+      expect(commands[1]).toContain("SELECT\r\n$1\r\n2");
+      expect(commands[2]).toContain("EVAL");
+      expect(commands[2]).toContain("ratelimit:replicate:luma/dream-machine:none");
+      expect(commands[4]).toContain("DEL\r\n$12\r\nratelimit:a1\r\n$12\r\nratelimit:b2");
+    } finally {
+      store.connection.close();
+      server.close();
+    }
+  });
+
+  it("rejects commands with the server's error", async () => {
+    const { server, url } = await startServer(["+OK\r\n", "+OK\r\n", "-NOSCRIPT no scripting\r\n"]);
+    const store = new RedisRateLimitStore({ url });
+    try {
+      await expect(store.block("k", 1000)).rejects.toThrow("Redis error: NOSCRIPT no scripting");
+    } finally {
+      store.connection.close();
+      server.close();
+    }
+  });
+
+  it("fails the command and reconnects when a reply can't be parsed", async () => {
+    const { server, commands, url } = await startServer(["+OK\r\n", "+OK\r\n", "!garbled\r\n", "+OK\r\n", "+OK\r\n", ":0\r\n"]);
+    const store = new RedisRateLimitStore({ url });
+    try {
+      await expect(store.block("k", 1000)).rejects.toThrow('Unexpected Redis reply type "!"');
+      expect(await store.connection.command("DEL", "k")).toBe(0);
+      expect(commands.filter((command) => command.includes("AUTH"))).toHaveLength(2);
+    } finally {
+      store.connection.close();
+      server.close();
+    }
+  });
+
+  it("fails pending commands when the connection drops", async () => {
+    const connection = new RedisConnection("redis://127.0.0.1:1");
+    await expect(connection.command("PING")).rejects.toThrow();
+  });
+});
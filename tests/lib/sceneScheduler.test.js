@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SCHEDULER_LIMITS, SceneScheduler } from "@/lib/sceneScheduler";
+
+const { INITIAL_CONCURRENCY, MAX_CONCURRENCY } = SCHEDULER_LIMITS;
+
+describe("SceneScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows one more scene at once after a full round of clean renders", () => {
+    const scheduler = new SceneScheduler();
+    expect(scheduler.getPacing("replicate")).toMatchObject({ concurrency: INITIAL_CONCURRENCY, intervalMs: 0, latencyMs: null });
+
+    for (let i = 0; i < INITIAL_CONCURRENCY - 1; i++) scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").concurrency).toBe(INITIAL_CONCURRENCY);
+    scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").concurrency).toBe(INITIAL_CONCURRENCY + 1);
+
+    for (let i = 0; i < 100; i++) scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").concurrency).toBe(MAX_CONCURRENCY);
+  });
+
+  it("averages render latency", () => {
+    const scheduler = new SceneScheduler();
+    scheduler.recordSuccess("replicate", 10000);
+    scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").latencyMs).toBe(13000);
+  });
+
+  it("halves the parallelism on a 429 and paces renders below the refused rate", async () => {
+    vi.useFakeTimers();
+    const scheduler = new SceneScheduler();
+    for (let i = 0; i < 10; i++) await scheduler.waitForTurn("replicate");
+
+    scheduler.recordRateLimited("replicate");
+    // 10 renders in the last minute were too many: 8 a minute from now on
+    expect(scheduler.getPacing("replicate")).toEqual({
+      provider: "replicate",
+      concurrency: INITIAL_CONCURRENCY / 2,
+      intervalMs: 7500,
+      latencyMs: null,
+      rateCeilingPerMinute: 8,
+      rateLimited: 1
+    });
+    expect(scheduler.getPacing("http").concurrency).toBe(INITIAL_CONCURRENCY);
+
+    scheduler.recordRateLimited("replicate");
+    expect(scheduler.getPacing("replicate")).toMatchObject({ concurrency: 1, intervalMs: 15000 });
+  });
+
+  it("shortens the interval again as renders succeed", () => {
+    const scheduler = new SceneScheduler();
+    scheduler.recordRateLimited("replicate");
+    expect(scheduler.getPacing("replicate").intervalMs).toBe(1000);
+
+    scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").intervalMs).toBe(900);
+    for (let i = 0; i < 30; i++) scheduler.recordSuccess("replicate", 20000);
+    expect(scheduler.getPacing("replicate").intervalMs).toBe(0);
+  });
+
+  it("starts renders one interval apart", async () => {
+    vi.useFakeTimers();
+    const scheduler = new SceneScheduler();
+    scheduler.recordRateLimited("replicate");
+
+    const started = [];
+    const start = (n) => scheduler.waitForTurn("replicate").then(() => started.push(n));
+    start(1);
+    start(2);
+    start(3);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it("stops waiting when aborted", async () => {
+    const scheduler = new SceneScheduler({ MAX_INTERVAL_MS: 60 * 60 * 1000 });
+    for (let i = 0; i < 10; i++) scheduler.recordRateLimited("replicate");
+    await scheduler.waitForTurn("replicate");
+
+    const controller = new AbortController();
+    const pending = scheduler.waitForTurn("replicate", controller.signal);
+    controller.abort();
+    await expect(pending).resolves.toBeUndefined();
+  });
+});
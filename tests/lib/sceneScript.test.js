@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  SCENE_SCRIPT_RESPONSE_FORMAT,
+  formatDialogue,
+  parseDialogueText,
+  parseSceneScript,
+  sceneScriptFromParts
+} from "@/lib/sceneScript";
+
+const SCENE = {
+  visual: " Wide shot of a neon alley. Rain falls. ",
+  shots: [{ framing: "wide", camera: "slow push-in", action: "Kairo waits under a sign." }],
+  dialogue: [
+    { speaker: "Kairo", line: "You're late.", direction: "" },
+    { speaker: "Lyra", line: "I'm exactly on time.", direction: "(beat)" }
+  ],
+  endHook: "Lyra steps through the door as it slams shut.",
+  summary: "Kairo and Lyra meet in the alley and head inside.",
+  location: "a neon alley",
+  timeOfDay: "night",
+  props: ["a cracked umbrella"]
+};
+
+describe("scene scripts", () => {
+  it("parses the director's JSON reply", () => {
+    const scene = parseSceneScript(JSON.stringify(SCENE));
+    expect(scene.visual).toBe("Wide shot of a neon alley. Rain falls.");
+    expect(scene.dialogue[1]).toEqual({ speaker: "Lyra", line: "I'm exactly on time.", direction: "(beat)" });
+  });
+
+  it("lists every problem with an invalid reply", () => {
+    expect(() => parseSceneScript("SCENE_VISUAL:\nA quiet desert.")).toThrow("Scene script is not valid JSON");
+    expect(() => parseSceneScript({ ...SCENE, shots: [], summary: " ", visual: "x".repeat(2001) })).toThrow(
+      "Scene script is invalid: visual: must be at most 2000 characters; shots: Array must contain at least 1 element(s); summary: is required"
+    );
+  });
+
+  it("asks for a strict JSON schema without string lengths", () => {
+    const { json_schema: format } = SCENE_SCRIPT_RESPONSE_FORMAT;
+    expect(format).toMatchObject({ name: "scene_script", strict: true });
+    expect(format.schema.required).toEqual(["visual", "shots", "dialogue", "endHook", "summary", "location", "timeOfDay", "props"]);
+    expect(JSON.stringify(format.schema)).not.toContain("Length");
+  });
+
+  it("writes dialogue as screenplay lines and reads it back", () => {
+    const text = formatDialogue(SCENE.dialogue);
+    expect(text).toBe(`Kairo: "You're late."\nLyra (beat): "I'm exactly on time."`);
+    expect(parseDialogueText(`${text}\n(they stare at each other)`)).toEqual([
+      ...SCENE.dialogue,
+      { speaker: "", line: "(they stare at each other)", direction: "" }
+    ]);
+  });
+
+  it("types the text parts of a storyboard scene", () => {
+    expect(sceneScriptFromParts({ visual: "A quiet desert.", dialogue: 'Kairo: "Still."', summary: "Nothing moves." })).toEqual({
+      visual: "A quiet desert.",
+      shots: [],
+      dialogue: [{ speaker: "Kairo", line: "Still.", direction: "" }],
+      endHook: "Nothing moves.",
+      summary: "Nothing moves.",
+      location: "",
+      timeOfDay: "",
+      props: []
+    });
+  });
+});
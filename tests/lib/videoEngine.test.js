@@ -0,0 +1,627 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreaker,
+  VIDEO_CONSTRAINTS,
+  VIDEO_MODELS,
+  clampModelDuration,
+  estimateMovie,
+  extractSceneParts,
+  generateSceneScript,
+  generateSceneVideo,
+  normalizeStoryboardScenes,
+  processScenesInParallel,
+  reconcileProviderCosts,
+  resolveSceneDuration,
+  saveVideo
+} from "@/lib/videoEngine";
+import { createMockSupabaseClient, getMockStore } from "@/lib/mockBackend";
+import { getBudgetManager } from "@/lib/budgetManager";
+import { getRateLimiter, RATE_LIMITS } from "@/lib/rateLimiter";
+import { getSceneScheduler } from "@/lib/sceneScheduler";
+import { runPrediction } from "@/lib/videoProviders";
+import { FakeVideoProvider, fakeClients } from "../helpers";
+
+const FULL_SCRIPT = `SCENE_VISUAL:
+Wide shot of a neon alley. Rain falls.
+The camera pushes in.
+
+DIALOGUE:
+Kairo: "You're late."
+Lyra: "I'm exactly on time."
+
+SCENE_END_HOOK:
+Lyra steps through the door as it slams shut.
+
+SCENE_SUMMARY:
+Kairo and Lyra meet in the alley and head inside.`;
+
+const REFERENCE_IMAGE = "https://images.test/characters/aris.png";
+
+describe("extractSceneParts", () => {
+  it("splits a script in the strict director format", () => {
+    const parts = extractSceneParts(FULL_SCRIPT);
+    expect(parts.visual).toBe("Wide shot of a neon alley. Rain falls.\nThe camera pushes in.");
+    expect(parts.dialogue).toBe(`Kairo: "You're late."\nLyra: "I'm exactly on time."`);
+    expect(parts.endHook).toBe("Lyra steps through the door as it slams shut.");
+    expect(parts.summary).toBe("Kairo and Lyra meet in the alley and head inside.");
+    expect(parts.fullScript).toBe(FULL_SCRIPT);
+  });
+
+  it("handles a script without dialogue or end hook", () => {
+    const parts = extractSceneParts("SCENE_VISUAL:\nA quiet desert.\n\nSCENE_SUMMARY:\nNothing moves.");
+    expect(parts.visual).toBe("A quiet desert.");
+    expect(parts.dialogue).toBe("");
+    expect(parts.endHook).toBe("");
+    expect(parts.summary).toBe("Nothing moves.");
+  });
+
+  it("keeps an empty dialogue section empty", () => {
+    const parts = extractSceneParts("SCENE_VISUAL:\nA quiet desert.\n\nDIALOGUE:\n\n\nSCENE_END_HOOK:\nWind picks up.\n\nSCENE_SUMMARY:\nStill.");
+    expect(parts.dialogue).toBe("");
+    expect(parts.endHook).toBe("Wind picks up.");
+  });
+
+  it("falls back to the raw text when the format is ignored", () => {
+    const freeform = "x".repeat(600);
+    const parts = extractSceneParts(freeform);
+    expect(parts.visual).toBe(freeform.substring(0, 500));
+    expect(parts.summary).toBe("Scene continues the story.");
+  });
+});
+
+describe("generateSceneScript", () => {
+  const SCENE = {
+    visual: "Wide shot of a neon alley.",
+    shots: [{ framing: "wide", camera: "slow push-in", action: "Kairo waits." }],
+    dialogue: [{ speaker: "Kairo", line: "You're late.", direction: "" }],
+    endHook: "Lyra steps through the door.",
+    summary: "Kairo and Lyra meet in the alley.",
+    location: "a neon alley",
+    timeOfDay: "night",
+    props: []
+  };
+  const USAGE = { prompt_tokens: 1000, completion_tokens: 500 };
+  const replies = (...contents) => {
+    const create = vi.fn();
+    for (const content of contents) {
+      create.mockResolvedValueOnce({ choices: [{ message: { role: "assistant", content } }], usage: USAGE });
+    }
+    return { chat: { completions: { create } } };
+  };
+  const write = (openai) =>
+    generateSceneScript({
+      openai,
+      openaiModel: "gpt-4o-mini",
+      storySoFar: "",
+      sceneNumber: 1,
+      totalScenes: 2,
+      characters: [{ name: "Kairo" }],
+      baseStoryPrompt: "Two rivals meet in a neon city",
+      owner: { jobId: "job-1" }
+    });
+
+  it("asks for the scene as structured output", async () => {
+    const openai = replies(JSON.stringify(SCENE));
+    expect(await write(openai)).toEqual(SCENE);
+    expect(openai.chat.completions.create.mock.calls[0][0].response_format.json_schema.name).toBe("scene_script");
+  });
+
+  it("sends an invalid reply back once to be repaired and charges both calls", async () => {
+    const broken = JSON.stringify({ ...SCENE, shots: [] });
+    const openai = replies(broken, JSON.stringify(SCENE));
+    expect(await write(openai)).toEqual(SCENE);
+
+    const [, [repair]] = openai.chat.completions.create.mock.calls;
+    expect(repair.messages.slice(2)).toEqual([
+      { role: "assistant", content: broken },
+      { role: "user", content: expect.stringContaining("shots: Array must contain at least 1 element(s)") }
+    ]);
+    expect(getMockStore().tables.cost_ledger).toHaveLength(2);
+  });
+
+  it("fails the scene instead of making up a script when the repair fails too", async () => {
+    const openai = replies("SCENE_VISUAL:\nA quiet desert.", "{}");
+    await expect(write(openai)).rejects.toThrow(/^Scene 1 script still invalid after 1 repair\(s\): Scene script is invalid: visual: Required/);
+    expect(openai.chat.completions.create).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("clampModelDuration", () => {
+  const veo = VIDEO_MODELS["google/veo-3.1-fast"];
+  const luma = VIDEO_MODELS["luma/dream-machine"];
+
+  it("snaps to the closest allowed duration", () => {
+    expect(clampModelDuration(veo, 5)).toBe(4);
+    expect(clampModelDuration(veo, 7)).toBe(6);
+    expect(clampModelDuration(veo, 6)).toBe(6);
+  });
+
+  it("clamps to the model maximum before snapping", () => {
+    expect(clampModelDuration(veo, 20)).toBe(8);
+    expect(clampModelDuration(luma, 45)).toBe(luma.maxDuration);
+  });
+
+  it("never goes below the engine minimum", () => {
+    expect(clampModelDuration(luma, 1)).toBe(VIDEO_CONSTRAINTS.MIN_DURATION);
+  });
+});
+
+describe("resolveSceneDuration", () => {
+  it("uses 6s scenes for a 30s Veo movie", () => {
+    expect(resolveSceneDuration(30, 10, "google/veo-3.1-fast")).toBe(6);
+  });
+
+  it("uses 10s scenes for a 30s movie on free-duration models", () => {
+    expect(resolveSceneDuration(30, 6, "luma/dream-machine")).toBe(10);
+  });
+
+  it("keeps the requested length when the model accepts it", () => {
+    expect(resolveSceneDuration(120, 12, "luma/dream-machine")).toBe(12);
+    expect(resolveSceneDuration(120, 9, "google/veo-3.1-fast")).toBe(8);
+  });
+});
+
+describe("estimateMovie", () => {
+  it("counts scenes after snapping their length to the model and prices tokens in and out", () => {
+    const estimate = estimateMovie({ totalDurationSeconds: 120, sceneDuration: 10, modelChain: ["google/veo-3.1-fast"] });
+    expect(estimate).toMatchObject({ scenes: 15, sceneDuration: 8, durationSeconds: 120 });
+    expect(estimate.tokens).toEqual({ model: "gpt-4o-mini", inputTokens: 4500, outputTokens: 3000 });
+    expect(estimate.cost.video).toBeCloseTo(15 * 8 * 0.015, 10);
+    expect(estimate.cost.openai).toBeCloseTo(4.5 * 0.00015 + 3 * 0.0006, 10);
+    expect(estimate.cost.total).toBeCloseTo(estimate.cost.video + estimate.cost.openai, 10);
+  });
+
+  it("prices the worst case as every scene falling back to the most expensive model", () => {
+    const { models, cost } = estimateMovie({
+      totalDurationSeconds: 120,
+      sceneDuration: 10,
+      modelChain: ["anotherjesse/zeroscope-v2-xl", "google/veo-3.1-fast"]
+    });
+    // Veo can't render 10s clips, so as a fallback it bills 8s per scene
+    expect(models.map((m) => [m.model, m.sceneDuration])).toEqual([
+      ["anotherjesse/zeroscope-v2-xl", 10],
+      ["google/veo-3.1-fast", 8]
+    ]);
+    expect(cost.video).toBeCloseTo(12 * 10 * 0.007, 10);
+    expect(cost.worstCase - cost.openai).toBeCloseTo(12 * 8 * 0.015, 10);
+  });
+
+  it("times scenes the way createMovie runs them: scripts in order, renders overlapping", () => {
+    const { EXPECTED_SCRIPT_SECONDS: script, EXPECTED_RENDER_SECONDS: render } = VIDEO_CONSTRAINTS;
+
+    // Two at a time: the second script is written while the first scene renders
+    expect(estimateMovie({ totalDurationSeconds: 16, sceneDuration: 8 }).time).toEqual({
+      seconds: 2 * script + render,
+      parallel: true,
+      concurrency: 2,
+      sceneIntervalSeconds: 0
+    });
+    expect(estimateMovie({ totalDurationSeconds: 40, sceneDuration: 8 }).time.seconds).toBe(72);
+    expect(estimateMovie({ totalDurationSeconds: 16, sceneDuration: 8, enableParallel: false }).time.seconds).toBe(2 * (script + render));
+  });
+
+  it("uses the pacing the scheduler has learned", () => {
+    // Offline every model renders with the mock provider
+    const scheduler = getSceneScheduler();
+    scheduler.recordSuccess("mock", 30000);
+    scheduler.recordRateLimited("mock");
+
+    expect(estimateMovie({ totalDurationSeconds: 16, sceneDuration: 8 }).time).toEqual({
+      seconds: 2 * (6 + 30),
+      parallel: false,
+      concurrency: 1,
+      sceneIntervalSeconds: 1
+    });
+  });
+
+  it("only charges the scripts of a storyboard", () => {
+    const estimate = estimateMovie({ totalDurationSeconds: 40, sceneDuration: 8, mode: "storyboard" });
+    expect(estimate.cost).toMatchObject({ video: 0, total: estimate.cost.openai, worstCase: estimate.cost.openai });
+    expect(estimate.time.seconds).toBe(5 * VIDEO_CONSTRAINTS.EXPECTED_SCRIPT_SECONDS);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after the failure threshold and closes on success", () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    expect(breaker.getStatus("m")).toBe("closed");
+
+    breaker.recordFailure("m");
+    expect(breaker.getStatus("m")).toBe("half-open");
+    expect(breaker.canExecute("m")).toBe(true);
+
+    expect(breaker.recordFailure("m")).toBe(2);
+    expect(breaker.getStatus("m")).toBe("open");
+    expect(breaker.canExecute("m")).toBe(false);
+
+    breaker.recordSuccess("m");
+    expect(breaker.getStatus("m")).toBe("closed");
+    expect(breaker.canExecute("m")).toBe(true);
+  });
+
+  it("lets a model through again after the reset timeout", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure("m");
+    expect(breaker.canExecute("m")).toBe(false);
+
+    vi.advanceTimersByTime(1001);
+    expect(breaker.canExecute("m")).toBe(true);
+    expect(breaker.getStatus("m")).toBe("closed");
+  });
+
+  it("tracks models independently", () => {
+    const breaker = new CircuitBreaker(1);
+    breaker.recordFailure("a");
+    expect(breaker.canExecute("a")).toBe(false);
+    expect(breaker.canExecute("b")).toBe(true);
+  });
+});
+
+describe("processScenesInParallel", () => {
+  const deferred = () => {
+    let resolve;
+    const promise = new Promise((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it("runs every scene and keeps results in scene order", async () => {
+    const delays = [30, 5, 15];
+    const fns = delays.map((ms, i) => () => new Promise((resolve) => setTimeout(() => resolve({ scene: i + 1, success: true }), ms)));
+    const results = await processScenesInParallel(fns, 3);
+    expect(results.map((r) => r.scene)).toEqual([1, 2, 3]);
+  });
+
+  it("never runs more than maxParallel scenes at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const fns = Array.from({ length: 5 }, (_, i) => async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return { scene: i + 1, success: true };
+    });
+    await processScenesInParallel(fns, 2);
+    expect(peak).toBe(2);
+  });
+
+  it("turns a thrown scene into a failed result without stopping the others", async () => {
+    const fns = [
+      async () => ({ scene: 1, success: true }),
+      async () => {
+        throw new Error("model down");
+      },
+      async () => ({ scene: 3, success: true })
+    ];
+    const results = await processScenesInParallel(fns, 2);
+    expect(results).toEqual([
+      { scene: 1, success: true },
+      { scene: 2, error: "model down", success: false },
+      { scene: 3, success: true }
+    ]);
+  });
+
+  it("marks every scene aborted when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn(async () => ({ success: true }));
+    const results = await processScenesInParallel([fn, fn], 2, controller.signal);
+    expect(fn).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      { scene: 1, error: "Generation aborted", success: false, aborted: true },
+      { scene: 2, error: "Generation aborted", success: false, aborted: true }
+    ]);
+  });
+
+  it("stops starting scenes and returns right away once aborted", async () => {
+    const controller = new AbortController();
+    const first = deferred();
+    const started = [];
+    const fns = [1, 2, 3].map((scene) => () => {
+      started.push(scene);
+      return scene === 1 ? first.promise : Promise.resolve({ scene, success: true });
+    });
+
+    const pending = processScenesInParallel(fns, 1, controller.signal);
+    controller.abort();
+    first.resolve({ scene: 1, success: true });
+    const results = await pending;
+
+    expect(started).toEqual([1]);
+    // Results of scenes that finish after the abort are dropped
+    expect(results).toEqual([]);
+  });
+});
+
+describe("generateSceneVideo", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renders with the first model that succeeds and reports its cost", async () => {
+    const clients = fakeClients();
+    const result = await generateSceneVideo(clients, "a prompt", 6, ["luma/dream-machine"]);
+
+    expect(result).toMatchObject({
+      model: "luma/dream-machine",
+      duration: 6,
+      provider: "replicate",
+      videoUrl: "https://clips.test/luma/dream-machine/fake-1.mp4"
+    });
+    expect(result.costReport.estimated).toBeCloseTo(0.06);
+    expect(getBudgetManager().getBudgetStatus().current).toBeCloseTo(0.06);
+  });
+
+  it("prefers the provider-reported cost over the catalog price", async () => {
+    const clients = fakeClients({ replicate: new FakeVideoProvider("replicate", { cost: 0.5 }) });
+    await generateSceneVideo(clients, "a prompt", 6, ["luma/dream-machine"]);
+    expect(getBudgetManager().getBudgetStatus().current).toBeCloseTo(0.5);
+  });
+
+  it("charges hardware-billed models for the predict time and keeps the estimate next to it", async () => {
+    await generateSceneVideo(fakeClients(), "a prompt", 6, ["stability-ai/svd"], null, 0, null, {}, REFERENCE_IMAGE);
+
+    const [row] = getMockStore().tables.cost_ledger;
+    expect(row).toMatchObject({ prediction_id: "fake-1", prediction_status: "succeeded", predict_time: 1, hardware: "gpu-a100-large" });
+    expect(row.estimated_amount).toBeCloseTo(6 * 0.008);
+    expect(row.provider_cost).toBeCloseTo(0.0014);
+    expect(row.amount).toBeCloseTo(0.0014);
+  });
+
+  it("charges a failed prediction for the GPU time it used", async () => {
+    const provider = new FakeVideoProvider("replicate", { outcomes: ["fail", "succeed"] });
+    provider.poll = async (id) => ({ id, status: "failed", metrics: { predict_time: 30 } });
+    await generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["stability-ai/svd", "luma/dream-machine"], null, 0, null, {}, REFERENCE_IMAGE);
+
+    const [failed, rendered] = getMockStore().tables.cost_ledger;
+    expect(failed).toMatchObject({ model: "stability-ai/svd", prediction_status: "failed", estimated_amount: 0, seconds: null });
+    expect(failed.amount).toBeCloseTo(30 * 0.0014);
+    expect(rendered).toMatchObject({ model: "luma/dream-machine", prediction_status: "succeeded", provider_cost: null });
+  });
+
+  it("passes the clamped duration to the model", async () => {
+    const provider = new FakeVideoProvider("replicate");
+    const result = await generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 7, ["google/veo-3.1-fast"]);
+    expect(result.duration).toBe(6);
+    expect(provider.submitted[0].input.duration).toBe(6);
+  });
+
+  it("gives image-to-video models the conditioning image and keeps it from text-only ones", async () => {
+    const provider = new FakeVideoProvider("replicate");
+    const render = (model) => generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, [model], null, 0, null, {}, REFERENCE_IMAGE);
+
+    expect((await render("stability-ai/svd")).image).toBe(REFERENCE_IMAGE);
+    await render("luma/dream-machine");
+    expect((await render("anotherjesse/zeroscope-v2-xl")).image).toBeNull();
+
+    const [svd, luma, zeroscope] = provider.submitted.map((s) => s.input);
+    expect(svd).toMatchObject({ input_image: REFERENCE_IMAGE, num_frames: 144 });
+    expect(luma.start_image_url).toBe(REFERENCE_IMAGE);
+    expect(zeroscope).not.toHaveProperty("image");
+  });
+
+  it("skips models that need an image when the scene has none", async () => {
+    const provider = new FakeVideoProvider("replicate");
+    const onFallback = vi.fn();
+    const result = await generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["stability-ai/svd", "luma/dream-machine"], null, 0, onFallback);
+
+    expect(result.model).toBe("luma/dream-machine");
+    expect(provider.submitted).toHaveLength(1);
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ model: "stability-ai/svd", error: expect.stringContaining("conditioning image") }));
+  });
+
+  it("falls back to the next model and reports each fallback", async () => {
+    const provider = new FakeVideoProvider("replicate", { outcomes: ["fail", "succeed"] });
+    const onFallback = vi.fn();
+    const result = await generateSceneVideo(
+      fakeClients({ replicate: provider }),
+      "a prompt",
+      6,
+      ["luma/dream-machine", "anotherjesse/zeroscope-v2-xl"],
+      null,
+      0,
+      onFallback
+    );
+
+    expect(result.model).toBe("anotherjesse/zeroscope-v2-xl");
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "luma/dream-machine", remainingModels: ["anotherjesse/zeroscope-v2-xl"] })
+    );
+  });
+
+  it("skips models whose provider isn't configured", async () => {
+    const clients = fakeClients({
+      http: new FakeVideoProvider("http", { configured: false }),
+      replicate: new FakeVideoProvider("replicate")
+    });
+    const previous = VIDEO_MODELS["luma/dream-machine"].provider;
+    VIDEO_MODELS["luma/dream-machine"].provider = "http";
+    try {
+      const result = await generateSceneVideo(clients, "a prompt", 6, ["luma/dream-machine", "anotherjesse/zeroscope-v2-xl"]);
+      expect(result.model).toBe("anotherjesse/zeroscope-v2-xl");
+      expect(clients.videoProviders.http.submitted).toHaveLength(0);
+    } finally {
+      VIDEO_MODELS["luma/dream-machine"].provider = previous;
+    }
+  });
+
+  it("lists every model's error when the whole chain fails", async () => {
+    const provider = new FakeVideoProvider("replicate", { outcomes: ["fail", new Error("boom")] });
+    await expect(
+      generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["luma/dream-machine", "anotherjesse/zeroscope-v2-xl"])
+    ).rejects.toThrow(/All video generation models failed:[\s\S]*luma\/dream-machine[\s\S]*zeroscope-v2-xl: boom/);
+  });
+
+  it("explains a 402 as missing credit", async () => {
+    const provider = new FakeVideoProvider("replicate", { outcomes: [new Error("Request failed with status 402 Payment Required")] });
+    await expect(generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["luma/dream-machine"])).rejects.toThrow(
+      /insufficient credit/
+    );
+  });
+
+  it("waits for a rate-limit slot instead of falling back", async () => {
+    vi.useFakeTimers();
+    const limiter = getRateLimiter();
+    for (let i = 0; i < RATE_LIMITS.replicate.requestsPerMinute; i++) await limiter.acquire("replicate", { model: "luma/dream-machine" });
+
+    const provider = new FakeVideoProvider("replicate");
+    const pending = generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["luma/dream-machine", "stability-ai/svd"]);
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect((await pending).model).toBe("luma/dream-machine");
+    expect(provider.submitted).toHaveLength(1);
+  });
+
+  it("holds a model off for its Retry-After after a 429, then retries it", async () => {
+    vi.useFakeTimers();
+    const tooMany = Object.assign(new Error("Request failed with status 429 Too Many Requests"), { status: 429, retryAfterMs: 20000 });
+    const provider = new FakeVideoProvider("replicate", { outcomes: [tooMany] });
+    const pending = generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["luma/dream-machine"]);
+
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(provider.submitted).toHaveLength(0);
+    expect((await getRateLimiter().check("replicate", { model: "luma/dream-machine" })).reason).toMatch(/asked us to retry/);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await pending).model).toBe("luma/dream-machine");
+    expect(provider.submitted).toHaveLength(1);
+    // The scheduler learned from it too (and the clean retry already won back a scene)
+    expect(getSceneScheduler().getPacing("replicate")).toMatchObject({ concurrency: 2, intervalMs: 900, rateLimited: 1 });
+  });
+
+  it("skips models the owner can no longer afford", async () => {
+    await getBudgetManager().setScopeLimits("user", "ana", { daily: 0.07 });
+    const provider = new FakeVideoProvider("replicate");
+    const result = await generateSceneVideo(
+      fakeClients({ replicate: provider }),
+      "a prompt",
+      6,
+      ["google/veo-3.1-fast", "luma/dream-machine"],
+      null,
+      0,
+      null,
+      { userId: "ana" }
+    );
+    expect(result.model).toBe("luma/dream-machine");
+    expect(provider.submitted).toHaveLength(1);
+  });
+
+  it("does not submit anything once aborted", async () => {
+    const provider = new FakeVideoProvider("replicate");
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      generateSceneVideo(fakeClients({ replicate: provider }), "a prompt", 6, ["luma/dream-machine"], controller.signal)
+    ).rejects.toThrow("Generation aborted by user");
+    expect(provider.submitted).toHaveLength(0);
+  });
+
+  it("rejects a chain without enabled models", async () => {
+    await expect(generateSceneVideo(fakeClients(), "a prompt", 6, ["nope/unknown"])).rejects.toThrow(
+      "No enabled video models available"
+    );
+  });
+});
+
+describe("runPrediction", () => {
+  it("cancels the prediction as soon as it is aborted, without waiting for the next poll", async () => {
+    const provider = new FakeVideoProvider("replicate", { outcomes: ["processing"] });
+    const controller = new AbortController();
+    const pending = runPrediction(provider, "luma/dream-machine", { prompt: "a prompt" }, {
+      abortSignal: controller.signal,
+      timeoutMs: 10 * 60 * 1000,
+      pollIntervalMs: 60 * 1000
+    });
+
+    await vi.waitFor(() => expect(provider.submitted).toHaveLength(1));
+    controller.abort();
+    await expect(pending).rejects.toThrow("Generation aborted by user");
+    expect(provider.canceled).toEqual(["fake-1"]);
+  });
+});
+
+describe("saveVideo", () => {
+  const bundledClip = pathToFileURL(path.join(process.cwd(), "public", "mock-clips", "scene-1.mp4")).href;
+  const clients = () => ({ supabase: createMockSupabaseClient() });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uploads a bundled mock clip", async () => {
+    const url = await saveVideo(clients(), bundledClip);
+    expect(url).toMatch(/\/api\/mock-storage\/videos\/videos\/.+\.mp4$/);
+  });
+
+  it("never reads files outside the mock clips directory", async () => {
+    await expect(saveVideo(clients(), "file:///etc/passwd")).rejects.toThrow("outside the mock clips directory");
+    await expect(saveVideo(clients(), `${bundledClip}/../../../package.json`)).rejects.toThrow("outside the mock clips directory");
+    await expect(saveVideo(clients(), "FILE:///nowhere/.env")).rejects.toThrow("Local clip not found");
+
+    vi.stubEnv("VIDEO_ENGINE_MODE", "live");
+    await expect(saveVideo(clients(), bundledClip)).rejects.toThrow("only accepted in mock mode");
+  });
+
+  it("refuses local file URLs from real providers", async () => {
+    await expect(new FakeVideoProvider().fetchOutput({ output: "file:///etc/passwd" })).rejects.toThrow(
+      "Video provider replicate returned a local file URL"
+    );
+  });
+});
+
+describe("reconcileProviderCosts", () => {
+  it("settles renders charged at the estimate once the provider reports their metrics", async () => {
+    const provider = new FakeVideoProvider("replicate");
+    await getBudgetManager().trackCost("replicate", 0.048, { userId: "ana", jobId: "job-1" }, {
+      model: "stability-ai/svd",
+      seconds: 6,
+      unitPrice: 0.008,
+      predictionId: "late-1",
+      predictionStatus: "succeeded",
+      estimatedAmount: 0.048
+    });
+    provider.poll = async (id) => ({ id, status: "succeeded", metrics: { predict_time: 20 } });
+
+    const summary = await reconcileProviderCosts({}, fakeClients({ replicate: provider }));
+    expect(summary).toMatchObject({ checked: 1, reconciled: 1, unavailable: 0 });
+    expect(summary.adjustment).toBeCloseTo(20 * 0.0014 - 0.048);
+    expect(await getBudgetManager().getLedgerTotal({ jobId: "job-1" })).toBeCloseTo(0.028);
+    expect((await reconcileProviderCosts({}, fakeClients({ replicate: provider }))).checked).toBe(0);
+
+    const [drift] = await getBudgetManager().getCostDrift();
+    expect(drift).toMatchObject({ model: "stability-ai/svd", predictions: 1, reported: 1, driftPercent: -41.7 });
+    expect(drift.drift).toBeCloseTo(-0.02);
+  });
+
+  it("leaves predictions without a reported cost for the next run", async () => {
+    await getBudgetManager().trackCost("replicate", 0.06, { userId: "ana" }, {
+      model: "luma/dream-machine",
+      predictionId: "official-1",
+      predictionStatus: "succeeded",
+      estimatedAmount: 0.06
+    });
+    const summary = await reconcileProviderCosts({}, fakeClients());
+    expect(summary).toMatchObject({ checked: 1, reconciled: 0, unavailable: 1 });
+  });
+});
+
+describe("normalizeStoryboardScenes", () => {
+  it("trims fields and assigns missing ids", () => {
+    const [scene] = normalizeStoryboardScenes([{ visual: "  A ship lands.  ", dialogue: undefined }]);
+    expect(scene).toMatchObject({ visual: "A ship lands.", dialogue: "", endHook: "", summary: "" });
+    expect(scene.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("rejects empty storyboards and scenes without visuals", () => {
+    expect(() => normalizeStoryboardScenes([])).toThrow("at least one scene");
+    expect(() => normalizeStoryboardScenes([{ visual: "ok" }, { visual: "  " }])).toThrow("Scene 2: visual description is required");
+    expect(() => normalizeStoryboardScenes([{ visual: "ok", dialogue: 3 }])).toThrow("Scene 1: dialogue must be a string");
+  });
+});
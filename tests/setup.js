@@ -0,0 +1,26 @@
+/**
+ * Test setup - every test runs against the offline mock backend (VIDEO_ENGINE_MODE=mock),
+ * starting from a fresh in-memory database, an untouched budget and empty rate-limit buckets.
+ */
+
+import { beforeEach, vi } from "vitest";
+
+process.env.VIDEO_ENGINE_MODE = "mock";
+
+const { resetMockStore } = await import("@/lib/mockBackend");
+const { getBudgetManager } = await import("@/lib/budgetManager");
+const { resetRateLimiter } = await import("@/lib/rateLimiter");
+const { getSceneScheduler } = await import("@/lib/sceneScheduler");
+const { circuitBreaker } = await import("@/lib/videoEngine");
+
+beforeEach(() => {
+  resetMockStore();
+  getBudgetManager().reset();
+  resetRateLimiter();
+  circuitBreaker.failures.clear();
+  getSceneScheduler().reset();
+
+  // The engine and the routes narrate every step and every handled error; keep test output readable
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
@@ -0,0 +1,23 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.join(root, "src"),
+      // Next.js resolves this marker to an empty module on the server; tests run server-side too
+      "server-only": path.join(root, "node_modules/next/dist/compiled/server-only/empty.js")
+    }
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.js"],
+    setupFiles: ["tests/setup.js"],
+    // The engine and the route handlers share module-level singletons (budget, circuit breaker, mock store)
+    fileParallelism: false,
+    restoreMocks: true
+  }
+});